@@ -6,9 +6,11 @@
  * para envio/recebimento de mensagens WhatsApp.
  */
 
+import { createHash } from 'node:crypto';
 import { createLogger } from '../lib/logger.js';
 import { config } from '../config/index.js';
 import { randomDelay } from '../safety/rate-limiter.js';
+import { redisSet, redisGet, REDIS_KEYS } from '../lib/redis.js';
 
 const logger = createLogger('WHATSAPP');
 
@@ -59,8 +61,9 @@ export type EvolutionMessage = {
   message: {
     conversation?: string;
     extendedTextMessage?: { text: string };
-    audioMessage?: { url: string; mimetype: string };
-    imageMessage?: { url: string; caption?: string };
+    audioMessage?: { url: string; mimetype: string; seconds?: number; ptt?: boolean };
+    imageMessage?: { url: string; mimetype?: string; caption?: string };
+    documentMessage?: { url: string; mimetype?: string; fileName?: string; caption?: string };
   };
   messageType: string;
   messageTimestamp: number;
@@ -89,6 +92,57 @@ export function extractMessageText(msg: EvolutionMessage): string | null {
   );
 }
 
+// ============================================================
+// EXTRAIR MÍDIA DE UMA MENSAGEM (áudio, imagem, documento)
+// ============================================================
+export type InboundMedia = {
+  kind: 'audio' | 'image' | 'document';
+  mimetype: string;
+  caption?: string;
+  fileName?: string;
+  seconds?: number;
+};
+
+export function extractMedia(msg: EvolutionMessage): InboundMedia | null {
+  const { audioMessage, imageMessage, documentMessage } = msg.message;
+
+  if (audioMessage) {
+    return { kind: 'audio', mimetype: audioMessage.mimetype, seconds: audioMessage.seconds };
+  }
+  if (imageMessage) {
+    return { kind: 'image', mimetype: imageMessage.mimetype ?? 'image/jpeg', caption: imageMessage.caption };
+  }
+  if (documentMessage) {
+    return {
+      kind: 'document',
+      mimetype: documentMessage.mimetype ?? 'application/octet-stream',
+      caption: documentMessage.caption,
+      fileName: documentMessage.fileName,
+    };
+  }
+  return null;
+}
+
+// ============================================================
+// BAIXAR MÍDIA RECEBIDA
+// A URL do WhatsApp é criptografada — a Evolution API devolve o arquivo em base64
+// ============================================================
+export async function downloadMedia(msg: EvolutionMessage): Promise<{ buffer: Buffer; mimetype: string }> {
+  const result = await apiRequest<{ base64: string; mimetype?: string }>(
+    `/chat/getBase64FromMediaMessage/${INSTANCE_NAME}`,
+    {
+      method: 'POST',
+      body: { message: { key: { id: msg.key.id } }, convertToMp4: false },
+    }
+  );
+
+  const media = extractMedia(msg);
+  return {
+    buffer: Buffer.from(result.base64, 'base64'),
+    mimetype: result.mimetype ?? media?.mimetype ?? 'application/octet-stream',
+  };
+}
+
 // ============================================================
 // EXTRAIR NÚMERO DO JID
 // ============================================================
@@ -103,6 +157,47 @@ export function phoneToJid(phone: string): string {
   return `${normalized}@s.whatsapp.net`;
 }
 
+// ============================================================
+// REGISTRO DE ENVIOS DO BOT
+// O webhook devolve com fromMe=true tanto o que o bot enviou quanto o que
+// o consultor digitou no celular. O que não estiver aqui é humano.
+// O texto é registrado antes do envio (o webhook pode chegar antes da resposta HTTP).
+// ============================================================
+const OUTGOING_TTL_SEC = 10 * 60;
+const recentOutgoing = new Map<string, number>(); // chave → expira em (ms)
+
+function outgoingKeys(phone: string, text: string | null, messageId?: string): string[] {
+  const keys = [text !== null
+    ? `txt:${phone}:${createHash('sha1').update(text.trim()).digest('hex').substring(0, 16)}`
+    : `media:${phone}`];
+  if (messageId) keys.push(`id:${messageId}`);
+  return keys;
+}
+
+function rememberOutgoing(keys: string[]): void {
+  const expiresAt = Date.now() + OUTGOING_TTL_SEC * 1000;
+  for (const key of keys) {
+    recentOutgoing.set(key, expiresAt);
+    redisSet(REDIS_KEYS.outgoing(key), 1, OUTGOING_TTL_SEC).catch(() => {});
+  }
+  // Limpeza preguiçosa
+  if (recentOutgoing.size > 5000) {
+    const now = Date.now();
+    for (const [key, exp] of recentOutgoing) if (exp < now) recentOutgoing.delete(key);
+  }
+}
+
+export async function isBotMessage(msg: EvolutionMessage): Promise<boolean> {
+  const phone = jidToPhone(msg.key.remoteJid);
+  const keys = outgoingKeys(phone, extractMessageText(msg), msg.key.id);
+
+  for (const key of keys) {
+    if ((recentOutgoing.get(key) ?? 0) > Date.now()) return true;
+    if (await redisGet<number>(REDIS_KEYS.outgoing(key))) return true;
+  }
+  return false;
+}
+
 // ============================================================
 // ENVIAR MENSAGEM DE TEXTO (com delay humanizado)
 // ============================================================
@@ -120,6 +215,7 @@ export async function sendText(
     await randomDelay();
   }
 
+  rememberOutgoing(outgoingKeys(phone, text));
   const result = await apiRequest<SendTextResult>(
     `/message/sendText/${INSTANCE_NAME}`,
     {
@@ -132,6 +228,7 @@ export async function sendText(
     }
   );
 
+  rememberOutgoing(outgoingKeys(phone, text, result.key.id));
   logger.info(`Mensagem enviada: ${result.key.id}`);
   return result;
 }
@@ -152,6 +249,7 @@ export async function sendAudio(
     ? `data:audio/mpeg;base64,${audio.toString('base64')}`
     : audio;
 
+  rememberOutgoing(outgoingKeys(phone, null));
   await apiRequest(`/message/sendWhatsAppAudio/${INSTANCE_NAME}`, {
     method: 'POST',
     body: {
@@ -13,26 +13,36 @@ import {
   sendTyping,
   markAsRead,
   extractMessageText,
+  extractMedia,
   jidToPhone,
+  isBotMessage,
   type EvolutionMessage,
   type EvolutionWebhookPayload,
 } from './whatsapp-client.js';
 export type { EvolutionWebhookPayload } from './whatsapp-client.js';
-import { enqueueSend, isWithinAllowedHours } from '../safety/rate-limiter.js';
+import { isWithinAllowedHours } from '../safety/rate-limiter.js';
+import { enqueueText } from '../safety/outbound-queue.js';
 import { v4 as uuidv4 } from 'uuid';
 import { hasActiveCheckinSession, handleCheckinResponse } from '../engine/checkin-flow.js';
 import { processReorderConfirmation } from '../pipeline/reorder-trigger.js';
 import { triggerAudioIfHighScore } from '../media/audio-messages.js';
+import { findHumanConversation, appendHumanModeMessage, handleConsultantMessage } from '../engine/human-takeover.js';
+import { transcribeVoiceNote, storeInboundFile, VOICE_NOTE_FALLBACK_REPLY } from '../media/inbound-media.js';
+import { resolveTimeZone } from '../lib/timezone.js';
+import { attributeReferral } from '../pipeline/referrals.js';
+import { handleSequenceReply, exitEnrollments, OPT_OUT_REPLY } from '../pipeline/sequence-enrollments.js';
 
 const logger = createLogger('WA-HANDLER');
 
 // ============================================================
-// MAPA DE TELEFONE → CONSULTOR
+// MAPA DE TELEFONE → CONSULTOR (com o fuso dele)
 // Cache local para evitar query no banco a cada mensagem
 // ============================================================
-const phoneConsultantCache = new Map<string, string>();
+type ConsultantRef = { id: string; timeZone: string };
 
-async function findConsultantByPhone(phone: string): Promise<string | null> {
+const phoneConsultantCache = new Map<string, ConsultantRef>();
+
+async function findConsultantByPhone(phone: string): Promise<ConsultantRef | null> {
   if (phoneConsultantCache.has(phone)) {
     return phoneConsultantCache.get(phone)!;
   }
@@ -42,16 +52,32 @@ async function findConsultantByPhone(phone: string): Promise<string | null> {
   // Então buscamos o consultor pelo campo `phone` na tabela consultants
   const { data } = await db.client
     .from('consultants')
-    .select('id')
+    .select('id, timezone')
     .eq('phone', phone)
     .eq('active', true)
     .single();
 
-  const consultantId = (data as { id: string } | null)?.id ?? null;
-  if (consultantId) {
-    phoneConsultantCache.set(phone, consultantId);
-  }
-  return consultantId;
+  const row = data as { id: string; timezone: string | null } | null;
+  if (!row) return null;
+
+  const consultant = { id: row.id, timeZone: resolveTimeZone(row.timezone) };
+  phoneConsultantCache.set(phone, consultant);
+  return consultant;
+}
+
+// ============================================================
+// PROCESSAMENTO EM ORDEM POR LEAD
+// Mensagens do mesmo número passam pelo motor uma de cada vez
+// (o envio da resposta fica com a fila persistente)
+// ============================================================
+const processingChains = new Map<string, Promise<void>>();
+
+function runInOrder(phone: string, task: () => Promise<void>): void {
+  const previous = processingChains.get(phone) ?? Promise.resolve();
+  const current = previous.then(task).finally(() => {
+    if (processingChains.get(phone) === current) processingChains.delete(phone);
+  });
+  processingChains.set(phone, current);
 }
 
 // ============================================================
@@ -61,6 +87,7 @@ async function getOrCreateLead(params: {
   phone: string;
   consultantId: string;
   pushName?: string;
+  firstMessage?: string | null;
 }): Promise<string> {
   // Tentar encontrar lead existente
   const existingLead = await db.leads.findByPhone(params.phone);
@@ -86,10 +113,38 @@ async function getOrCreateLead(params: {
     stage: 'whatsapp',
   });
 
+  // Chegou com código de indicação de um cliente?
+  await attributeReferral({
+    leadId: newLead.id,
+    consultantId: params.consultantId,
+    text: params.firstMessage,
+    channel: 'whatsapp',
+  });
+
   logger.info(`Novo lead criado via WhatsApp: ${params.phone.substring(0, 6)}...`);
   return newLead.id;
 }
 
+// ============================================================
+// MENSAGEM ENVIADA PELO CONSULTOR (celular / WhatsApp Web)
+// fromMe que não saiu do bot → modo humano ou comando #bot
+// ============================================================
+async function handleOwnMessage(message: EvolutionMessage): Promise<void> {
+  if (message.key.remoteJid.endsWith('@g.us')) return;
+  if (await isBotMessage(message)) return;
+
+  const text = extractMessageText(message);
+  if (!text || text.trim().length === 0) return;
+
+  const lead = await db.leads.findByPhone(jidToPhone(message.key.remoteJid));
+  if (!lead) return;
+
+  const result = await handleConsultantMessage(lead.id, text);
+  if (result !== 'ignored') {
+    logger.info(`Mensagem do consultor para lead ${lead.id}: ${result === 'resumed' ? 'bot retomado' : 'modo humano'}`);
+  }
+}
+
 // ============================================================
 // PROCESSAR MENSAGEM RECEBIDA
 // ============================================================
@@ -97,8 +152,11 @@ async function handleIncomingMessage(
   message: EvolutionMessage,
   consultantPhone: string
 ): Promise<void> {
-  // Ignorar mensagens enviadas pelo próprio bot
-  if (message.key.fromMe) return;
+  // Mensagens do próprio número: do bot são ignoradas, do consultor ativam o modo humano
+  if (message.key.fromMe) {
+    await handleOwnMessage(message);
+    return;
+  }
 
   const senderJid = message.key.remoteJid;
 
@@ -106,26 +164,28 @@ async function handleIncomingMessage(
   if (senderJid.endsWith('@g.us')) return;
 
   const senderPhone = jidToPhone(senderJid);
-  const messageText = extractMessageText(message);
+  const text = extractMessageText(message)?.trim() || null;
+  const media = text ? null : extractMedia(message);
 
-  // Ignorar mensagens sem texto (áudios, imagens sem legenda por enquanto)
-  if (!messageText || messageText.trim().length === 0) {
-    logger.debug(`Mensagem sem texto ignorada de ${senderPhone.substring(0, 6)}...`);
+  // Ignorar mensagens sem texto nem mídia suportada (figurinhas, localização...)
+  if (!text && !media) {
+    logger.debug(`Mensagem sem conteúdo suportado ignorada de ${senderPhone.substring(0, 6)}...`);
     return;
   }
 
-  logger.info(`Mensagem recebida de ${senderPhone.substring(0, 6)}...: "${messageText.substring(0, 50)}..."`);
+  logger.info(`Mensagem recebida de ${senderPhone.substring(0, 6)}...: ${text ? `"${text.substring(0, 50)}..."` : `[${media!.kind}]`}`);
 
-  // Verificar horário permitido (8h–21h fuso de São Paulo)
-  if (!isWithinAllowedHours()) {
-    logger.warn(`Fora do horário permitido — ignorando mensagem de ${senderPhone.substring(0, 6)}... (responde 8h–21h)`);
+  // Encontrar consultor dono da instância
+  const consultant = await findConsultantByPhone(consultantPhone);
+  if (!consultant) {
+    logger.warn(`Consultor não encontrado para instância ${consultantPhone}`);
     return;
   }
+  const consultantId = consultant.id;
 
-  // Encontrar consultor dono da instância
-  const consultantId = await findConsultantByPhone(consultantPhone);
-  if (!consultantId) {
-    logger.warn(`Consultor não encontrado para instância ${consultantPhone}`);
+  // Verificar horário permitido (8h–21h no fuso do consultor)
+  if (!isWithinAllowedHours(consultant.timeZone)) {
+    logger.warn(`Fora do horário permitido — ignorando mensagem de ${senderPhone.substring(0, 6)}... (responde 8h–21h)`);
     return;
   }
 
@@ -134,6 +194,7 @@ async function handleIncomingMessage(
     phone: senderPhone,
     consultantId,
     pushName: message.pushName,
+    firstMessage: text,
   });
 
   // Marcar como lida (após um pequeno delay)
@@ -145,20 +206,65 @@ async function handleIncomingMessage(
     }
   }, 1500);
 
+  // ── MÍDIA ──────────────────────────────────────────────
+  // Áudio: transcrito e tratado como texto
+  // Imagem/documento: guardados; a legenda (se houver) segue como texto
+  // ──────────────────────────────────────────────────────
+  let messageText = text ?? '';
+  let mediaReply: string | null = null;
+
+  if (media?.kind === 'audio') {
+    messageText = (await transcribeVoiceNote(message)) ?? '';
+    if (!messageText) mediaReply = VOICE_NOTE_FALLBACK_REPLY;
+    else logger.info(`Áudio transcrito: "${messageText.substring(0, 50)}..."`);
+  } else if (media) {
+    const stored = await storeInboundFile({ leadId, consultantId, message, media });
+    messageText = media.caption?.trim() ?? '';
+    mediaReply = stored.reply;
+  }
+
+  // Resposta do lead pausa/reinicia/encerra o follow-up; "pare" encerra as réguas
+  const sequenceOutcome = await handleSequenceReply({ leadId, phone: senderPhone, text: messageText })
+    .catch(error => {
+      logger.error('Erro ao atualizar régua após resposta', error);
+      return null;
+    });
+
   // ── ROTEADOR DE PRIORIDADE ─────────────────────────────
-  // 1º: Check-in ativo? Rota para o fluxo de check-in
-  // 2º: Recompra? Rota para confirmação de pedido
-  // 3º: Motor SPIN de conversação (padrão)
+  // 0º: Consultor no controle? Só registra, o bot não responde
+  // 1º: Pediu para parar? Confirma e não segue para o SPIN
+  // 2º: Mídia com resposta própria (foto de progresso, áudio não transcrito...)
+  // 3º: Check-in ativo? Rota para o fluxo de check-in
+  // 4º: Recompra? Rota para confirmação de pedido
+  // 5º: Motor SPIN de conversação (padrão)
   // ──────────────────────────────────────────────────────
 
+  const humanConversation = await findHumanConversation(leadId);
+  if (humanConversation) {
+    const entry = media ? `[${media.kind}] ${messageText}`.trim() : messageText;
+    await appendHumanModeMessage(humanConversation, 'user', entry);
+    logger.info(`Lead ${leadId} em modo humano — mensagem registrada sem resposta do bot`);
+    return;
+  }
+
+  if (sequenceOutcome === 'opted_out') {
+    await enqueueText(senderPhone, OPT_OUT_REPLY, { kind: 'opt_out', consultantId, typingMs: 1500 });
+    return;
+  }
+
+  if (mediaReply) {
+    await enqueueText(senderPhone, mediaReply, { kind: 'reply', consultantId, typingMs: 1500 });
+    return;
+  }
+
+  // Mídia sem legenda e sem resposta (ex: falha ao baixar)
+  if (!messageText) return;
+
   // Verificar sessão de check-in ativa
   if (hasActiveCheckinSession(senderPhone)) {
     const checkinResult = await handleCheckinResponse(senderPhone, messageText);
     if (checkinResult.handled && checkinResult.reply) {
-      enqueueSend(senderPhone, async () => {
-        await sendTyping(senderPhone, 1500);
-        await sendText(senderPhone, checkinResult.reply!);
-      });
+      await enqueueText(senderPhone, checkinResult.reply, { kind: 'checkin_reply', consultantId, typingMs: 1500 });
       return;
     }
   }
@@ -171,7 +277,7 @@ async function handleIncomingMessage(
   }
 
   // Processar com o motor de conversação
-  enqueueSend(senderPhone, async () => {
+  runInOrder(senderPhone, async () => {
     try {
       // Simular "digitando..." (não bloqueia se falhar)
       const typingDuration = Math.min(messageText.length * 80, 4000);
@@ -187,12 +293,18 @@ async function handleIncomingMessage(
         },
       });
 
-      // Enviar resposta
-      await sendText(senderPhone, result.reply, { skipDelay: true });
+      // Enviar resposta (fila persistente: sobrevive a restart e tenta de novo se falhar)
+      await enqueueText(senderPhone, result.reply, {
+        kind: 'reply',
+        consultantId,
+        skipDelay: true,
+        idempotencyKey: `reply:${message.key.id}`,
+      });
 
       // Se handoff: notificar o consultor
       if (result.handoffTriggered) {
-        await notifyConsultantHandoff(consultantId, senderPhone, leadId, messageText);
+        await notifyConsultantHandoff(consultantId, senderPhone, leadId, messageText, result.objectionsHandled);
+        await exitEnrollments(leadId, 'handoff');
       }
 
       // Auto-trigger de áudio se score alto (não bloqueia a fila)
@@ -217,7 +329,8 @@ async function notifyConsultantHandoff(
   consultantId: string,
   leadPhone: string,
   _leadId: string,
-  lastMessage: string
+  lastMessage: string,
+  objectionsHandled: number = 0
 ): Promise<void> {
   // Buscar telefone do consultor
   const { data } = await db.client
@@ -236,6 +349,7 @@ async function notifyConsultantHandoff(
     ``,
     `📱 Número: +${leadPhone}`,
     `💬 Última mensagem: "${lastMessage.substring(0, 100)}"`,
+    ...(objectionsHandled > 0 ? [`🛡️ Objeções tratadas pela IA: ${objectionsHandled}`] : []),
     ``,
     `Acesse o painel para ver o histórico completo.`,
     ``,
@@ -287,15 +401,17 @@ export async function sendProactiveMessage(params: {
   message: string;
   consultantPhone: string;
 }): Promise<boolean> {
-  if (!isWithinAllowedHours()) {
+  const consultant = await findConsultantByPhone(params.consultantPhone);
+  if (!isWithinAllowedHours(consultant?.timeZone)) {
     logger.warn('Mensagem proativa bloqueada: fora do horário permitido');
     return false;
   }
 
   try {
-    enqueueSend(params.toPhone, async () => {
-      await sendTyping(params.toPhone, 3000);
-      await sendText(params.toPhone, params.message);
+    await enqueueText(params.toPhone, params.message, {
+      kind: 'proactive',
+      consultantId: consultant?.id,
+      typingMs: 3000,
     });
     return true;
   } catch (error) {
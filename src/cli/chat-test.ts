@@ -4,6 +4,7 @@
  *
  * Como usar:
  *   npm run test:chat
+ *   LLM_PROVIDER=scripted LLM_FIXTURES=./fixtures/llm/chat-demo.json npm run test:chat  (sem rede)
  */
 
 import * as readline from 'readline';
@@ -11,7 +12,10 @@ import chalk from 'chalk';
 import { v4 as uuidv4 } from 'uuid';
 import { processMessage, initiateConversation } from '../engine/conversation.js';
 import { scoreIntent } from '../engine/intent-scorer.js';
+import { extractContextOffline, mergeExtraction } from '../engine/context-extractor.js';
+import type { LeadContextData } from '../database/client.js';
 import { createLogger } from '../lib/logger.js';
+import { config } from '../config/index.js';
 
 const logger = createLogger('CLI');
 
@@ -76,6 +80,20 @@ function printScore(text: string): void {
   console.log();
 }
 
+function printContextUpdates(updates: Partial<LeadContextData>): void {
+  const { fact_sources: sources, ...fields } = updates;
+  if (Object.keys(fields).length === 0) return;
+
+  console.log(chalk.dim('─── Contexto extraído ───'));
+  for (const [field, value] of Object.entries(fields)) {
+    const confidence = sources?.[field]?.confidence;
+    const label = confidence !== undefined ? ` (${Math.round(confidence * 100)}%)` : '';
+    console.log(chalk.dim(`  ${field}: ${JSON.stringify(value)}${label}`));
+  }
+  console.log(chalk.dim('─────────────────────────'));
+  console.log();
+}
+
 function getScoreBar(score: number): string {
   const filled = Math.round(score / 10);
   const empty = 10 - filled;
@@ -148,10 +166,19 @@ async function runOfflineMode(): Promise<void> {
     },
   ];
 
+  let context: LeadContextData = {};
+  let messageIndex = 0;
+
   for (const step of stages) {
     printMessage('assistant', step.assistant, step.stage);
     await new Promise(r => setTimeout(r, 800));
     printMessage('user', step.user);
+    messageIndex += 2;
+
+    // Extração determinística (mesmo fallback usado sem ANTHROPIC_API_KEY)
+    const updates = mergeExtraction(context, extractContextOffline(step.user, context), messageIndex - 1);
+    context = { ...context, ...updates };
+    printContextUpdates(updates);
     await new Promise(r => setTimeout(r, 500));
   }
 
@@ -258,13 +285,13 @@ async function runOnlineMode(): Promise<void> {
 async function main(): Promise<void> {
   printHeader();
 
-  const hasApiKey = !!process.env.ANTHROPIC_API_KEY;
+  // O provedor "scripted" roda sem chave: basta o banco para o modo real
   const hasSupabase = !!process.env.SUPABASE_URL;
+  console.log(chalk.dim(`  LLM: ${config.llm.provider} (${config.llm.model})`));
 
-  if (!hasApiKey || !hasSupabase) {
+  if (!hasSupabase) {
     console.log(chalk.yellow('⚠️  Ambiente não configurado completamente.'));
-    console.log(chalk.dim('  ANTHROPIC_API_KEY: ' + (hasApiKey ? chalk.green('✓') : chalk.red('✗ não configurada'))));
-    console.log(chalk.dim('  SUPABASE_URL:      ' + (hasSupabase ? chalk.green('✓') : chalk.red('✗ não configurada'))));
+    console.log(chalk.dim('  SUPABASE_URL:      ' + chalk.red('✗ não configurada')));
     console.log();
     console.log(chalk.dim('Rodando em modo DEMO (sem API real)...'));
     console.log();
@@ -5,21 +5,49 @@ import { z } from 'zod';
 const envSchema = z.object({
   ANTHROPIC_API_KEY: z.string().default(''),
   ANTHROPIC_MODEL: z.string().default('claude-sonnet-4-6'),
+  LLM_PROVIDER: z.enum(['anthropic', 'openai', 'scripted']).optional(),
+  LLM_BASE_URL: z.string().default('http://localhost:11434/v1'), // servidor compatível com OpenAI
+  LLM_API_KEY: z.string().optional(),
+  LLM_MODEL: z.string().optional(),
+  LLM_TIMEOUT_MS: z.coerce.number().int().positive().default(30000),
+  LLM_MAX_RETRIES: z.coerce.number().int().min(1).default(3),
+  LLM_FIXTURES: z.string().optional(), // JSON de respostas do provedor "scripted"
   SUPABASE_URL: z.string().default('http://localhost:54321'),
   SUPABASE_SERVICE_KEY: z.string().default(''),
   ELEVENLABS_API_KEY: z.string().optional(),
   ELEVENLABS_VOICE_ID: z.string().optional(),
+  STT_PROVIDER: z.enum(['whisper-cpp', 'openai', 'none']).default('none'),
+  STT_BASE_URL: z.string().default('http://localhost:8081'), // whisper-server / compatível com OpenAI
+  STT_API_KEY: z.string().optional(),
+  STT_MODEL: z.string().default('whisper-1'),
+  STT_TIMEOUT_MS: z.coerce.number().int().positive().default(60000),
+  MEDIA_BUCKET: z.string().default('lead-media'), // bucket do Supabase Storage
   INSTAGRAM_VERIFY_TOKEN: z.string().default('pelicano_verify_token'),
   DASHBOARD_API_KEY: z.string().optional(),
   REDIS_URL: z.string().optional(),
   SENTRY_DSN: z.string().optional(),
   AUDIO_TRIGGER_DELAY_MS: z.coerce.number().default(120000),
-  TIMEZONE_OFFSET: z.coerce.number().default(-3),
+  TIMEZONE: z.string().optional(),               // fuso IANA padrão (projeto/consultor podem sobrescrever)
+  TIMEZONE_OFFSET: z.coerce.number().int().optional(), // legado: offset fixo em horas, usado só sem TIMEZONE
   NODE_ENV: z.enum(['development', 'production', 'test']).default('development'),
+  CONTEXT_EXTRACTION: z.enum(['llm', 'rules']).optional(),
+  CONTEXT_MIN_CONFIDENCE: z.coerce.number().min(0).max(1).default(0.5),
+  CHECKIN_PARSER: z.enum(['llm', 'rules']).optional(),
+  CHECKIN_MIN_CONFIDENCE: z.coerce.number().min(0).max(1).default(0.6),
+  HISTORY_TOKEN_BUDGET: z.coerce.number().int().positive().default(1500),
+  SUMMARY_TRIGGER_TOKENS: z.coerce.number().int().positive().default(2500),
+  SUMMARY_KEEP_RECENT: z.coerce.number().int().min(2).default(6),
+  HUMAN_TAKEOVER_TIMEOUT_HOURS: z.coerce.number().positive().default(12),
+  STREAK_GRACE_HOUR: z.coerce.number().int().min(0).max(23).default(10), // 0 = sem tolerância
+  STREAK_FREEZE_XP_STEP: z.coerce.number().int().min(0).default(500),    // 0 = não ganha por XP
+  WEIGHT_ALERT_KG_PER_WEEK: z.coerce.number().positive().default(1.5),
   LOG_LEVEL: z.enum(['debug', 'info', 'warn', 'error']).default('info'),
   MAX_MESSAGES_PER_HOUR: z.coerce.number().default(30),
   MIN_DELAY_MS: z.coerce.number().default(2000),
   MAX_DELAY_MS: z.coerce.number().default(6000),
+  OUTBOUND_MAX_ATTEMPTS: z.coerce.number().int().min(1).default(5),
+  SCHEDULER_CATCH_UP_HOURS: z.coerce.number().min(0).default(6),       // 0 = não recupera execuções perdidas
+  SEND_TIME_MODE: z.enum(['fixed', 'learned']).default('fixed'),        // hora das réguas: fixa ou aprendida do cliente
   PORT: z.coerce.number().default(3000),
 });
 
@@ -29,9 +57,37 @@ if (!parsed.success) throw new Error('Erro interno de configuração');
 
 export const env = parsed.data;
 
+// Sem chave da Anthropic (CI, CLI offline, testes) o padrão é o provedor roteirizado
+const llmProvider = env.LLM_PROVIDER
+  ?? (env.ANTHROPIC_API_KEY && env.NODE_ENV !== 'test' ? 'anthropic' : 'scripted');
+
+// "scripted" sem fixtures não tem respostas reais: extração e resumo usam as regras
+const llmHasModel = llmProvider !== 'scripted' || !!env.LLM_FIXTURES;
+
+// Fuso padrão: TIMEZONE (IANA) → TIMEZONE_OFFSET legado (Etc/GMT tem o sinal invertido) → São Paulo
+function resolveDefaultTimeZone(): string {
+  const candidates = [
+    env.TIMEZONE,
+    env.TIMEZONE_OFFSET !== undefined
+      ? `Etc/GMT${env.TIMEZONE_OFFSET <= 0 ? '+' : '-'}${Math.abs(env.TIMEZONE_OFFSET)}`
+      : undefined,
+  ];
+  for (const timeZone of candidates) {
+    if (!timeZone) continue;
+    try {
+      new Intl.DateTimeFormat('en-US', { timeZone });
+      return timeZone;
+    } catch {
+      // fuso inválido: tenta o próximo
+    }
+  }
+  return 'America/Sao_Paulo';
+}
+
 // Verifica se o ambiente está totalmente configurado (para uso em runtime)
 export const isConfigured = {
   anthropic: !!env.ANTHROPIC_API_KEY,
+  llm: llmHasModel,
   supabase: !!env.SUPABASE_SERVICE_KEY && env.SUPABASE_URL !== 'http://localhost:54321',
   elevenlabs: !!env.ELEVENLABS_API_KEY,
 };
@@ -42,6 +98,43 @@ export const config = {
     model: env.ANTHROPIC_MODEL,
     maxTokens: 1024,
   },
+  llm: {
+    provider: llmProvider,
+    baseUrl: env.LLM_BASE_URL,
+    apiKey: env.LLM_API_KEY,
+    model: env.LLM_MODEL ?? (llmProvider === 'anthropic' ? env.ANTHROPIC_MODEL : 'local'),
+    timeoutMs: env.LLM_TIMEOUT_MS,
+    maxRetries: env.LLM_MAX_RETRIES,
+    fixturesPath: env.LLM_FIXTURES,
+  },
+  extraction: {
+    useLlm: (env.CONTEXT_EXTRACTION ?? 'llm') === 'llm' && llmHasModel,
+    minConfidence: env.CONTEXT_MIN_CONFIDENCE,
+  },
+  checkin: {
+    useLlm: (env.CHECKIN_PARSER ?? 'llm') === 'llm' && llmHasModel,
+    minConfidence: env.CHECKIN_MIN_CONFIDENCE,
+    maxFollowups: 2, // perguntas de itens faltantes antes de fechar o check-in
+  },
+  streak: {
+    graceHour: env.STREAK_GRACE_HOUR,       // check-in antes dessa hora conta para ontem (se ontem faltou)
+    freezeXpStep: env.STREAK_FREEZE_XP_STEP, // 1 proteção a cada N XP
+    maxFreezes: 3,                           // proteções guardadas ao mesmo tempo
+    repairWindowDays: 3,                     // prazo para reparar a sequência depois do reset
+  },
+  weightProgress: {
+    alertKgPerWeek: env.WEIGHT_ALERT_KG_PER_WEEK, // perda acima disso avisa o consultor (segurança)
+    plateauDays: 14,                              // janela com peso estável = platô
+    plateauToleranceKg: 0.3,                      // variação da tendência considerada "parada"
+    plateauNudgeEveryDays: 7,                     // intervalo mínimo entre mensagens de platô
+  },
+  history: {
+    tokenBudget: env.HISTORY_TOKEN_BUDGET,       // histórico recente enviado ao Claude
+    summaryTriggerTokens: env.SUMMARY_TRIGGER_TOKENS, // acima disso, resume as mais antigas
+    keepRecent: env.SUMMARY_KEEP_RECENT,         // mensagens que nunca entram no resumo
+    summaryMaxTokens: 400,
+    useLlm: llmHasModel,
+  },
   supabase: {
     url: env.SUPABASE_URL,
     serviceKey: env.SUPABASE_SERVICE_KEY,
@@ -50,6 +143,17 @@ export const config = {
     apiKey: env.ELEVENLABS_API_KEY,
     voiceId: env.ELEVENLABS_VOICE_ID,
   },
+  stt: {
+    provider: env.STT_PROVIDER,
+    baseUrl: env.STT_BASE_URL,
+    apiKey: env.STT_API_KEY,
+    model: env.STT_MODEL,
+    timeoutMs: env.STT_TIMEOUT_MS,
+  },
+  media: {
+    bucket: env.MEDIA_BUCKET,
+    maxBytes: 16 * 1024 * 1024, // limite de mídia do WhatsApp
+  },
   instagram: {
     verifyToken: env.INSTAGRAM_VERIFY_TOKEN,
   },
@@ -59,12 +163,36 @@ export const config = {
   audio: {
     triggerDelayMs: env.AUDIO_TRIGGER_DELAY_MS,
   },
+  takeover: {
+    // Sem mensagem do consultor por esse tempo, o bot reassume a conversa
+    timeoutHours: env.HUMAN_TAKEOVER_TIMEOUT_HOURS,
+    resumeCommand: /^#bot\b/i,
+  },
   safety: {
     maxMessagesPerHour: env.MAX_MESSAGES_PER_HOUR,
     minDelayMs: env.MIN_DELAY_MS,
     maxDelayMs: env.MAX_DELAY_MS,
-    timezoneOffset: env.TIMEZONE_OFFSET,
   },
+  outbound: {
+    maxAttempts: env.OUTBOUND_MAX_ATTEMPTS, // tentativas até ir para dead-letter
+    retryBaseMs: 30 * 1000,                 // 30s, 1min, 2min, 4min... (backoff exponencial)
+    retryMaxMs: 60 * 60 * 1000,             // teto do backoff: 1h
+    rateLimitDelayMs: 5 * 60 * 1000,        // rate limit atingido: adia em vez de descartar
+    pollMs: 2000,                           // intervalo de busca por envios vencidos
+    lockSeconds: 120,                       // envio "preso" em sending volta para a fila
+    sendTimeoutMs: 60 * 1000,
+  },
+  scheduler: {
+    catchUpMaxHours: env.SCHEDULER_CATCH_UP_HOURS, // execução perdida (deploy/queda) roda no boot se couber nessa janela
+    staleRunMinutes: 60,                           // execução 'running' há mais que isso é considerada abandonada
+  },
+  sendTime: {
+    // fixed: hora definida na régua; learned: hora em que o cliente costuma responder
+    mode: env.SEND_TIME_MODE,
+    minReplies: 5,          // respostas necessárias para confiar na hora aprendida
+    lookbackDays: 60,       // só respostas recentes contam
+  },
+  timezone: resolveDefaultTimeZone(),
   app: {
     isDev: env.NODE_ENV === 'development',
     isProd: env.NODE_ENV === 'production',
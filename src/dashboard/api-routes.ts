@@ -9,6 +9,31 @@
  *   GET  /api/dashboard/:consultantId/clients
  *   GET  /api/dashboard/:consultantId/prospects
  *   GET  /api/dashboard/:consultantId/metrics?days=30
+ *   GET  /api/dashboard/:consultantId/experiments
+ *   PUT  /api/dashboard/:consultantId/experiments/:key
+ *   GET  /api/dashboard/:consultantId/guardrail-violations?days=30
+ *   POST /api/dashboard/:consultantId/conversations/:conversationId/takeover
+ *   POST /api/dashboard/:consultantId/conversations/:conversationId/resume
+ *   GET  /api/dashboard/checkin-templates
+ *   GET  /api/dashboard/outbound?status=dead
+ *   POST /api/dashboard/outbound/:messageId/replay
+ *   GET  /api/dashboard/jobs?job=&status=&limit=50
+ *   POST /api/dashboard/jobs/:jobName/run
+ *   PUT  /api/dashboard/:consultantId/projects/:projectId/checkin-template
+ *   POST /api/dashboard/:consultantId/projects/:projectId/streak-freezes
+ *   GET  /api/dashboard/:consultantId/badges
+ *   PUT  /api/dashboard/:consultantId/badges/:code
+ *   DELETE /api/dashboard/:consultantId/badges/:code
+ *   GET  /api/dashboard/:consultantId/level-curve
+ *   PUT  /api/dashboard/:consultantId/level-curve
+ *   GET  /api/dashboard/:consultantId/sequences?type=followup
+ *   GET  /api/dashboard/:consultantId/sequences/stats?days=30
+ *   POST /api/dashboard/:consultantId/sequences
+ *   PUT  /api/dashboard/:consultantId/sequences/:sequenceId
+ *   POST /api/dashboard/:consultantId/sequences/:sequenceId/clone
+ *   POST /api/dashboard/:consultantId/sequences/:sequenceId/preview
+ *   POST /api/dashboard/:consultantId/sequences/:sequenceId/activate
+ *   POST /api/dashboard/:consultantId/sequences/:sequenceId/deactivate
  *   POST /api/dashboard/:consultantId/approach-prospect
  */
 
@@ -29,6 +54,41 @@ const ApproachProspectSchema = z.object({
   prospectPhone: z.string().min(10),
   prospectName: z.string().optional(),
 });
+
+const GrantFreezesSchema = z.object({
+  count: z.number().int().min(1).max(config.streak.maxFreezes).default(1),
+  note: z.string().max(200).optional(),
+});
+
+const CheckinTemplateChoiceSchema = z.union([
+  z.object({ templateId: z.string().refine(id => id in CHECKIN_TEMPLATES, 'Template desconhecido') }),
+  z.object({ template: CheckinTemplateSchema }),
+]);
+const ConsultantIdSchema = z.string().uuid();
+const DaysQuerySchema = z.coerce.number().int().positive().max(365).default(30);
+const ExperimentKeySchema = z.string().regex(/^[a-z0-9][a-z0-9_-]{1,59}$/, 'Use letras minúsculas, números, - e _');
+
+const CloneSequenceSchema = z.object({
+  name: z.string().min(1).max(80).optional(),
+});
+
+const PreviewSequenceSchema = z.object({
+  params: z.object({
+    name: z.string().optional(),
+    consultantName: z.string().optional(),
+    pain: z.string().optional(),
+    product: z.string().optional(),
+    result: z.string().optional(),
+    streak: z.number().optional(),
+    daysLeft: z.number().optional(),
+    weightLost: z.number().optional(),
+    weeklyRateKg: z.number().optional(),
+    goalDate: z.string().optional(),
+    groupName: z.string().optional(),
+  }).optional(),
+  // Estado de exemplo para testar as condições dos passos
+  state: z.record(z.enum(SEQUENCE_FIELDS), z.union([z.number(), z.boolean()])).optional(),
+});
 import { config } from '../config/index.js';
 import {
   getDashboardSummary,
@@ -40,6 +100,55 @@ import {
   approachProspect,
 } from '../monitor/prospect-queue.js';
 import { generateProjectReportJSON } from '../engine/gamification.js';
+import { getExperimentReport, ExperimentInputSchema, saveConsultantExperiment } from '../engine/experiments.js';
+import { getViolations } from '../safety/reply-guardrail.js';
+import { conversationBelongsTo, startTakeover, resumeBot } from '../engine/human-takeover.js';
+import {
+  CHECKIN_TEMPLATES,
+  CheckinTemplateSchema,
+  setProjectCheckinTemplate,
+} from '../engine/checkin-templates.js';
+import { grantStreakFreezes } from '../engine/streak.js';
+import {
+  DEFAULT_BADGES,
+  BadgeDefinitionSchema,
+  listConsultantBadges,
+  saveConsultantBadge,
+  deactivateConsultantBadge,
+} from '../engine/badges.js';
+import {
+  DEFAULT_LEVEL_CURVE,
+  LevelCurveSchema,
+  getConsultantLevelCurve,
+  setConsultantLevelCurve,
+} from '../engine/levels.js';
+import { projectBelongsTo } from '../pipeline/project-manager.js';
+import {
+  OUTBOUND_STATUSES,
+  listOutboundMessages,
+  getOutboundCounts,
+  replayOutboundMessage,
+  type OutboundStatus,
+} from '../safety/outbound-queue.js';
+import { listScheduledJobs, runJobNow } from '../pipeline/scheduler.js';
+import { listJobRuns, type JobRunStatus } from '../pipeline/job-runs.js';
+import {
+  SEQUENCE_FIELDS,
+  SEQUENCE_VARIABLES,
+  SEQUENCE_AUDIO_TYPES,
+  PREVIEW_PARAMS,
+  SequenceInputSchema,
+  listSequences,
+  getSequence,
+  createSequence,
+  updateSequence,
+  cloneSequence,
+  activateSequence,
+  archiveSequence,
+  previewSequence,
+  type SequenceType,
+} from '../pipeline/sequences.js';
+import { getEnrollmentStats } from '../pipeline/sequence-enrollments.js';
 
 const logger = createLogger('DASHBOARD-API');
 const router = Router();
@@ -156,6 +265,570 @@ router.get('/:consultantId/metrics', async (req: Request, res: Response) => {
   }
 });
 
+// ============================================================
+// GET /api/dashboard/:consultantId/experiments
+// Resultado dos experimentos A/B por variante
+// ============================================================
+router.get('/:consultantId/experiments', async (req: Request, res: Response) => {
+  try {
+    const consultantId = ConsultantIdSchema.safeParse(p(req, 'consultantId'));
+    if (!consultantId.success) {
+      res.status(400).json({ error: 'consultantId inválido' });
+      return;
+    }
+
+    const experiments = await getExperimentReport(consultantId.data);
+    res.json({ experiments, total: experiments.length });
+  } catch (error) {
+    logger.error('Erro ao gerar relatório de experimentos', error);
+    res.status(500).json({ error: 'Erro interno' });
+  }
+});
+
+// ============================================================
+// PUT /api/dashboard/:consultantId/experiments/:key
+// { target, targetRef, variants: [{ id, weight?, content }], active? }
+// Cria ou altera; com leads já atribuídos só dá para pausar/reativar
+// ============================================================
+router.put('/:consultantId/experiments/:key', async (req: Request, res: Response) => {
+  try {
+    const consultantId = ConsultantIdSchema.safeParse(p(req, 'consultantId'));
+    const key = ExperimentKeySchema.safeParse(p(req, 'key'));
+    if (!consultantId.success || !key.success) {
+      res.status(400).json({ error: 'consultantId ou chave inválidos' });
+      return;
+    }
+    const parsed = ExperimentInputSchema.safeParse(req.body);
+    if (!parsed.success) {
+      res.status(400).json({ error: 'Experimento inválido', details: parsed.error.flatten() });
+      return;
+    }
+
+    const result = await saveConsultantExperiment(consultantId.data, key.data, parsed.data);
+    if (result === 'reserved') {
+      res.status(409).json({ error: 'Chave já usada por outro experimento' });
+      return;
+    }
+    if (result === 'locked') {
+      res.status(409).json({ error: 'Experimento já tem leads atribuídos — só é possível pausar/reativar; crie outra chave para novas variantes' });
+      return;
+    }
+    res.status(result === 'created' ? 201 : 200).json({ success: true, key: key.data, ...parsed.data });
+  } catch (error) {
+    logger.error('Erro ao salvar experimento', error);
+    res.status(500).json({ error: 'Erro interno' });
+  }
+});
+
+// ============================================================
+// GET /api/dashboard/:consultantId/guardrail-violations
+// Respostas da IA bloqueadas pelo guardrail (auditoria)
+// ============================================================
+router.get('/:consultantId/guardrail-violations', async (req: Request, res: Response) => {
+  try {
+    const consultantId = p(req, 'consultantId');
+    const days = DaysQuerySchema.safeParse(req.query['days']);
+    if (!days.success) {
+      res.status(400).json({ error: 'days inválido (1 a 365)' });
+      return;
+    }
+    const violations = await getViolations(consultantId, days.data);
+    res.json({ violations, total: violations.length, days: days.data });
+  } catch (error) {
+    logger.error('Erro ao buscar violações do guardrail', error);
+    res.status(500).json({ error: 'Erro interno' });
+  }
+});
+
+// ============================================================
+// POST /api/dashboard/:consultantId/conversations/:conversationId/takeover
+// Consultor assume a conversa (bot para de responder)
+// ============================================================
+router.post('/:consultantId/conversations/:conversationId/takeover', async (req: Request, res: Response) => {
+  try {
+    const conversationId = p(req, 'conversationId');
+    if (!(await conversationBelongsTo(conversationId, p(req, 'consultantId')))) {
+      res.status(404).json({ error: 'Conversa não encontrada' });
+      return;
+    }
+
+    await startTakeover(conversationId, 'dashboard');
+    res.json({ success: true, status: 'human' });
+  } catch (error) {
+    logger.error('Erro ao assumir conversa', error);
+    res.status(500).json({ error: 'Erro interno' });
+  }
+});
+
+// ============================================================
+// POST /api/dashboard/:consultantId/conversations/:conversationId/resume
+// Devolve a conversa para o bot (com resumo do que o consultor falou)
+// ============================================================
+router.post('/:consultantId/conversations/:conversationId/resume', async (req: Request, res: Response) => {
+  try {
+    const conversationId = p(req, 'conversationId');
+    if (!(await conversationBelongsTo(conversationId, p(req, 'consultantId')))) {
+      res.status(404).json({ error: 'Conversa não encontrada' });
+      return;
+    }
+
+    const summary = await resumeBot(conversationId, 'dashboard');
+    if (summary === null) {
+      res.status(409).json({ error: 'Conversa não está em modo humano' });
+      return;
+    }
+    res.json({ success: true, status: 'active', summary });
+  } catch (error) {
+    logger.error('Erro ao devolver conversa para o bot', error);
+    res.status(500).json({ error: 'Erro interno' });
+  }
+});
+
+// ============================================================
+// GET /api/dashboard/checkin-templates
+// Templates de check-in padrão (por kit)
+// ============================================================
+router.get('/checkin-templates', (_req: Request, res: Response) => {
+  res.json({ templates: Object.values(CHECKIN_TEMPLATES) });
+});
+
+// ============================================================
+// GET /api/dashboard/outbound?status=dead&consultantId=&phone=&limit=50
+// Fila de envio do WhatsApp (com contagem por status)
+// ============================================================
+router.get('/outbound', async (req: Request, res: Response) => {
+  try {
+    const status = req.query.status as string | undefined;
+    if (status && !OUTBOUND_STATUSES.includes(status as OutboundStatus)) {
+      res.status(400).json({ error: `Status inválido (use ${OUTBOUND_STATUSES.join(', ')})` });
+      return;
+    }
+
+    const [messages, counts] = await Promise.all([
+      listOutboundMessages({
+        status: status as OutboundStatus | undefined,
+        consultantId: typeof req.query.consultantId === 'string' ? req.query.consultantId : undefined,
+        phone: typeof req.query.phone === 'string' ? req.query.phone : undefined,
+        limit: Math.min(Math.max(Number(req.query.limit) || 50, 1), 200),
+      }),
+      getOutboundCounts(),
+    ]);
+    res.json({ messages, counts });
+  } catch (error) {
+    logger.error('Erro ao listar fila de envio', error);
+    res.status(500).json({ error: 'Erro interno' });
+  }
+});
+
+// ============================================================
+// POST /api/dashboard/outbound/:messageId/replay
+// Devolve para a fila um envio em dead-letter (tentativas zeradas)
+// ============================================================
+router.post('/outbound/:messageId/replay', async (req: Request, res: Response) => {
+  try {
+    const result = await replayOutboundMessage(p(req, 'messageId'));
+    if (result === 'not_found') {
+      res.status(404).json({ error: 'Envio não encontrado' });
+      return;
+    }
+    if (result === 'not_dead') {
+      res.status(409).json({ error: 'Só envios em dead-letter podem ser reenviados' });
+      return;
+    }
+    res.json({ success: true, status: 'pending' });
+  } catch (error) {
+    logger.error('Erro ao reenviar mensagem', error);
+    res.status(500).json({ error: 'Erro interno' });
+  }
+});
+
+// ============================================================
+// GET /api/dashboard/jobs?job=daily_reports&status=failed&limit=50
+// Jobs agendados + histórico de execuções (job_runs)
+// ============================================================
+const JOB_RUN_STATUSES: JobRunStatus[] = ['running', 'success', 'failed'];
+
+router.get('/jobs', async (req: Request, res: Response) => {
+  try {
+    const status = req.query.status as string | undefined;
+    if (status && !JOB_RUN_STATUSES.includes(status as JobRunStatus)) {
+      res.status(400).json({ error: `Status inválido (use ${JOB_RUN_STATUSES.join(', ')})` });
+      return;
+    }
+
+    const runs = await listJobRuns({
+      jobName: typeof req.query.job === 'string' ? req.query.job : undefined,
+      status: status as JobRunStatus | undefined,
+      limit: Math.min(Math.max(Number(req.query.limit) || 50, 1), 200),
+    });
+    res.json({ jobs: listScheduledJobs(), runs });
+  } catch (error) {
+    logger.error('Erro ao listar execuções de jobs', error);
+    res.status(500).json({ error: 'Erro interno' });
+  }
+});
+
+// ============================================================
+// POST /api/dashboard/jobs/:jobName/run
+// Dispara o job agora (202: roda em segundo plano; acompanhe em GET /jobs)
+// ============================================================
+router.post('/jobs/:jobName/run', async (req: Request, res: Response) => {
+  try {
+    const result = await runJobNow(p(req, 'jobName'));
+    if (!result.started && result.reason === 'unknown_job') {
+      res.status(404).json({ error: 'Job não encontrado' });
+      return;
+    }
+    if (!result.started) {
+      res.status(409).json({ error: 'Job já está em execução' });
+      return;
+    }
+    res.status(202).json({ success: true, runId: result.runId });
+  } catch (error) {
+    logger.error('Erro ao disparar job', error);
+    res.status(500).json({ error: 'Erro interno' });
+  }
+});
+
+// ============================================================
+// PUT /api/dashboard/:consultantId/projects/:projectId/checkin-template
+// Troca o template do projeto: { templateId } ou { template } próprio
+// ============================================================
+router.put('/:consultantId/projects/:projectId/checkin-template', async (req: Request, res: Response) => {
+  try {
+    const parsed = CheckinTemplateChoiceSchema.safeParse(req.body);
+    if (!parsed.success) {
+      res.status(400).json({ error: 'Template inválido', details: parsed.error.flatten() });
+      return;
+    }
+
+    const template = await setProjectCheckinTemplate(p(req, 'projectId'), p(req, 'consultantId'), parsed.data);
+    if (!template) {
+      res.status(404).json({ error: 'Projeto não encontrado' });
+      return;
+    }
+    res.json({ success: true, template });
+  } catch (error) {
+    logger.error('Erro ao definir template de check-in', error);
+    res.status(500).json({ error: 'Erro interno' });
+  }
+});
+
+// ============================================================
+// POST /api/dashboard/:consultantId/projects/:projectId/streak-freezes
+// Consultor dá proteções de streak ao cliente (até config.streak.maxFreezes guardadas)
+// ============================================================
+router.post('/:consultantId/projects/:projectId/streak-freezes', async (req: Request, res: Response) => {
+  try {
+    const parsed = GrantFreezesSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      res.status(400).json({ error: 'Dados inválidos', details: parsed.error.flatten().fieldErrors });
+      return;
+    }
+
+    const projectId = p(req, 'projectId');
+    const consultantId = p(req, 'consultantId');
+    if (!(await projectBelongsTo(projectId, consultantId))) {
+      res.status(404).json({ error: 'Projeto não encontrado' });
+      return;
+    }
+
+    const result = await grantStreakFreezes(projectId, parsed.data.count, {
+      kind: 'granted',
+      consultantId,
+      note: parsed.data.note,
+    });
+    res.json({ success: true, ...result });
+  } catch (error) {
+    logger.error('Erro ao dar proteções de streak', error);
+    res.status(500).json({ error: 'Erro interno' });
+  }
+});
+
+// ============================================================
+// GET /api/dashboard/:consultantId/badges
+// Badges padrão + badges criados pelo consultor
+// ============================================================
+router.get('/:consultantId/badges', async (req: Request, res: Response) => {
+  try {
+    const custom = await listConsultantBadges(p(req, 'consultantId'));
+    res.json({
+      badges: [
+        ...DEFAULT_BADGES.map(b => ({ ...b, custom: false })),
+        ...custom.map(b => ({ ...b, custom: true })),
+      ],
+    });
+  } catch (error) {
+    logger.error('Erro ao listar badges', error);
+    res.status(500).json({ error: 'Erro interno' });
+  }
+});
+
+// ============================================================
+// PUT /api/dashboard/:consultantId/badges/:code
+// Cria ou altera um badge do consultor (condição na DSL de ../engine/badges.ts)
+// ============================================================
+router.put('/:consultantId/badges/:code', async (req: Request, res: Response) => {
+  try {
+    const parsed = BadgeDefinitionSchema.safeParse({ ...req.body, id: p(req, 'code') });
+    if (!parsed.success) {
+      res.status(400).json({ error: 'Badge inválido', details: parsed.error.flatten() });
+      return;
+    }
+
+    const result = await saveConsultantBadge(p(req, 'consultantId'), parsed.data);
+    if (result === 'reserved') {
+      res.status(409).json({ error: 'Código reservado para um badge padrão' });
+      return;
+    }
+    res.json({ success: true, badge: parsed.data });
+  } catch (error) {
+    logger.error('Erro ao salvar badge', error);
+    res.status(500).json({ error: 'Erro interno' });
+  }
+});
+
+// ============================================================
+// DELETE /api/dashboard/:consultantId/badges/:code
+// Desativa o badge (conquistas já registradas são mantidas)
+// ============================================================
+router.delete('/:consultantId/badges/:code', async (req: Request, res: Response) => {
+  try {
+    const removed = await deactivateConsultantBadge(p(req, 'consultantId'), p(req, 'code'));
+    if (!removed) {
+      res.status(404).json({ error: 'Badge não encontrado' });
+      return;
+    }
+    res.json({ success: true });
+  } catch (error) {
+    logger.error('Erro ao desativar badge', error);
+    res.status(500).json({ error: 'Erro interno' });
+  }
+});
+
+// ============================================================
+// GET /api/dashboard/:consultantId/level-curve
+// ============================================================
+router.get('/:consultantId/level-curve', async (req: Request, res: Response) => {
+  try {
+    const curve = await getConsultantLevelCurve(p(req, 'consultantId'));
+    res.json({ curve, default: DEFAULT_LEVEL_CURVE });
+  } catch (error) {
+    logger.error('Erro ao buscar curva de níveis', error);
+    res.status(500).json({ error: 'Erro interno' });
+  }
+});
+
+// ============================================================
+// PUT /api/dashboard/:consultantId/level-curve
+// { thresholds, names } ou { curve: null } para voltar à padrão.
+// Recalcula o nível de todos os clientes (só quem sobe é avisado)
+// ============================================================
+router.put('/:consultantId/level-curve', async (req: Request, res: Response) => {
+  try {
+    const reset = req.body?.curve === null;
+    const parsed = reset ? null : LevelCurveSchema.safeParse(req.body);
+    if (parsed && !parsed.success) {
+      res.status(400).json({ error: 'Curva inválida', details: parsed.error.flatten() });
+      return;
+    }
+
+    const backfill = await setConsultantLevelCurve(p(req, 'consultantId'), parsed ? parsed.data : null);
+    if (!backfill) {
+      res.status(404).json({ error: 'Consultor não encontrado' });
+      return;
+    }
+    res.json({ success: true, backfill });
+  } catch (error) {
+    logger.error('Erro ao salvar curva de níveis', error);
+    res.status(500).json({ error: 'Erro interno' });
+  }
+});
+
+// ============================================================
+// GET /api/dashboard/:consultantId/sequences?type=followup
+// Réguas do consultor (sem as arquivadas) + campos, variáveis e áudios
+// disponíveis para montar os passos
+// ============================================================
+router.get('/:consultantId/sequences', async (req: Request, res: Response) => {
+  try {
+    const type = req.query.type as string | undefined;
+    if (type && type !== 'followup' && type !== 'postpurchase') {
+      res.status(400).json({ error: 'type deve ser followup ou postpurchase' });
+      return;
+    }
+
+    const sequences = await listSequences(p(req, 'consultantId'), type as SequenceType | undefined);
+    res.json({
+      sequences,
+      conditionFields: SEQUENCE_FIELDS,
+      variables: SEQUENCE_VARIABLES,
+      audioTypes: SEQUENCE_AUDIO_TYPES,
+    });
+  } catch (error) {
+    logger.error('Erro ao listar réguas', error);
+    res.status(500).json({ error: 'Erro interno' });
+  }
+});
+
+// ============================================================
+// GET /api/dashboard/:consultantId/sequences/stats?days=30
+// Inscrições no follow-up por régua: ativas, concluídas, motivos de
+// saída e em que dia os leads saíram
+// ============================================================
+router.get('/:consultantId/sequences/stats', async (req: Request, res: Response) => {
+  try {
+    const days = DaysQuerySchema.safeParse(req.query['days']);
+    if (!days.success) {
+      res.status(400).json({ error: 'days inválido (1 a 365)' });
+      return;
+    }
+    const stats = await getEnrollmentStats(p(req, 'consultantId'), days.data);
+    res.json({ stats, days: days.data });
+  } catch (error) {
+    logger.error('Erro ao buscar estatísticas das réguas', error);
+    res.status(500).json({ error: 'Erro interno' });
+  }
+});
+
+// ============================================================
+// POST /api/dashboard/:consultantId/sequences
+// { type, name, rules?, steps: [{ dayOffset, hourOfDay, text, audio?, condition? }] }
+// Cria como rascunho
+// ============================================================
+router.post('/:consultantId/sequences', async (req: Request, res: Response) => {
+  try {
+    const parsed = SequenceInputSchema.safeParse(req.body);
+    if (!parsed.success) {
+      res.status(400).json({ error: 'Régua inválida', details: parsed.error.flatten() });
+      return;
+    }
+
+    const sequence = await createSequence(p(req, 'consultantId'), parsed.data);
+    res.status(201).json({ success: true, sequence });
+  } catch (error) {
+    logger.error('Erro ao criar régua', error);
+    res.status(500).json({ error: 'Erro interno' });
+  }
+});
+
+// ============================================================
+// PUT /api/dashboard/:consultantId/sequences/:sequenceId
+// Só rascunhos; para mudar a régua ativa, clone e ative a cópia
+// ============================================================
+router.put('/:consultantId/sequences/:sequenceId', async (req: Request, res: Response) => {
+  try {
+    const parsed = SequenceInputSchema.safeParse(req.body);
+    if (!parsed.success) {
+      res.status(400).json({ error: 'Régua inválida', details: parsed.error.flatten() });
+      return;
+    }
+
+    const result = await updateSequence(p(req, 'sequenceId'), p(req, 'consultantId'), parsed.data);
+    if (result.status === 'not_found') {
+      res.status(404).json({ error: 'Régua não encontrada' });
+      return;
+    }
+    if (result.status === 'not_draft') {
+      res.status(409).json({ error: 'Só rascunhos podem ser editados — clone a régua para alterá-la' });
+      return;
+    }
+    res.json({ success: true, sequence: result.sequence });
+  } catch (error) {
+    logger.error('Erro ao atualizar régua', error);
+    res.status(500).json({ error: 'Erro interno' });
+  }
+});
+
+// ============================================================
+// POST /api/dashboard/:consultantId/sequences/:sequenceId/clone
+// { name? } — cópia em rascunho
+// ============================================================
+router.post('/:consultantId/sequences/:sequenceId/clone', async (req: Request, res: Response) => {
+  try {
+    const parsed = CloneSequenceSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      res.status(400).json({ error: 'Dados inválidos', details: parsed.error.flatten() });
+      return;
+    }
+
+    const sequence = await cloneSequence(p(req, 'sequenceId'), p(req, 'consultantId'), parsed.data.name);
+    if (!sequence) {
+      res.status(404).json({ error: 'Régua não encontrada' });
+      return;
+    }
+    res.status(201).json({ success: true, sequence });
+  } catch (error) {
+    logger.error('Erro ao clonar régua', error);
+    res.status(500).json({ error: 'Erro interno' });
+  }
+});
+
+// ============================================================
+// POST /api/dashboard/:consultantId/sequences/:sequenceId/preview
+// { params?, state? } — textos renderizados (dados de exemplo se params
+// não vier) e, com state, se cada condição seria atendida
+// ============================================================
+router.post('/:consultantId/sequences/:sequenceId/preview', async (req: Request, res: Response) => {
+  try {
+    const parsed = PreviewSequenceSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      res.status(400).json({ error: 'Dados inválidos', details: parsed.error.flatten() });
+      return;
+    }
+
+    const sequence = await getSequence(p(req, 'sequenceId'), p(req, 'consultantId'));
+    if (!sequence) {
+      res.status(404).json({ error: 'Régua não encontrada' });
+      return;
+    }
+    res.json({
+      sequence: { id: sequence.id, name: sequence.name, type: sequence.type, status: sequence.status },
+      steps: previewSequence(sequence.steps, parsed.data.params ?? PREVIEW_PARAMS, parsed.data.state),
+    });
+  } catch (error) {
+    logger.error('Erro ao pré-visualizar régua', error);
+    res.status(500).json({ error: 'Erro interno' });
+  }
+});
+
+// ============================================================
+// POST /api/dashboard/:consultantId/sequences/:sequenceId/activate
+// Passa a valer no próximo ciclo do scheduler; a ativa anterior do
+// mesmo tipo é arquivada
+// ============================================================
+router.post('/:consultantId/sequences/:sequenceId/activate', async (req: Request, res: Response) => {
+  try {
+    const sequence = await activateSequence(p(req, 'sequenceId'), p(req, 'consultantId'));
+    if (!sequence) {
+      res.status(404).json({ error: 'Régua não encontrada' });
+      return;
+    }
+    res.json({ success: true, sequence });
+  } catch (error) {
+    logger.error('Erro ao ativar régua', error);
+    res.status(500).json({ error: 'Erro interno' });
+  }
+});
+
+// ============================================================
+// POST /api/dashboard/:consultantId/sequences/:sequenceId/deactivate
+// Arquiva a régua; o consultor volta para a régua padrão
+// ============================================================
+router.post('/:consultantId/sequences/:sequenceId/deactivate', async (req: Request, res: Response) => {
+  try {
+    const archived = await archiveSequence(p(req, 'sequenceId'), p(req, 'consultantId'));
+    if (!archived) {
+      res.status(404).json({ error: 'Régua não encontrada' });
+      return;
+    }
+    res.json({ success: true });
+  } catch (error) {
+    logger.error('Erro ao arquivar régua', error);
+    res.status(500).json({ error: 'Erro interno' });
+  }
+});
+
 // ============================================================
 // GET /api/dashboard/project/:projectId/report
 // Relatório completo de um cliente específico
@@ -5,18 +5,25 @@
  * Alternativa: user_metadata.project_id no token JWT
  *
  * Rotas:
- *   GET  /api/client/me          — dados do projeto + gamificação
- *   POST /api/client/checkin     — submeter check-in
+ *   GET  /api/client/me          — dados do projeto + gamificação + indicações
+ *   POST /api/client/checkin     — submeter check-in (itens do template do projeto)
  *   GET  /api/client/badges      — badges conquistados + disponíveis
  *   GET  /api/client/history     — histórico de peso e XP
+ *   GET  /api/client/xp-history  — eventos de XP (livro-razão), ?limit=50&before=<ISO>
+ *   POST /api/client/streak/repair — recupera a sequência zerada usando proteções
  */
 
 import { Router } from 'express';
 import type { Request, Response } from 'express';
 import { createClient as createSupabaseClient } from '@supabase/supabase-js';
-import { z } from 'zod';
 import { createLogger } from '../lib/logger.js';
 import { processCheckin, generateProjectReportJSON } from '../engine/gamification.js';
+import { getProjectCheckinTemplate, buildCheckinDataSchema } from '../engine/checkin-templates.js';
+import { repairStreak } from '../engine/streak.js';
+import { listProjectBadges } from '../engine/badges.js';
+import { getXpHistory } from '../engine/xp-ledger.js';
+import { getProjectReferralSummary } from '../pipeline/referrals.js';
+import { getProjectTimeZone } from '../lib/timezone.js';
 
 const logger = createLogger('CLIENT-API');
 const router = Router();
@@ -27,15 +34,6 @@ const supabase = createSupabaseClient(
   process.env.SUPABASE_SERVICE_KEY ?? '',
 );
 
-const CheckinSchema = z.object({
-  shakeAm:       z.boolean().default(false),
-  shakePm:       z.boolean().default(false),
-  hydrationOk:   z.boolean().default(false),
-  supplementOk:  z.boolean().default(false),
-  weightKg:      z.number().optional(),
-  mood:          z.number().min(1).max(5).optional(),
-});
-
 // Middleware: obter project_id a partir do Bearer JWT
 async function withProjectId(req: Request, res: Response): Promise<string | null> {
   const bearer = (req.headers['authorization'] as string | undefined)?.replace('Bearer ', '');
@@ -80,7 +78,8 @@ router.get('/me', async (req: Request, res: Response) => {
       res.status(404).json({ error: 'Projeto não encontrado' });
       return;
     }
-    res.json({ projectId, report });
+    const referrals = await getProjectReferralSummary(projectId);
+    res.json({ projectId, report: { ...report, referrals } });
   } catch (error) {
     logger.error('Erro ao buscar dados do cliente', error);
     res.status(500).json({ error: 'Erro interno' });
@@ -95,13 +94,15 @@ router.post('/checkin', async (req: Request, res: Response) => {
     const projectId = await withProjectId(req, res);
     if (!projectId) return;
 
-    const parsed = CheckinSchema.safeParse(req.body);
+    // Schema montado a partir do template de check-in do projeto
+    const template = await getProjectCheckinTemplate(projectId);
+    const parsed = buildCheckinDataSchema(template).safeParse(req.body);
     if (!parsed.success) {
       res.status(400).json({ error: 'Dados inválidos', details: parsed.error.flatten().fieldErrors });
       return;
     }
 
-    const result = await processCheckin(projectId, parsed.data);
+    const result = await processCheckin(projectId, parsed.data, template, 'client_app');
     res.json(result);
   } catch (error) {
     logger.error('Erro ao processar check-in do cliente', error);
@@ -117,12 +118,8 @@ router.get('/badges', async (req: Request, res: Response) => {
     const projectId = await withProjectId(req, res);
     if (!projectId) return;
 
-    const { data: earned } = await supabase
-      .from('client_badges')
-      .select('badge_id, earned_at')
-      .eq('project_id', projectId);
-
-    res.json({ projectId, badges: earned ?? [] });
+    const badges = await listProjectBadges(projectId);
+    res.json({ projectId, badges });
   } catch (error) {
     logger.error('Erro ao buscar badges', error);
     res.status(500).json({ error: 'Erro interno' });
@@ -140,13 +137,13 @@ router.get('/history', async (req: Request, res: Response) => {
     const [checkinsRes, gamiRes] = await Promise.all([
       supabase
         .from('daily_checkins')
-        .select('checkin_date, weight_kg, xp_gained, shake_am, shake_pm, hydration_ok, supplement_ok')
+        .select('checkin_date, template_id, answers, weight_kg, mood, xp_earned')
         .eq('project_id', projectId)
         .order('checkin_date', { ascending: false })
         .limit(90),
       supabase
         .from('client_gamification')
-        .select('xp_total, level, current_streak, max_streak')
+        .select('xp_total, level, current_streak, max_streak, streak_freezes')
         .eq('project_id', projectId)
         .single(),
     ]);
@@ -162,4 +159,52 @@ router.get('/history', async (req: Request, res: Response) => {
   }
 });
 
+// ============================================================
+// GET /api/client/xp-history
+// Eventos de XP do mais recente para o mais antigo (paginação por ?before)
+// ============================================================
+router.get('/xp-history', async (req: Request, res: Response) => {
+  try {
+    const projectId = await withProjectId(req, res);
+    if (!projectId) return;
+
+    const limit = Math.min(Math.max(Number(req.query.limit) || 50, 1), 200);
+    const before = typeof req.query.before === 'string' && !Number.isNaN(Date.parse(req.query.before))
+      ? req.query.before
+      : undefined;
+
+    const events = await getXpHistory(projectId, { limit, before });
+    res.json({
+      projectId,
+      events,
+      nextBefore: events.length === limit ? events[events.length - 1].created_at : null,
+    });
+  } catch (error) {
+    logger.error('Erro ao buscar histórico de XP', error);
+    res.status(500).json({ error: 'Erro interno' });
+  }
+});
+
+// ============================================================
+// POST /api/client/streak/repair
+// 409 com o motivo quando não há o que reparar, faltam proteções ou o
+// streak mudou durante o reparo (conflict)
+// ============================================================
+router.post('/streak/repair', async (req: Request, res: Response) => {
+  try {
+    const projectId = await withProjectId(req, res);
+    if (!projectId) return;
+
+    const result = await repairStreak(projectId, await getProjectTimeZone(projectId));
+    if (!result.repaired) {
+      res.status(409).json({ error: 'Não foi possível reparar o streak', ...result });
+      return;
+    }
+    res.json(result);
+  } catch (error) {
+    logger.error('Erro ao reparar streak', error);
+    res.status(500).json({ error: 'Erro interno' });
+  }
+});
+
 export { router as clientRouter };
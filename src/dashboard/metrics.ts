@@ -10,7 +10,12 @@
 
 import { createLogger } from '../lib/logger.js';
 import { db } from '../database/client.js';
+import { resolveTimeZone, localDateString, getConsultantTimeZone } from '../lib/timezone.js';
 import { getQueueStats } from '../monitor/prospect-queue.js';
+import { getConsultantReferralStats, type ConsultantReferralStats } from '../pipeline/referrals.js';
+import { getConsultantLevelCurve, getLevelProgress } from '../engine/levels.js';
+import { getRollingStatsForProjects } from '../engine/checkin-stats.js';
+import { resolveCheckinTemplate } from '../engine/checkin-templates.js';
 
 const logger = createLogger('DASHBOARD');
 
@@ -34,6 +39,16 @@ export type ClientOverview = {
   currentStreak: number;
   xpTotal: number;
   level: number;
+  levelName: string;
+  xpToNextLevel: number;
+  levelProgressPct: number;
+  // Janela móvel (de daily_checkins)
+  checkins7d: number;
+  checkins30d: number;
+  adherence7dPct: number;
+  adherence30dPct: number;
+  weightChange30dKg: number | null;
+  moodAvg7d: number | null;
   lastCheckin?: string;
 };
 
@@ -49,6 +64,7 @@ export type DashboardSummary = {
     warm: number;
     queued: number;
   };
+  referrals: ConsultantReferralStats;
   todayStats: {
     checkinsSent: number;
     messagesProcessed: number;
@@ -57,20 +73,6 @@ export type DashboardSummary = {
   generatedAt: string;
 };
 
-// ============================================================
-// CALCULAR NÍVEL A PARTIR DO XP
-// (deve estar em sincronia com gamification.ts)
-// ============================================================
-function xpToLevel(xp: number): number {
-  const thresholds = [0, 100, 300, 600, 1000, 1500, 2500, 4000];
-  let level = 1;
-  for (let i = 0; i < thresholds.length; i++) {
-    if (xp >= thresholds[i]) level = i + 1;
-    else break;
-  }
-  return level;
-}
-
 // ============================================================
 // BUSCAR MÉTRICAS DO FUNIL
 // ============================================================
@@ -141,6 +143,9 @@ async function getTopClients(
       id,
       product_kit,
       start_date,
+      goal_type,
+      checkin_template_id,
+      checkin_template,
       leads!inner(phone, full_name, consultant_id),
       client_gamification(current_streak, xp_total, last_checkin_at)
     `)
@@ -153,13 +158,27 @@ async function getTopClients(
     id: string;
     product_kit: string;
     start_date: string;
+    goal_type: string | null;
+    checkin_template_id: string | null;
+    checkin_template: unknown;
     leads: { phone: string | null; full_name: string | null; consultant_id: string };
     client_gamification: Array<{ current_streak: number; xp_total: number; last_checkin_at: string | null }>;
   };
+  const rows = (projects as unknown) as ProjRow[];
+
+  const [curve, rollingStats] = await Promise.all([
+    getConsultantLevelCurve(consultantId),
+    getConsultantTimeZone(consultantId).then(timeZone => getRollingStatsForProjects(
+      rows.map(p => ({ id: p.id, start_date: p.start_date, template: resolveCheckinTemplate(p) })),
+      timeZone
+    )),
+  ]);
 
-  return ((projects as unknown) as ProjRow[])
+  return rows
     .map(p => {
       const gam = p.client_gamification?.[0];
+      const progress = getLevelProgress(gam?.xp_total ?? 0, curve);
+      const stats = rollingStats.get(p.id);
       const daysActive = Math.floor(
         (Date.now() - new Date(p.start_date).getTime()) / (24 * 60 * 60 * 1000)
       );
@@ -171,7 +190,16 @@ async function getTopClients(
         daysActive,
         currentStreak: gam?.current_streak ?? 0,
         xpTotal: gam?.xp_total ?? 0,
-        level: xpToLevel(gam?.xp_total ?? 0),
+        level: progress.level,
+        levelName: progress.levelName,
+        xpToNextLevel: progress.xpToNextLevel,
+        levelProgressPct: progress.progressPct,
+        checkins7d: stats?.d7.checkins ?? 0,
+        checkins30d: stats?.d30.checkins ?? 0,
+        adherence7dPct: stats?.d7.adherencePct ?? 0,
+        adherence30dPct: stats?.d30.adherencePct ?? 0,
+        weightChange30dKg: stats?.d30.weightChangeKg ?? null,
+        moodAvg7d: stats?.d7.moodAvg ?? null,
         lastCheckin: gam?.last_checkin_at ?? undefined,
       } satisfies ClientOverview;
     })
@@ -190,16 +218,18 @@ export async function getDashboardSummary(
   // Buscar nome do consultor
   const { data: consultant } = await db.client
     .from('consultants')
-    .select('name')
+    .select('name, timezone')
     .eq('id', consultantId)
     .single();
 
-  const consultantName = (consultant as { name: string } | null)?.name ?? 'Consultor';
+  const consultantRow = consultant as { name: string; timezone: string | null } | null;
+  const consultantName = consultantRow?.name ?? 'Consultor';
 
   // Buscar todos os dados em paralelo
-  const [funnel, topClients] = await Promise.all([
+  const [funnel, topClients, referrals] = await Promise.all([
     getFunnelMetrics(consultantId),
     getTopClients(consultantId),
+    getConsultantReferralStats(consultantId),
   ]);
 
   const prospectStats = await getQueueStats(consultantId);
@@ -207,7 +237,7 @@ export async function getDashboardSummary(
   return {
     consultantId,
     consultantName,
-    period: new Date().toISOString().split('T')[0],
+    period: localDateString(resolveTimeZone(consultantRow?.timezone)),
     funnel,
     topClients,
     prospectQueue: {
@@ -216,6 +246,7 @@ export async function getDashboardSummary(
       warm: prospectStats.warm,
       queued: prospectStats.queued,
     },
+    referrals,
     todayStats: {
       // Em produção: buscar de tabela daily_metrics
       checkinsSent: 0,
@@ -286,7 +317,7 @@ export async function buildDailyReportMessage(consultantId: string): Promise<str
     const top3 = summary.topClients.slice(0, 3);
     for (const c of top3) {
       lines.push(
-        `   ${c.leadName} — Nível ${c.level} | Streak: ${c.currentStreak}🔥 | ${c.xpTotal}XP`
+        `   ${c.leadName} — Nível ${c.level} | Streak: ${c.currentStreak}🔥 | ${c.xpTotal}XP | Adesão 7d: ${c.adherence7dPct}%`
       );
     }
     lines.push(``);
@@ -0,0 +1,23 @@
+/**
+ * Backfill de Níveis — PELÍCANO™ v3.0
+ *
+ * Recalcula client_gamification.level de todos os projetos pela curva de
+ * cada consultor (src/engine/levels.ts). Quem sobe de nível recebe aviso
+ * no WhatsApp; quem desce é só corrigido.
+ * Uso: npm run db:backfill-levels [consultantId]
+ */
+
+import 'dotenv/config';
+import { recomputeLevels } from '../engine/levels.js';
+
+const consultantId = process.argv[2];
+
+console.log(`📊 Recalculando níveis${consultantId ? ` do consultor ${consultantId}` : ' de todos os consultores'}...`);
+
+try {
+  const result = await recomputeLevels(consultantId);
+  console.log(`✅ ${result.checked} projetos verificados, ${result.changed} alterados, ${result.levelUps} subiram de nível`);
+} catch (error) {
+  console.error('❌ Falha no backfill:', error);
+  process.exit(1);
+}
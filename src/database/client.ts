@@ -12,6 +12,22 @@ export type ConversationMessage = {
   role: 'assistant' | 'user';
   content: string;
   timestamp: string;
+  author?: 'human'; // resposta digitada pelo consultor durante o modo humano
+};
+
+// Origem de um fato extraído da conversa (ver engine/context-extractor.ts)
+export type FactSource = {
+  confidence: number;      // 0-1
+  message_index: number;   // índice em conversations.messages
+  extracted_at: string;
+  method: 'llm' | 'rules';
+};
+
+// Resumo das mensagens antigas da conversa (ver engine/conversation-summary.ts)
+export type ConversationSummary = {
+  text: string;
+  covered_messages: number; // mensagens [0, covered_messages) já resumidas
+  updated_at: string;
 };
 
 export type LeadContextData = {
@@ -24,6 +40,12 @@ export type LeadContextData = {
   location?: string;
   name?: string;
   source_context?: string;
+  business_offered?: boolean; // já passou pela trilha de negócio (perfil "both")
+  completed_tracks?: Array<'product' | 'business'>; // trilhas cujo compromisso já foi vencido
+  fact_sources?: Record<string, FactSource>; // chave: campo ou "pain_points:<dor>"
+  conversation_summary?: ConversationSummary;
+  objections_handled?: Record<string, number>; // objeções já tratadas (chave: tipo), sobrevive a restart
+  human_takeover_summary?: string; // o que o consultor conversou no modo humano
 };
 
 export type Consultant = {
@@ -34,6 +56,8 @@ export type Consultant = {
   plan_tier: 'starter' | 'pro' | 'team';
   whatsapp_connected: boolean;
   config: Record<string, unknown>;
+  timezone: string | null; // IANA (null → TIMEZONE)
+  level_curve: { thresholds: number[]; names: string[] } | null; // null → DEFAULT_LEVEL_CURVE
   active: boolean;
   created_at: string;
   updated_at: string;
@@ -62,9 +86,12 @@ export type Conversation = {
   messages: ConversationMessage[];
   context_data: LeadContextData;
   handoff_triggered: boolean;
-  status: string;
+  status: string;                          // active | human | paused | converted | lost
   started_at: string;
   converted_at: string | null;
+  human_takeover_at: string | null;
+  human_takeover_reason: string | null;    // handoff | dashboard | consultant_message
+  human_last_activity_at: string | null;
   updated_at: string;
 };
 
@@ -94,6 +121,9 @@ export type ClientProject = {
   target_date: string | null;
   status: string;
   notes: string | null;
+  checkin_template_id: string | null;          // template do kit (engine/checkin-templates.ts)
+  checkin_template: Record<string, unknown> | null; // template próprio do projeto
+  timezone: string | null;                     // IANA (null → fuso do consultor)
   created_at: string;
   updated_at: string;
 };
@@ -108,7 +138,11 @@ export type ClientGamification = {
   checkin_count_total: number;
   checkin_count_30d: number;
   last_checkin_at: string | null;
-  badges: string[];
+  last_checkin_date: string | null;      // dia local creditado no último check-in
+  streak_freezes: number;                // proteções de streak guardadas
+  streak_before_reset: number | null;    // para o reparo da sequência
+  streak_reset_on: string | null;
+  streak_reset_missed: number | null;
   updated_at: string;
 };
 
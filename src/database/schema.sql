@@ -17,6 +17,7 @@ create table if not exists consultants (
   plan_tier     text not null default 'starter', -- starter | pro | team
   whatsapp_connected boolean default false,
   config        jsonb default '{}'::jsonb,  -- configurações personalizadas
+                                          -- playbook: "slug" ou {"slug", "version"} (ver tabela playbooks)
   active        boolean default true,
   created_at    timestamptz default now(),
   updated_at    timestamptz default now()
@@ -69,6 +70,7 @@ create table if not exists conversations (
   -- Etapa SPIN atual
   spin_stage      text not null default 'ice_break',
                   -- ice_break → situation → problem → implication → commitment → transition → closed
+                  -- biz_ice_break → biz_qualification → biz_implication → biz_commitment → transition
   messages        jsonb default '[]'::jsonb, -- array de {role, content, timestamp}
   context_data    jsonb default '{}'::jsonb, -- dados coletados: dor, objetivo, situação
   handoff_triggered boolean default false,
@@ -113,7 +115,6 @@ create table if not exists client_gamification (
   checkin_count_total   int not null default 0,
   checkin_count_30d     int not null default 0,
   last_checkin_at       timestamptz,
-  badges                jsonb default '[]'::jsonb, -- array de badge codes
   updated_at            timestamptz default now()
 );
 
@@ -247,3 +248,501 @@ create trigger trg_client_projects_updated_at before update on client_projects
 
 create trigger trg_gamification_updated_at before update on client_gamification
   for each row execute function update_updated_at();
+
+-- ============================================================
+-- PLAYBOOKS DE CONVERSA (persona + prompts SPIN versionados)
+-- Documento validado em src/engine/playbook.ts; o padrão vem do deploy
+-- ============================================================
+create table if not exists playbooks (
+  id              uuid primary key default uuid_generate_v4(),
+  slug            text not null,                -- ex: time-ana
+  version         int not null default 1,
+  consultant_id   uuid references consultants(id) on delete set null, -- dono (null = compartilhado)
+  name            text not null,
+  document        jsonb not null,
+  active          boolean default true,
+  created_at      timestamptz default now(),
+  unique (slug, version)
+);
+
+create index if not exists idx_playbooks_slug_active on playbooks(slug, version desc) where active;
+
+-- ============================================================
+-- EXPERIMENTOS A/B (variantes de prompt SPIN, follow-up e recompra)
+-- ============================================================
+create table if not exists experiments (
+  id              uuid primary key default uuid_generate_v4(),
+  key             text not null unique,         -- ex: ice-break-curiosidade
+  consultant_id   uuid references consultants(id) on delete cascade, -- null = todos
+  target          text not null,                -- spin_stage | followup | reorder
+  target_ref      text not null,                -- etapa SPIN, dia da régua ou "default"
+  variants        jsonb not null,               -- [{id, weight, content}]
+  active          boolean default true,
+  created_at      timestamptz default now()
+);
+
+create table if not exists experiment_assignments (
+  id                    uuid primary key default uuid_generate_v4(),
+  experiment_id         uuid not null references experiments(id) on delete cascade,
+  lead_id               uuid not null references leads(id) on delete cascade,
+  consultant_id         uuid not null references consultants(id) on delete cascade,
+  variant               text not null,
+  conversation_id       uuid references conversations(id) on delete set null,
+  project_id            uuid references client_projects(id) on delete set null,
+  -- Resultados (primeira ocorrência)
+  advanced_at           timestamptz,
+  handoff_at            timestamptz,
+  converted_at          timestamptz,
+  reorder_confirmed_at  timestamptz,
+  assigned_at           timestamptz default now(),
+  unique (experiment_id, lead_id)
+);
+
+create index if not exists idx_experiments_target on experiments(target, target_ref) where active;
+create index if not exists idx_experiment_assignments_lead on experiment_assignments(lead_id);
+create index if not exists idx_experiment_assignments_consultant on experiment_assignments(consultant_id, experiment_id);
+
+-- ============================================================
+-- GUARDRAIL: respostas da IA bloqueadas (auditoria por consultor)
+-- ============================================================
+create table if not exists guardrail_violations (
+  id              uuid primary key default uuid_generate_v4(),
+  consultant_id   uuid not null references consultants(id) on delete cascade,
+  lead_id         uuid references leads(id) on delete set null,
+  conversation_id uuid references conversations(id) on delete set null,
+  rule_id         text not null,                -- ex: price_currency, medical_cure
+  category        text not null,                -- price | link | medical_claim | weight_promise | bot_admission | custom
+  excerpt         text not null,                -- trecho que disparou a regra
+  reply           text not null,                -- resposta bloqueada
+  action          text not null,                -- regenerated | rewritten | blocked
+  created_at      timestamptz default now()
+);
+
+create index if not exists idx_guardrail_violations_consultant on guardrail_violations(consultant_id, created_at desc);
+
+-- ============================================================
+-- MODO HUMANO: consultor assume a conversa e o bot pausa
+-- conversations.status passa a aceitar 'human'
+-- ============================================================
+alter table conversations
+  add column if not exists human_takeover_at      timestamptz,
+  add column if not exists human_takeover_reason  text,         -- handoff | dashboard | consultant_message
+  add column if not exists human_last_activity_at timestamptz;  -- última mensagem do consultor (timeout)
+
+create index if not exists idx_conversations_human on conversations(human_last_activity_at) where status = 'human';
+
+-- ============================================================
+-- MÍDIA RECEBIDA: fotos de progresso e documentos do lead
+-- Arquivos no Supabase Storage (bucket MEDIA_BUCKET, privado):
+--   insert into storage.buckets (id, name, public) values ('lead-media', 'lead-media', false);
+-- ============================================================
+create table if not exists lead_media (
+  id                  uuid primary key default uuid_generate_v4(),
+  lead_id             uuid not null references leads(id) on delete cascade,
+  consultant_id       uuid not null references consultants(id) on delete cascade,
+  project_id          uuid references client_projects(id) on delete set null,
+  kind                text not null,                -- image | document
+  purpose             text not null,                -- progress_photo | attachment
+  storage_path        text not null,                -- caminho dentro do bucket
+  mimetype            text not null,
+  size_bytes          integer not null,
+  file_name           text,
+  caption             text,
+  whatsapp_message_id text,
+  xp_awarded          integer not null default 0,   -- PHOTO_SHARED (no máximo 1x por dia)
+  created_at          timestamptz default now()
+);
+
+create index if not exists idx_lead_media_lead on lead_media(lead_id, created_at desc);
+create index if not exists idx_lead_media_project on lead_media(project_id, created_at desc) where project_id is not null;
+
+-- ============================================================
+-- TEMPLATES DE CHECK-IN (por kit ou por projeto)
+-- Itens definidos em src/engine/checkin-templates.ts; o projeto pode ter um próprio.
+-- Respostas em daily_checkins.answers (por chave do item);
+-- shake_am, shake_pm, hydration_ok e supplement_ok ficam só para check-ins antigos.
+-- ============================================================
+alter table client_projects
+  add column if not exists checkin_template_id text,   -- weight_loss | energy | performance (definido pelo kit)
+  add column if not exists checkin_template    jsonb;  -- template próprio (tem prioridade)
+
+alter table daily_checkins
+  add column if not exists template_id text,
+  add column if not exists answers     jsonb not null default '{}';
+
+-- ============================================================
+-- FUSO HORÁRIO (IANA) por consultor e por projeto
+-- Dia do check-in, streak, réguas, dia do desafio e recompra usam esse fuso.
+-- Resolução: client_projects.timezone → consultants.timezone → TIMEZONE
+-- ============================================================
+alter table consultants     add column if not exists timezone text; -- ex: America/Sao_Paulo
+alter table client_projects add column if not exists timezone text; -- cliente em outro fuso que o consultor
+
+-- ============================================================
+-- STREAK: janela de tolerância, proteções (freeze) e reparo
+-- ============================================================
+alter table client_gamification
+  add column if not exists last_checkin_date   date,             -- dia local creditado (pode ser ontem, na tolerância)
+  add column if not exists streak_freezes      int not null default 0,
+  add column if not exists streak_before_reset int,              -- sequência perdida (reparo)
+  add column if not exists streak_reset_on     date,
+  add column if not exists streak_reset_missed int;              -- proteções necessárias para reparar
+
+alter table daily_checkins
+  add column if not exists grace_used   boolean not null default false, -- feito na manhã seguinte, contou para o dia
+  add column if not exists freezes_used int not null default 0;         -- proteções consumidas neste check-in
+
+create table if not exists streak_freeze_events (
+  id            uuid primary key default uuid_generate_v4(),
+  project_id    uuid not null references client_projects(id) on delete cascade,
+  kind          text not null,              -- earned (XP) | granted (consultor) | used | repair
+  amount        int not null,               -- + ganhou, - consumiu
+  covered_dates date[] not null default '{}', -- dias perdidos cobertos (used | repair)
+  granted_by    uuid references consultants(id),
+  note          text,
+  created_at    timestamptz default now()
+);
+
+create index if not exists idx_streak_freeze_events_project on streak_freeze_events(project_id, created_at desc);
+
+-- ============================================================
+-- INDICAÇÕES: código pessoal do cliente → lead indicado → conversão
+-- ============================================================
+alter table client_projects add column if not exists referral_code text unique; -- ex: ANA-7K2Q
+
+create table if not exists referrals (
+  id                  uuid primary key default uuid_generate_v4(),
+  consultant_id       uuid not null references consultants(id) on delete cascade,
+  referrer_project_id uuid not null references client_projects(id) on delete cascade, -- quem indicou
+  referee_lead_id     uuid not null unique references leads(id) on delete cascade,      -- só a 1ª indicação vale
+  referee_project_id  uuid references client_projects(id) on delete set null,          -- quando converte
+  code                text not null,
+  channel             text not null,                 -- whatsapp | manychat
+  status              text not null default 'pending', -- pending | converted
+  xp_awarded          int not null default 0,        -- XP_REWARDS.REFERRAL na conversão
+  created_at          timestamptz default now(),
+  converted_at        timestamptz
+);
+
+create index if not exists idx_referrals_referrer on referrals(referrer_project_id, status);
+create index if not exists idx_referrals_consultant on referrals(consultant_id, status);
+
+-- ============================================================
+-- BADGES: definições do consultor + conquistas (quando e por quê)
+-- Badges padrão ficam no código (src/engine/badges.ts → DEFAULT_BADGES)
+-- ============================================================
+create table if not exists badge_definitions (
+  id            uuid primary key default uuid_generate_v4(),
+  consultant_id uuid not null references consultants(id) on delete cascade,
+  code          text not null,               -- não pode repetir um badge padrão
+  emoji         text not null,
+  name          text not null,
+  description   text not null,
+  condition     jsonb not null,              -- DSL: {stat, op, value} | {all: [...]} | {any: [...]}
+  message       text not null,               -- enviada ao conquistar
+  active        boolean not null default true,
+  created_at    timestamptz default now(),
+  unique (consultant_id, code)
+);
+
+create table if not exists badge_unlocks (
+  id          uuid primary key default uuid_generate_v4(),
+  project_id  uuid not null references client_projects(id) on delete cascade,
+  badge_code  text not null,
+  unlocked_at timestamptz not null default now(),
+  reason      text not null,                 -- ex: "streak 7 ≥ 7"
+  stats       jsonb,                         -- GamificationStats no momento da conquista
+  unique (project_id, badge_code)
+);
+
+-- Migração: badges antigos (client_gamification.badges) viram conquistas
+do $$
+begin
+  if exists (
+    select 1 from information_schema.columns
+    where table_name = 'client_gamification' and column_name = 'badges'
+  ) then
+    insert into badge_unlocks (project_id, badge_code, unlocked_at, reason)
+    select g.project_id, b.code, coalesce(g.updated_at, now()), 'migrado'
+    from client_gamification g, jsonb_array_elements_text(g.badges) as b(code)
+    on conflict (project_id, badge_code) do nothing;
+
+    alter table client_gamification drop column badges;
+  end if;
+end $$;
+
+-- Lista de badge codes por projeto (substitui client_gamification.badges)
+create or replace view client_gamification_badges as
+select project_id, array_agg(badge_code order by unlocked_at) as badges
+from badge_unlocks
+group by project_id;
+
+-- ============================================================
+-- CURVA DE NÍVEIS POR CONSULTOR (src/engine/levels.ts)
+-- {"thresholds": [0, 100, ...], "names": ["Iniciante", ...]}; null = curva padrão
+-- Depois de alterar: npm run db:backfill-levels (ou PUT /level-curve, que já recalcula)
+-- ============================================================
+alter table consultants add column if not exists level_curve jsonb;
+
+-- ============================================================
+-- LIVRO-RAZÃO DE XP (src/engine/xp-ledger.ts)
+-- Eventos imutáveis; client_gamification.xp_total é somado por award_xp
+-- na mesma transação do evento (nada de ler-somar-gravar na aplicação)
+-- ============================================================
+create table if not exists xp_events (
+  id              uuid primary key default uuid_generate_v4(),
+  project_id      uuid not null references client_projects(id) on delete cascade,
+  action          text not null,             -- chave de XP_REWARDS (CHECKIN_DAILY, REFERRAL...) ou OPENING_BALANCE
+  amount          int not null,
+  source          text not null,             -- whatsapp | client_app | system | migration
+  idempotency_key text,                      -- ex: checkin:2025-03-01, referral:<lead_id>
+  created_at      timestamptz default now(),
+  unique (project_id, idempotency_key)
+);
+
+create index if not exists idx_xp_events_project on xp_events(project_id, created_at desc);
+
+create or replace function award_xp(
+  p_project_id uuid,
+  p_action text,
+  p_amount int,
+  p_source text,
+  p_idempotency_key text default null
+)
+returns table (applied boolean, xp_before int, xp_after int)
+as $$
+declare
+  v_event_id uuid;
+  v_total int;
+begin
+  insert into xp_events (project_id, action, amount, source, idempotency_key)
+  values (p_project_id, p_action, p_amount, p_source, p_idempotency_key)
+  on conflict (project_id, idempotency_key) do nothing
+  returning id into v_event_id;
+
+  -- Chave repetida: nada a somar
+  if v_event_id is null then
+    select g.xp_total into v_total from client_gamification g where g.project_id = p_project_id;
+    return query select false, v_total, v_total;
+    return;
+  end if;
+
+  update client_gamification g
+    set xp_total = g.xp_total + p_amount
+    where g.project_id = p_project_id
+    returning g.xp_total into v_total;
+
+  if v_total is null then
+    raise exception 'client_gamification não encontrada para projeto %', p_project_id;
+  end if;
+
+  return query select true, v_total - p_amount, v_total;
+end;
+$$ language plpgsql;
+
+create or replace function increment_checkin_counters(p_project_id uuid)
+returns void as $$
+  update client_gamification
+    set checkin_count_total = checkin_count_total + 1,
+        checkin_count_30d   = checkin_count_30d + 1,
+        last_checkin_at     = now()
+    where project_id = p_project_id;
+$$ language sql;
+
+-- Migração: XP acumulado antes do livro-razão vira saldo inicial
+insert into xp_events (project_id, action, amount, source, idempotency_key, created_at)
+select g.project_id, 'OPENING_BALANCE', g.xp_total, 'migration', 'opening_balance', coalesce(g.updated_at, now())
+from client_gamification g
+where g.xp_total > 0
+  and not exists (select 1 from xp_events e where e.project_id = g.project_id)
+on conflict (project_id, idempotency_key) do nothing;
+
+-- ============================================================
+-- PROGRESSO DE PESO (src/engine/weight-progress.ts)
+-- Alertas de perda acelerada (consultor) e mensagens de platô (cliente)
+-- ============================================================
+create table if not exists weight_alerts (
+  id               uuid primary key default uuid_generate_v4(),
+  project_id       uuid not null references client_projects(id) on delete cascade,
+  kind             text not null,           -- rapid_loss | plateau_nudge
+  weekly_rate_kg   numeric(4,2),            -- + = perdendo
+  current_trend_kg numeric(5,2),            -- peso pela tendência suavizada
+  created_at       timestamptz default now()
+);
+
+create index if not exists idx_weight_alerts_project on weight_alerts(project_id, kind, created_at desc);
+
+-- ============================================================
+-- FILA DE ENVIO DO WHATSAPP (src/safety/outbound-queue.ts)
+-- Persistente: sobrevive a restart/deploy. Ordem por destinatário,
+-- retentativa com backoff exponencial e dead-letter para reenvio manual.
+-- ============================================================
+create table if not exists outbound_messages (
+  id              uuid primary key default uuid_generate_v4(),
+  phone           text not null,
+  consultant_id   uuid references consultants(id) on delete set null,
+  kind            text not null,                    -- origem: reply, followup, checkin, reorder, level_up...
+  payload         jsonb not null,                   -- { type: 'text', text, typingMs?, skipDelay? } | { type: 'audio', audio }
+  meta            jsonb,                            -- dados para o pós-envio (ex: prospectId)
+  status          text not null default 'pending',  -- pending | sending | sent | dead | cancelled
+  attempts        int not null default 0,
+  max_attempts    int not null default 5,
+  scheduled_at    timestamptz not null default now(), -- posição na ordem do destinatário (não muda em retentativas)
+  not_before      timestamptz not null default now(), -- próxima tentativa
+  locked_until    timestamptz,
+  last_error      text,
+  idempotency_key text unique,                      -- ex: followup:<conversa>:3, reorder:<projeto>
+  created_at      timestamptz default now(),
+  sent_at         timestamptz
+);
+
+create index if not exists idx_outbound_due on outbound_messages(status, not_before);
+create index if not exists idx_outbound_phone on outbound_messages(phone, scheduled_at) where status in ('pending', 'sending');
+
+-- Pega a próxima mensagem vencida. Uma mensagem só sai quando todas as
+-- anteriores do mesmo destinatário já saíram (ou foram para dead-letter).
+-- Envio em 'sending' com lock vencido (worker caiu no meio) é retomado.
+create or replace function claim_outbound_message(p_lock_seconds int default 120)
+returns setof outbound_messages
+as $$
+declare
+  v_id uuid;
+begin
+  select m.id into v_id
+  from outbound_messages m
+  where ((m.status = 'pending' and m.not_before <= now())
+      or (m.status = 'sending' and m.locked_until < now()))
+    and not exists (
+      select 1 from outbound_messages e
+      where e.phone = m.phone
+        and e.status in ('pending', 'sending')
+        and (e.scheduled_at, e.created_at, e.id) < (m.scheduled_at, m.created_at, m.id)
+    )
+  order by m.not_before, m.scheduled_at
+  limit 1
+  for update skip locked;
+
+  if v_id is null then
+    return;
+  end if;
+
+  return query
+    update outbound_messages
+      set status = 'sending',
+          attempts = attempts + 1,
+          locked_until = now() + make_interval(secs => p_lock_seconds)
+      where id = v_id
+      returning *;
+end;
+$$ language plpgsql;
+
+-- ============================================================
+-- EXECUÇÕES DO SCHEDULER (src/pipeline/job-runs.ts)
+-- Uma linha por execução esperada (job + slot). O insert é o lock:
+-- com várias instâncias, só quem cria a linha roda o job naquele slot.
+-- (Advisory lock não serve aqui: o PostgREST usa conexões de pool.)
+-- ============================================================
+create table if not exists job_runs (
+  id              uuid primary key default uuid_generate_v4(),
+  job_name        text not null,
+  slot            text not null,                    -- '2025-03-01@08h', '2025-03-01T10:30:00.000Z' ou 'manual:<instante>'
+  triggered_by    text not null,                    -- schedule | catch_up | manual
+  status          text not null default 'running',  -- running | success | failed
+  instance        text,                             -- host:pid de quem executou
+  started_at      timestamptz not null default now(),
+  finished_at     timestamptz,
+  items_processed int,
+  error           text,
+  unique (job_name, slot)
+);
+
+create index if not exists idx_job_runs_job on job_runs(job_name, started_at desc);
+
+-- Retorna o id da execução, ou null se o slot já foi pego por outra instância.
+-- Execução 'running' há mais de p_stale_minutes (processo caiu no meio) é retomada.
+create or replace function claim_job_run(
+  p_job_name text,
+  p_slot text,
+  p_triggered_by text,
+  p_instance text,
+  p_stale_minutes int default 60
+)
+returns uuid
+as $$
+declare
+  v_id uuid;
+begin
+  insert into job_runs (job_name, slot, triggered_by, instance)
+  values (p_job_name, p_slot, p_triggered_by, p_instance)
+  on conflict (job_name, slot) do update
+    set triggered_by = excluded.triggered_by,
+        instance = excluded.instance,
+        status = 'running',
+        started_at = now(),
+        finished_at = null,
+        items_processed = null,
+        error = null
+    where job_runs.status = 'running'
+      and job_runs.started_at < now() - make_interval(mins => p_stale_minutes)
+  returning id into v_id;
+
+  return v_id;
+end;
+$$ language plpgsql;
+
+-- ============================================================
+-- RÉGUAS CONFIGURÁVEIS PELO CONSULTOR (src/pipeline/sequences.ts)
+-- steps: [{ dayOffset, hourOfDay, channel, text, audio?, condition? }]
+-- Sem régua ativa do tipo, valem as réguas padrão do código
+-- ============================================================
+create table if not exists sequences (
+  id            uuid primary key default uuid_generate_v4(),
+  consultant_id uuid not null references consultants(id) on delete cascade,
+  type          text not null check (type in ('followup', 'postpurchase')),
+  name          text not null,
+  status        text not null default 'draft' check (status in ('draft', 'active', 'archived')),
+  steps         jsonb not null default '[]',
+  cloned_from   uuid references sequences(id) on delete set null,
+  activated_at  timestamptz,
+  created_at    timestamptz not null default now(),
+  updated_at    timestamptz not null default now()
+);
+
+-- No máximo uma régua ativa por consultor e tipo
+create unique index if not exists idx_sequences_active
+  on sequences(consultant_id, type) where status = 'active';
+create index if not exists idx_sequences_consultant on sequences(consultant_id, created_at desc);
+
+-- ============================================================
+-- SAÍDA/PAUSA DAS RÉGUAS (src/pipeline/sequence-enrollments.ts)
+-- ============================================================
+-- { onReply: restart | exit | continue, pauseHours, exitOnHandoff }
+alter table sequences add column if not exists rules jsonb not null default '{}';
+
+-- Lead pediu para parar ("pare"): não recebe mais réguas
+alter table leads add column if not exists opted_out_at timestamptz;
+
+-- Uma inscrição por conversa no follow-up; encerrada não volta
+create table if not exists sequence_enrollments (
+  id                  uuid primary key default uuid_generate_v4(),
+  conversation_id     uuid not null unique references conversations(id) on delete cascade,
+  lead_id             uuid not null references leads(id) on delete cascade,
+  consultant_id       uuid not null references consultants(id) on delete cascade,
+  sequence_id         uuid references sequences(id) on delete set null,  -- null = régua padrão
+  status              text not null default 'active'
+                        check (status in ('active', 'completed', 'exited')),
+  cadence_started_at  timestamptz not null,           -- início da conversa ou última resposta (restart)
+  sent_days           int[] not null default '{}',
+  restarts            int not null default 0,
+  exit_reason         text check (exit_reason in ('completed', 'replied', 'handoff', 'converted', 'lost', 'opted_out')),
+  last_scheduled_at   timestamptz,
+  created_at          timestamptz not null default now(),
+  ended_at            timestamptz
+);
+
+create index if not exists idx_enrollments_lead on sequence_enrollments(lead_id) where status = 'active';
+create index if not exists idx_enrollments_consultant on sequence_enrollments(consultant_id, created_at desc);
+
+-- outbound_messages.status ganha 'cancelled' (envio de régua interrompida)
+-- e meta.sequence / meta.enrollment_id para achar esses envios
+create index if not exists idx_outbound_enrollment on outbound_messages((meta->>'enrollment_id')) where status = 'pending';
@@ -0,0 +1,408 @@
+/**
+ * Motor de Badges (definições como dados)
+ *
+ * Cada badge é um objeto com uma condição em uma DSL pequena sobre
+ * GamificationStats:
+ *   { "stat": "streak", "op": "gte", "value": 7 }
+ *   { "all": [ ...condições ] }   { "any": [ ...condições ] }
+ *
+ * - Badges padrão: DEFAULT_BADGES (abaixo), valem para todos
+ * - Badges do consultor: tabela badge_definitions (API do dashboard)
+ * - Conquistas: tabela badge_unlocks (quando e por quê);
+ *   client_gamification_badges é a view com a lista por projeto
+ */
+
+import { z } from 'zod';
+import { createLogger } from '../lib/logger.js';
+import { db } from '../database/client.js';
+import { addDays } from '../lib/timezone.js';
+
+const logger = createLogger('BADGES');
+
+// ============================================================
+// ESTATÍSTICAS DISPONÍVEIS PARA AS CONDIÇÕES
+// ============================================================
+export const BADGE_STATS = [
+  'streak',              // sequência atual de check-ins
+  'xpTotal',
+  'level',
+  'checkinCount',
+  'weightLost',          // kg
+  'referrals',           // indicações convertidas
+  'challengesCompleted', // desafios em grupo concluídos
+  'perfectDays',         // dias perfeitos seguidos (todos os itens do check-in feitos)
+] as const;
+
+export type BadgeStat = typeof BADGE_STATS[number];
+export type GamificationStats = Record<BadgeStat, number>;
+
+// ============================================================
+// DSL DE CONDIÇÕES
+// ============================================================
+const OPERATORS = {
+  gte: { symbol: '≥', test: (a: number, b: number) => a >= b },
+  gt: { symbol: '>', test: (a: number, b: number) => a > b },
+  eq: { symbol: '=', test: (a: number, b: number) => a === b },
+  lte: { symbol: '≤', test: (a: number, b: number) => a <= b },
+  lt: { symbol: '<', test: (a: number, b: number) => a < b },
+} as const;
+
+export type BadgeCondition =
+  | { stat: BadgeStat; op?: keyof typeof OPERATORS; value: number }
+  | { all: BadgeCondition[] }
+  | { any: BadgeCondition[] };
+
+export const BadgeConditionSchema: z.ZodType<BadgeCondition> = z.lazy(() => z.union([
+  z.object({
+    stat: z.enum(BADGE_STATS),
+    op: z.enum(['gte', 'gt', 'eq', 'lte', 'lt']).optional(),
+    value: z.number(),
+  }).strict(),
+  z.object({ all: z.array(BadgeConditionSchema).min(1) }).strict(),
+  z.object({ any: z.array(BadgeConditionSchema).min(1) }).strict(),
+]));
+
+// Retorna o motivo (ex: "streak 7 ≥ 7") quando a condição é atendida, senão null
+export function evaluateCondition(condition: BadgeCondition, stats: GamificationStats): string | null {
+  if ('all' in condition) {
+    const reasons = condition.all.map(c => evaluateCondition(c, stats));
+    return reasons.every(r => r !== null) ? reasons.join(' e ') : null;
+  }
+  if ('any' in condition) {
+    for (const c of condition.any) {
+      const reason = evaluateCondition(c, stats);
+      if (reason) return reason;
+    }
+    return null;
+  }
+
+  const operator = OPERATORS[condition.op ?? 'gte'];
+  const actual = stats[condition.stat];
+  return operator.test(actual, condition.value)
+    ? `${condition.stat} ${Number(actual.toFixed(2))} ${operator.symbol} ${condition.value}`
+    : null;
+}
+
+// ============================================================
+// DEFINIÇÃO DE BADGE
+// ============================================================
+export const BadgeDefinitionSchema = z.object({
+  id: z.string().regex(/^[a-z0-9_]{3,40}$/),
+  emoji: z.string().min(1).max(8),
+  name: z.string().min(1).max(60),
+  description: z.string().min(1).max(200),
+  condition: BadgeConditionSchema,
+  message: z.string().min(1).max(1000), // enviada quando conquistar
+});
+
+export type Badge = z.infer<typeof BadgeDefinitionSchema>;
+
+// Badges padrão (narrativos, não genéricos)
+export const DEFAULT_BADGES: Badge[] = [
+  {
+    id: 'first_step',
+    emoji: '🌱',
+    name: 'Primeiro Passo',
+    description: 'Completou a primeira semana',
+    condition: { stat: 'streak', value: 7 },
+    message: '🌱 *Badge conquistado: PRIMEIRO PASSO!*\n\n7 dias de consistência! Você começou sua transformação. O mais difícil já passou.',
+  },
+  {
+    id: 'energy_warrior',
+    emoji: '💪',
+    name: 'Guerreira da Energia',
+    description: 'Streak de 10 dias',
+    condition: { stat: 'streak', value: 10 },
+    message: '💪 *Badge conquistado: GUERREIRA DA ENERGIA!*\n\n10 dias sem falhar! Seu corpo já está sentindo a diferença — e você também.',
+  },
+  {
+    id: 'transformation_mode',
+    emoji: '🔥',
+    name: 'Modo Transformação',
+    description: 'Perdeu os primeiros 2kg',
+    condition: { stat: 'weightLost', value: 2 },
+    message: '🔥 *Badge conquistado: MODO TRANSFORMAÇÃO!*\n\nPrimeiros 2kg a menos! Isso é real, é seu, e ninguém pode tirar. Continue!',
+  },
+  {
+    id: 'living_example',
+    emoji: '⭐',
+    name: 'Exemplo Vivo',
+    description: 'Compartilhou resultado com alguém',
+    condition: { stat: 'referrals', value: 1 },
+    message: '⭐ *Badge conquistado: EXEMPLO VIVO!*\n\nVocê inspirou alguém hoje. Isso é mais poderoso do que qualquer produto.',
+  },
+  {
+    id: 'perfect_week',
+    emoji: '💎',
+    name: 'Semana Perfeita',
+    description: '7 dias seguidos com todos os itens do check-in',
+    condition: { stat: 'perfectDays', value: 7 },
+    message: '💎 *Badge conquistado: SEMANA PERFEITA!*\n\n7 dias seguidos fazendo TUDO certinho. Esse é o nível de quem chega lá!',
+  },
+  {
+    id: 'invincible_30',
+    emoji: '🏆',
+    name: '30 Dias Invicto',
+    description: 'Streak de 30 dias completos',
+    condition: { stat: 'streak', value: 30 },
+    message: '🏆 *Badge conquistado: 30 DIAS INVICTO!*\n\nVocê fez o que 99% das pessoas não conseguem: 30 dias de consistência absoluta. Você é incrível.',
+  },
+  {
+    id: 'health_ambassador',
+    emoji: '👑',
+    name: 'Embaixadora da Saúde',
+    description: 'Indicou 3 amigos',
+    condition: { stat: 'referrals', value: 3 },
+    message: '👑 *Badge conquistado: EMBAIXADORA DA SAÚDE!*\n\nVocê transformou sua vida e está transformando a vida de outras pessoas. Isso é liderança.',
+  },
+  {
+    id: 'challenge_finisher',
+    emoji: '🎖️',
+    name: 'Desafio Concluído',
+    description: 'Terminou um desafio em grupo',
+    condition: { stat: 'challengesCompleted', value: 1 },
+    message: '🎖️ *Badge conquistado: DESAFIO CONCLUÍDO!*\n\nVocê foi até o fim do desafio com o grupo. Quem termina o que começa vai longe!',
+  },
+  {
+    id: 'level_5',
+    emoji: '🌟',
+    name: 'Nível Transformador',
+    description: 'Atingiu nível 5',
+    condition: { stat: 'level', value: 5 },
+    message: '🌟 *Badge conquistado: NÍVEL TRANSFORMADOR!*\n\nNível 5 alcançado! Você está no topo da nossa comunidade.',
+  },
+];
+
+const DEFAULT_BADGE_IDS = new Set(DEFAULT_BADGES.map(b => b.id));
+
+// ============================================================
+// BADGES DO CONSULTOR (badge_definitions)
+// ============================================================
+type BadgeDefinitionRow = {
+  code: string;
+  emoji: string;
+  name: string;
+  description: string;
+  condition: unknown;
+  message: string;
+};
+
+function rowToBadge(row: BadgeDefinitionRow): Badge | null {
+  const parsed = BadgeDefinitionSchema.safeParse({ ...row, id: row.code });
+  if (!parsed.success) {
+    logger.warn(`Badge "${row.code}" com definição inválida ignorado`);
+    return null;
+  }
+  return parsed.data;
+}
+
+export async function listConsultantBadges(consultantId: string): Promise<Badge[]> {
+  const { data } = await db.client
+    .from('badge_definitions')
+    .select('code, emoji, name, description, condition, message')
+    .eq('consultant_id', consultantId)
+    .eq('active', true)
+    .order('created_at', { ascending: true });
+
+  return ((data ?? []) as BadgeDefinitionRow[])
+    .map(rowToBadge)
+    .filter((b): b is Badge => b !== null);
+}
+
+// Padrão + do consultor (na ordem de exibição)
+export async function getBadgesForConsultant(consultantId: string | null): Promise<Badge[]> {
+  if (!consultantId) return DEFAULT_BADGES;
+  return [...DEFAULT_BADGES, ...await listConsultantBadges(consultantId)];
+}
+
+export async function saveConsultantBadge(consultantId: string, badge: Badge): Promise<'saved' | 'reserved'> {
+  if (DEFAULT_BADGE_IDS.has(badge.id)) return 'reserved';
+
+  const { error } = await db.client
+    .from('badge_definitions')
+    .upsert({
+      consultant_id: consultantId,
+      code: badge.id,
+      emoji: badge.emoji,
+      name: badge.name,
+      description: badge.description,
+      condition: badge.condition,
+      message: badge.message,
+      active: true,
+    }, { onConflict: 'consultant_id,code' });
+
+  if (error) throw new Error(`Erro ao salvar badge: ${error.message}`);
+  logger.info(`Badge "${badge.id}" salvo para o consultor ${consultantId}`);
+  return 'saved';
+}
+
+// Desativa (as conquistas já registradas continuam valendo)
+export async function deactivateConsultantBadge(consultantId: string, code: string): Promise<boolean> {
+  const { data } = await db.client
+    .from('badge_definitions')
+    .update({ active: false })
+    .eq('consultant_id', consultantId)
+    .eq('code', code)
+    .select('code')
+    .maybeSingle();
+
+  return !!data;
+}
+
+// ============================================================
+// ESTATÍSTICAS DO PROJETO
+// ============================================================
+// Dias perfeitos seguidos até o último check-in (todos os itens sim/não = sim)
+function countPerfectDays(checkins: Array<{ checkin_date: string; answers: Record<string, unknown> | null }>): number {
+  let count = 0;
+  let expected: string | null = null;
+
+  for (const checkin of checkins) {
+    if (expected !== null && checkin.checkin_date !== expected) break;
+
+    const booleans = Object.values(checkin.answers ?? {}).filter(v => typeof v === 'boolean');
+    if (booleans.length === 0 || booleans.some(v => v !== true)) break;
+
+    count++;
+    expected = addDays(checkin.checkin_date, -1);
+  }
+  return count;
+}
+
+export async function collectBadgeStats(
+  projectId: string,
+  overrides: Partial<GamificationStats> = {}
+): Promise<GamificationStats> {
+  const [gamRes, projRes, checkinsRes, referralsRes, challengesRes, recentRes] = await Promise.all([
+    db.client
+      .from('client_gamification')
+      .select('current_streak, xp_total, level')
+      .eq('project_id', projectId)
+      .single(),
+    db.client
+      .from('client_projects')
+      .select('start_weight_kg, current_weight_kg')
+      .eq('id', projectId)
+      .single(),
+    db.client
+      .from('daily_checkins')
+      .select('id', { count: 'exact', head: true })
+      .eq('project_id', projectId),
+    db.client
+      .from('referrals')
+      .select('id', { count: 'exact', head: true })
+      .eq('referrer_project_id', projectId)
+      .eq('status', 'converted'),
+    db.client
+      .from('group_members')
+      .select('group_id, challenge_groups!inner(status)', { count: 'exact', head: true })
+      .eq('project_id', projectId)
+      .eq('challenge_groups.status', 'completed'),
+    db.client
+      .from('daily_checkins')
+      .select('checkin_date, answers')
+      .eq('project_id', projectId)
+      .order('checkin_date', { ascending: false })
+      .limit(60),
+  ]);
+
+  const g = gamRes.data as { current_streak: number; xp_total: number; level: number } | null;
+  const p = projRes.data as { start_weight_kg: number | null; current_weight_kg: number | null } | null;
+  const weightLost = (p?.start_weight_kg && p?.current_weight_kg)
+    ? p.start_weight_kg - p.current_weight_kg
+    : 0;
+
+  return {
+    streak: g?.current_streak ?? 0,
+    xpTotal: g?.xp_total ?? 0,
+    level: g?.level ?? 1,
+    checkinCount: checkinsRes.count ?? 0,
+    weightLost,
+    referrals: referralsRes.count ?? 0,
+    challengesCompleted: challengesRes.count ?? 0,
+    perfectDays: countPerfectDays((recentRes.data ?? []) as Array<{ checkin_date: string; answers: Record<string, unknown> | null }>),
+    ...overrides,
+  };
+}
+
+// ============================================================
+// CONQUISTAS (badge_unlocks)
+// ============================================================
+async function getProjectConsultantId(projectId: string): Promise<string | null> {
+  const { data } = await db.client
+    .from('client_projects')
+    .select('consultant_id')
+    .eq('id', projectId)
+    .maybeSingle();
+
+  return (data as { consultant_id: string } | null)?.consultant_id ?? null;
+}
+
+export type BadgeUnlock = { badge_code: string; unlocked_at: string; reason: string };
+
+export async function getBadgeUnlocks(projectId: string): Promise<BadgeUnlock[]> {
+  const { data } = await db.client
+    .from('badge_unlocks')
+    .select('badge_code, unlocked_at, reason')
+    .eq('project_id', projectId)
+    .order('unlocked_at', { ascending: true });
+
+  return (data ?? []) as BadgeUnlock[];
+}
+
+// Avalia todas as badges do projeto e registra as novas conquistas
+export async function evaluateBadges(
+  projectId: string,
+  overrides: Partial<GamificationStats> = {}
+): Promise<Badge[]> {
+  const [definitions, unlocks, stats] = await Promise.all([
+    getBadgesForConsultant(await getProjectConsultantId(projectId)),
+    getBadgeUnlocks(projectId),
+    collectBadgeStats(projectId, overrides),
+  ]);
+
+  const earned = new Set(unlocks.map(u => u.badge_code));
+  const newBadges: Badge[] = [];
+
+  for (const badge of definitions) {
+    if (earned.has(badge.id)) continue;
+    const reason = evaluateCondition(badge.condition, stats);
+    if (!reason) continue;
+
+    // unique (project_id, badge_code): se outra chamada registrou antes, não repete
+    const { error } = await db.client.from('badge_unlocks').insert({
+      project_id: projectId,
+      badge_code: badge.id,
+      reason,
+      stats,
+    });
+    if (!error) newBadges.push(badge);
+  }
+
+  if (newBadges.length > 0) {
+    logger.info(`${newBadges.length} badge(s) desbloqueado(s): ${newBadges.map(b => b.id).join(', ')}`);
+  }
+  return newBadges;
+}
+
+// Lista para o cliente: todas as badges com status e data da conquista
+export async function listProjectBadges(projectId: string, consultantId?: string | null) {
+  const [definitions, unlocks] = await Promise.all([
+    getBadgesForConsultant(consultantId === undefined ? await getProjectConsultantId(projectId) : consultantId),
+    getBadgeUnlocks(projectId),
+  ]);
+  const unlockByCode = new Map(unlocks.map(u => [u.badge_code, u]));
+
+  return definitions.map(b => {
+    const unlock = unlockByCode.get(b.id);
+    return {
+      id: b.id,
+      emoji: b.emoji,
+      name: b.name,
+      locked: !unlock,
+      unlockedAt: unlock?.unlocked_at,
+      reason: unlock?.reason,
+      requirement: unlock ? undefined : b.description,
+    };
+  });
+}
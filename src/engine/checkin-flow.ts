@@ -2,15 +2,29 @@
  * Fluxo de Check-in Diário via WhatsApp
  *
  * O PELÍCANO envia uma mensagem estruturada todo dia
- * e processa as respostas do cliente de forma conversacional.
+ * e processa as respostas do cliente de forma conversacional:
+ * o cliente responde em texto livre (checkin-parser.ts) e
+ * só os itens que faltaram são perguntados de novo.
+ * Os itens vêm do template de check-in do projeto (checkin-templates.ts).
  */
 
 import { createLogger } from '../lib/logger.js';
 import { db } from '../database/client.js';
-import { sendText } from '../channels/whatsapp-client.js';
-import { enqueueSend } from '../safety/rate-limiter.js';
-import { processCheckin, type CheckinData } from './gamification.js';
+import { enqueueText } from '../safety/outbound-queue.js';
+import { config } from '../config/index.js';
+import { processCheckin } from './gamification.js';
+import { parseCheckinMessage, mergeParsedCheckin, missingCheckinItems } from './checkin-parser.js';
+import {
+  getProjectCheckinTemplate,
+  finalizeCheckinData,
+  resolveCheckinTemplate,
+  WEIGHT_ITEM_KEY,
+  type CheckinData,
+  type CheckinItem,
+  type CheckinTemplate,
+} from './checkin-templates.js';
 import { redisSet, redisGet, redisDel, REDIS_KEYS } from '../lib/redis.js';
+import { resolveTimeZone, daysSince } from '../lib/timezone.js';
 
 const logger = createLogger('CHECKIN');
 
@@ -20,8 +34,10 @@ const logger = createLogger('CHECKIN');
 type CheckinSession = {
   projectId: string;
   leadPhone: string;
-  step: 'waiting_shake_am' | 'waiting_shake_pm' | 'waiting_hydration' | 'waiting_supplement' | 'waiting_weight' | 'done';
-  data: Partial<CheckinData>;
+  template: CheckinTemplate;
+  data: CheckinData;
+  asked: string[];         // chaves da última pergunta enviada
+  followups: number;       // perguntas de itens faltantes já feitas
   startedAt: Date;
 };
 
@@ -49,7 +65,9 @@ export async function sendDailyCheckin(params: {
   leadName?: string;
   dayNumber: number;
   currentStreak: number;
+  template?: CheckinTemplate;
 }): Promise<void> {
+  const template = params.template ?? await getProjectCheckinTemplate(params.projectId);
   const firstName = params.leadName?.split(' ')[0] ?? 'você';
   const streakEmoji = params.currentStreak >= 14 ? '🔥🔥' : params.currentStreak >= 7 ? '🔥' : '⭐';
 
@@ -58,33 +76,54 @@ export async function sendDailyCheckin(params: {
     ``,
     `Streak atual: *${params.currentStreak} dias* 💪`,
     ``,
-    `Vamos registrar seu dia?`,
-    ``,
-    `*Você tomou o shake da MANHÃ hoje?*`,
-    `Responda: *SIM* ou *NÃO*`,
+    `Me conta como foi seu dia, numa mensagem só:`,
+    ...template.items.map(item => `• ${capitalize(item.question)}`),
+    ...(template.example ? [``, `_Ex: "${template.example}"_`] : []),
   ].join('\n');
 
   // Iniciar sessão de check-in (L1 + Redis)
   const session: CheckinSession = {
     projectId: params.projectId,
     leadPhone: params.leadPhone,
-    step: 'waiting_shake_am',
+    template,
     data: {},
+    asked: template.items.map(i => i.key),
+    followups: 0,
     startedAt: new Date(),
   };
   activeSessions.set(params.leadPhone, session);
   _saveCheckinSession(session);
 
-  enqueueSend(params.leadPhone, async () => {
-    await sendText(params.leadPhone, message);
+  await enqueueText(params.leadPhone, message, {
+    kind: 'checkin',
+    idempotencyKey: `checkin:${params.projectId}:${params.dayNumber}`,
   });
 
   logger.info(`Check-in diário enviado para ${params.leadPhone.substring(0, 6)}... (dia ${params.dayNumber})`);
 }
 
+// ============================================================
+// PERGUNTA DOS ITENS FALTANTES
+// ============================================================
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+function buildFollowupQuestion(accepted: string[], asked: CheckinItem[]): string {
+  const opening = accepted.length > 0 ? 'Anotado ✅' : 'Hmm, não consegui entender 😅';
+  return [
+    opening,
+    ``,
+    `Só falta me contar:`,
+    ...asked.map(item => `• ${item.question}`),
+  ].join('\n');
+}
+
 // ============================================================
 // PROCESSAR RESPOSTA DO CHECK-IN
-// Chamado pelo handler do WhatsApp quando existe sessão ativa
+// Chamado pelo handler do WhatsApp quando existe sessão ativa.
+// Aceita texto livre; pergunta de volta só o que faltou
+// (até config.checkin.maxFollowups vezes, depois fecha com o que tiver)
 // ============================================================
 export async function handleCheckinResponse(
   phone: string,
@@ -96,6 +135,9 @@ export async function handleCheckinResponse(
     const raw = await redisGet<CheckinSession>(REDIS_KEYS.checkinSession(phone));
     if (raw && raw.projectId) {
       raw.startedAt = new Date(raw.startedAt); // desserializar Date
+      raw.template ??= resolveCheckinTemplate({}); // sessões do fluxo antigo (SIM/NÃO)
+      raw.asked ??= raw.template.items.map(i => i.key);
+      raw.followups ??= 0;
       activeSessions.set(phone, raw);
       session = raw;
     }
@@ -109,101 +151,44 @@ export async function handleCheckinResponse(
     return { handled: false };
   }
 
-  const text = message.toLowerCase().trim();
-  const isYes = ['sim', 's', 'yes', '✅', '1', 'ok', 'claro', 'tomei', 'fiz', 'tomado'].some(t => text.includes(t));
-  const isNo  = ['não', 'nao', 'n', 'no', '❌', '0', 'não tomei', 'esqueci', 'não fiz'].some(t => text.includes(t));
+  const { template } = session;
+  const parsed = await parseCheckinMessage(message, template, session.asked);
+  const accepted = mergeParsedCheckin(session.data, parsed);
 
-  if (!isYes && !isNo && session.step !== 'waiting_weight') {
-    return {
-      handled: true,
-      reply: 'Não entendi 😅 Responde com *SIM* ou *NÃO*, tá bom?',
-    };
+  // Nada de check-in na primeira resposta: é outra conversa, o motor responde
+  if (accepted.length === 0 && session.followups === 0 && Object.keys(session.data).length === 0) {
+    return { handled: false };
   }
 
-  switch (session.step) {
-    case 'waiting_shake_am': {
-      session.data.shakeAm = isYes;
-      session.step = 'waiting_shake_pm';
-      _saveCheckinSession(session);
-      return {
-        handled: true,
-        reply: `${isYes ? '✅ Ótimo!' : '❌ Tudo bem, amanhã!'}\n\n*Tomou o shake da NOITE/TARDE?*\nResponda: *SIM* ou *NÃO*`,
-      };
-    }
-
-    case 'waiting_shake_pm': {
-      session.data.shakePm = isYes;
-      session.step = 'waiting_hydration';
-      _saveCheckinSession(session);
-      return {
-        handled: true,
-        reply: `${isYes ? '✅ Perfeito!' : '❌ Ok!'}\n\n*Tomou os 2 litros de água hoje?*\nResponda: *SIM* ou *NÃO*`,
-      };
-    }
-
-    case 'waiting_hydration': {
-      session.data.hydrationOk = isYes;
-      session.step = 'waiting_supplement';
-      _saveCheckinSession(session);
-      return {
-        handled: true,
-        reply: `${isYes ? '✅ Hidratação em dia!' : '❌ Fica de olho na água amanhã!'}\n\n*Tomou o suplemento/vitamina hoje?*\nResponda: *SIM* ou *NÃO*`,
-      };
-    }
+  const missing = missingCheckinItems(template, session.data);
+  if (missing.length > 0 && session.followups < config.checkin.maxFollowups) {
+    // Peso é opcional: lembrado só na primeira pergunta
+    const weightItem = template.items.find(i => i.key === WEIGHT_ITEM_KEY);
+    const offerWeight = weightItem && session.followups === 0 && session.data[WEIGHT_ITEM_KEY] === undefined;
+    const asked = offerWeight ? [...missing, weightItem] : missing;
+    session.asked = asked.map(i => i.key);
+    session.followups++;
+    _saveCheckinSession(session);
+    return { handled: true, reply: buildFollowupQuestion(accepted, asked) };
+  }
 
-    case 'waiting_supplement': {
-      session.data.supplementOk = isYes;
-      session.step = 'waiting_weight';
-      _saveCheckinSession(session);
-      return {
-        handled: true,
-        reply: `${isYes ? '✅ Arrasou!' : '❌ Não esqueça amanhã!'}\n\n*Quer registrar seu peso hoje? (opcional)*\nSe sim, manda o número (ex: *68.5*)\nSe não, responde *PULAR*`,
-      };
-    }
+  activeSessions.delete(phone);
+  _deleteCheckinSession(phone);
 
-    case 'waiting_weight': {
-      const isPular = text.includes('pular') || text.includes('skip') || text === 'n' || text === 'não';
-      // Regex ancorada: aceita "68", "68.5", "68,5", "68kg" mas NÃO "dia 30" ou frases
-      const weightMatch = !isPular && message.trim().match(/^(\d{2,3}([.,]\d{1,2})?)(\s*kg)?$/i);
-
-      if (weightMatch) {
-        const weight = parseFloat(weightMatch[1].replace(',', '.'));
-        if (weight >= 30 && weight <= 300) { // sanidade fisiológica
-          session.data.weightKg = weight;
-        }
-      }
-
-      session.step = 'done';
-      activeSessions.delete(phone);
-      _deleteCheckinSession(phone);
-
-      // Processar check-in completo
-      try {
-        const result = await processCheckin(session.projectId, {
-          shakeAm: session.data.shakeAm ?? false,
-          shakePm: session.data.shakePm ?? false,
-          hydrationOk: session.data.hydrationOk ?? false,
-          supplementOk: session.data.supplementOk ?? false,
-          weightKg: session.data.weightKg,
-        });
-
-        return {
-          handled: true,
-          reply: result.message,
-        };
-      } catch (error) {
-        logger.error('Erro ao processar check-in', error);
-        return {
-          handled: true,
-          reply: 'Check-in registrado! Continue assim 💪',
-        };
-      }
-    }
+  // Processar check-in completo (item sem resposta conta como não feito)
+  try {
+    const result = await processCheckin(session.projectId, finalizeCheckinData(template, session.data), template);
 
-    default:
-      activeSessions.delete(phone);
-      _deleteCheckinSession(phone);
-      return { handled: false };
+    return {
+      handled: true,
+      reply: result.message,
+    };
+  } catch (error) {
+    logger.error('Erro ao processar check-in', error);
+    return {
+      handled: true,
+      reply: 'Check-in registrado! Continue assim 💪',
+    };
   }
 }
 
@@ -237,7 +222,7 @@ export async function hasActiveCheckinSessionAsync(phone: string): Promise<boole
 // SCHEDULER: ENVIAR CHECK-INS DIÁRIOS
 // Chamado pelo cron às 8h
 // ============================================================
-export async function dispatchDailyCheckins(): Promise<void> {
+export async function dispatchDailyCheckins(): Promise<number> {
   logger.info('Disparando check-ins diários...');
 
   const { data: activeProjects } = await db.client
@@ -245,18 +230,28 @@ export async function dispatchDailyCheckins(): Promise<void> {
     .select(`
       id,
       start_date,
+      goal_type,
+      checkin_template_id,
+      checkin_template,
+      timezone,
       leads!inner(phone, full_name),
-      client_gamification(current_streak)
+      client_gamification(current_streak),
+      consultants(timezone)
     `)
     .eq('status', 'active');
 
-  if (!activeProjects?.length) return;
+  if (!activeProjects?.length) return 0;
 
   type ProjRow = {
     id: string;
     start_date: string;
+    goal_type: string;
+    checkin_template_id: string | null;
+    checkin_template: unknown;
+    timezone: string | null;
     leads: { phone: string | null; full_name: string | null };
     client_gamification: Array<{ current_streak: number }>;
+    consultants: { timezone: string | null } | null;
   };
 
   let sent = 0;
@@ -265,9 +260,7 @@ export async function dispatchDailyCheckins(): Promise<void> {
     if (!lead?.phone) continue;
 
     const gam = proj.client_gamification?.[0];
-    const dayNumber = Math.floor(
-      (Date.now() - new Date(proj.start_date).getTime()) / (24 * 60 * 60 * 1000)
-    ) + 1;
+    const dayNumber = daysSince(proj.start_date, resolveTimeZone(proj.timezone, proj.consultants?.timezone)) + 1;
 
     await sendDailyCheckin({
       projectId: proj.id,
@@ -275,9 +268,11 @@ export async function dispatchDailyCheckins(): Promise<void> {
       leadName: lead.full_name ?? undefined,
       dayNumber,
       currentStreak: gam?.current_streak ?? 0,
+      template: resolveCheckinTemplate(proj),
     });
     sent++;
   }
 
   logger.info(`${sent} check-ins diários disparados`);
+  return sent;
 }
@@ -0,0 +1,34 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseCheckinOffline } from './checkin-parser.js';
+import { CHECKIN_TEMPLATES } from './checkin-templates.js';
+
+const weightLoss = CHECKIN_TEMPLATES.weight_loss;
+
+describe('parseCheckinOffline — peso', () => {
+  const cases: Array<[string, number]> = [
+    ['peso 71,2', 71.2],
+    ['peso 71,2kg', 71.2],
+    ['pesei 80,5kg hoje', 80.5],
+    ['tomei os shakes, peso 68,4kg', 68.4],
+    ['hoje 71,2kg', 71.2],
+    ['peso 71,2.', 71.2],
+    ['peso 72kg', 72],
+  ];
+
+  for (const [message, expected] of cases) {
+    it(`"${message}" → ${expected}`, () => {
+      assert.equal(parseCheckinOffline(message, weightLoss).values.weightKg, expected);
+    });
+  }
+});
+
+describe('parseCheckinOffline — água', () => {
+  it('"bebi 1,5L" fica abaixo da meta de 2L', () => {
+    assert.equal(parseCheckinOffline('bebi 1,5L', weightLoss).values.hydrationOk, false);
+  });
+
+  it('"bebi 2,5L" bate a meta', () => {
+    assert.equal(parseCheckinOffline('bebi 2,5L', weightLoss).values.hydrationOk, true);
+  });
+});
@@ -0,0 +1,361 @@
+/**
+ * Interpretação do Check-in em Linguagem Natural
+ *
+ * O cliente responde o check-in numa mensagem só, do jeito dele:
+ *   "tomei só o da manhã, bebi uns 1,5L, peso 71,2, hoje tô animada"
+ * e a mensagem vira CheckinData (itens do template do projeto),
+ * com uma confiança por item.
+ *
+ * Dois caminhos (mesmo padrão do context-extractor):
+ * - LLM: o provedor configurado responde em JSON, validado com zod
+ * - Regras: fallback determinístico (CLI offline, testes, falha da API)
+ *
+ * Itens abaixo da confiança mínima contam como não respondidos
+ * e voltam na pergunta seguinte.
+ */
+
+import { z } from 'zod';
+import { config } from '../config/index.js';
+import { createLogger } from '../lib/logger.js';
+import { completeText } from '../llm/provider.js';
+import {
+  MOOD_ITEM_KEY,
+  type CheckinData,
+  type CheckinItem,
+  type CheckinTemplate,
+} from './checkin-templates.js';
+
+const logger = createLogger('CHECKIN-PARSER');
+
+// ============================================================
+// TIPOS
+// ============================================================
+export type ParsedCheckin = {
+  values: CheckinData;
+  confidence: Record<string, number>;
+  method: 'llm' | 'rules';
+};
+
+const HYDRATION_KEY = 'hydrationOk';
+const HYDRATION_GOAL_L = 2;
+
+function scaleBounds(item: CheckinItem): [number, number] {
+  return [item.min ?? 1, item.max ?? 5];
+}
+
+// Valor dentro do tipo e dos limites do item (resposta do LLM ou das regras)
+function acceptsValue(item: CheckinItem, value: unknown): value is boolean | number {
+  if (item.type === 'boolean') return typeof value === 'boolean';
+  if (typeof value !== 'number' || Number.isNaN(value)) return false;
+  if (item.type === 'scale') {
+    const [min, max] = scaleBounds(item);
+    return Number.isInteger(value) && value >= min && value <= max;
+  }
+  return (item.min === undefined || value >= item.min) && (item.max === undefined || value <= item.max);
+}
+
+// ============================================================
+// INTERPRETAÇÃO VIA LLM
+// ============================================================
+const LlmAnswerSchema = z.record(
+  z.object({ value: z.union([z.boolean(), z.number()]), confidence: z.number().min(0).max(1) }).nullable()
+);
+
+function describeItem(item: CheckinItem): string {
+  if (item.type === 'boolean') return `${item.question} (boolean)`;
+  if (item.type === 'scale') {
+    const [min, max] = scaleBounds(item);
+    return `${item.question} (inteiro de ${min} a ${max})`;
+  }
+  return `${item.question} (número${item.unit ? ` em ${item.unit}` : ''})`;
+}
+
+function buildCheckinPrompt(template: CheckinTemplate): string {
+  return [
+    `Você interpreta respostas de check-in diário de clientes de um programa de bem-estar (WhatsApp).`,
+    `Responda APENAS com um objeto JSON (sem markdown), com estas chaves opcionais:`,
+    ...template.items.map(item => `- "${item.key}": ${describeItem(item)}`),
+    ``,
+    `Cada chave é um objeto {"value": ..., "confidence": 0.0-1.0}.`,
+    `"só o da manhã" significa que o da noite NÃO foi tomado. Água abaixo de 2 litros é false.`,
+    `Um "sim"/"não" solto responde às perguntas pendentes.`,
+    `Omita o que a mensagem não responde. Nunca invente.`,
+  ].join('\n');
+}
+
+async function parseWithLlm(message: string, template: CheckinTemplate, asked: string[]): Promise<ParsedCheckin> {
+  const pending = template.items.filter(i => asked.includes(i.key)).map(i => i.question).join('; ');
+
+  const response = await completeText({
+    purpose: 'extraction',
+    maxTokens: 256,
+    retries: 1, // falhou: as regras assumem
+    system: buildCheckinPrompt(template),
+    messages: [{
+      role: 'user',
+      content: `Perguntas pendentes: ${pending || 'todos os itens'}\n\nResposta do cliente:\n${message}`,
+    }],
+  });
+
+  const jsonMatch = response.text.match(/\{[\s\S]*\}/);
+  if (!jsonMatch) throw new Error('Check-in sem JSON na resposta');
+
+  const parsed = LlmAnswerSchema.safeParse(JSON.parse(jsonMatch[0]));
+  if (!parsed.success) {
+    throw new Error(`Check-in inválido: ${parsed.error.issues.map(i => i.path.join('.')).join(', ')}`);
+  }
+
+  const result: ParsedCheckin = { values: {}, confidence: {}, method: 'llm' };
+  for (const item of template.items) {
+    const answer = parsed.data[item.key];
+    if (!answer || !acceptsValue(item, answer.value)) continue;
+    result.values[item.key] = answer.value;
+    result.confidence[item.key] = answer.confidence;
+  }
+  return result;
+}
+
+// ============================================================
+// INTERPRETAÇÃO POR REGRAS (fallback determinístico)
+// Palavras inteiras, por trecho: "não sei" não vira "não tomei".
+// Cada item é reconhecido pelas `keywords` do template; shakes da
+// manhã/noite, água e humor têm regras próprias.
+// ============================================================
+function normalize(text: string): string {
+  return text.toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+}
+
+// Divide em trechos sem quebrar decimais ("71,2", "1.5L")
+function splitClauses(text: string): string[] {
+  return text
+    .split(/[;!?\n]|[,.](?!\d)|\bmas\b/)
+    .map(c => c.trim())
+    .filter(Boolean);
+}
+
+const NEGATION = /\b(nao|nem|esqueci|faltou|sem|zero)\b/;
+const SHAKE = /\b(shakes?|batidas?)\b/;
+const SHAKE_AM = /\b(manha|matinal|cafe)\b/;
+const SHAKE_PM = /\b(noite|tarde|jantar|janta)\b/;
+const SHAKE_BOTH = /\b(os dois|ambos|dois shakes|2 shakes|todos)\b/;
+const SHAKE_VERB = /\b(tomei|tomado|tomo|fiz|bebi|o da|os da)\b/;
+const ONLY = /\b(so|somente|apenas)\b/;
+const WATER = /\b(agua|hidrat\w*)\b|\d\s*(l|litros?|ml)\b/;
+const NUMBER = '(\\d{1,3}(?:[.,]\\d{1,2})?)';
+
+const YES_ONLY = /^(sim|s|yes|tomei|fiz|bebi|ok|claro|isso|uhum|tudo|tudo certo)\W*$/;
+const NO_ONLY = /^(nao|n|no|nem|esqueci|nao tomei|nao fiz|nao bebi|nenhum)\W*$/;
+
+const MOOD_WORDS: Array<[RegExp, number]> = [
+  [/\b(pessim\w*|horrivel|muito mal|pessima)\b|😭|😡/, 1],
+  [/\b(cansad\w*|desanimad\w*|triste|mal|indisposta?)\b|😞|😔|😩/, 2],
+  [/\b(mais ou menos|normal|regular|razoavel)\b|😐/, 3],
+  [/\b(bem|tranquil\w*|disposta?|leve)\b|🙂|😊/, 4],
+  [/\b(otim\w*|animad\w*|feliz|maravilh\w*|incrivel|bem demais|super bem)\b|😀|😁|🤩|💪/, 5],
+];
+
+function escapeRegex(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+const keywordCache = new Map<string, RegExp | null>();
+
+function keywordPattern(item: CheckinItem): RegExp | null {
+  const cacheKey = item.keywords.join('|');
+  if (!keywordCache.has(cacheKey)) {
+    const words = item.keywords.map(k => escapeRegex(normalize(k)));
+    keywordCache.set(cacheKey, words.length > 0 ? new RegExp(`\\b(?:${words.join('|')})s?\\b`) : null);
+  }
+  return keywordCache.get(cacheKey)!;
+}
+
+function toNumber(raw: string): number {
+  return parseFloat(raw.replace(',', '.'));
+}
+
+function parseLiters(clause: string): number | undefined {
+  const ml = clause.match(/(\d+)\s*ml\b/);
+  if (ml) return parseInt(ml[1], 10) / 1000;
+  const liters = clause.match(/(\d+(?:[.,]\d+)?)\s*(?:l|litros?)\b/);
+  return liters ? toNumber(liters[1]) : undefined;
+}
+
+// Fim do número: sem mais dígitos nem casa decimal ("71,2kg" não vira 71)
+const NUMBER_END = '(?!\\d|[.,]\\d)';
+
+// "peso 71,2" / "71,2kg" / "peso 71,2kg"
+function parseNumberItem(text: string, item: CheckinItem): number | undefined {
+  const pattern = keywordPattern(item);
+  const afterKeyword = pattern && text.match(new RegExp(`${pattern.source}\\D{0,15}?${NUMBER}${NUMBER_END}`));
+  const withUnit = item.unit && text.match(new RegExp(`\\b${NUMBER}\\s*${escapeRegex(normalize(item.unit))}\\b`));
+  const match = afterKeyword || withUnit;
+  if (!match) return undefined;
+
+  const value = toNumber(match[1]);
+  return acceptsValue(item, value) ? value : undefined;
+}
+
+// "humor 4" / "energia 3"; humor também por palavras ("cansada", "ótima")
+function parseScaleItem(text: string, item: CheckinItem): { value: number; confidence: number } | undefined {
+  const pattern = keywordPattern(item);
+  const scored = pattern && text.match(new RegExp(`${pattern.source}\\D{0,10}?(\\d{1,2})\\b`));
+  if (scored && acceptsValue(item, parseInt(scored[1], 10))) {
+    return { value: parseInt(scored[1], 10), confidence: 0.9 };
+  }
+  if (item.key !== MOOD_ITEM_KEY) return undefined;
+
+  // O trecho mais longo vence: "bem demais" > "bem"
+  let best: { value: number; confidence: number } | undefined;
+  let longest = 0;
+  for (const [words, value] of MOOD_WORDS) {
+    const match = text.match(words);
+    if (match && match[0].length > longest) {
+      best = { value, confidence: 0.7 };
+      longest = match[0].length;
+    }
+  }
+  return best;
+}
+
+export function parseCheckinOffline(
+  message: string,
+  template: CheckinTemplate,
+  asked: string[] = template.items.map(i => i.key)
+): ParsedCheckin {
+  const result: ParsedCheckin = { values: {}, confidence: {}, method: 'rules' };
+  const items = new Map(template.items.map(i => [i.key, i]));
+  const set = (key: string, value: boolean | number, conf: number): void => {
+    if (!items.has(key) || (result.confidence[key] ?? 0) > conf) return;
+    result.values[key] = value;
+    result.confidence[key] = conf;
+  };
+
+  const text = normalize(message.trim());
+  const askedItems = template.items.filter(i => asked.includes(i.key));
+
+  // "sim" / "não" solto responde às perguntas pendentes
+  const bareYes = YES_ONLY.test(text);
+  if (bareYes || NO_ONLY.test(text)) {
+    for (const item of askedItems) {
+      if (item.type === 'boolean') set(item.key, bareYes, 0.8);
+    }
+    return result;
+  }
+
+  // Número solto responde à única pergunta numérica pendente
+  const bare = text.match(/^(\d{1,3}(?:[.,]\d{1,2})?)\s*\w{0,6}\W*$/);
+  const askedNumeric = askedItems.filter(i => i.type !== 'boolean');
+  if (bare && askedNumeric.length > 0) {
+    const value = toNumber(bare[1]);
+    const target = askedNumeric.find(i => acceptsValue(i, value));
+    if (target && (askedNumeric.length === 1 || target.type === 'number')) {
+      set(target.key, value, 0.85);
+      return result;
+    }
+  }
+
+  const splitShakes = items.has('shakeAm') && items.has('shakePm');
+  const askedShake = askedItems.filter(i => i.key === 'shakeAm' || i.key === 'shakePm');
+
+  for (const clause of splitClauses(text)) {
+    const negated = NEGATION.test(clause);
+
+    // Shakes da manhã e da noite (template com os dois)
+    if (splitShakes) {
+      const am = SHAKE_AM.test(clause);
+      const pm = SHAKE_PM.test(clause);
+      const both = SHAKE_BOTH.test(clause);
+      if (SHAKE.test(clause) || both || ((am || pm) && SHAKE_VERB.test(clause))) {
+        if (both || (am && pm)) {
+          set('shakeAm', !negated, 0.85);
+          set('shakePm', !negated, 0.85);
+        } else if (am || pm) {
+          set(am ? 'shakeAm' : 'shakePm', !negated, 0.85);
+          // "só o da manhã" → o outro não foi tomado
+          if (ONLY.test(clause) && !negated) set(am ? 'shakePm' : 'shakeAm', false, 0.75);
+        } else if (askedShake.length === 1) {
+          set(askedShake[0].key, !negated, 0.8);
+        } else {
+          set('shakeAm', !negated, 0.4); // "tomei o shake": qual? → pergunta de novo
+        }
+      }
+    }
+
+    for (const item of template.items) {
+      if (item.type !== 'boolean') continue;
+      if (splitShakes && (item.key === 'shakeAm' || item.key === 'shakePm')) continue;
+
+      // Água: litros decidem a meta
+      if (item.key === HYDRATION_KEY) {
+        if (!WATER.test(clause)) continue;
+        const liters = parseLiters(clause);
+        if (liters !== undefined && !/\bkg\b/.test(clause)) {
+          set(item.key, !negated && liters >= HYDRATION_GOAL_L, 0.9);
+        } else if (/\b(pouca|pouco|quase nada)\b/.test(clause)) {
+          set(item.key, false, 0.7);
+        } else {
+          set(item.key, !negated, negated ? 0.85 : 0.7);
+        }
+        continue;
+      }
+
+      if (keywordPattern(item)?.test(clause)) set(item.key, !negated, 0.85);
+    }
+  }
+
+  for (const item of template.items) {
+    if (item.type === 'number') {
+      const value = parseNumberItem(text, item);
+      if (value !== undefined) set(item.key, value, 0.9);
+    } else if (item.type === 'scale') {
+      const scale = parseScaleItem(text, item);
+      if (scale) set(item.key, scale.value, scale.confidence);
+    }
+  }
+
+  return result;
+}
+
+// ============================================================
+// INTERPRETAÇÃO PRINCIPAL (LLM com fallback)
+// ============================================================
+export async function parseCheckinMessage(
+  message: string,
+  template: CheckinTemplate,
+  asked: string[] = template.items.map(i => i.key)
+): Promise<ParsedCheckin> {
+  if (!config.checkin.useLlm) {
+    return parseCheckinOffline(message, template, asked);
+  }
+
+  try {
+    const parsed = await parseWithLlm(message, template, asked);
+    logger.debug(`Check-in via LLM: ${Object.keys(parsed.values).join(', ') || 'nada'}`);
+    return parsed;
+  } catch (error) {
+    logger.warn('Check-in via LLM falhou — usando regras', error);
+    return parseCheckinOffline(message, template, asked);
+  }
+}
+
+// ============================================================
+// MESCLAR NO QUE JÁ FOI RESPONDIDO
+// Retorna as chaves aceitas (acima da confiança mínima)
+// ============================================================
+export function mergeParsedCheckin(
+  current: CheckinData,
+  parsed: ParsedCheckin,
+  minConfidence: number = config.checkin.minConfidence
+): string[] {
+  const accepted: string[] = [];
+  for (const [key, value] of Object.entries(parsed.values)) {
+    if ((parsed.confidence[key] ?? 0) < minConfidence) continue;
+    current[key] = value;
+    accepted.push(key);
+  }
+  return accepted;
+}
+
+export function missingCheckinItems(template: CheckinTemplate, data: CheckinData): CheckinItem[] {
+  return template.items.filter(item => item.required && data[item.key] === undefined);
+}
@@ -0,0 +1,248 @@
+/**
+ * Estatísticas de Check-in em Janela Móvel (7 e 30 dias)
+ *
+ * Calculadas direto de daily_checkins (nunca de contadores acumulados):
+ * - Adesão geral: dias com check-in / dias da janela
+ * - Adesão por item sim/não do template (shake manhã/noite, água, suplemento...)
+ * - Tendência de peso (último − primeiro peso da janela) e humor médio
+ *
+ * A janela termina hoje (no fuso do projeto) e, para projetos novos,
+ * começa no start_date — quem começou há 3 dias não tem adesão de 10%.
+ *
+ * client_gamification.checkin_count_30d / checkin_count_total são só cache;
+ * refreshCheckinCounters() (cron noturno) recalcula os dois.
+ */
+
+import { createLogger } from '../lib/logger.js';
+import { db } from '../database/client.js';
+import { resolveTimeZone, localDateString, addDays, daysBetween } from '../lib/timezone.js';
+import { resolveCheckinTemplate, type CheckinTemplate } from './checkin-templates.js';
+
+const logger = createLogger('CHECKIN-STATS');
+
+export type ItemAdherence = {
+  key: string;
+  label: string;
+  done: number; // dias em que o item foi feito
+  pct: number;  // done / dias da janela
+};
+
+export type WindowStats = {
+  days: number;                  // dias considerados (menor se o projeto é mais novo)
+  from: string;                  // 'YYYY-MM-DD'
+  to: string;
+  checkins: number;
+  adherencePct: number;
+  items: ItemAdherence[];
+  weightChangeKg: number | null; // negativo = perdeu
+  moodAvg: number | null;
+};
+
+export type RollingStats = { d7: WindowStats; d30: WindowStats };
+
+export type CheckinStatsRow = {
+  project_id?: string;
+  checkin_date: string;
+  answers: Record<string, unknown> | null;
+  weight_kg: number | null;
+  mood: number | null;
+  shake_am?: boolean | null;
+  shake_pm?: boolean | null;
+  hydration_ok?: boolean | null;
+  supplement_ok?: boolean | null;
+};
+
+export const CHECKIN_STATS_COLUMNS = 'checkin_date, answers, weight_kg, mood, shake_am, shake_pm, hydration_ok, supplement_ok';
+
+// Check-ins anteriores aos templates guardavam os itens em colunas próprias
+function answersOf(row: CheckinStatsRow): Record<string, unknown> {
+  if (row.answers && Object.keys(row.answers).length > 0) return row.answers;
+  return {
+    shakeAm: row.shake_am ?? false,
+    shakePm: row.shake_pm ?? false,
+    hydrationOk: row.hydration_ok ?? false,
+    supplementOk: row.supplement_ok ?? false,
+  };
+}
+
+const pct = (part: number, total: number): number => total > 0 ? Math.round((part / total) * 100) : 0;
+
+// ============================================================
+// CÁLCULO (puro)
+// ============================================================
+export function computeWindowStats(
+  rows: CheckinStatsRow[],
+  template: CheckinTemplate,
+  today: string,
+  windowDays: number,
+  startDate?: string | null
+): WindowStats {
+  const start = startDate?.slice(0, 10);
+  let from = addDays(today, -(windowDays - 1));
+  if (start && start > from) from = start > today ? today : start;
+  const days = daysBetween(from, today) + 1;
+
+  const inWindow = rows
+    .filter(r => r.checkin_date >= from && r.checkin_date <= today)
+    .sort((a, b) => a.checkin_date.localeCompare(b.checkin_date));
+
+  const items = template.items
+    .filter(item => item.type === 'boolean')
+    .map(item => {
+      const done = inWindow.filter(r => answersOf(r)[item.key] === true).length;
+      return { key: item.key, label: item.label, done, pct: pct(done, days) };
+    });
+
+  const weights = inWindow.map(r => r.weight_kg).filter((w): w is number => w !== null).map(Number);
+  const moods = inWindow.map(r => r.mood).filter((m): m is number => m !== null);
+
+  return {
+    days,
+    from,
+    to: today,
+    checkins: inWindow.length,
+    adherencePct: pct(inWindow.length, days),
+    items,
+    weightChangeKg: weights.length >= 2 ? Number((weights[weights.length - 1] - weights[0]).toFixed(1)) : null,
+    moodAvg: moods.length > 0 ? Number((moods.reduce((a, b) => a + b, 0) / moods.length).toFixed(1)) : null,
+  };
+}
+
+export function computeRollingStats(
+  rows: CheckinStatsRow[],
+  template: CheckinTemplate,
+  today: string,
+  startDate?: string | null
+): RollingStats {
+  return {
+    d7: computeWindowStats(rows, template, today, 7, startDate),
+    d30: computeWindowStats(rows, template, today, 30, startDate),
+  };
+}
+
+// ============================================================
+// POR PROJETO (relatórios)
+// ============================================================
+export async function getProjectRollingStats(project: {
+  id: string;
+  start_date: string | null;
+  timezone?: string | null;
+  goal_type?: string | null;
+  checkin_template_id?: string | null;
+  checkin_template?: unknown;
+  consultants?: { timezone: string | null } | null;
+}): Promise<RollingStats> {
+  const today = localDateString(resolveTimeZone(project.timezone, project.consultants?.timezone));
+
+  const { data } = await db.client
+    .from('daily_checkins')
+    .select(CHECKIN_STATS_COLUMNS)
+    .eq('project_id', project.id)
+    .gte('checkin_date', addDays(today, -29))
+    .lte('checkin_date', today);
+
+  return computeRollingStats(
+    (data ?? []) as unknown as CheckinStatsRow[],
+    resolveCheckinTemplate(project),
+    today,
+    project.start_date
+  );
+}
+
+// Vários projetos de um consultor em uma consulta (dashboard)
+export async function getRollingStatsForProjects(
+  projects: Array<{ id: string; start_date: string | null; template: CheckinTemplate }>,
+  timeZone: string
+): Promise<Map<string, RollingStats>> {
+  const result = new Map<string, RollingStats>();
+  if (projects.length === 0) return result;
+
+  const today = localDateString(timeZone);
+  const { data } = await db.client
+    .from('daily_checkins')
+    .select(`project_id, ${CHECKIN_STATS_COLUMNS}`)
+    .in('project_id', projects.map(p => p.id))
+    .gte('checkin_date', addDays(today, -29))
+    .lte('checkin_date', today);
+
+  const byProject = new Map<string, CheckinStatsRow[]>();
+  for (const row of (data ?? []) as unknown as CheckinStatsRow[]) {
+    const list = byProject.get(row.project_id!) ?? [];
+    list.push(row);
+    byProject.set(row.project_id!, list);
+  }
+
+  for (const p of projects) {
+    result.set(p.id, computeRollingStats(byProject.get(p.id) ?? [], p.template, today, p.start_date));
+  }
+  return result;
+}
+
+// ============================================================
+// CRON NOTURNO — corrige os contadores em cache
+// ============================================================
+export async function refreshCheckinCounters(): Promise<{ checked: number; fixed: number }> {
+  const columns = 'id, timezone, consultants(timezone), client_gamification!inner(checkin_count_total, checkin_count_30d)';
+  // Ativos, e pausados/encerrados até o contador de 30 dias zerar (relatórios ainda leem)
+  const [active, inactive] = await Promise.all([
+    db.client.from('client_projects').select(columns).eq('status', 'active'),
+    db.client.from('client_projects').select(columns).neq('status', 'active').gt('client_gamification.checkin_count_30d', 0),
+  ]);
+  const listError = active.error ?? inactive.error;
+  if (listError) throw new Error(`Erro ao listar projetos: ${listError.message}`);
+
+  type Row = {
+    id: string;
+    timezone: string | null;
+    consultants: { timezone: string | null } | null;
+    client_gamification: Array<{ checkin_count_total: number; checkin_count_30d: number }>;
+  };
+
+  let checked = 0;
+  let fixed = 0;
+  let failed = 0;
+
+  for (const p of [...(active.data ?? []), ...(inactive.data ?? [])] as unknown as Row[]) {
+    const gam = p.client_gamification?.[0];
+    if (!gam) continue;
+    checked++;
+
+    const today = localDateString(resolveTimeZone(p.timezone, p.consultants?.timezone));
+    const [totalResult, last30Result] = await Promise.all([
+      db.client
+        .from('daily_checkins')
+        .select('id', { count: 'exact', head: true })
+        .eq('project_id', p.id),
+      db.client
+        .from('daily_checkins')
+        .select('id', { count: 'exact', head: true })
+        .eq('project_id', p.id)
+        .gte('checkin_date', addDays(today, -29))
+        .lte('checkin_date', today),
+    ]);
+
+    // Erro na contagem não vira zero no cache: o projeto fica como está
+    const countError = totalResult.error ?? last30Result.error;
+    if (countError || totalResult.count === null || last30Result.count === null) {
+      logger.warn(`Contadores do projeto ${p.id} não recalculados: ${countError?.message ?? 'contagem vazia'}`);
+      failed++;
+      continue;
+    }
+    const total = totalResult.count;
+    const last30 = last30Result.count;
+
+    if (total === gam.checkin_count_total && last30 === gam.checkin_count_30d) continue;
+
+    await db.client
+      .from('client_gamification')
+      .update({ checkin_count_total: total, checkin_count_30d: last30 })
+      .eq('project_id', p.id);
+    fixed++;
+  }
+
+  if (failed > 0) {
+    throw new Error(`Contadores de check-in: ${failed} de ${checked} projetos falharam (${fixed} corrigidos)`);
+  }
+  logger.info(`Contadores de check-in: ${checked} projetos verificados, ${fixed} corrigidos`);
+  return { checked, fixed };
+}
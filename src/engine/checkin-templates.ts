@@ -0,0 +1,251 @@
+/**
+ * Templates de Check-in (por kit ou por projeto)
+ *
+ * Cada template lista os itens do check-in diário: chave, pergunta,
+ * tipo de resposta (boolean, number, scale) e XP. Tudo que antes era fixo
+ * (shake manhã/noite, 2L de água, suplemento) vem daqui:
+ * CheckinData, daily_checkins.answers, processCheckin, o schema da API
+ * do cliente e a mensagem de resposta.
+ *
+ * Resolução para um projeto:
+ *   client_projects.checkin_template (template próprio, jsonb)
+ *   → client_projects.checkin_template_id (definido pelo kit na criação)
+ *   → template do goal_type → weight_loss
+ *
+ * Chaves com significado especial:
+ *   weightKg → atualiza client_projects.current_weight_kg e daily_checkins.weight_kg
+ *   mood     → daily_checkins.mood
+ */
+
+import { z } from 'zod';
+import { createLogger } from '../lib/logger.js';
+import { db } from '../database/client.js';
+
+const logger = createLogger('CHECKIN-TEMPLATES');
+
+// ============================================================
+// SCHEMA DO TEMPLATE
+// ============================================================
+export const CheckinItemSchema = z.object({
+  key: z.string().regex(/^[a-zA-Z][a-zA-Z0-9]*$/),
+  type: z.enum(['boolean', 'number', 'scale']),
+  label: z.string().min(1),       // linha da resposta: "Shake manhã"
+  question: z.string().min(1),    // pergunta no WhatsApp: "o shake da manhã"
+  xp: z.number().int().min(0),    // XP quando feito (boolean) ou informado (number/scale)
+  required: z.boolean().default(true),
+  keywords: z.array(z.string()).default([]), // interpretação por regras (sem acento)
+  emoji: z.string().optional(),
+  unit: z.string().optional(),    // number: "kg"
+  min: z.number().optional(),     // number/scale (scale padrão 1-5)
+  max: z.number().optional(),
+});
+
+export const CheckinTemplateSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  example: z.string().optional(), // exemplo de resposta em texto livre
+  items: z.array(CheckinItemSchema).min(1)
+    .refine(items => new Set(items.map(i => i.key)).size === items.length, 'Chaves repetidas'),
+});
+
+export type CheckinItem = z.infer<typeof CheckinItemSchema>;
+export type CheckinTemplate = z.infer<typeof CheckinTemplateSchema>;
+export type CheckinAnswerType = CheckinItem['type'];
+
+// Respostas do check-in, por chave do item
+export type CheckinData = Record<string, boolean | number>;
+
+export const WEIGHT_ITEM_KEY = 'weightKg';
+export const MOOD_ITEM_KEY = 'mood';
+
+// ============================================================
+// ITENS COMPARTILHADOS
+// ============================================================
+const WEIGHT_ITEM: z.input<typeof CheckinItemSchema> = {
+  key: WEIGHT_ITEM_KEY,
+  type: 'number',
+  label: 'Peso',
+  question: 'o peso de hoje (opcional)',
+  xp: 20,
+  required: false,
+  keywords: ['peso', 'pesei', 'pesando', 'pesava', 'balanca'],
+  emoji: '⚖️',
+  unit: 'kg',
+  min: 30,
+  max: 300,
+};
+
+const MOOD_ITEM: z.input<typeof CheckinItemSchema> = {
+  key: MOOD_ITEM_KEY,
+  type: 'scale',
+  label: 'Humor',
+  question: 'como você está se sentindo, de 1 a 5',
+  xp: 0,
+  keywords: ['humor', 'nota', 'me sinto', 'sentindo', 'animo'],
+  emoji: '😊',
+};
+
+const HYDRATION_ITEM: z.input<typeof CheckinItemSchema> = {
+  key: 'hydrationOk',
+  type: 'boolean',
+  label: '2L de água',
+  question: 'a água (bateu os 2 litros?)',
+  xp: 10,
+  keywords: ['agua', 'hidratacao', 'hidratei'],
+};
+
+// ============================================================
+// TEMPLATES PADRÃO (por kit)
+// ============================================================
+const BUILTIN_TEMPLATES: Array<z.input<typeof CheckinTemplateSchema>> = [
+  {
+    id: 'weight_loss',
+    name: 'Controle de Peso',
+    example: 'tomei só o da manhã, bebi 1,5L, tomei o chá, peso 71,2, humor 4',
+    items: [
+      { key: 'shakeAm', type: 'boolean', label: 'Shake manhã', question: 'o shake da manhã', xp: 15, keywords: ['shake', 'manha'] },
+      { key: 'shakePm', type: 'boolean', label: 'Shake noite', question: 'o shake da tarde/noite', xp: 15, keywords: ['shake', 'noite', 'tarde'] },
+      HYDRATION_ITEM,
+      { key: 'supplementOk', type: 'boolean', label: 'Suplemento', question: 'o suplemento (chá, aloe, vitaminas)', xp: 10, keywords: ['suplemento', 'vitamina', 'capsula', 'cha', 'aloe', 'fibra'] },
+      WEIGHT_ITEM,
+      MOOD_ITEM,
+    ],
+  },
+  {
+    id: 'energy',
+    name: 'Energia e Vitalidade',
+    example: 'tomei o shake e o chá, esqueci a vitamina, bebi 2L, energia 4',
+    items: [
+      { key: 'shakeAm', type: 'boolean', label: 'Shake manhã', question: 'o shake da manhã', xp: 15, keywords: ['shake', 'manha'] },
+      { key: 'herbalTea', type: 'boolean', label: 'Herbal Tea', question: 'o chá (Herbal Tea)', xp: 10, keywords: ['cha', 'tea', 'herbal'] },
+      { key: 'vitamins', type: 'boolean', label: 'Vitaminas', question: 'as vitaminas', xp: 10, keywords: ['vitamina', 'vitaminas', 'capsula', 'multivitaminico'] },
+      HYDRATION_ITEM,
+      { key: 'energyLevel', type: 'scale', label: 'Energia', question: 'sua energia hoje, de 1 a 5', xp: 5, keywords: ['energia', 'disposicao'], emoji: '⚡' },
+      MOOD_ITEM,
+    ],
+  },
+  {
+    id: 'performance',
+    name: 'Performance',
+    example: 'treinei, tomei o rebuild e o CR7 no treino, shake de manhã, peso 80,5',
+    items: [
+      { key: 'trained', type: 'boolean', label: 'Treino', question: 'se treinou hoje', xp: 15, keywords: ['treinei', 'treino', 'academia', 'corri', 'pedalei'] },
+      { key: 'shakeAm', type: 'boolean', label: 'Formula 1', question: 'o shake (Formula 1)', xp: 15, keywords: ['shake', 'formula'] },
+      { key: 'rebuild', type: 'boolean', label: 'Rebuild pós-treino', question: 'o Rebuild depois do treino', xp: 15, keywords: ['rebuild', 'pos treino', 'pos-treino'] },
+      { key: 'drive', type: 'boolean', label: 'CR7 Drive', question: 'o CR7 Drive no treino', xp: 10, keywords: ['cr7', 'drive', 'isotonico'] },
+      HYDRATION_ITEM,
+      WEIGHT_ITEM,
+      MOOD_ITEM,
+    ],
+  },
+];
+
+export const CHECKIN_TEMPLATES: Record<string, CheckinTemplate> = Object.fromEntries(
+  BUILTIN_TEMPLATES.map(t => [t.id, CheckinTemplateSchema.parse(t)])
+);
+
+export const DEFAULT_CHECKIN_TEMPLATE_ID = 'weight_loss';
+
+// ============================================================
+// RESOLVER TEMPLATE DO PROJETO
+// ============================================================
+export async function getProjectCheckinTemplate(projectId: string): Promise<CheckinTemplate> {
+  const { data } = await db.client
+    .from('client_projects')
+    .select('goal_type, checkin_template_id, checkin_template')
+    .eq('id', projectId)
+    .single();
+
+  const project = data as { goal_type: string; checkin_template_id: string | null; checkin_template: unknown } | null;
+  return resolveCheckinTemplate(project ?? {});
+}
+
+export function resolveCheckinTemplate(project: {
+  goal_type?: string | null;
+  checkin_template_id?: string | null;
+  checkin_template?: unknown;
+}): CheckinTemplate {
+  if (project.checkin_template) {
+    const parsed = CheckinTemplateSchema.safeParse(project.checkin_template);
+    if (parsed.success) return parsed.data;
+    logger.warn(`Template de check-in inválido no projeto — usando o do kit: ${parsed.error.issues[0]?.message}`);
+  }
+
+  return CHECKIN_TEMPLATES[project.checkin_template_id ?? '']
+    ?? CHECKIN_TEMPLATES[project.goal_type ?? '']
+    ?? CHECKIN_TEMPLATES[DEFAULT_CHECKIN_TEMPLATE_ID];
+}
+
+// ============================================================
+// DEFINIR TEMPLATE DO PROJETO (dashboard)
+// templateId → um dos templates padrão; template → template próprio
+// Retorna false se o projeto não é do consultor
+// ============================================================
+export async function setProjectCheckinTemplate(
+  projectId: string,
+  consultantId: string,
+  choice: { templateId: string } | { template: CheckinTemplate }
+): Promise<CheckinTemplate | null> {
+  const update = 'template' in choice
+    ? { checkin_template_id: null, checkin_template: choice.template }
+    : { checkin_template_id: choice.templateId, checkin_template: null };
+
+  const { data } = await db.client
+    .from('client_projects')
+    .update(update)
+    .eq('id', projectId)
+    .eq('consultant_id', consultantId)
+    .select('goal_type, checkin_template_id, checkin_template')
+    .maybeSingle();
+
+  if (!data) return null;
+  logger.info(`Template de check-in do projeto ${projectId}: ${'template' in choice ? `próprio (${choice.template.id})` : choice.templateId}`);
+  return resolveCheckinTemplate(data as { goal_type: string; checkin_template_id: string | null; checkin_template: unknown });
+}
+
+// ============================================================
+// VALIDAÇÃO DAS RESPOSTAS (API do cliente)
+// Booleans ausentes contam como "não"; number/scale são opcionais
+// ============================================================
+export function buildCheckinDataSchema(template: CheckinTemplate) {
+  const shape: Record<string, z.ZodTypeAny> = {};
+
+  for (const item of template.items) {
+    if (item.type === 'boolean') {
+      shape[item.key] = z.boolean().default(false);
+    } else if (item.type === 'scale') {
+      shape[item.key] = z.number().int().min(item.min ?? 1).max(item.max ?? 5).optional();
+    } else {
+      let number = z.number();
+      if (item.min !== undefined) number = number.min(item.min);
+      if (item.max !== undefined) number = number.max(item.max);
+      shape[item.key] = number.optional();
+    }
+  }
+
+  return z.object(shape).transform(data =>
+    Object.fromEntries(Object.entries(data).filter(([, v]) => v !== undefined)) as CheckinData
+  );
+}
+
+// ============================================================
+// XP DO CHECK-IN (sem o CHECKIN_DAILY)
+// ============================================================
+export function computeItemsXp(template: CheckinTemplate, data: CheckinData): number {
+  return template.items.reduce((sum, item) => {
+    const value = data[item.key];
+    const done = item.type === 'boolean' ? value === true : typeof value === 'number';
+    return done ? sum + item.xp : sum;
+  }, 0);
+}
+
+// Completa os booleans não respondidos com false
+export function finalizeCheckinData(template: CheckinTemplate, data: CheckinData): CheckinData {
+  const result: CheckinData = {};
+  for (const item of template.items) {
+    const value = data[item.key];
+    if (value !== undefined) result[item.key] = value;
+    else if (item.type === 'boolean') result[item.key] = false;
+  }
+  return result;
+}
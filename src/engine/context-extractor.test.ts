@@ -0,0 +1,32 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { extractContextOffline } from './context-extractor.js';
+
+function goalOf(message: string) {
+  return extractContextOffline(message).facts.find(f => f.field === 'main_goal');
+}
+
+describe('objetivo pelas regras offline', () => {
+  it('frase explícita de objetivo', () => {
+    assert.deepEqual(goalOf('Meu objetivo é chegar nos 65kg até o fim do ano'), {
+      field: 'main_goal',
+      value: 'chegar nos 65kg até o fim do ano',
+      confidence: 0.55,
+    });
+  });
+
+  it('"quero" seguido de verbo de meta, com confiança menor', () => {
+    assert.deepEqual(goalOf('Oi! Queria muito emagrecer uns 8kg pro casamento.'), {
+      field: 'main_goal',
+      value: 'emagrecer uns 8kg pro casamento',
+      confidence: 0.5,
+    });
+    assert.equal(goalOf('quero ter mais energia pra brincar com meus filhos')?.value, 'ter mais energia pra brincar com meus filhos');
+  });
+
+  it('"quero" sem meta não vira objetivo', () => {
+    for (const message of ['quero saber mais sobre isso', 'queria entender como funciona', 'quero ver o preço']) {
+      assert.equal(goalOf(message), undefined, message);
+    }
+  });
+});
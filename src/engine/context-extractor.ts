@@ -0,0 +1,311 @@
+/**
+ * Extrator de Contexto Estruturado
+ *
+ * Lê cada mensagem do lead e preenche os campos de LeadContextData
+ * (nome, dores, situação, implicação, objetivo, localização, perfil),
+ * com um valor de confiança e a origem de cada fato.
+ *
+ * Dois caminhos:
+ * - LLM: o provedor configurado responde em JSON, validado com zod
+ * - Regras: fallback determinístico (CLI offline, testes, falha da API)
+ */
+
+import { z } from 'zod';
+import { config } from '../config/index.js';
+import { createLogger } from '../lib/logger.js';
+import { completeText } from '../llm/provider.js';
+import type { FactSource, LeadContextData } from '../database/client.js';
+
+const logger = createLogger('EXTRACTOR');
+
+// ============================================================
+// TIPOS
+// ============================================================
+export type ExtractableField =
+  | 'name'
+  | 'pain_points'
+  | 'main_goal'
+  | 'current_situation'
+  | 'implication'
+  | 'commitment_accepted'
+  | 'profile_type'
+  | 'location';
+
+export type ExtractedFact = {
+  field: ExtractableField;
+  value: string | boolean;
+  confidence: number; // 0-1
+};
+
+export type ContextExtraction = {
+  facts: ExtractedFact[];
+  method: FactSource['method'];
+};
+
+// ============================================================
+// SCHEMA DA RESPOSTA DO LLM
+// ============================================================
+const confidence = z.number().min(0).max(1);
+
+function fact<T extends z.ZodTypeAny>(value: T) {
+  return z.object({ value, confidence }).nullable().optional();
+}
+
+const ExtractionSchema = z.object({
+  name: fact(z.string().min(1)),
+  pain_points: z.array(z.object({ value: z.string().min(1), confidence })).nullable().optional(),
+  main_goal: fact(z.string().min(1)),
+  current_situation: fact(z.string().min(1)),
+  implication: fact(z.string().min(1)),
+  commitment_accepted: fact(z.boolean()),
+  profile_type: fact(z.enum(['product', 'business', 'both'])),
+  location: fact(z.string().min(1)),
+});
+
+const EXTRACTION_PROMPT = `
+Você extrai fatos de mensagens de WhatsApp de leads interessados em saúde/bem-estar ou renda extra.
+Analise SOMENTE a última mensagem do lead, usando o contexto já coletado como referência.
+
+Responda APENAS com um objeto JSON (sem markdown), com estas chaves opcionais:
+- "name": primeiro nome do lead
+- "pain_points": lista de dores, cada uma curta (ex: "falta de energia", "ansiedade alimentar")
+- "main_goal": objetivo principal em uma frase curta
+- "current_situation": rotina/situação atual (trabalho, alimentação, horários)
+- "implication": como o problema afeta outras áreas da vida (trabalho, filhos, autoestima)
+- "commitment_accepted": true se aceitou avaliar uma solução, false se recusou
+- "profile_type": "product" (saúde), "business" (renda) ou "both"
+- "location": cidade/estado
+
+Cada chave (e cada item de "pain_points") é um objeto {"value": ..., "confidence": 0.0-1.0}.
+Omita chaves sobre as quais a mensagem não diz nada. Nunca invente fatos.
+`.trim();
+
+// ============================================================
+// EXTRAÇÃO VIA LLM
+// ============================================================
+async function extractWithLlm(
+  message: string,
+  currentContext: LeadContextData
+): Promise<ContextExtraction> {
+  const { fact_sources: _sources, ...knownContext } = currentContext;
+
+  const response = await completeText({
+    purpose: 'extraction',
+    maxTokens: 512,
+    retries: 1, // falhou: as regras assumem
+    system: EXTRACTION_PROMPT,
+    messages: [{
+      role: 'user',
+      content: `Contexto já coletado:\n${JSON.stringify(knownContext)}\n\nÚltima mensagem do lead:\n${message}`,
+    }],
+  });
+
+  // Tolerar texto em volta do JSON
+  const jsonMatch = response.text.match(/\{[\s\S]*\}/);
+  if (!jsonMatch) throw new Error('Extração sem JSON na resposta');
+
+  const parsed = ExtractionSchema.safeParse(JSON.parse(jsonMatch[0]));
+  if (!parsed.success) {
+    throw new Error(`Extração inválida: ${parsed.error.issues.map(i => i.path.join('.')).join(', ')}`);
+  }
+
+  const facts: ExtractedFact[] = [];
+  const { pain_points: pains, ...single } = parsed.data;
+
+  for (const pain of pains ?? []) {
+    facts.push({ field: 'pain_points', value: pain.value.trim(), confidence: pain.confidence });
+  }
+  for (const [field, extracted] of Object.entries(single)) {
+    if (!extracted) continue;
+    const value = typeof extracted.value === 'string' ? extracted.value.trim() : extracted.value;
+    facts.push({ field: field as ExtractableField, value, confidence: extracted.confidence });
+  }
+
+  return { facts, method: 'llm' };
+}
+
+// ============================================================
+// EXTRAÇÃO POR REGRAS (fallback determinístico)
+// ============================================================
+const PAIN_KEYWORDS: Array<[string, string]> = [
+  ['energia', 'falta de energia'],
+  ['cansad', 'cansaço crônico'],
+  ['emagrec', 'dificuldade para emagrecer'],
+  ['peso', 'dificuldade para emagrecer'],
+  ['barriga', 'barriga inchada'],
+  ['disposiç', 'falta de disposição'],
+  ['sono', 'problemas de sono'],
+  ['ansied', 'ansiedade alimentar'],
+  ['compuls', 'compulsão alimentar'],
+  ['intestin', 'intestino preso'],
+];
+
+const BUSINESS_KEYWORDS = ['renda', 'dinheiro', 'negócio', 'empreend'];
+
+// Objetivo: frase explícita, ou "quero/queria" seguido de um verbo de meta
+// ("quero saber mais" não é objetivo)
+const GOAL_STATEMENT = /(?:meu objetivo é|minha meta é)\s+([^.!?\n]{6,120})/i;
+const GOAL_WISH = /\b(?:quero|queria)(?: muito)?\s+((?:emagrecer|perder|ganhar|secar|definir|diminuir|reduzir|baixar|eliminar|desinchar|melhorar|voltar a|entrar n[oa]|caber n[oa]|chegar (?:a|aos|nos)|sair d[oa]|ter (?:mais |uma |um )?(?:energia|disposição|saúde|renda|autoestima))[^.!?\n]{0,110})/i;
+
+const SITUATION_CUES = /(acordo|trabalho|rotina|plantão|turno|estudo|cuido d[oa]s?|almoço|janto|como muito|fico no)/i;
+const IMPLICATION_CUES = /(afeta|atrapalha|por causa disso|não consigo mais|nem quero|me impede|reclama|vergonha|autoestima)/i;
+
+// Divide a mensagem em frases para anexar apenas o trecho relevante
+function splitSentences(message: string): string[] {
+  return message
+    .split(/(?<=[.!?…])\s+|\n+/)
+    .map(s => s.trim())
+    .filter(Boolean);
+}
+
+export function extractContextOffline(
+  message: string,
+  currentContext: LeadContextData = {}
+): ContextExtraction {
+  const facts: ExtractedFact[] = [];
+  const text = message.toLowerCase();
+
+  // Nome
+  const nameMatch = message.match(/(?:me chamo|meu nome é|aqui é (?:a |o )?)\s*([A-ZÀ-Ú][a-zà-ú]+)/i);
+  if (nameMatch) {
+    facts.push({ field: 'name', value: nameMatch[1], confidence: 0.8 });
+  }
+
+  // Dores
+  const pains = new Set<string>();
+  for (const [keyword, pain] of PAIN_KEYWORDS) {
+    if (text.includes(keyword)) pains.add(pain);
+  }
+  for (const pain of pains) {
+    facts.push({ field: 'pain_points', value: pain, confidence: 0.6 });
+  }
+
+  // Perfil de negócio
+  if (BUSINESS_KEYWORDS.some(k => text.includes(k))) {
+    const hasProductInterest = currentContext.profile_type === 'product' && (currentContext.pain_points?.length ?? 0) > 0;
+    facts.push({ field: 'profile_type', value: hasProductInterest ? 'both' : 'business', confidence: 0.5 });
+  }
+
+  // Localização
+  const locationMatch = message.match(/(?:moro em|sou de|aqui em)\s+([A-ZÀ-Ú][\wÀ-ú]+(?:\s+(?:d[aeo]s?\s+)?[A-ZÀ-Ú][\wÀ-ú]+)*)/);
+  if (locationMatch) {
+    facts.push({ field: 'location', value: locationMatch[1], confidence: 0.7 });
+  }
+
+  // Objetivo
+  const goalMatch = message.match(GOAL_STATEMENT);
+  const wishMatch = goalMatch ? null : message.match(GOAL_WISH);
+  if (goalMatch) {
+    facts.push({ field: 'main_goal', value: goalMatch[1].trim(), confidence: 0.55 });
+  } else if (wishMatch) {
+    facts.push({ field: 'main_goal', value: wishMatch[1].trim(), confidence: 0.5 });
+  }
+
+  // Situação e implicação: anexa a frase que contém a pista
+  for (const sentence of splitSentences(message)) {
+    if (SITUATION_CUES.test(sentence)) {
+      facts.push({ field: 'current_situation', value: sentence, confidence: 0.5 });
+      break;
+    }
+  }
+  for (const sentence of splitSentences(message)) {
+    if (IMPLICATION_CUES.test(sentence)) {
+      facts.push({ field: 'implication', value: sentence, confidence: 0.5 });
+      break;
+    }
+  }
+
+  return { facts, method: 'rules' };
+}
+
+// ============================================================
+// EXTRAÇÃO PRINCIPAL (LLM com fallback)
+// ============================================================
+export async function extractContext(
+  message: string,
+  currentContext: LeadContextData
+): Promise<ContextExtraction> {
+  if (!config.extraction.useLlm) {
+    return extractContextOffline(message, currentContext);
+  }
+
+  try {
+    const t0 = Date.now();
+    const extraction = await extractWithLlm(message, currentContext);
+    logger.debug(`Extração LLM em ${Date.now() - t0}ms: ${extraction.facts.length} fato(s)`);
+    return extraction;
+  } catch (error) {
+    logger.warn('Extração via LLM falhou — usando regras', error);
+    return extractContextOffline(message, currentContext);
+  }
+}
+
+// ============================================================
+// MESCLAR EXTRAÇÃO NO CONTEXTO
+// Retorna apenas os campos alterados (mesmo contrato de updateContext)
+// ============================================================
+function normalizePain(pain: string): string {
+  return pain.toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+export function mergeExtraction(
+  currentContext: LeadContextData,
+  extraction: ContextExtraction,
+  messageIndex: number,
+  minConfidence: number = config.extraction.minConfidence
+): Partial<LeadContextData> {
+  const updates: Partial<LeadContextData> = {};
+  const sources: Record<string, FactSource> = { ...(currentContext.fact_sources ?? {}) };
+  const extractedAt = new Date().toISOString();
+  let sourcesChanged = false;
+
+  const painPoints = [...(currentContext.pain_points ?? [])];
+  const knownPains = new Set(painPoints.map(normalizePain));
+
+  for (const fact of extraction.facts) {
+    if (fact.confidence < minConfidence) continue;
+
+    const source: FactSource = {
+      confidence: fact.confidence,
+      message_index: messageIndex,
+      extracted_at: extractedAt,
+      method: extraction.method,
+    };
+
+    if (fact.field === 'pain_points') {
+      const pain = String(fact.value);
+      const key = normalizePain(pain);
+      if (knownPains.has(key)) continue;
+
+      knownPains.add(key);
+      painPoints.push(pain);
+      sources[`pain_points:${key}`] = source;
+      sourcesChanged = true;
+      continue;
+    }
+
+    // Só sobrescreve um fato existente com confiança igual ou maior
+    const previous = sources[fact.field];
+    const hasValue = currentContext[fact.field] !== undefined && currentContext[fact.field] !== null;
+    if (hasValue && previous && previous.confidence > fact.confidence) continue;
+    if (hasValue && !previous && fact.field === 'name') continue; // nome vindo do WhatsApp/Instagram
+    if (currentContext[fact.field] === fact.value) continue;
+
+    (updates as Record<string, unknown>)[fact.field] = fact.value;
+    sources[fact.field] = source;
+    sourcesChanged = true;
+  }
+
+  if (painPoints.length > (currentContext.pain_points?.length ?? 0)) {
+    updates.pain_points = painPoints;
+  }
+  if (sourcesChanged) {
+    updates.fact_sources = sources;
+  }
+
+  return updates;
+}
@@ -0,0 +1,32 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  createMemory,
+  recordObjection,
+  serializeMemory,
+  restoreMemory,
+  evictMemory,
+  getMemory,
+} from './context-memory.js';
+
+describe('objeções tratadas sobrevivem à reconstrução da memória', () => {
+  it('contagem vai para context_data e volta no restoreMemory', async () => {
+    const ids = { leadId: 'lead-1', consultantId: 'consultant-1', conversationId: 'conv-objections' };
+    createMemory(ids);
+    recordObjection(ids.conversationId, 'price');
+    recordObjection(ids.conversationId, 'price');
+    recordObjection(ids.conversationId, 'time');
+
+    const saved = serializeMemory(ids.conversationId);
+    assert.ok(saved);
+    assert.deepEqual(saved.contextData.objections_handled, { price: 2, time: 1 });
+
+    await evictMemory(ids.conversationId);
+    assert.equal(getMemory(ids.conversationId), null);
+
+    const restored = restoreMemory({ ...ids, ...saved });
+    assert.deepEqual(restored.objectionsHandled, { price: 2, time: 1 });
+    assert.equal(restored.context.objections_handled, undefined);
+    assert.equal(recordObjection(ids.conversationId, 'skeptical'), 4);
+  });
+});
@@ -1,6 +1,8 @@
-import type { ConversationMessage, LeadContextData } from '../database/client.js';
+import type { ConversationMessage, ConversationSummary, LeadContextData } from '../database/client.js';
 import { createLogger } from '../lib/logger.js';
-import { redisSet, redisGet, REDIS_KEYS } from '../lib/redis.js';
+import { redisSet, redisGet, redisDel, REDIS_KEYS } from '../lib/redis.js';
+import type { ObjectionType } from './intent-scorer.js';
+import { initialStageFor, resolveNextStage } from './stage-graph.js';
 
 const logger = createLogger('MEMORY');
 
@@ -20,6 +22,8 @@ export type LeadMemory = {
   context: LeadContextData;
   signals: string[];
   handoffScore: number;
+  objectionsHandled: Partial<Record<ObjectionType, number>>;
+  summary: ConversationSummary | null; // resumo das mensagens antigas
   messageCount: number;
   lastUpdated: Date;
 };
@@ -53,6 +57,8 @@ function _deserializeMemory(raw: unknown): LeadMemory | null {
     context: (m['context'] as LeadContextData) ?? {},
     signals: (m['signals'] as string[]) ?? [],
     handoffScore: (m['handoffScore'] as number) ?? 0,
+    objectionsHandled: (m['objectionsHandled'] as LeadMemory['objectionsHandled']) ?? {},
+    summary: (m['summary'] as ConversationSummary | null) ?? null,
     messageCount: (m['messageCount'] as number) ?? 0,
     lastUpdated: new Date((m['lastUpdated'] as string) ?? Date.now()),
   };
@@ -66,16 +72,19 @@ export function createMemory(params: {
   consultantId: string;
   conversationId: string;
   initialContext?: Partial<LeadContextData>;
+  spinStage?: string;
 }): LeadMemory {
   const memory: LeadMemory = {
     leadId: params.leadId,
     consultantId: params.consultantId,
     conversationId: params.conversationId,
-    spinStage: 'ice_break',
+    spinStage: params.spinStage ?? initialStageFor(params.initialContext?.profile_type),
     messages: [],
     context: params.initialContext ?? {},
     signals: [],
     handoffScore: 0,
+    objectionsHandled: {},
+    summary: null,
     messageCount: 0,
     lastUpdated: new Date(),
   };
@@ -155,45 +164,35 @@ export function updateContext(
 }
 
 // ============================================================
-// AVANÇAR ETAPA DO SPIN
+// AVANÇAR ETAPA DO SPIN (segue o grafo em stage-graph.ts)
 // ============================================================
-const PRODUCT_FLOW = [
-  'ice_break',
-  'situation',
-  'problem',
-  'implication',
-  'commitment',
-  'transition',
-  'closed',
-] as const;
-
-const BUSINESS_FLOW = [
-  'biz_ice_break',
-  'biz_qualification',
-  'biz_implication',
-  'biz_commitment',
-  'transition',
-  'closed',
-] as const;
-
 export function advanceStage(conversationId: string): string {
   const memory = memoryCache.get(conversationId);
   if (!memory) return 'ice_break';
 
-  const isBusiness = memory.context.profile_type === 'business';
-  const flow = isBusiness ? BUSINESS_FLOW : PRODUCT_FLOW;
-
-  const currentIndex = (flow as readonly string[]).indexOf(memory.spinStage);
-  const nextIndex = Math.min(currentIndex + 1, flow.length - 1);
-  const nextStage = flow[nextIndex];
+  const currentStage = memory.spinStage;
+  const nextStage = resolveNextStage(currentStage, memory.context);
 
   memory.spinStage = nextStage;
   memory.lastUpdated = new Date();
   _persistToRedis(memory);
-  logger.info(`Etapa avançada: ${flow[currentIndex]} → ${nextStage}`);
+  logger.info(`Etapa avançada: ${currentStage} → ${nextStage}`);
   return nextStage;
 }
 
+// ============================================================
+// DEFINIR ETAPA (troca de trilha produto ↔ negócio)
+// ============================================================
+export function setStage(conversationId: string, stage: string): void {
+  const memory = memoryCache.get(conversationId);
+  if (!memory) return;
+
+  logger.info(`Troca de trilha: ${memory.spinStage} → ${stage}`);
+  memory.spinStage = stage;
+  memory.lastUpdated = new Date();
+  _persistToRedis(memory);
+}
+
 // ============================================================
 // ADICIONAR SINAL DE COMPORTAMENTO
 // ============================================================
@@ -218,6 +217,35 @@ export function updateHandoffScore(conversationId: string, score: number): void
   _persistToRedis(memory);
 }
 
+// ============================================================
+// REGISTRAR OBJEÇÃO TRATADA
+// Retorna o total de objeções tratadas na conversa
+// ============================================================
+export function recordObjection(conversationId: string, type: ObjectionType): number {
+  const memory = memoryCache.get(conversationId);
+  if (!memory) return 0;
+
+  memory.objectionsHandled[type] = (memory.objectionsHandled[type] ?? 0) + 1;
+  _persistToRedis(memory);
+  return countObjections(memory);
+}
+
+export function countObjections(memory: LeadMemory): number {
+  return Object.values(memory.objectionsHandled).reduce((sum, n) => sum + (n ?? 0), 0);
+}
+
+// ============================================================
+// ATUALIZAR RESUMO DA CONVERSA
+// ============================================================
+export function setSummary(conversationId: string, summary: ConversationSummary): void {
+  const memory = memoryCache.get(conversationId);
+  if (!memory) return;
+
+  memory.summary = summary;
+  memory.lastUpdated = new Date();
+  _persistToRedis(memory);
+}
+
 // ============================================================
 // SERIALIZAR PARA SALVAR NO BANCO
 // ============================================================
@@ -229,10 +257,18 @@ export function serializeMemory(conversationId: string): {
   const memory = memoryCache.get(conversationId);
   if (!memory) return null;
 
+  // Resumo e contagem de objeções são salvos junto do contexto
+  // (context_data.conversation_summary / context_data.objections_handled)
+  const contextData: LeadContextData = { ...memory.context };
+  if (memory.summary) contextData.conversation_summary = memory.summary;
+  if (Object.keys(memory.objectionsHandled).length > 0) {
+    contextData.objections_handled = memory.objectionsHandled as Record<string, number>;
+  }
+
   return {
     spinStage: memory.spinStage,
     messages: memory.messages,
-    contextData: memory.context,
+    contextData,
   };
 }
 
@@ -247,15 +283,19 @@ export function restoreMemory(params: {
   messages: ConversationMessage[];
   contextData: LeadContextData;
 }): LeadMemory {
+  const { conversation_summary: summary, objections_handled: objections, ...context } = params.contextData;
+
   const memory: LeadMemory = {
     leadId: params.leadId,
     consultantId: params.consultantId,
     conversationId: params.conversationId,
     spinStage: params.spinStage,
     messages: params.messages,
-    context: params.contextData,
+    context,
     signals: [],
     handoffScore: 0,
+    objectionsHandled: (objections ?? {}) as LeadMemory['objectionsHandled'],
+    summary: summary ?? null,
     messageCount: params.messages.length,
     lastUpdated: new Date(),
   };
@@ -266,6 +306,16 @@ export function restoreMemory(params: {
   return memory;
 }
 
+// ============================================================
+// DESCARTAR MEMÓRIA (L1 + L2)
+// Usado quando a conversa mudou fora do motor (ex: modo humano);
+// a próxima mensagem reconstrói a memória a partir do Supabase
+// ============================================================
+export async function evictMemory(conversationId: string): Promise<void> {
+  memoryCache.delete(conversationId);
+  await redisDel(REDIS_KEYS.conversation(conversationId));
+}
+
 // ============================================================
 // LIMPAR MEMÓRIA ANTIGA (garbage collection)
 // ============================================================
@@ -285,5 +335,5 @@ export function cleanOldMemories(maxAgeHours: number = 24): void {
   }
 }
 
-// Limpeza automática a cada 6 horas
-setInterval(() => cleanOldMemories(24), 6 * 60 * 60 * 1000);
+// Limpeza automática a cada 6 horas (unref: não segura o processo aberto)
+setInterval(() => cleanOldMemories(24), 6 * 60 * 60 * 1000).unref();
@@ -0,0 +1,81 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { config } from '../config/index.js';
+import type { ConversationMessage } from '../database/client.js';
+import { estimateTokens, needsSummary, selectHistoryWindow, summarizeOffline } from './conversation-summary.js';
+
+// Mensagens alternadas lead/PELÍCANO com ~tokens cada
+function conversation(count: number, tokens: number): ConversationMessage[] {
+  return Array.from({ length: count }, (_, i) => ({
+    role: i % 2 === 0 ? 'user' : 'assistant',
+    content: `${i}`.padEnd(tokens * 4, '.'),
+    timestamp: new Date(2025, 0, 1, 12, i).toISOString(),
+  }));
+}
+
+function summaryCovering(covered: number) {
+  return { text: 'resumo', covered_messages: covered, updated_at: new Date().toISOString() };
+}
+
+describe('selectHistoryWindow', () => {
+  it('pega as mais novas que cabem no orçamento', () => {
+    const messages = conversation(10, 100);
+    const window = selectHistoryWindow(messages, null, 350);
+    assert.deepEqual(window, messages.slice(7));
+  });
+
+  it('não volta antes do que já está no resumo', () => {
+    const messages = conversation(10, 100);
+    assert.deepEqual(selectHistoryWindow(messages, summaryCovering(8), 1000), messages.slice(8));
+  });
+
+  it('a última mensagem entra mesmo estourando o orçamento', () => {
+    const messages = conversation(3, 500);
+    assert.deepEqual(selectHistoryWindow(messages, null, 100), messages.slice(2));
+  });
+});
+
+describe('needsSummary', () => {
+  const { tokenBudget, keepRecent } = config.history;
+
+  it('não resume enquanto tudo cabe na janela', () => {
+    const messages = conversation(keepRecent + 2, Math.floor(tokenBudget / (keepRecent + 4)));
+    assert.equal(needsSummary(messages, null), false);
+  });
+
+  it('resume assim que alguma mensagem não resumida fica fora da janela', () => {
+    const perMessage = Math.floor(tokenBudget / (keepRecent + 2));
+    const messages = conversation(keepRecent + 4, perMessage);
+    const dropped = messages.length - selectHistoryWindow(messages, null).length;
+    assert.ok(dropped > 0);
+    assert.ok(estimateTokens(messages.map(m => m.content).join('')) < config.history.summaryTriggerTokens);
+    assert.equal(needsSummary(messages, null), true);
+  });
+
+  it('depois de resumido, o que sobrou cabe na janela', () => {
+    const perMessage = Math.floor(tokenBudget / (keepRecent + 2));
+    const messages = conversation(keepRecent + 4, perMessage);
+    assert.equal(needsSummary(messages, summaryCovering(messages.length - keepRecent)), false);
+  });
+});
+
+describe('summarizeOffline', () => {
+  it('mantém só as falas do lead, encurtadas', () => {
+    const turns: ConversationMessage[] = [
+      { role: 'user', content: 'Trabalho de madrugada e chego morta', timestamp: '' },
+      { role: 'assistant', content: 'Que puxado! E a alimentação?', timestamp: '' },
+      { role: 'user', content: 'x'.repeat(200), timestamp: '' },
+    ];
+    assert.equal(
+      summarizeOffline('- Lead: quer emagrecer', turns),
+      ['- Lead: quer emagrecer', '- Lead: Trabalho de madrugada e chego morta', `- Lead: ${'x'.repeat(157)}...`].join('\n')
+    );
+  });
+
+  it('descarta as linhas mais antigas acima do limite', () => {
+    const turns = conversation(200, 40).filter(m => m.role === 'user');
+    const summary = summarizeOffline(undefined, turns);
+    assert.ok(summary.length <= config.history.summaryMaxTokens * 4);
+    assert.ok(summary.endsWith(turns[turns.length - 1].content));
+  });
+});
@@ -0,0 +1,157 @@
+/**
+ * Resumo Contínuo da Conversa
+ *
+ * Em vez de uma janela fixa de mensagens, o Claude recebe:
+ * - um resumo das mensagens antigas (LeadMemory.summary / context_data.conversation_summary)
+ * - as mensagens recentes que couberem no orçamento de tokens
+ *
+ * Quando o trecho ainda não resumido não cabe mais no orçamento (ou passa do
+ * gatilho), as mensagens mais antigas (menos as últimas `keepRecent`) são
+ * condensadas junto com o resumo anterior. Roda antes de montar o prompt, então
+ * nenhuma mensagem fica fora do resumo e da janela ao mesmo tempo.
+ * O histórico completo continua salvo em conversations.messages.
+ */
+
+import { config } from '../config/index.js';
+import { createLogger } from '../lib/logger.js';
+import { completeText } from '../llm/provider.js';
+import type { ConversationMessage, ConversationSummary } from '../database/client.js';
+import { setSummary, type LeadMemory } from './context-memory.js';
+
+const logger = createLogger('SUMMARY');
+
+// ============================================================
+// ESTIMATIVA DE TOKENS (~4 caracteres por token em português)
+// ============================================================
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+function countTokens(messages: ConversationMessage[]): number {
+  return messages.reduce((sum, m) => sum + estimateTokens(m.content), 0);
+}
+
+// ============================================================
+// JANELA DE HISTÓRICO DENTRO DO ORÇAMENTO
+// Mensagens após o resumo, das mais novas para as mais antigas;
+// a última mensagem sempre entra, mesmo se sozinha estourar o orçamento
+// ============================================================
+export function selectHistoryWindow(
+  messages: ConversationMessage[],
+  summary: ConversationSummary | null,
+  budget: number = config.history.tokenBudget
+): ConversationMessage[] {
+  const start = summary?.covered_messages ?? 0;
+  const window: ConversationMessage[] = [];
+  let used = 0;
+
+  for (let i = messages.length - 1; i >= start; i--) {
+    const cost = estimateTokens(messages[i].content);
+    if (window.length > 0 && used + cost > budget) break;
+    window.unshift(messages[i]);
+    used += cost;
+  }
+
+  return window;
+}
+
+// Até onde resumir (índice exclusivo), ou null quando não precisa.
+// Mensagem que não cabe na janela nunca fica de fora do prompt sem estar no
+// resumo: ao sobrar alguma, resume até as últimas `keepRecent` (ou até onde a
+// janela começa, se nem elas couberem). O gatilho de tokens só antecipa isso.
+function summaryEnd(messages: ConversationMessage[], summary: ConversationSummary | null): number | null {
+  const start = summary?.covered_messages ?? 0;
+  const windowStart = messages.length - selectHistoryWindow(messages, summary).length;
+  const overTrigger = countTokens(messages.slice(start)) > config.history.summaryTriggerTokens;
+  if (windowStart <= start && !overTrigger) return null;
+
+  const end = Math.max(messages.length - config.history.keepRecent, windowStart);
+  return end > start ? end : null;
+}
+
+export function needsSummary(
+  messages: ConversationMessage[],
+  summary: ConversationSummary | null
+): boolean {
+  return summaryEnd(messages, summary) !== null;
+}
+
+// ============================================================
+// GERAR RESUMO
+// ============================================================
+const SUMMARY_PROMPT = `
+Você resume conversas de WhatsApp entre o PELÍCANO (consultor de bem-estar) e um lead.
+Atualize o resumo anterior com as novas mensagens, em português, em até 8 linhas curtas.
+Guarde: o que o lead contou (rotina, dores, objetivos, família, trabalho), objeções,
+perguntas feitas, o que já foi oferecido ou prometido e o tom da conversa.
+Não invente nada. Responda APENAS com o texto do resumo.
+`.trim();
+
+function formatTranscript(messages: ConversationMessage[]): string {
+  return messages
+    .map(m => `${m.role === 'user' ? 'Lead' : 'PELÍCANO'}: ${m.content}`)
+    .join('\n');
+}
+
+async function summarizeWithLlm(previous: string | undefined, turns: ConversationMessage[]): Promise<string> {
+  const response = await completeText({
+    purpose: 'summary',
+    maxTokens: config.history.summaryMaxTokens,
+    retries: 1,
+    system: SUMMARY_PROMPT,
+    messages: [{
+      role: 'user',
+      content: `Resumo anterior:\n${previous ?? '(nenhum)'}\n\nNovas mensagens:\n${formatTranscript(turns)}`,
+    }],
+  });
+
+  if (!response.text) throw new Error('Resumo vazio');
+  return response.text;
+}
+
+// Fallback sem API: mantém as falas do lead (encurtadas), descartando as mais antigas
+export function summarizeOffline(previous: string | undefined, turns: ConversationMessage[]): string {
+  const lines = [
+    ...(previous ? previous.split('\n') : []),
+    ...turns
+      .filter(m => m.role === 'user')
+      .map(m => `- Lead: ${m.content.length > 160 ? `${m.content.slice(0, 157)}...` : m.content}`),
+  ];
+
+  const maxChars = config.history.summaryMaxTokens * 4;
+  while (lines.length > 1 && lines.join('\n').length > maxChars) lines.shift();
+  return lines.join('\n');
+}
+
+// ============================================================
+// RESUMIR SE NECESSÁRIO
+// Retorna true quando o resumo foi atualizado
+// ============================================================
+export async function summarizeIfNeeded(memory: LeadMemory): Promise<boolean> {
+  const end = summaryEnd(memory.messages, memory.summary);
+  if (end === null) return false;
+
+  const start = memory.summary?.covered_messages ?? 0;
+  const turns = memory.messages.slice(start, end);
+
+  let text: string;
+  if (config.history.useLlm) {
+    try {
+      text = await summarizeWithLlm(memory.summary?.text, turns);
+    } catch (error) {
+      logger.warn('Resumo via LLM falhou — usando resumo simples', error);
+      text = summarizeOffline(memory.summary?.text, turns);
+    }
+  } else {
+    text = summarizeOffline(memory.summary?.text, turns);
+  }
+
+  setSummary(memory.conversationId, {
+    text,
+    covered_messages: end,
+    updated_at: new Date().toISOString(),
+  });
+
+  logger.info(`Conversa ${memory.conversationId} resumida: ${turns.length} mensagens (até #${end})`);
+  return true;
+}
@@ -1,21 +1,39 @@
-import Anthropic from '@anthropic-ai/sdk';
 import { config } from '../config/index.js';
 import { createLogger } from '../lib/logger.js';
+import { completeText } from '../llm/provider.js';
+import type { LlmMessage } from '../llm/types.js';
+import {
+  resolveGuardrailRules,
+  checkReply,
+  buildCorrectionPrompt,
+  stripViolations,
+  recordViolations,
+} from '../safety/reply-guardrail.js';
 import { db, type LeadContextData } from '../database/client.js';
 import {
-  PELICANO_SYSTEM_PROMPT,
-  SPIN_STAGES,
-  BUSINESS_SPIN_STAGES,
-  SPECIAL_RESPONSES,
-} from './spin-prompts.js';
+  getPlaybook,
+  buildSystemPrompt,
+  renderStagePrompt,
+  renderTemplate,
+  getAdvanceRules,
+  type Playbook,
+} from './playbook.js';
+import {
+  resolveVariant,
+  recordExperimentOutcome,
+  type VariantAssignment,
+} from './experiments.js';
 import {
   createMemory,
   getMemoryAsync,
   addMessage,
   updateContext,
   advanceStage,
+  setStage,
   addSignal,
   updateHandoffScore,
+  recordObjection,
+  countObjections,
   serializeMemory,
   restoreMemory,
   type LeadMemory,
@@ -24,10 +42,20 @@ import {
   detectConversationSignals,
   calculateHandoffScore,
   shouldHandoff,
+  classifyObjection,
+  type ObjectionType,
 } from './intent-scorer.js';
+import { extractContext, mergeExtraction } from './context-extractor.js';
+import { selectHistoryWindow, summarizeIfNeeded } from './conversation-summary.js';
+import { startTakeover } from './human-takeover.js';
+import {
+  initialStageFor,
+  resolveTrackSwitch,
+  shouldAdvanceStage,
+  trackOf,
+} from './stage-graph.js';
 
 const logger = createLogger('CONVERSATION');
-const anthropic = new Anthropic({ apiKey: config.anthropic.apiKey });
 
 // ============================================================
 // TIPO DE RESPOSTA DO MOTOR
@@ -37,6 +65,8 @@ export type ConversationResult = {
   spinStage: string;
   handoffTriggered: boolean;
   handoffScore?: number;
+  objection?: ObjectionType;
+  objectionsHandled: number;
   contextUpdated: Partial<LeadContextData>;
   nextAction: 'continue' | 'handoff' | 'close' | 'request_whatsapp';
 };
@@ -74,7 +104,7 @@ async function getOrCreateConversation(params: {
     lead_id: params.leadId,
     consultant_id: params.consultantId,
     channel: params.channel,
-    spin_stage: 'ice_break',
+    spin_stage: initialStageFor(params.initialContext?.profile_type),
     messages: [],
     context_data: params.initialContext ?? {},
     handoff_triggered: false,
@@ -93,73 +123,44 @@ async function getOrCreateConversation(params: {
 // ============================================================
 // CONSTRUIR PROMPT PARA A ETAPA ATUAL
 // ============================================================
-function buildStagePrompt(memory: LeadMemory): string {
-  const { spinStage, context } = memory;
-  const isBusiness = context.profile_type === 'business';
-
-  // Mapear etapa para prompt correspondente
-  switch (spinStage) {
-    case 'ice_break':
-      return SPIN_STAGES.ICE_BREAK.prompt(context);
-    case 'situation':
-      return SPIN_STAGES.SITUATION.prompt(context);
-    case 'problem':
-      return SPIN_STAGES.PROBLEM.prompt(context);
-    case 'implication':
-      return SPIN_STAGES.IMPLICATION.prompt(context);
-    case 'commitment':
-      return SPIN_STAGES.COMMITMENT.prompt(context);
-    case 'transition':
-      return SPIN_STAGES.TRANSITION.prompt(context);
-    case 'biz_ice_break':
-      return BUSINESS_SPIN_STAGES.ICE_BREAK.prompt(context);
-    case 'biz_qualification':
-      return BUSINESS_SPIN_STAGES.QUALIFICATION.prompt(context);
-    case 'biz_implication':
-      return isBusiness
-        ? BUSINESS_SPIN_STAGES.IMPLICATION.prompt(context)
-        : SPIN_STAGES.IMPLICATION.prompt(context);
-    case 'biz_commitment':
-      return BUSINESS_SPIN_STAGES.COMMITMENT.prompt(context);
-    default:
-      return SPIN_STAGES.ICE_BREAK.prompt(context);
-  }
+// Metadados de extração (fact_sources) não vão para o prompt;
+// o resumo do modo humano tem seção própria em generateReply
+function toPromptContext(context: LeadContextData): LeadContextData {
+  const { fact_sources: _sources, human_takeover_summary: _handback, ...promptContext } = context;
+  return promptContext;
+}
+
+// Variante de experimento A/B, quando houver, substitui o prompt do playbook
+function buildStagePrompt(memory: LeadMemory, playbook: Playbook, variant?: VariantAssignment | null): string {
+  const promptContext = toPromptContext(memory.context);
+  return variant
+    ? renderTemplate(variant.content, promptContext)
+    : renderStagePrompt(playbook, memory.spinStage, promptContext);
 }
 
 // ============================================================
-// DETECTAR ATUALIZAÇÃO DE CONTEXTO NA RESPOSTA DO LEAD
+// PERFIL APÓS TROCA DE TRILHA
+// Quem já falou de dores e agora pergunta do negócio (ou vice-versa) é "both"
 // ============================================================
-function extractContextFromMessage(message: string, currentContext: LeadContextData): Partial<LeadContextData> {
-  const updates: Partial<LeadContextData> = {};
-  const text = message.toLowerCase();
-
-  // Detectar nome
-  const nameMatch = message.match(/(?:me chamo|meu nome é|sou (?:a |o )?)\s*([A-ZÀ-Ú][a-zà-ú]+)/i);
-  if (nameMatch && !currentContext.name) {
-    updates.name = nameMatch[1];
-  }
-
-  // Detectar dores mencionadas
-  const pains: string[] = [];
-  if (text.includes('energia')) pains.push('falta de energia');
-  if (text.includes('cansad')) pains.push('cansaço crônico');
-  if (text.includes('emagrec') || text.includes('peso')) pains.push('dificuldade para emagrecer');
-  if (text.includes('barriga')) pains.push('barriga inchada');
-  if (text.includes('disposiç')) pains.push('falta de disposição');
-  if (text.includes('sono')) pains.push('problemas de sono');
-  if (text.includes('ansied')) pains.push('ansiedade alimentar');
-  if (pains.length > 0) {
-    updates.pain_points = [...(currentContext.pain_points ?? []), ...pains];
-  }
+function resolveProfileAfterSwitch(
+  context: LeadContextData,
+  track: ReturnType<typeof trackOf>
+): LeadContextData['profile_type'] {
+  const hasProductInterest = (context.pain_points?.length ?? 0) > 0;
+  if (track === 'business') return hasProductInterest ? 'both' : 'business';
+  return context.profile_type === 'business' || context.business_offered ? 'both' : 'product';
+}
 
-  // Detectar perfil de negócio
-  if (text.includes('renda') || text.includes('dinheiro') || text.includes('negócio') || text.includes('empreend')) {
-    if (!currentContext.profile_type) {
-      updates.profile_type = 'business';
-    }
+// ============================================================
+// PROMPTS DE OBJEÇÃO (substituem a etapa por um turno)
+// ============================================================
+function objectionPrompt(playbook: Playbook, objection: ObjectionType): string {
+  const responses = playbook.special_responses;
+  switch (objection) {
+    case 'price': return responses.objection_price;
+    case 'time': return responses.objection_time;
+    case 'skeptical': return responses.objection_skeptical;
   }
-
-  return updates;
 }
 
 // ============================================================
@@ -182,9 +183,15 @@ export async function processMessage(params: {
     initialContext: params.initialContext,
   });
 
+  // Playbook do consultor (persona, catálogo e prompts SPIN)
+  const playbook = await getPlaybook(params.consultantId);
+
   // Adicionar mensagem do usuário à memória
   addMessage(memory.conversationId, 'user', params.userMessage);
 
+  // Conversa longa: condensa o que não cabe mais na janela antes de montar o prompt
+  await summarizeIfNeeded(memory);
+
   // Detectar sinais de comportamento na mensagem
   const signals = detectConversationSignals(params.userMessage);
   signals.forEach(signal => addSignal(memory.conversationId, signal));
@@ -199,29 +206,43 @@ export async function processMessage(params: {
 
     const handoffReply = await generateReply(
       memory,
-      SPECIAL_RESPONSES.HANDOFF_READY,
+      playbook,
+      playbook.special_responses.handoff_ready,
       params.userMessage
     );
 
     addMessage(memory.conversationId, 'assistant', handoffReply);
-    await persistConversation(memory, 'negotiating', true);
+    await persistConversation(memory, 'active', true);
+    await recordExperimentOutcome(params.leadId, 'handoff');
+
+    // Daqui em diante quem responde é o consultor
+    await startTakeover(memory.conversationId, 'handoff');
 
     return {
       reply: handoffReply,
       spinStage: memory.spinStage,
       handoffTriggered: true,
       handoffScore: newHandoffScore,
+      objectionsHandled: countObjections(memory),
       contextUpdated: {},
       nextAction: 'handoff',
     };
   }
 
-  // Extrair e atualizar contexto da mensagem
-  const contextUpdates = extractContextFromMessage(params.userMessage, memory.context);
+  // Extrair e atualizar contexto da mensagem (fatos com confiança e origem)
+  const extraction = await extractContext(params.userMessage, memory.context);
+  const contextUpdates = mergeExtraction(memory.context, extraction, memory.messages.length - 1);
   if (Object.keys(contextUpdates).length > 0) {
     updateContext(memory.conversationId, contextUpdates);
   }
 
+  // Lead mudou de assunto (produto ↔ negócio)? Troca de trilha mantendo a profundidade
+  const switchTo = resolveTrackSwitch(memory.spinStage, signals, memory.context);
+  if (switchTo) {
+    setStage(memory.conversationId, switchTo);
+    updateContext(memory.conversationId, { profile_type: resolveProfileAfterSwitch(memory.context, trackOf(switchTo)) });
+  }
+
   // Verificar se o lead aceitou o micro compromisso
   const acceptedCommitment = signals.includes('responded_positively') &&
     (memory.spinStage === 'commitment' || memory.spinStage === 'biz_commitment');
@@ -230,11 +251,25 @@ export async function processMessage(params: {
     updateContext(memory.conversationId, { commitment_accepted: true });
   }
 
+  // Objeção detectada? Responde com o prompt especial e mantém a etapa SPIN
+  const objection = classifyObjection(signals, memory.spinStage);
+  if (objection) {
+    const total = recordObjection(memory.conversationId, objection);
+    logger.info(`Objeção de ${objection} detectada no lead ${params.leadId} (${total} na conversa)`);
+  }
+
   // Construir prompt para a etapa atual
-  const stagePrompt = buildStagePrompt(memory);
+  const variant = objection ? null : await resolveVariant({
+    consultantId: params.consultantId,
+    leadId: params.leadId,
+    target: 'spin_stage',
+    targetRef: memory.spinStage,
+    conversationId: memory.conversationId,
+  });
+  const stagePrompt = objection ? objectionPrompt(playbook, objection) : buildStagePrompt(memory, playbook, variant);
 
   // Gerar resposta com IA
-  const reply = await generateReply(memory, stagePrompt, params.userMessage);
+  const reply = await generateReply(memory, playbook, stagePrompt, params.userMessage);
 
   // Adicionar resposta do assistente à memória
   addMessage(memory.conversationId, 'assistant', reply);
@@ -243,15 +278,37 @@ export async function processMessage(params: {
   let nextAction: ConversationResult['nextAction'] = 'continue';
   const currentStage = memory.spinStage;
 
-  // Decidir se avança para próxima etapa
-  const shouldAdvance = shouldAdvanceStage(memory, signals, params.userMessage);
+  // Decidir se avança para próxima etapa (nunca no turno de objeção)
+  const shouldAdvance = !objection && !switchTo &&
+    shouldAdvanceStage(
+      memory.spinStage,
+      signals,
+      params.userMessage,
+      memory.context,
+      getAdvanceRules(playbook, memory.spinStage)
+    );
   if (shouldAdvance) {
     const nextStage = advanceStage(memory.conversationId);
+    await recordExperimentOutcome(params.leadId, 'stage_advance', currentStage);
+
+    // Compromisso vencido: a trilha está feita e não é retomada numa troca
+    const track = trackOf(currentStage);
+    if ((currentStage === 'commitment' || currentStage === 'biz_commitment') && track !== 'shared') {
+      const completedTracks = memory.context.completed_tracks ?? [];
+      if (!completedTracks.includes(track)) {
+        updateContext(memory.conversationId, { completed_tracks: [...completedTracks, track] });
+      }
+    }
     if (nextStage === 'transition') {
       nextAction = 'request_whatsapp';
     }
   }
 
+  // Entrou na trilha de negócio: não oferecer de novo ao perfil "both"
+  if (trackOf(memory.spinStage) === 'business' && !memory.context.business_offered) {
+    updateContext(memory.conversationId, { business_offered: true });
+  }
+
   // Persistir no banco
   await persistConversation(memory, 'active', false);
 
@@ -260,24 +317,27 @@ export async function processMessage(params: {
     spinStage: currentStage,
     handoffTriggered: false,
     handoffScore: newHandoffScore,
+    objection: objection ?? undefined,
+    objectionsHandled: countObjections(memory),
     contextUpdated: contextUpdates,
     nextAction,
   };
 }
 
 // ============================================================
-// GERAR RESPOSTA COM A API CLAUDE
+// GERAR RESPOSTA COM O LLM (provedor configurado em config.llm)
 // ============================================================
 async function generateReply(
   memory: LeadMemory,
+  playbook: Playbook,
   stagePrompt: string,
   userMessage: string
 ): Promise<string> {
-  // Construir histórico de mensagens para o Claude
-  const messages: Anthropic.MessageParam[] = [];
+  // Construir histórico de mensagens para o modelo
+  const messages: LlmMessage[] = [];
 
-  // Adicionar histórico da conversa (últimas 10 mensagens para eficiência)
-  const recentMessages = memory.messages.slice(-10);
+  // Histórico recente dentro do orçamento de tokens (o resto está no resumo)
+  const recentMessages = selectHistoryWindow(memory.messages, memory.summary);
   for (const msg of recentMessages) {
     messages.push({
       role: msg.role,
@@ -292,82 +352,89 @@ async function generateReply(
   }
 
   // System prompt combinado: persona + instrução de etapa
-  const systemPrompt = `${PELICANO_SYSTEM_PROMPT}
+  const summarySection = memory.summary
+    ? `## RESUMO DA CONVERSA ATÉ AQUI\n${memory.summary.text}\n\n`
+    : '';
+  const handbackSection = memory.context.human_takeover_summary
+    ? `## O QUE O CONSULTOR CONVERSOU COM O LEAD (não contradiga)\n${memory.context.human_takeover_summary}\n\n`
+    : '';
 
-## INSTRUÇÃO PARA ESTA MENSAGEM
+  const systemPrompt = `${buildSystemPrompt(playbook)}
+
+${summarySection}${handbackSection}## INSTRUÇÃO PARA ESTA MENSAGEM
 ${stagePrompt}
 
 ## CONTEXTO COLETADO ATÉ AGORA
-${JSON.stringify(memory.context, null, 2)}
+${JSON.stringify(toPromptContext(memory.context), null, 2)}
 
 ## REGRA CRÍTICA
 Responda APENAS com o texto da mensagem para o lead.
 Sem introduções, sem meta-comentários, sem aspas.
 Máximo de 3-4 frases. Seja natural e humano.`;
 
-  // Retry com backoff exponencial (3 tentativas)
-  const MAX_RETRIES = 3;
-  for (let attempt = 1; attempt <= MAX_RETRIES; attempt++) {
-    try {
-      const t0 = Date.now();
-      const response = await anthropic.messages.create({
-        model: config.anthropic.model,
-        max_tokens: config.anthropic.maxTokens,
-        system: systemPrompt,
-        messages,
-      });
-      logger.debug(`Claude respondeu em ${Date.now() - t0}ms (tentativa ${attempt})`);
-
-      const content = response.content[0];
-      if (content.type !== 'text') {
-        throw new Error('Resposta inesperada da API');
-      }
-
-      return content.text.trim();
-    } catch (error) {
-      logger.warn(`Tentativa ${attempt}/${MAX_RETRIES} falhou ao gerar resposta com Claude`, error);
-      if (attempt === MAX_RETRIES) {
-        logger.error('Todas as tentativas esgotadas. Retornando fallback.');
-        // Fallback para não deixar o usuário sem resposta
-        return 'Oi! Recebi sua mensagem. Me dá um instante que já te respondo 😊';
-      }
-      // Aguarda antes de tentar novamente: 2s, 4s
-      await new Promise(res => setTimeout(res, attempt * 2000));
-    }
+  // Retry com backoff e timeout ficam no provedor (config.llm)
+  let reply: string;
+  try {
+    const response = await completeText({
+      purpose: 'reply',
+      maxTokens: config.anthropic.maxTokens,
+      system: systemPrompt,
+      messages,
+    });
+    reply = response.text;
+  } catch (error) {
+    logger.error('Todas as tentativas esgotadas. Retornando fallback.', error);
+    // Fallback para não deixar o usuário sem resposta
+    return 'Oi! Recebi sua mensagem. Me dá um instante que já te respondo 😊';
   }
-  // Typescript precisa de return aqui mas nunca chega
-  return 'Oi! Me dá um instante 😊';
+
+  return enforceGuardrail(memory, playbook, systemPrompt, messages, reply);
 }
 
 // ============================================================
-// LÓGICA DE AVANÇO DE ETAPA
+// GUARDRAIL: nada sai sem passar pelas regras de conformidade
+// Viola? Regenera uma vez com instrução corretiva; persistindo,
+// remove as frases problemáticas (ou troca por uma resposta neutra)
 // ============================================================
-function shouldAdvanceStage(
+async function enforceGuardrail(
   memory: LeadMemory,
-  signals: string[],
-  userMessage: string
-): boolean {
-  const { spinStage } = memory;
-  const positiveResponse = signals.includes('responded_positively') ||
-    signals.includes('expressed_interest') ||
-    signals.includes('shared_pain');
-
-  // Avança após quebra-gelo se respondeu de forma engajada
-  if (spinStage === 'ice_break' && userMessage.length > 20) return true;
-
-  // Avança de situação após lead compartilhar contexto
-  if (spinStage === 'situation' && userMessage.length > 30) return true;
+  playbook: Playbook,
+  systemPrompt: string,
+  messages: LlmMessage[],
+  reply: string
+): Promise<string> {
+  const rules = resolveGuardrailRules(playbook.guardrail);
+  let violations = checkReply(reply, rules);
+  if (violations.length === 0) return reply;
+
+  const audit = {
+    consultantId: memory.consultantId,
+    leadId: memory.leadId,
+    conversationId: memory.conversationId,
+  };
+  await recordViolations({ ...audit, reply, violations, action: 'regenerated' });
 
-  // Avança de problema após identificar dor
-  if (spinStage === 'problem' && (signals.includes('shared_pain') || userMessage.length > 20)) return true;
+  try {
+    const retry = await completeText({
+      purpose: 'reply',
+      maxTokens: config.anthropic.maxTokens,
+      system: `${systemPrompt}\n\n${buildCorrectionPrompt(violations, rules)}`,
+      messages,
+      retries: 1,
+    });
 
-  // Avança de implicação para compromisso
-  if (spinStage === 'implication' && positiveResponse) return true;
+    const retryViolations = checkReply(retry.text, rules);
+    if (retryViolations.length === 0) return retry.text;
 
-  // Avança de compromisso após aceitação
-  if (spinStage === 'commitment' && positiveResponse) return true;
+    reply = retry.text;
+    violations = retryViolations;
+  } catch (error) {
+    logger.warn('Falha ao regenerar resposta bloqueada pelo guardrail', error);
+  }
 
-  return false;
+  const rewritten = stripViolations(reply, rules);
+  await recordViolations({ ...audit, reply, violations, action: rewritten ? 'rewritten' : 'blocked' });
+  return rewritten ?? 'Entendi! Me conta um pouco mais sobre isso? 😊';
 }
 
 // ============================================================
@@ -428,12 +495,21 @@ export async function initiateConversation(params: {
   const promptContext: Partial<LeadContextData> = { ...contextWithSource };
   delete promptContext.source_context;
 
-  const iceBreakPrompt = params.profileType === 'business'
-    ? BUSINESS_SPIN_STAGES.ICE_BREAK.prompt(promptContext)
-    : SPIN_STAGES.ICE_BREAK.prompt(promptContext);
+  const playbook = await getPlaybook(params.consultantId);
+  const initialStage = initialStageFor(params.profileType);
+  const variant = await resolveVariant({
+    consultantId: params.consultantId,
+    leadId: params.leadId,
+    target: 'spin_stage',
+    targetRef: initialStage,
+    conversationId: memory.conversationId,
+  });
+  const iceBreakPrompt = variant
+    ? renderTemplate(variant.content, promptContext)
+    : renderStagePrompt(playbook, initialStage, promptContext);
 
   const dummyMessage = '[início da conversa]';
-  const reply = await generateReply(memory, iceBreakPrompt, dummyMessage);
+  const reply = await generateReply(memory, playbook, iceBreakPrompt, dummyMessage);
 
   addMessage(memory.conversationId, 'assistant', reply);
   await persistConversation(memory, 'active', false);
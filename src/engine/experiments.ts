@@ -0,0 +1,370 @@
+/**
+ * Experimentos A/B de Mensagens
+ *
+ * Registro de experimentos (tabela `experiments`) com variantes de texto para:
+ * - spin_stage: prompt de uma etapa SPIN       (target_ref = id da etapa, ex: "ice_break")
+ * - followup:   mensagem da régua de follow-up (target_ref = dia, ex: "3")
+ * - reorder:    mensagem do gatilho de recompra (target_ref = "default")
+ *
+ * As variantes usam o mesmo template dos playbooks ({{campo}}, {{campo|padrão}}).
+ * O lead cai sempre na mesma variante (hash de experimento + leadId) e a
+ * atribuição fica em `experiment_assignments`, ligada à conversa ou ao projeto.
+ * Os resultados (avanço de etapa, handoff, conversão, recompra) são marcados
+ * na própria atribuição e consolidados no relatório por variante.
+ *
+ * O consultor cria e pausa os seus pelo dashboard
+ * (PUT /api/dashboard/:consultantId/experiments/:key); experimentos para
+ * todos os consultores (consultant_id null) são inseridos direto na tabela.
+ */
+
+import { createHash } from 'node:crypto';
+import { z } from 'zod';
+import { createLogger } from '../lib/logger.js';
+import { db } from '../database/client.js';
+
+const logger = createLogger('EXPERIMENTS');
+
+// ============================================================
+// TIPOS
+// ============================================================
+export type ExperimentTarget = 'spin_stage' | 'followup' | 'reorder';
+export type ExperimentOutcome = 'stage_advance' | 'handoff' | 'converted' | 'reorder_confirmed';
+
+const VariantSchema = z.object({
+  id: z.string().min(1),
+  weight: z.number().positive().default(1),
+  content: z.string().min(1),
+});
+
+const VariantsSchema = z.array(VariantSchema).min(2);
+
+export type ExperimentVariant = z.infer<typeof VariantSchema>;
+
+export type Experiment = {
+  id: string;
+  key: string;
+  consultantId: string | null; // null = vale para todos os consultores
+  target: ExperimentTarget;
+  targetRef: string;
+  variants: ExperimentVariant[];
+  active: boolean;
+};
+
+export type VariantAssignment = {
+  experimentId: string;
+  experimentKey: string;
+  variantId: string;
+  content: string;
+};
+
+type ExperimentRow = {
+  id: string;
+  key: string;
+  consultant_id: string | null;
+  target: ExperimentTarget;
+  target_ref: string;
+  variants: unknown;
+  active: boolean;
+  created_at: string;
+};
+
+// Coluna de resultado em experiment_assignments
+const OUTCOME_COLUMNS: Record<ExperimentOutcome, string> = {
+  stage_advance: 'advanced_at',
+  handoff: 'handoff_at',
+  converted: 'converted_at',
+  reorder_confirmed: 'reorder_confirmed_at',
+};
+
+// ============================================================
+// CARREGAR EXPERIMENTOS (com cache por consultor)
+// ============================================================
+const CACHE_TTL_MS = 5 * 60 * 1000;
+const experimentCache = new Map<string, { experiments: Experiment[]; loadedAt: number }>(); // key: consultantId
+
+function toExperiment(row: ExperimentRow): Experiment | null {
+  const parsed = VariantsSchema.safeParse(row.variants);
+  if (!parsed.success) {
+    logger.warn(`Experimento "${row.key}" com variantes inválidas — ignorado`);
+    return null;
+  }
+  return {
+    id: row.id,
+    key: row.key,
+    consultantId: row.consultant_id,
+    target: row.target,
+    targetRef: row.target_ref,
+    variants: parsed.data,
+    active: row.active,
+  };
+}
+
+const EXPERIMENT_COLUMNS = 'id, key, consultant_id, target, target_ref, variants, active, created_at';
+
+// Do consultor + globais. Duas consultas simples: o id nunca entra num filtro .or()
+async function fetchExperiments(consultantId: string, onlyActive: boolean): Promise<Experiment[]> {
+  const [own, global] = await Promise.all([
+    db.client.from('experiments').select(EXPERIMENT_COLUMNS).eq('consultant_id', consultantId),
+    db.client.from('experiments').select(EXPERIMENT_COLUMNS).is('consultant_id', null),
+  ]);
+
+  return ([...(own.data ?? []), ...(global.data ?? [])] as unknown as ExperimentRow[])
+    .filter(row => !onlyActive || row.active)
+    .sort((a, b) => a.created_at.localeCompare(b.created_at))
+    .map(toExperiment)
+    .filter((e): e is Experiment => e !== null);
+}
+
+// ============================================================
+// CRIAR / ALTERAR (dashboard)
+// Variantes ficam travadas depois que algum lead foi atribuído —
+// senão o relatório misturaria textos diferentes na mesma variante
+// ============================================================
+export const ExperimentInputSchema = z.object({
+  target: z.enum(['spin_stage', 'followup', 'reorder']),
+  targetRef: z.string().min(1).max(60),
+  variants: VariantsSchema.refine(
+    variants => new Set(variants.map(v => v.id)).size === variants.length,
+    'ids de variante repetidos'
+  ),
+  active: z.boolean().default(true),
+});
+
+export type ExperimentInput = z.infer<typeof ExperimentInputSchema>;
+
+export async function saveConsultantExperiment(
+  consultantId: string,
+  key: string,
+  input: ExperimentInput
+): Promise<'created' | 'updated' | 'reserved' | 'locked'> {
+  const { data: existing } = await db.client
+    .from('experiments')
+    .select(EXPERIMENT_COLUMNS)
+    .eq('key', key)
+    .maybeSingle();
+  const row = existing as unknown as ExperimentRow | null;
+
+  // Chave é única na tabela: de outro consultor ou global não se altera
+  if (row && row.consultant_id !== consultantId) return 'reserved';
+
+  if (!row) {
+    const { error } = await db.client.from('experiments').insert({
+      key,
+      consultant_id: consultantId,
+      target: input.target,
+      target_ref: input.targetRef,
+      variants: input.variants,
+      active: input.active,
+    });
+    if (error) throw new Error(`Erro ao criar experimento ${key}: ${error.message}`);
+    clearExperimentCache(consultantId);
+    logger.info(`Experimento "${key}" criado para consultor ${consultantId}`);
+    return 'created';
+  }
+
+  // Comparação campo a campo (jsonb não preserva a ordem das chaves)
+  const signature = (variants: ExperimentVariant[]): string =>
+    JSON.stringify(variants.map(v => [v.id, v.weight, v.content]));
+  const stored = VariantsSchema.safeParse(row.variants);
+  const definitionChanged = row.target !== input.target
+    || row.target_ref !== input.targetRef
+    || !stored.success
+    || signature(stored.data) !== signature(input.variants);
+  if (definitionChanged) {
+    const { count } = await db.client
+      .from('experiment_assignments')
+      .select('id', { count: 'exact', head: true })
+      .eq('experiment_id', row.id);
+    if ((count ?? 0) > 0) return 'locked';
+  }
+
+  const { error } = await db.client
+    .from('experiments')
+    .update({
+      target: input.target,
+      target_ref: input.targetRef,
+      variants: input.variants,
+      active: input.active,
+    })
+    .eq('id', row.id);
+  if (error) throw new Error(`Erro ao atualizar experimento ${key}: ${error.message}`);
+  clearExperimentCache(consultantId);
+  return 'updated';
+}
+
+async function getActiveExperiments(consultantId: string): Promise<Experiment[]> {
+  const cached = experimentCache.get(consultantId);
+  if (cached && Date.now() - cached.loadedAt < CACHE_TTL_MS) return cached.experiments;
+
+  const experiments = await fetchExperiments(consultantId, true);
+  experimentCache.set(consultantId, { experiments, loadedAt: Date.now() });
+  return experiments;
+}
+
+export function clearExperimentCache(consultantId?: string): void {
+  if (consultantId) experimentCache.delete(consultantId);
+  else experimentCache.clear();
+}
+
+// ============================================================
+// ATRIBUIÇÃO DETERMINÍSTICA (mesmo lead → mesma variante)
+// ============================================================
+export function assignVariant(experiment: Pick<Experiment, 'key' | 'variants'>, leadId: string): ExperimentVariant {
+  const hash = createHash('sha256').update(`${experiment.key}:${leadId}`).digest();
+  const totalWeight = experiment.variants.reduce((sum, v) => sum + v.weight, 0);
+  const point = (hash.readUInt32BE(0) / 0x100000000) * totalWeight;
+
+  let accumulated = 0;
+  for (const variant of experiment.variants) {
+    accumulated += variant.weight;
+    if (point < accumulated) return variant;
+  }
+  return experiment.variants[experiment.variants.length - 1];
+}
+
+// ============================================================
+// RESOLVER VARIANTE PARA UM PONTO DE MENSAGEM
+// Retorna null quando não há experimento ativo (usa o texto padrão)
+// ============================================================
+export async function resolveVariant(params: {
+  consultantId: string;
+  leadId: string;
+  target: ExperimentTarget;
+  targetRef: string;
+  conversationId?: string;
+  projectId?: string;
+}): Promise<VariantAssignment | null> {
+  try {
+    const experiments = await getActiveExperiments(params.consultantId);
+    const candidates = experiments.filter(e => e.target === params.target && e.targetRef === params.targetRef);
+    if (candidates.length === 0) return null;
+
+    // Experimento do próprio consultor tem prioridade sobre o global
+    const experiment = candidates.find(e => e.consultantId === params.consultantId) ?? candidates[0];
+    const variant = assignVariant(experiment, params.leadId);
+
+    await db.client
+      .from('experiment_assignments')
+      .upsert({
+        experiment_id: experiment.id,
+        lead_id: params.leadId,
+        consultant_id: params.consultantId,
+        variant: variant.id,
+        conversation_id: params.conversationId ?? null,
+        project_id: params.projectId ?? null,
+      }, { onConflict: 'experiment_id,lead_id', ignoreDuplicates: true });
+
+    return {
+      experimentId: experiment.id,
+      experimentKey: experiment.key,
+      variantId: variant.id,
+      content: variant.content,
+    };
+  } catch (error) {
+    // Experimento nunca derruba a conversa: segue com o texto padrão
+    logger.error(`Erro ao resolver variante (${params.target}:${params.targetRef})`, error);
+    return null;
+  }
+}
+
+// ============================================================
+// REGISTRAR RESULTADO
+// Marca o primeiro ocorrido em todas as atribuições do lead;
+// avanço de etapa só conta para o experimento da etapa que foi concluída
+// ============================================================
+export async function recordExperimentOutcome(
+  leadId: string,
+  outcome: ExperimentOutcome,
+  fromStage?: string
+): Promise<void> {
+  const column = OUTCOME_COLUMNS[outcome];
+
+  try {
+    let query = db.client
+      .from('experiment_assignments')
+      .update({ [column]: new Date().toISOString() })
+      .eq('lead_id', leadId)
+      .is(column, null);
+
+    if (outcome === 'stage_advance') {
+      const { data } = await db.client
+        .from('experiments')
+        .select('id')
+        .eq('target', 'spin_stage')
+        .eq('target_ref', fromStage ?? '');
+
+      const ids = ((data ?? []) as Array<{ id: string }>).map(e => e.id);
+      if (ids.length === 0) return;
+      query = query.in('experiment_id', ids);
+    }
+
+    await query;
+  } catch (error) {
+    logger.error(`Erro ao registrar resultado ${outcome} do lead ${leadId}`, error);
+  }
+}
+
+// ============================================================
+// RELATÓRIO POR VARIANTE
+// ============================================================
+export type VariantReport = {
+  variant: string;
+  assigned: number;
+  stageAdvances: number;
+  handoffs: number;
+  conversions: number;
+  reorders: number;
+  conversionRate: number; // %
+};
+
+export type ExperimentReport = {
+  id: string;
+  key: string;
+  target: ExperimentTarget;
+  targetRef: string;
+  active: boolean;
+  variants: VariantReport[];
+};
+
+type AssignmentRow = {
+  experiment_id: string;
+  variant: string;
+  advanced_at: string | null;
+  handoff_at: string | null;
+  converted_at: string | null;
+  reorder_confirmed_at: string | null;
+};
+
+export async function getExperimentReport(consultantId: string): Promise<ExperimentReport[]> {
+  const experiments = await fetchExperiments(consultantId, false);
+  if (experiments.length === 0) return [];
+
+  const { data } = await db.client
+    .from('experiment_assignments')
+    .select('experiment_id, variant, advanced_at, handoff_at, converted_at, reorder_confirmed_at')
+    .eq('consultant_id', consultantId)
+    .in('experiment_id', experiments.map(e => e.id));
+
+  const rows = (data ?? []) as unknown as AssignmentRow[];
+
+  return experiments.map(experiment => ({
+    id: experiment.id,
+    key: experiment.key,
+    target: experiment.target,
+    targetRef: experiment.targetRef,
+    active: experiment.active,
+    variants: experiment.variants.map(variant => {
+      const assigned = rows.filter(r => r.experiment_id === experiment.id && r.variant === variant.id);
+      const conversions = assigned.filter(r => r.converted_at).length;
+      return {
+        variant: variant.id,
+        assigned: assigned.length,
+        stageAdvances: assigned.filter(r => r.advanced_at).length,
+        handoffs: assigned.filter(r => r.handoff_at).length,
+        conversions,
+        reorders: assigned.filter(r => r.reorder_confirmed_at).length,
+        conversionRate: assigned.length > 0 ? Math.round((conversions / assigned.length) * 100) : 0,
+      };
+    }),
+  }));
+}
@@ -7,7 +7,34 @@
 
 import { createLogger } from '../lib/logger.js';
 import { db } from '../database/client.js';
+import { getProjectTimeZone, resolveTimeZone, daysSince } from '../lib/timezone.js';
 import type { ClientGamification, ClientProject } from '../database/client.js';
+import {
+  getProjectCheckinTemplate,
+  resolveCheckinTemplate,
+  computeItemsXp,
+  WEIGHT_ITEM_KEY,
+  MOOD_ITEM_KEY,
+  type CheckinData,
+  type CheckinTemplate,
+} from './checkin-templates.js';
+
+import {
+  loadStreakState,
+  resolveCheckinDate,
+  advanceStreak,
+  grantStreakFreezes,
+  freezesEarnedByXp,
+} from './streak.js';
+import { evaluateBadges, listProjectBadges, getBadgeUnlocks, type Badge } from './badges.js';
+import { calculateLevel, levelName, getLevelProgress, getProjectLevelCurve, parseLevelCurve } from './levels.js';
+import { recordXpEvent, type XpSource } from './xp-ledger.js';
+import { getProjectRollingStats, type WindowStats } from './checkin-stats.js';
+import { getWeightProgress, checkRapidWeightLoss, formatDateBR, type WeightProgress } from './weight-progress.js';
+
+export type { CheckinData } from './checkin-templates.js';
+export type { Badge, GamificationStats } from './badges.js';
+export { calculateLevel, getLevelProgress } from './levels.js';
 
 const logger = createLogger('GAMIFICATION');
 
@@ -15,12 +42,7 @@ const logger = createLogger('GAMIFICATION');
 // DEFINIÇÃO DE XP POR AÇÃO
 // ============================================================
 export const XP_REWARDS = {
-  CHECKIN_DAILY: 10,        // check-in diário realizado
-  SHAKE_AM: 15,             // shake da manhã tomado
-  SHAKE_PM: 15,             // shake da tarde/noite tomado
-  HYDRATION: 10,            // tomou 2L de água
-  SUPPLEMENT: 10,           // tomou suplemento
-  WEIGHT_LOGGED: 20,        // registrou peso
+  CHECKIN_DAILY: 10,        // check-in diário realizado (+ XP dos itens do template)
   PHOTO_SHARED: 50,         // compartilhou foto de resultado
   REFERRAL: 100,            // indicou um amigo
   CHALLENGE_COMPLETE: 200,  // completou desafio de 21 dias
@@ -31,170 +53,71 @@ export const XP_REWARDS = {
 } as const;
 
 // ============================================================
-// DEFINIÇÃO DE BADGES (narrativos, não genéricos)
+// PROCESSAR GANHO DE XP
+// Evento no livro-razão (xp_events); o total é somado no Postgres
 // ============================================================
-export type Badge = {
-  id: string;
-  emoji: string;
-  name: string;
-  description: string;
-  condition: (stats: GamificationStats) => boolean;
-  message: string; // mensagem enviada quando conquistar
-};
-
-export type GamificationStats = {
-  streak: number;
-  xpTotal: number;
-  level: number;
-  checkinCount: number;
-  weightLost: number;
-  referrals: number;
-  challengesCompleted: number;
+export type AwardXpResult = {
+  applied: boolean; // false: idempotencyKey já usada, nada foi somado
+  newXp: number;
+  newLevel: number;
+  newLevelName: string;
+  levelUp: boolean;
+  freezesEarned: number;
 };
 
-export const BADGES: Badge[] = [
-  {
-    id: 'first_step',
-    emoji: '🌱',
-    name: 'Primeiro Passo',
-    description: 'Completou a primeira semana',
-    condition: (s) => s.streak >= 7,
-    message: '🌱 *Badge conquistado: PRIMEIRO PASSO!*\n\n7 dias de consistência! Você começou sua transformação. O mais difícil já passou.',
-  },
-  {
-    id: 'energy_warrior',
-    emoji: '💪',
-    name: 'Guerreira da Energia',
-    description: 'Streak de 10 dias',
-    condition: (s) => s.streak >= 10,
-    message: '💪 *Badge conquistado: GUERREIRA DA ENERGIA!*\n\n10 dias sem falhar! Seu corpo já está sentindo a diferença — e você também.',
-  },
-  {
-    id: 'transformation_mode',
-    emoji: '🔥',
-    name: 'Modo Transformação',
-    description: 'Perdeu os primeiros 2kg',
-    condition: (s) => s.weightLost >= 2,
-    message: '🔥 *Badge conquistado: MODO TRANSFORMAÇÃO!*\n\nPrimeiros 2kg a menos! Isso é real, é seu, e ninguém pode tirar. Continue!',
-  },
-  {
-    id: 'living_example',
-    emoji: '⭐',
-    name: 'Exemplo Vivo',
-    description: 'Compartilhou resultado com alguém',
-    condition: (s) => s.referrals >= 1,
-    message: '⭐ *Badge conquistado: EXEMPLO VIVO!*\n\nVocê inspirou alguém hoje. Isso é mais poderoso do que qualquer produto.',
-  },
-  {
-    id: 'invincible_30',
-    emoji: '🏆',
-    name: '30 Dias Invicto',
-    description: 'Streak de 30 dias completos',
-    condition: (s) => s.streak >= 30,
-    message: '🏆 *Badge conquistado: 30 DIAS INVICTO!*\n\nVocê fez o que 99% das pessoas não conseguem: 30 dias de consistência absoluta. Você é incrível.',
-  },
-  {
-    id: 'health_ambassador',
-    emoji: '👑',
-    name: 'Embaixadora da Saúde',
-    description: 'Indicou 3 amigos',
-    condition: (s) => s.referrals >= 3,
-    message: '👑 *Badge conquistado: EMBAIXADORA DA SAÚDE!*\n\nVocê transformou sua vida e está transformando a vida de outras pessoas. Isso é liderança.',
-  },
-  {
-    id: 'level_5',
-    emoji: '🌟',
-    name: 'Nível Transformador',
-    description: 'Atingiu nível 5',
-    condition: (s) => s.level >= 5,
-    message: '🌟 *Badge conquistado: NÍVEL TRANSFORMADOR!*\n\nNível 5 alcançado! Você está no topo da nossa comunidade.',
-  },
-];
-
-// ============================================================
-// TABELA DE NÍVEIS (XP necessário)
-// ============================================================
-const LEVEL_XP_THRESHOLDS = [
-  0,    // Nível 1
-  100,  // Nível 2 — Comprometida
-  300,  // Nível 3 — Guerreira
-  700,  // Nível 4 — Transformadora
-  1500, // Nível 5 — Embaixadora
-  3000, // Nível 6 — Campeã
-];
-
-export const LEVEL_NAMES = [
-  '',
-  'Iniciante',
-  'Comprometida',
-  'Guerreira',
-  'Transformadora',
-  'Embaixadora',
-  'Campeã',
-];
-
-export function calculateLevel(xpTotal: number): number {
-  let level = 1;
-  for (let i = LEVEL_XP_THRESHOLDS.length - 1; i >= 0; i--) {
-    if (xpTotal >= LEVEL_XP_THRESHOLDS[i]) {
-      level = i + 1;
-      break;
-    }
-  }
-  return Math.min(level, LEVEL_NAMES.length - 1);
-}
-
-export function xpToNextLevel(xpTotal: number): number {
-  const level = calculateLevel(xpTotal);
-  const nextThreshold = LEVEL_XP_THRESHOLDS[level] ?? Infinity;
-  return Math.max(0, nextThreshold - xpTotal);
-}
-
-// ============================================================
-// PROCESSAR GANHO DE XP
-// ============================================================
 export async function awardXP(
   projectId: string,
   action: keyof typeof XP_REWARDS,
-  extraXp: number = 0
-): Promise<{ newXp: number; newLevel: number; levelUp: boolean }> {
+  extraXp: number = 0,
+  options: { source?: XpSource; idempotencyKey?: string } = {}
+): Promise<AwardXpResult> {
   const xpGained = XP_REWARDS[action] + extraXp;
 
-  // Buscar gamificação atual
-  const { data: gam } = await db.client
-    .from('client_gamification')
-    .select('xp_total, level')
-    .eq('project_id', projectId)
-    .single();
-
-  const current = gam as { xp_total: number; level: number } | null;
-  if (!current) throw new Error(`Gamificação não encontrada para projeto ${projectId}`);
+  const { applied, xpBefore, xpAfter } = await recordXpEvent({
+    projectId,
+    action,
+    amount: xpGained,
+    source: options.source ?? 'system',
+    idempotencyKey: options.idempotencyKey,
+  });
 
-  const newXp = current.xp_total + xpGained;
-  const newLevel = calculateLevel(newXp);
-  const levelUp = newLevel > current.level;
+  // Curva de níveis do consultor (ou a padrão)
+  const curve = await getProjectLevelCurve(projectId);
+  const newLevel = calculateLevel(xpAfter, curve);
+  const result: AwardXpResult = {
+    applied,
+    newXp: xpAfter,
+    newLevel,
+    newLevelName: levelName(newLevel, curve),
+    levelUp: false,
+    freezesEarned: 0,
+  };
+  if (!applied) return result;
 
-  await db.client
+  // Só sobe (nunca desce aqui); com chamadas simultâneas, só uma vê o level up
+  const { data: raised } = await db.client
     .from('client_gamification')
-    .update({ xp_total: newXp, level: newLevel })
-    .eq('project_id', projectId);
+    .update({ level: newLevel })
+    .eq('project_id', projectId)
+    .lt('level', newLevel)
+    .select('project_id')
+    .maybeSingle();
+  result.levelUp = !!raised;
+
+  // Proteção de streak a cada config.streak.freezeXpStep de XP
+  const earned = freezesEarnedByXp(xpBefore, xpAfter);
+  if (earned > 0) {
+    ({ granted: result.freezesEarned } = await grantStreakFreezes(projectId, earned, { kind: 'earned' }));
+  }
 
-  logger.info(`XP awardado: +${xpGained} (${action}) → total ${newXp} | Level ${newLevel}`);
-  return { newXp, newLevel, levelUp };
+  logger.info(`XP awardado: +${xpGained} (${action}) → total ${xpAfter} | Level ${newLevel}`);
+  return result;
 }
 
 // ============================================================
 // PROCESSAR CHECK-IN E ATUALIZAR STREAK
+// Itens, XP e mensagem vêm do template de check-in do projeto
 // ============================================================
-export type CheckinData = {
-  shakeAm: boolean;
-  shakePm: boolean;
-  hydrationOk: boolean;
-  supplementOk: boolean;
-  weightKg?: number;
-  mood?: number;
-};
-
 export type CheckinResult = {
   xpEarned: number;
   newStreak: number;
@@ -202,97 +125,126 @@ export type CheckinResult = {
   badgesUnlocked: Badge[];
   levelUp: boolean;
   newLevel: number;
+  checkinDate: string;   // dia local creditado (ontem, com a janela de tolerância)
+  graceUsed: boolean;
+  freezesUsed: number;   // proteções de streak consumidas pelos dias perdidos
+  freezesEarned: number;
   message: string;
 };
 
 export async function processCheckin(
   projectId: string,
-  data: CheckinData
+  data: CheckinData,
+  template?: CheckinTemplate,
+  source: XpSource = 'whatsapp'
 ): Promise<CheckinResult> {
-  // Verificar se já fez check-in hoje
-  const today = new Date().toISOString().split('T')[0];
+  // Dia do check-in no fuso do projeto (antes da hora de tolerância pode contar para ontem)
+  const timeZone = await getProjectTimeZone(projectId);
+  const streakState = await loadStreakState(projectId);
+  const { checkinDate, graceUsed } = resolveCheckinDate(streakState, timeZone);
+
+  // Verificar se já fez check-in nesse dia
   const { data: existing } = await db.client
     .from('daily_checkins')
     .select('id')
     .eq('project_id', projectId)
-    .eq('checkin_date', today)
+    .eq('checkin_date', checkinDate)
     .single();
 
+  const alreadyDone: CheckinResult = {
+    xpEarned: 0,
+    newStreak: 0,
+    streakBonus: false,
+    badgesUnlocked: [],
+    levelUp: false,
+    newLevel: 1,
+    checkinDate,
+    graceUsed: false,
+    freezesUsed: 0,
+    freezesEarned: 0,
+    message: 'Você já fez seu check-in hoje! Volte amanhã 😊',
+  };
+
   if (existing) {
     logger.info(`Check-in já realizado hoje para projeto ${projectId}`);
-    return {
-      xpEarned: 0,
-      newStreak: 0,
-      streakBonus: false,
-      badgesUnlocked: [],
-      levelUp: false,
-      newLevel: 1,
-      message: 'Você já fez seu check-in hoje! Volte amanhã 😊',
-    };
+    return alreadyDone;
   }
 
+  const checkinTemplate = template ?? await getProjectCheckinTemplate(projectId);
+  const weightKg = typeof data[WEIGHT_ITEM_KEY] === 'number' ? data[WEIGHT_ITEM_KEY] : null;
+  const mood = typeof data[MOOD_ITEM_KEY] === 'number' ? data[MOOD_ITEM_KEY] : null;
+
   // Calcular XP ganho
-  let xpEarned = XP_REWARDS.CHECKIN_DAILY;
-  if (data.shakeAm)       xpEarned += XP_REWARDS.SHAKE_AM;
-  if (data.shakePm)       xpEarned += XP_REWARDS.SHAKE_PM;
-  if (data.hydrationOk)   xpEarned += XP_REWARDS.HYDRATION;
-  if (data.supplementOk)  xpEarned += XP_REWARDS.SUPPLEMENT;
-  if (data.weightKg)      xpEarned += XP_REWARDS.WEIGHT_LOGGED;
-
-  // Salvar check-in
-  await db.client.from('daily_checkins').insert({
+  const itemsXp = computeItemsXp(checkinTemplate, data);
+  let xpEarned = XP_REWARDS.CHECKIN_DAILY + itemsXp;
+
+  // Salvar check-in (respostas por chave do template).
+  // unique(project_id, checkin_date): se outro canal registrou o dia primeiro, para aqui
+  const { error: insertError } = await db.client.from('daily_checkins').insert({
     project_id: projectId,
-    checkin_date: today,
-    shake_am: data.shakeAm,
-    shake_pm: data.shakePm,
-    hydration_ok: data.hydrationOk,
-    supplement_ok: data.supplementOk,
-    weight_kg: data.weightKg ?? null,
-    mood: data.mood ?? null,
+    checkin_date: checkinDate,
+    template_id: checkinTemplate.id,
+    answers: data,
+    weight_kg: weightKg,
+    mood,
     xp_earned: xpEarned,
+    grace_used: graceUsed,
   });
 
+  if (insertError?.code === '23505') {
+    logger.info(`Check-in simultâneo ignorado para projeto ${projectId} (${checkinDate})`);
+    return alreadyDone;
+  }
+  if (insertError) throw new Error(`Erro ao salvar check-in: ${insertError.message}`);
+
+  // Calcular novo streak (usa proteções pelos dias perdidos, se houver)
+  const streak = await advanceStreak(projectId, streakState, checkinDate, timeZone);
+  const newStreak = streak.newStreak;
+
+  if (streak.freezesUsed > 0) {
+    await db.client
+      .from('daily_checkins')
+      .update({ freezes_used: streak.freezesUsed })
+      .eq('project_id', projectId)
+      .eq('checkin_date', checkinDate);
+  }
+
   // Atualizar peso se informado
-  if (data.weightKg) {
+  if (weightKg) {
     await db.client
       .from('client_projects')
-      .update({ current_weight_kg: data.weightKg })
+      .update({ current_weight_kg: weightKg })
       .eq('id', projectId);
+
+    // Perda acelerada demais → alerta de segurança para o consultor
+    await checkRapidWeightLoss(projectId).catch(error =>
+      logger.error(`Erro ao verificar ritmo de perda (projeto ${projectId})`, error)
+    );
   }
 
-  // Calcular novo streak
-  const newStreak = await updateStreak(projectId);
+  // XP do check-in (um por dia, mesmo se repetido)
+  const checkinXp = await awardXP(projectId, 'CHECKIN_DAILY', itemsXp, {
+    source,
+    idempotencyKey: `checkin:${checkinDate}`,
+  });
 
-  // Verificar bônus de streak
-  let streakBonus = false;
-  const bonusXp = getStreakBonusXp(newStreak);
-  if (bonusXp > 0) {
-    xpEarned += bonusXp;
-    streakBonus = true;
-  }
+  // Verificar bônus de streak (evento separado no livro-razão)
+  const bonusAction = getStreakBonusAction(newStreak);
+  const bonusXp = bonusAction
+    ? await awardXP(projectId, bonusAction, 0, { source, idempotencyKey: `streak_bonus:${checkinDate}` })
+    : null;
+  const streakBonus = !!bonusXp?.applied;
+  if (bonusAction && streakBonus) xpEarned += XP_REWARDS[bonusAction];
 
-  // Processar XP total
-  const { newLevel, levelUp } = await awardXP(projectId, 'CHECKIN_DAILY', xpEarned - XP_REWARDS.CHECKIN_DAILY);
+  const { newLevel, newLevelName } = bonusXp ?? checkinXp;
+  const levelUp = checkinXp.levelUp || !!bonusXp?.levelUp;
+  const freezesEarned = checkinXp.freezesEarned + (bonusXp?.freezesEarned ?? 0);
 
   // Verificar badges desbloqueados
-  const badgesUnlocked = await checkAndAwardBadges(projectId, newStreak, newLevel);
+  const badgesUnlocked = await evaluateBadges(projectId, { streak: newStreak, level: newLevel });
 
-  // Increment manual dos contadores de check-in
-  const { data: gamCounts } = await db.client
-    .from('client_gamification')
-    .select('checkin_count_total, checkin_count_30d')
-    .eq('project_id', projectId)
-    .single();
-
-  const counts = gamCounts as { checkin_count_total: number; checkin_count_30d: number } | null;
-  await db.client
-    .from('client_gamification')
-    .update({
-      checkin_count_total: (counts?.checkin_count_total ?? 0) + 1,
-      checkin_count_30d: (counts?.checkin_count_30d ?? 0) + 1,
-      last_checkin_at: new Date().toISOString(),
-    })
-    .eq('project_id', projectId);
+  // Contadores de check-in (incremento atômico no Postgres)
+  await db.client.rpc('increment_checkin_counters', { p_project_id: projectId });
 
   const message = buildCheckinResponseMessage({
     xpEarned,
@@ -300,123 +252,49 @@ export async function processCheckin(
     streakBonus,
     levelUp,
     newLevel,
+    newLevelName,
     badgesUnlocked,
     data,
+    template: checkinTemplate,
+    graceUsed,
+    freezesUsed: streak.freezesUsed,
+    freezesEarned,
   });
 
-  logger.info(`Check-in processado: projeto ${projectId}, streak ${newStreak}, XP +${xpEarned}`);
-
-  return { xpEarned, newStreak, streakBonus, badgesUnlocked, levelUp, newLevel, message };
-}
-
-// ============================================================
-// ATUALIZAR STREAK
-// ============================================================
-async function updateStreak(projectId: string): Promise<number> {
-  const { data: gam } = await db.client
-    .from('client_gamification')
-    .select('current_streak, max_streak, last_checkin_at')
-    .eq('project_id', projectId)
-    .single();
-
-  const g = gam as { current_streak: number; max_streak: number; last_checkin_at: string | null } | null;
-  if (!g) return 1;
-
-  const yesterday = new Date();
-  yesterday.setDate(yesterday.getDate() - 1);
-  const yesterdayStr = yesterday.toISOString().split('T')[0];
-
-  const lastCheckin = g.last_checkin_at?.split('T')[0];
-  const isConsecutive = lastCheckin === yesterdayStr;
-
-  const newStreak = isConsecutive ? g.current_streak + 1 : 1;
-  const newMax = Math.max(g.max_streak, newStreak);
-
-  await db.client
-    .from('client_gamification')
-    .update({ current_streak: newStreak, max_streak: newMax })
-    .eq('project_id', projectId);
+  logger.info(`Check-in processado: projeto ${projectId} (${checkinDate}), streak ${newStreak}, XP +${xpEarned}`);
 
-  return newStreak;
+  return {
+    xpEarned,
+    newStreak,
+    streakBonus,
+    badgesUnlocked,
+    levelUp,
+    newLevel,
+    checkinDate,
+    graceUsed,
+    freezesUsed: streak.freezesUsed,
+    freezesEarned,
+    message,
+  };
 }
 
 // ============================================================
 // BÔNUS DE XP POR STREAK
 // ============================================================
-function getStreakBonusXp(streak: number): number {
-  if (streak === 7)  return XP_REWARDS.STREAK_7;
-  if (streak === 14) return XP_REWARDS.STREAK_14;
-  if (streak === 21) return XP_REWARDS.STREAK_21;
-  if (streak === 30) return XP_REWARDS.STREAK_30;
-  return 0;
+function getStreakBonusAction(streak: number): 'STREAK_7' | 'STREAK_14' | 'STREAK_21' | 'STREAK_30' | null {
+  if (streak === 7)  return 'STREAK_7';
+  if (streak === 14) return 'STREAK_14';
+  if (streak === 21) return 'STREAK_21';
+  if (streak === 30) return 'STREAK_30';
+  return null;
 }
 
 // ============================================================
-// VERIFICAR E CONCEDER BADGES
+// BADGES (definições e conquistas em ./badges.ts)
 // ============================================================
-async function checkAndAwardBadges(
-  projectId: string,
-  currentStreak: number,
-  currentLevel: number
-): Promise<Badge[]> {
-  // Buscar gamificação atual + dados do projeto
-  const { data: gam } = await db.client
-    .from('client_gamification')
-    .select('badges, xp_total')
-    .eq('project_id', projectId)
-    .single();
-
-  const { data: proj } = await db.client
-    .from('client_projects')
-    .select('start_weight_kg, current_weight_kg')
-    .eq('id', projectId)
-    .single();
-
-  const g = gam as { badges: string[]; xp_total: number } | null;
-  const p = proj as { start_weight_kg: number | null; current_weight_kg: number | null } | null;
-
-  if (!g) return [];
-
-  // Buscar contagem real de check-ins
-  const { count: checkinCount } = await db.client
-    .from('daily_checkins')
-    .select('id', { count: 'exact', head: true })
-    .eq('project_id', projectId);
-
-  const earnedBadgeIds = new Set(g.badges);
-  const weightLost = (p?.start_weight_kg && p?.current_weight_kg)
-    ? p.start_weight_kg - p.current_weight_kg
-    : 0;
-
-  const stats: GamificationStats = {
-    streak: currentStreak,
-    xpTotal: g.xp_total,
-    level: currentLevel,
-    checkinCount: checkinCount ?? 0,
-    weightLost,
-    referrals: 0,    // expandir: buscar de tabela referrals quando existir
-    challengesCompleted: 0,
-  };
-
-  const newBadges: Badge[] = [];
-
-  for (const badge of BADGES) {
-    if (!earnedBadgeIds.has(badge.id) && badge.condition(stats)) {
-      newBadges.push(badge);
-      earnedBadgeIds.add(badge.id);
-    }
-  }
-
-  if (newBadges.length > 0) {
-    await db.client
-      .from('client_gamification')
-      .update({ badges: Array.from(earnedBadgeIds) })
-      .eq('project_id', projectId);
-
-    logger.info(`${newBadges.length} badge(s) desbloqueado(s): ${newBadges.map(b => b.id).join(', ')}`);
-  }
-
-  return newBadges;
+// Reavalia badges fora do check-in (ex: indicação convertida)
+export async function refreshBadges(projectId: string): Promise<Badge[]> {
+  return evaluateBadges(projectId);
 }
 
 // ============================================================
@@ -428,20 +306,29 @@ function buildCheckinResponseMessage(params: {
   streakBonus: boolean;
   levelUp: boolean;
   newLevel: number;
+  newLevelName: string;
   badgesUnlocked: Badge[];
   data: CheckinData;
+  template: CheckinTemplate;
+  graceUsed: boolean;
+  freezesUsed: number;
+  freezesEarned: number;
 }): string {
-  const { xpEarned, newStreak, streakBonus, levelUp, newLevel, badgesUnlocked, data } = params;
+  const { xpEarned, newStreak, streakBonus, levelUp, newLevel, newLevelName, badgesUnlocked, data, template } = params;
 
   const lines: string[] = [];
 
-  // Confirmação dos itens do check-in
-  lines.push(`✅ *Check-in do dia registrado!*`, ``);
-  lines.push(`${data.shakeAm ? '✅' : '❌'} Shake manhã`);
-  lines.push(`${data.shakePm ? '✅' : '❌'} Shake noite`);
-  lines.push(`${data.hydrationOk ? '✅' : '❌'} 2L de água`);
-  lines.push(`${data.supplementOk ? '✅' : '❌'} Suplemento`);
-  if (data.weightKg) lines.push(`⚖️ Peso: ${data.weightKg}kg registrado`);
+  // Confirmação dos itens do check-in (na ordem do template)
+  lines.push(params.graceUsed ? `✅ *Check-in de ontem registrado!* (ainda dava tempo ⏰)` : `✅ *Check-in do dia registrado!*`, ``);
+  for (const item of template.items) {
+    const value = data[item.key];
+    if (item.type === 'boolean') {
+      lines.push(`${value === true ? '✅' : '❌'} ${item.label}`);
+    } else if (typeof value === 'number') {
+      const shown = item.type === 'scale' ? `${value}/${item.max ?? 5}` : `${value}${item.unit ?? ''}`;
+      lines.push(`${item.emoji ?? '📝'} ${item.label}: ${shown}`);
+    }
+  }
   lines.push(``);
 
   // XP e streak
@@ -450,13 +337,23 @@ function buildCheckinResponseMessage(params: {
   const streakEmoji = newStreak >= 21 ? '🔥🔥🔥' : newStreak >= 14 ? '🔥🔥' : newStreak >= 7 ? '🔥' : '⭐';
   lines.push(`${streakEmoji} *Streak: ${newStreak} dias consecutivos*`);
 
+  if (params.freezesUsed > 0) {
+    lines.push(params.freezesUsed === 1
+      ? `🧊 Usei 1 proteção de streak pelo dia que você perdeu — sua sequência continua!`
+      : `🧊 Usei ${params.freezesUsed} proteções de streak pelos dias que você perdeu — sua sequência continua!`);
+  }
+
+  if (params.freezesEarned > 0) {
+    lines.push(`🧊 Você ganhou ${params.freezesEarned === 1 ? '1 proteção' : `${params.freezesEarned} proteções`} de streak pelo seu XP!`);
+  }
+
   if (streakBonus) {
     lines.push(`🎉 *BÔNUS DE STREAK!* Dias seguidos valem mais XP!`);
   }
 
   // Level up
   if (levelUp) {
-    lines.push(``, `🆙 *NÍVEL UP! Você chegou ao nível ${newLevel}: ${LEVEL_NAMES[newLevel]}!*`);
+    lines.push(``, `🆙 *NÍVEL UP! Você chegou ao nível ${newLevel}: ${newLevelName}!*`);
   }
 
   // Badges
@@ -472,7 +369,9 @@ function buildCheckinResponseMessage(params: {
     'Você está construindo a melhor versão de si mesma. 🌿',
     'A consistência é a chave — e você tem ela! 🔑',
   ];
-  lines.push(motivations[newStreak % motivations.length]);
+  lines.push(params.graceUsed
+    ? 'Agora não esquece o check-in de hoje! 💪'
+    : motivations[newStreak % motivations.length]);
 
   return lines.join('\n');
 }
@@ -483,17 +382,20 @@ function buildCheckinResponseMessage(params: {
 export async function generateProjectReportJSON(projectId: string) {
   const { data: project } = await db.client
     .from('client_projects')
-    .select('*, client_gamification(*)')
+    .select('*, client_gamification(*), consultants(timezone, level_curve)')
     .eq('id', projectId)
     .single();
 
-  const proj = project as (ClientProject & { client_gamification: ClientGamification[] }) | null;
+  const proj = project as (ClientProject & {
+    client_gamification: ClientGamification[];
+    consultants: { timezone: string | null; level_curve: unknown } | null;
+  }) | null;
   if (!proj) return null;
 
   const gam = proj.client_gamification?.[0];
-  const daysActive = Math.floor(
-    (Date.now() - new Date(proj.start_date ?? proj.created_at).getTime()) / (24 * 60 * 60 * 1000)
-  );
+  const timeZone = resolveTimeZone(proj.timezone, proj.consultants?.timezone);
+  const daysActive = daysSince(proj.start_date ?? proj.created_at, timeZone);
+  const levelProgress = getLevelProgress(gam?.xp_total ?? 0, parseLevelCurve(proj.consultants?.level_curve));
 
   // Buscar lead name
   const { data: lead } = await db.client
@@ -522,16 +424,14 @@ export async function generateProjectReportJSON(projectId: string) {
     .order('checkin_date', { ascending: false })
     .limit(10);
 
-  // Montar badges com status locked/unlocked
-  const earnedIds = new Set(gam?.badges ?? []);
-  const badges = BADGES.map(b => ({
-    id: b.id,
-    emoji: b.emoji,
-    name: b.name,
-    locked: !earnedIds.has(b.id),
-    unlockedAt: earnedIds.has(b.id) ? (gam?.updated_at ?? null) : undefined,
-    requirement: !earnedIds.has(b.id) ? b.description : undefined,
-  }));
+  // Badges com status locked/unlocked (data real da conquista em badge_unlocks)
+  const badges = await listProjectBadges(projectId, proj.consultant_id);
+
+  // Adesão, peso e humor em 7 e 30 dias (de daily_checkins, não do cache)
+  const [rollingStats, weightProgress] = await Promise.all([
+    getProjectRollingStats(proj),
+    getWeightProgress(projectId),
+  ]);
 
   return {
     leadName: (lead as { full_name: string } | null)?.full_name ?? 'Cliente',
@@ -539,16 +439,24 @@ export async function generateProjectReportJSON(projectId: string) {
     goalDescription: proj.goal_description,
     daysActive,
     xpTotal: gam?.xp_total ?? 0,
-    level: gam?.level ?? 1,
-    levelName: LEVEL_NAMES[gam?.level ?? 1] ?? 'Iniciante',
+    level: levelProgress.level,
+    levelName: levelProgress.levelName,
+    nextLevelName: levelProgress.nextLevelName,
+    xpToNextLevel: levelProgress.xpToNextLevel,
+    levelProgressPct: levelProgress.progressPct,
     currentStreak: gam?.current_streak ?? 0,
     maxStreak: gam?.max_streak ?? 0,
+    streakFreezes: gam?.streak_freezes ?? 0,
     checkinCount: gam?.checkin_count_total ?? 0,
+    checkinCount30d: rollingStats.d30.checkins,
+    rollingStats,
     startWeight: proj.start_weight_kg,
     currentWeight: proj.current_weight_kg,
     targetWeight: proj.target_weight_kg,
     weightHistory,
+    weightProgress,
     recentCheckins: recentCheckins ?? [],
+    checkinTemplate: resolveCheckinTemplate(proj),
     badges,
   };
 }
@@ -559,17 +467,25 @@ export async function generateProjectReportJSON(projectId: string) {
 export async function generateProjectReport(projectId: string): Promise<string> {
   const { data: project } = await db.client
     .from('client_projects')
-    .select('*, client_gamification(*)')
+    .select('*, client_gamification(*), consultants(timezone, level_curve)')
     .eq('id', projectId)
     .single();
 
-  const proj = project as (ClientProject & { client_gamification: ClientGamification[] }) | null;
+  const proj = project as (ClientProject & {
+    client_gamification: ClientGamification[];
+    consultants: { timezone: string | null; level_curve: unknown } | null;
+  }) | null;
   if (!proj) return 'Projeto não encontrado.';
 
   const gam = proj.client_gamification?.[0];
-  const daysActive = Math.floor(
-    (Date.now() - new Date(proj.start_date).getTime()) / (24 * 60 * 60 * 1000)
-  );
+  const [badgeUnlocks, rollingStats, weightProgress] = await Promise.all([
+    getBadgeUnlocks(projectId),
+    getProjectRollingStats(proj),
+    getWeightProgress(projectId),
+  ]);
+  const levelProgress = getLevelProgress(gam?.xp_total ?? 0, parseLevelCurve(proj.consultants?.level_curve));
+  const timeZone = resolveTimeZone(proj.timezone, proj.consultants?.timezone);
+  const daysActive = daysSince(proj.start_date, timeZone);
   const weightLost = proj.start_weight_kg && proj.current_weight_kg
     ? (proj.start_weight_kg - proj.current_weight_kg).toFixed(1)
     : null;
@@ -581,13 +497,46 @@ export async function generateProjectReport(projectId: string): Promise<string>
     `🎯 Objetivo: ${proj.goal_description}`,
     `📅 Dias ativos: ${daysActive}`,
     weightLost ? `⚖️ Peso perdido: ${weightLost}kg` : '',
+    ...(weightProgress ? formatWeightProgress(weightProgress) : []),
     ``,
     `🎮 *Gamificação:*`,
     `   XP Total: ${gam?.xp_total ?? 0}`,
-    `   Nível: ${gam?.level ?? 1} — ${LEVEL_NAMES[gam?.level ?? 1]}`,
+    `   Nível: ${levelProgress.level} — ${levelProgress.levelName} (${levelProgress.progressPct}% do próximo)`,
     `   Streak atual: ${gam?.current_streak ?? 0} dias 🔥`,
     `   Maior streak: ${gam?.max_streak ?? 0} dias`,
     `   Check-ins: ${gam?.checkin_count_total ?? 0} no total`,
-    `   Badges: ${(gam?.badges ?? []).length} conquistados`,
+    `   Badges: ${badgeUnlocks.length} conquistados`,
+    ``,
+    `📈 *Últimos 7 dias:*`,
+    ...formatWindowStats(rollingStats.d7),
+    ``,
+    `📈 *Últimos 30 dias:*`,
+    ...formatWindowStats(rollingStats.d30),
   ].filter(Boolean).join('\n');
 }
+
+function formatWeightProgress(progress: WeightProgress): string[] {
+  const lines: string[] = [];
+  if (progress.currentTrend !== null) lines.push(`   Tendência: ${progress.currentTrend}kg`);
+  if (progress.weeklyRateKg !== null) lines.push(`   Ritmo: ${progress.weeklyRateKg}kg/semana`);
+  if (progress.goalReached) lines.push(`   🎯 Meta atingida!`);
+  if (progress.projectedGoalDate) {
+    const vsTarget = progress.daysAheadOfTarget === null ? ''
+      : progress.daysAheadOfTarget >= 0 ? ` (${progress.daysAheadOfTarget} dias antes do prazo)`
+      : ` (${-progress.daysAheadOfTarget} dias depois do prazo)`;
+    lines.push(`   Meta prevista: ${formatDateBR(progress.projectedGoalDate)}${vsTarget}`);
+  }
+  if (progress.plateau) lines.push(`   ⏸️ Platô: peso estável há 2 semanas`);
+  if (progress.rapidLoss) lines.push(`   ⚠️ Perda acelerada: ${progress.recentWeeklyRateKg}kg/semana`);
+  return lines;
+}
+
+function formatWindowStats(stats: WindowStats): string[] {
+  const lines = [`   Check-ins: ${stats.checkins}/${stats.days} dias (${stats.adherencePct}%)`];
+  for (const item of stats.items) lines.push(`   ${item.label}: ${item.pct}%`);
+  if (stats.weightChangeKg !== null) {
+    lines.push(`   Peso: ${stats.weightChangeKg > 0 ? '+' : ''}${stats.weightChangeKg}kg`);
+  }
+  if (stats.moodAvg !== null) lines.push(`   Humor médio: ${stats.moodAvg}/5`);
+  return lines;
+}
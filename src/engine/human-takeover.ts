@@ -0,0 +1,247 @@
+/**
+ * Modo Humano (takeover do consultor)
+ *
+ * Enquanto a conversa está com status 'human', o bot não responde:
+ * as mensagens do lead e do consultor só são registradas no histórico.
+ *
+ * Entra no modo humano:
+ * - handoff do motor SPIN
+ * - ação no dashboard
+ * - consultor responde pelo celular (fromMe que o bot não enviou)
+ *
+ * Volta para o bot:
+ * - comando "#bot" digitado pelo consultor na conversa
+ * - ação no dashboard
+ * - timeout sem mensagens do consultor (config.takeover.timeoutHours)
+ * Ao voltar, o bot recebe um resumo do que o consultor conversou.
+ */
+
+import { config } from '../config/index.js';
+import { createLogger } from '../lib/logger.js';
+import { db, type Conversation, type ConversationMessage } from '../database/client.js';
+import { completeText } from '../llm/provider.js';
+import { evictMemory } from './context-memory.js';
+
+const logger = createLogger('TAKEOVER');
+
+export type TakeoverReason = 'handoff' | 'dashboard' | 'consultant_message';
+export type ResumeReason = 'command' | 'timeout' | 'dashboard';
+
+type TakeoverRow = Pick<Conversation,
+  'id' | 'lead_id' | 'consultant_id' | 'messages' | 'context_data' | 'status' | 'human_takeover_at'>;
+
+const TAKEOVER_COLUMNS = 'id, lead_id, consultant_id, messages, context_data, status, human_takeover_at';
+
+// ============================================================
+// CONSULTAS
+// ============================================================
+export async function findHumanConversation(leadId: string): Promise<TakeoverRow | null> {
+  const { data } = await db.client
+    .from('conversations')
+    .select(TAKEOVER_COLUMNS)
+    .eq('lead_id', leadId)
+    .eq('status', 'human')
+    .order('started_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  return data as unknown as TakeoverRow | null;
+}
+
+export async function conversationBelongsTo(conversationId: string, consultantId: string): Promise<boolean> {
+  const { data } = await db.client
+    .from('conversations')
+    .select('id')
+    .eq('id', conversationId)
+    .eq('consultant_id', consultantId)
+    .maybeSingle();
+
+  return !!data;
+}
+
+// Conversa mais recente do lead que ainda pode ser assumida
+async function findOpenConversation(leadId: string): Promise<TakeoverRow | null> {
+  const { data } = await db.client
+    .from('conversations')
+    .select(TAKEOVER_COLUMNS)
+    .eq('lead_id', leadId)
+    .in('status', ['active', 'human'])
+    .order('started_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  return data as unknown as TakeoverRow | null;
+}
+
+// ============================================================
+// ENTRAR NO MODO HUMANO
+// ============================================================
+export async function startTakeover(conversationId: string, reason: TakeoverReason): Promise<void> {
+  const now = new Date().toISOString();
+
+  await db.client
+    .from('conversations')
+    .update({
+      status: 'human',
+      human_takeover_at: now,
+      human_takeover_reason: reason,
+      human_last_activity_at: now,
+    })
+    .eq('id', conversationId)
+    .neq('status', 'human');
+
+  // A memória do motor fica desatualizada enquanto o humano conduz
+  await evictMemory(conversationId);
+  logger.info(`Conversa ${conversationId} em modo humano (${reason})`);
+}
+
+// ============================================================
+// REGISTRAR MENSAGEM DURANTE O MODO HUMANO
+// ============================================================
+export async function appendHumanModeMessage(
+  conversation: TakeoverRow,
+  role: ConversationMessage['role'],
+  content: string
+): Promise<void> {
+  const message: ConversationMessage = {
+    role,
+    content,
+    timestamp: new Date().toISOString(),
+    ...(role === 'assistant' ? { author: 'human' as const } : {}),
+  };
+  conversation.messages = [...(conversation.messages ?? []), message];
+
+  await db.client
+    .from('conversations')
+    .update({
+      messages: conversation.messages,
+      ...(role === 'assistant' ? { human_last_activity_at: message.timestamp } : {}),
+    })
+    .eq('id', conversation.id);
+}
+
+// ============================================================
+// MENSAGEM DO CONSULTOR (fromMe não enviada pelo bot)
+// Retorna 'resumed' quando era o comando de retomada
+// ============================================================
+export async function handleConsultantMessage(
+  leadId: string,
+  text: string
+): Promise<'takeover' | 'resumed' | 'ignored'> {
+  const conversation = await findOpenConversation(leadId);
+  if (!conversation) return 'ignored';
+
+  if (config.takeover.resumeCommand.test(text.trim())) {
+    if (conversation.status !== 'human') return 'ignored';
+    await resumeBot(conversation.id, 'command');
+    return 'resumed';
+  }
+
+  if (conversation.status !== 'human') {
+    await startTakeover(conversation.id, 'consultant_message');
+    conversation.status = 'human';
+    conversation.human_takeover_at = new Date().toISOString();
+  }
+  await appendHumanModeMessage(conversation, 'assistant', text);
+  return 'takeover';
+}
+
+// ============================================================
+// RESUMO DO QUE O CONSULTOR CONVERSOU
+// ============================================================
+const HANDBACK_PROMPT = `
+Um consultor humano assumiu uma conversa de WhatsApp com um lead e agora devolve para o assistente.
+Resuma em até 5 linhas curtas, em português: o que o consultor disse, ofereceu ou combinou
+(datas, pedidos, próximos passos) e como o lead reagiu. Não invente nada.
+Responda APENAS com o texto do resumo.
+`.trim();
+
+function summarizeHandbackOffline(messages: ConversationMessage[]): string {
+  return messages
+    .filter(m => m.author === 'human')
+    .slice(-5)
+    .map(m => `- Consultor: ${m.content.length > 160 ? `${m.content.slice(0, 157)}...` : m.content}`)
+    .join('\n');
+}
+
+async function summarizeHandback(messages: ConversationMessage[]): Promise<string> {
+  if (!messages.some(m => m.author === 'human')) return '';
+  if (!config.history.useLlm) return summarizeHandbackOffline(messages);
+
+  try {
+    const transcript = messages
+      .map(m => `${m.role === 'user' ? 'Lead' : m.author === 'human' ? 'Consultor' : 'Assistente'}: ${m.content}`)
+      .join('\n');
+    const response = await completeText({
+      purpose: 'summary',
+      maxTokens: 300,
+      retries: 1,
+      system: HANDBACK_PROMPT,
+      messages: [{ role: 'user', content: transcript }],
+    });
+    return response.text;
+  } catch (error) {
+    logger.warn('Resumo do modo humano via LLM falhou — usando resumo simples', error);
+    return summarizeHandbackOffline(messages);
+  }
+}
+
+// ============================================================
+// DEVOLVER A CONVERSA PARA O BOT
+// ============================================================
+export async function resumeBot(conversationId: string, reason: ResumeReason): Promise<string | null> {
+  const { data } = await db.client
+    .from('conversations')
+    .select(TAKEOVER_COLUMNS)
+    .eq('id', conversationId)
+    .eq('status', 'human')
+    .maybeSingle();
+
+  const conversation = data as unknown as TakeoverRow | null;
+  if (!conversation) return null;
+
+  const since = new Date(conversation.human_takeover_at ?? 0).getTime();
+  const humanModeMessages = (conversation.messages ?? []).filter(m => new Date(m.timestamp).getTime() >= since);
+  const summary = await summarizeHandback(humanModeMessages);
+
+  await db.client
+    .from('conversations')
+    .update({
+      status: 'active',
+      human_takeover_at: null,
+      human_takeover_reason: null,
+      context_data: {
+        ...conversation.context_data,
+        ...(summary ? { human_takeover_summary: summary } : {}),
+      },
+    })
+    .eq('id', conversationId);
+
+  await evictMemory(conversationId);
+  logger.info(`Bot reassumiu a conversa ${conversationId} (${reason})`);
+  return summary;
+}
+
+// ============================================================
+// TIMEOUT: consultor sumiu, o bot volta
+// Chamado pelo scheduler
+// ============================================================
+export async function resumeIdleTakeovers(): Promise<number> {
+  const cutoff = new Date(Date.now() - config.takeover.timeoutHours * 60 * 60 * 1000).toISOString();
+
+  const { data } = await db.client
+    .from('conversations')
+    .select('id')
+    .eq('status', 'human')
+    .lt('human_last_activity_at', cutoff);
+
+  let resumed = 0;
+  for (const row of (data ?? []) as Array<{ id: string }>) {
+    if (await resumeBot(row.id, 'timeout') !== null) resumed++;
+  }
+
+  if (resumed > 0) {
+    logger.info(`${resumed} conversa(s) devolvida(s) ao bot por inatividade do consultor`);
+  }
+  return resumed;
+}
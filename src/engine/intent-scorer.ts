@@ -218,7 +218,11 @@ export type ConversationSignal =
   | 'accepted_commitment'     // aceitou o micro compromisso
   | 'went_cold'               // ficou frio/sem resposta
   | 'rejected'                // rejeitou explicitamente
-  | 'asked_about_business';   // perguntou sobre o negócio
+  | 'asked_about_business'    // perguntou sobre o negócio
+  | 'asked_about_product'     // perguntou sobre os produtos / resultado pessoal
+  | 'objection_price'         // achou caro / sem dinheiro
+  | 'objection_time'          // disse que não tem tempo
+  | 'objection_skeptical';    // duvida que funcione
 
 const SIGNAL_WEIGHTS: Record<ConversationSignal, number> = {
   responded_positively: 10,
@@ -230,6 +234,10 @@ const SIGNAL_WEIGHTS: Record<ConversationSignal, number> = {
   went_cold: -10,
   rejected: -40,
   asked_about_business: 20,
+  asked_about_product: 15,
+  objection_price: -5,
+  objection_time: -5,
+  objection_skeptical: -10,
 };
 
 export function calculateHandoffScore(
@@ -256,20 +264,48 @@ export function detectConversationSignals(message: string): ConversationSignal[]
   const interestTerms = ['tenho interesse', 'gostei', 'quero saber mais', 'me conta mais', 'me explica', 'me manda', 'quero'];
   const painTerms = ['sofro', 'sofro com', 'me incomoda', 'me frustra', 'não consigo', 'tenho dificuldade', 'problema'];
   const businessTerms = ['negócio', 'ganhar dinheiro com', 'como funciona o negócio', 'como vender', 'ser consultor', 'ser consultora'];
+  const productTerms = ['shake', 'produto', 'pra eu tomar', 'quero usar', 'pra mim usar', 'emagrecer', 'perder peso', 'kit'];
   const positiveTerms = ['sim', 'claro', 'com certeza', 'ótimo', 'pode ser', 'tá bom', 'tudo bem', 'ok'];
   const coldTerms = ['não tenho interesse', 'não quero', 'deixa pra lá', 'não preciso', 'chega'];
+  const priceObjectionTerms = [/\bcaro\b/, /\b(muito|bem|meio) cara\b/, /sem (dinheiro|grana)/, /não tenho (dinheiro|grana|condições)/, /não posso pagar/, /fora do (meu )?orçamento/, /(tá|está|ta) apertado/];
+  const timeObjectionTerms = ['não tenho tempo', 'sem tempo', 'não dá tempo', 'não sobra tempo', 'correria', 'muito corrid', 'vida corrida', 'rotina corrida'];
+  const skepticalTerms = ['não acredito', 'duvido', 'será que funciona', 'funciona mesmo', 'isso funciona', 'não confio', 'golpe', 'pirâmide', 'piramide', 'já tentei de tudo', 'já tentei tudo', 'nada funciona'];
 
   if (priceTerms.some(term => text.includes(term))) signals.push('asked_about_price');
   if (startTerms.some(term => text.includes(term))) signals.push('asked_how_to_start');
   if (interestTerms.some(term => text.includes(term))) signals.push('expressed_interest');
   if (painTerms.some(term => text.includes(term))) signals.push('shared_pain');
   if (businessTerms.some(term => text.includes(term))) signals.push('asked_about_business');
+  if (productTerms.some(term => text.includes(term))) signals.push('asked_about_product');
   if (positiveTerms.some(term => text.includes(term))) signals.push('responded_positively');
   if (coldTerms.some(term => text.includes(term))) signals.push('rejected');
+  if (priceObjectionTerms.some(term => term.test(text))) signals.push('objection_price');
+  if (timeObjectionTerms.some(term => text.includes(term))) signals.push('objection_time');
+  if (skepticalTerms.some(term => text.includes(term))) signals.push('objection_skeptical');
 
   return signals;
 }
 
+// ============================================================
+// CLASSIFICAR OBJEÇÃO (decide qual resposta especial usar)
+// ============================================================
+export type ObjectionType = 'price' | 'time' | 'skeptical';
+
+// Etapas em que ainda não há valor criado — pergunta de preço vira objeção
+const EARLY_STAGES = ['ice_break', 'situation', 'problem', 'biz_ice_break', 'biz_qualification'];
+
+export function classifyObjection(
+  signals: ConversationSignal[],
+  spinStage: string
+): ObjectionType | null {
+  // Ordem de prioridade: ceticismo trava mais a conversa que tempo ou preço
+  if (signals.includes('objection_skeptical')) return 'skeptical';
+  if (signals.includes('objection_price')) return 'price';
+  if (signals.includes('objection_time')) return 'time';
+  if (signals.includes('asked_about_price') && EARLY_STAGES.includes(spinStage)) return 'price';
+  return null;
+}
+
 // Utilitário interno
 function normalize(text: string): string {
   return text.toLowerCase()
@@ -0,0 +1,201 @@
+/**
+ * Progressão de Níveis
+ *
+ * Fonte única de nível para o motor de gamificação, o app do cliente e o
+ * dashboard do consultor. Cada consultor pode ter sua própria curva
+ * (consultants.level_curve); sem curva, vale DEFAULT_LEVEL_CURVE.
+ *
+ * Ao trocar a curva, recomputeLevels() recalcula client_gamification.level
+ * de todos os projetos e avisa no WhatsApp só quem realmente subiu.
+ */
+
+import { z } from 'zod';
+import { createLogger } from '../lib/logger.js';
+import { db } from '../database/client.js';
+import { enqueueText } from '../safety/outbound-queue.js';
+
+const logger = createLogger('LEVELS');
+
+// ============================================================
+// CURVA DE NÍVEIS
+// thresholds[i] = XP mínimo do nível i+1; names[i] = nome do nível i+1
+// ============================================================
+export const LevelCurveSchema = z.object({
+  thresholds: z.array(z.number().int().min(0)).min(2).max(30),
+  names: z.array(z.string().min(1).max(40)).min(2).max(30),
+}).superRefine((curve, ctx) => {
+  if (curve.thresholds[0] !== 0) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['thresholds', 0], message: 'O nível 1 começa em 0 XP' });
+  }
+  if (curve.thresholds.some((t, i) => i > 0 && t <= curve.thresholds[i - 1])) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['thresholds'], message: 'Limites devem ser crescentes' });
+  }
+  if (curve.names.length !== curve.thresholds.length) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['names'], message: 'Um nome por nível' });
+  }
+});
+
+export type LevelCurve = z.infer<typeof LevelCurveSchema>;
+
+export const DEFAULT_LEVEL_CURVE: LevelCurve = {
+  thresholds: [0, 100, 300, 700, 1500, 3000],
+  names: ['Iniciante', 'Comprometida', 'Guerreira', 'Transformadora', 'Embaixadora', 'Campeã'],
+};
+
+export type LevelProgress = {
+  level: number;
+  levelName: string;
+  nextLevel: number | null;      // null no último nível
+  nextLevelName: string | null;
+  xpToNextLevel: number;         // XP que falta (0 no último nível)
+  progressPct: number;           // 0–100 dentro do nível atual
+};
+
+// ============================================================
+// CÁLCULO (puro)
+// ============================================================
+export function calculateLevel(xpTotal: number, curve: LevelCurve = DEFAULT_LEVEL_CURVE): number {
+  let level = 1;
+  for (let i = curve.thresholds.length - 1; i >= 0; i--) {
+    if (xpTotal >= curve.thresholds[i]) {
+      level = i + 1;
+      break;
+    }
+  }
+  return level;
+}
+
+export function levelName(level: number, curve: LevelCurve = DEFAULT_LEVEL_CURVE): string {
+  return curve.names[Math.min(Math.max(level, 1), curve.names.length) - 1];
+}
+
+export function getLevelProgress(xpTotal: number, curve: LevelCurve = DEFAULT_LEVEL_CURVE): LevelProgress {
+  const level = calculateLevel(xpTotal, curve);
+  const floor = curve.thresholds[level - 1];
+  const next = curve.thresholds[level];
+
+  if (next === undefined) {
+    return { level, levelName: levelName(level, curve), nextLevel: null, nextLevelName: null, xpToNextLevel: 0, progressPct: 100 };
+  }
+
+  return {
+    level,
+    levelName: levelName(level, curve),
+    nextLevel: level + 1,
+    nextLevelName: levelName(level + 1, curve),
+    xpToNextLevel: next - xpTotal,
+    progressPct: Math.floor(((xpTotal - floor) / (next - floor)) * 100),
+  };
+}
+
+// ============================================================
+// CURVA DO CONSULTOR (consultants.level_curve)
+// ============================================================
+export function parseLevelCurve(raw: unknown): LevelCurve {
+  if (raw === null || raw === undefined) return DEFAULT_LEVEL_CURVE;
+  const parsed = LevelCurveSchema.safeParse(raw);
+  if (!parsed.success) {
+    logger.warn('Curva de níveis inválida no banco — usando a padrão');
+    return DEFAULT_LEVEL_CURVE;
+  }
+  return parsed.data;
+}
+
+export async function getConsultantLevelCurve(consultantId: string): Promise<LevelCurve> {
+  const { data } = await db.client
+    .from('consultants')
+    .select('level_curve')
+    .eq('id', consultantId)
+    .maybeSingle();
+
+  return parseLevelCurve((data as { level_curve: unknown } | null)?.level_curve);
+}
+
+export async function getProjectLevelCurve(projectId: string): Promise<LevelCurve> {
+  const { data } = await db.client
+    .from('client_projects')
+    .select('consultants(level_curve)')
+    .eq('id', projectId)
+    .maybeSingle();
+
+  return parseLevelCurve((data as unknown as { consultants: { level_curve: unknown } | null } | null)?.consultants?.level_curve);
+}
+
+// null volta para a curva padrão. Recalcula os níveis dos clientes do consultor.
+export async function setConsultantLevelCurve(
+  consultantId: string,
+  curve: LevelCurve | null
+): Promise<BackfillResult | null> {
+  const { data } = await db.client
+    .from('consultants')
+    .update({ level_curve: curve })
+    .eq('id', consultantId)
+    .select('id')
+    .maybeSingle();
+
+  if (!data) return null;
+  logger.info(`Curva de níveis do consultor ${consultantId} ${curve ? 'atualizada' : 'restaurada para a padrão'}`);
+  return recomputeLevels(consultantId);
+}
+
+// ============================================================
+// BACKFILL — recalcula client_gamification.level
+// Sem consultantId: todos os consultores (npm run db:backfill-levels)
+// ============================================================
+export type BackfillResult = { checked: number; changed: number; levelUps: number };
+
+export async function recomputeLevels(consultantId?: string): Promise<BackfillResult> {
+  let query = db.client
+    .from('client_projects')
+    .select('id, leads(phone, full_name), consultants(level_curve), client_gamification(xp_total, level)');
+  if (consultantId) query = query.eq('consultant_id', consultantId);
+
+  const { data, error } = await query;
+  if (error) throw new Error(`Erro ao buscar projetos: ${error.message}`);
+
+  type Row = {
+    id: string;
+    leads: { phone: string | null; full_name: string | null } | null;
+    consultants: { level_curve: unknown } | null;
+    client_gamification: Array<{ xp_total: number; level: number }>;
+  };
+
+  const result: BackfillResult = { checked: 0, changed: 0, levelUps: 0 };
+
+  for (const row of (data ?? []) as unknown as Row[]) {
+    const gam = row.client_gamification?.[0];
+    if (!gam) continue;
+    result.checked++;
+
+    const curve = parseLevelCurve(row.consultants?.level_curve);
+    const newLevel = calculateLevel(gam.xp_total, curve);
+    if (newLevel === gam.level) continue;
+
+    // Só grava se o nível ainda é o lido (evita corrida com awardXP)
+    const { data: updated } = await db.client
+      .from('client_gamification')
+      .update({ level: newLevel })
+      .eq('project_id', row.id)
+      .eq('level', gam.level)
+      .select('project_id')
+      .maybeSingle();
+    if (!updated) continue;
+
+    result.changed++;
+    if (newLevel > gam.level) {
+      result.levelUps++;
+      await notifyLevelUp(row.leads?.phone, row.leads?.full_name, newLevel, levelName(newLevel, curve));
+    }
+  }
+
+  logger.info(`Níveis recalculados${consultantId ? ` (consultor ${consultantId})` : ''}: ${result.checked} verificados, ${result.changed} alterados, ${result.levelUps} subiram`);
+  return result;
+}
+
+async function notifyLevelUp(phone: string | null | undefined, fullName: string | null | undefined, level: number, name: string): Promise<void> {
+  if (!phone) return;
+  const firstName = fullName?.split(' ')[0];
+  const text = `🆙 *NÍVEL UP!* ${firstName ? `${firstName}, você` : 'Você'} chegou ao nível ${level}: ${name}! Continue assim 💚`;
+
+  await enqueueText(phone, text, { kind: 'level_up' });
+}
@@ -0,0 +1,39 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { DEFAULT_PLAYBOOK, parsePlaybook } from './playbook.js';
+
+function withAdvanceRule(rule: Record<string, unknown>): unknown {
+  const document = structuredClone(DEFAULT_PLAYBOOK) as unknown as {
+    stages: Record<string, Record<string, unknown>>;
+  };
+  document.stages.situation.advance_when = [rule];
+  return document;
+}
+
+describe('regras de avanço do playbook', () => {
+  it('aceita sinais e campos de contexto conhecidos', () => {
+    const playbook = parsePlaybook(withAdvanceRule({
+      any_signal: ['shared_pain', 'asked_about_price'],
+      context_filled: ['main_goal'],
+    }));
+    assert.deepEqual(playbook.stages.situation.advance_when, [{
+      minMessageLength: undefined,
+      anySignal: ['shared_pain', 'asked_about_price'],
+      contextFilled: ['main_goal'],
+    }]);
+  });
+
+  it('rejeita sinal desconhecido ao carregar', () => {
+    assert.throws(
+      () => parsePlaybook(withAdvanceRule({ any_signal: ['shared_pian'] })),
+      /Playbook inválido: stages\.situation\.advance_when\.0\.any_signal\.0/
+    );
+  });
+
+  it('rejeita campo de contexto desconhecido ao carregar', () => {
+    assert.throws(
+      () => parsePlaybook(withAdvanceRule({ context_filled: ['goal'] })),
+      /Playbook inválido: stages\.situation\.advance_when\.0\.context_filled\.0/
+    );
+  });
+});
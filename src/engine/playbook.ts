@@ -0,0 +1,276 @@
+/**
+ * Playbooks de Conversa (persona + catálogo + prompts SPIN)
+ *
+ * Cada playbook é um documento JSON versionado, validado com zod ao carregar.
+ * - Padrão: src/playbooks/pelicano-default.v1.json (vem com o deploy)
+ * - Por equipe: tabela `playbooks`, escolhida em consultants.config.playbook
+ *   ({ "slug": "time-ana", "version": 3 } — sem version usa a mais recente ativa)
+ * - A tabela e consultants.config são editadas direto no banco (não há rota de
+ *   escrita); com o cache por consultor, a mudança vale em até 5 minutos
+ *
+ * Os prompts usam um template mínimo sobre LeadContextData:
+ *   {{campo}}            valor do campo (listas viram "a, b")
+ *   {{campo|padrão}}     valor ou texto padrão quando vazio
+ *   {{#campo}}...{{/campo}}  trecho só aparece quando o campo está preenchido
+ *   {{context}}          contexto completo em JSON
+ */
+
+import { z } from 'zod';
+import { createLogger } from '../lib/logger.js';
+import { db, type LeadContextData } from '../database/client.js';
+import type { ConversationSignal } from './intent-scorer.js';
+import type { AdvanceRule, SpinStageId } from './stage-graph.js';
+import defaultPlaybookDocument from '../playbooks/pelicano-default.v1.json' with { type: 'json' };
+
+const logger = createLogger('PLAYBOOK');
+
+// ============================================================
+// SCHEMA DO DOCUMENTO
+// ============================================================
+const SIGNALS = [
+  'responded_positively', 'asked_about_price', 'asked_how_to_start', 'expressed_interest',
+  'shared_pain', 'accepted_commitment', 'went_cold', 'rejected', 'asked_about_business',
+  'asked_about_product', 'objection_price', 'objection_time', 'objection_skeptical',
+] as const satisfies readonly ConversationSignal[];
+
+const CONTEXT_FIELDS = [
+  'pain_points', 'main_goal', 'current_situation', 'implication', 'commitment_accepted',
+  'profile_type', 'location', 'name', 'source_context', 'business_offered', 'completed_tracks',
+  'fact_sources', 'conversation_summary', 'objections_handled', 'human_takeover_summary',
+] as const satisfies readonly (keyof LeadContextData)[];
+
+const AdvanceRuleSchema = z.object({
+  min_message_length: z.number().int().min(0).optional(),
+  any_signal: z.array(z.enum(SIGNALS)).optional(),
+  context_filled: z.array(z.enum(CONTEXT_FIELDS)).optional(),
+}).transform((rule): AdvanceRule => ({
+  minMessageLength: rule.min_message_length,
+  anySignal: rule.any_signal,
+  contextFilled: rule.context_filled,
+}));
+
+const StageSchema = z.object({
+  name: z.string().min(1),
+  objective: z.string().min(1),
+  prompt: z.string().min(1),
+  advance_when: z.array(AdvanceRuleSchema).optional(),
+});
+
+function isValidRegex(pattern: string): boolean {
+  try {
+    new RegExp(pattern, 'i');
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+const STAGE_IDS = [
+  'ice_break', 'situation', 'problem', 'implication', 'commitment', 'transition',
+  'biz_ice_break', 'biz_qualification', 'biz_implication', 'biz_commitment',
+] as const satisfies readonly SpinStageId[];
+
+export const PlaybookSchema = z.object({
+  id: z.string().min(1),
+  version: z.number().int().positive(),
+  name: z.string().min(1),
+  persona: z.object({
+    name: z.string().min(1),
+    intro: z.string().min(1),
+    archetype: z.string().min(1),
+    tone: z.string().min(1),
+    identity: z.array(z.string()).default([]),
+    principles: z.array(z.string()).min(1),
+    never: z.array(z.string()).default([]),
+    language: z.array(z.string()).default([]),
+  }),
+  products: z.object({
+    brand: z.string().min(1),
+    items: z.array(z.object({ name: z.string().min(1), description: z.string().min(1) })).min(1),
+  }),
+  stages: z.object(
+    Object.fromEntries(STAGE_IDS.map(id => [id, StageSchema])) as Record<SpinStageId, typeof StageSchema>
+  ),
+  special_responses: z.object({
+    objection_price: z.string().min(1),
+    objection_time: z.string().min(1),
+    objection_skeptical: z.string().min(1),
+    handoff_ready: z.string().min(1),
+    re_engagement: z.string().min(1),
+  }),
+  // Regras do guardrail de respostas (ver safety/reply-guardrail.ts)
+  guardrail: z.object({
+    disabled_rules: z.array(z.string()).default([]),
+    extra_rules: z.array(z.object({
+      id: z.string().min(1),
+      category: z.enum(['price', 'link', 'medical_claim', 'weight_promise', 'bot_admission', 'custom']).default('custom'),
+      pattern: z.string().min(1).refine(isValidRegex, 'regex inválida'),
+      instruction: z.string().min(1),
+    })).default([]),
+  }).optional(),
+});
+
+export type Playbook = z.infer<typeof PlaybookSchema>;
+export type PlaybookStage = Playbook['stages'][SpinStageId];
+
+// ============================================================
+// VALIDAÇÃO
+// ============================================================
+export function parsePlaybook(raw: unknown): Playbook {
+  const parsed = PlaybookSchema.safeParse(raw);
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map(i => `${i.path.join('.')}: ${i.message}`).join('; ');
+    throw new Error(`Playbook inválido: ${issues}`);
+  }
+  return parsed.data;
+}
+
+// O padrão é validado no load do módulo: documento quebrado derruba o boot
+export const DEFAULT_PLAYBOOK: Playbook = parsePlaybook(defaultPlaybookDocument);
+
+// ============================================================
+// TEMPLATE DOS PROMPTS
+// ============================================================
+function formatValue(value: unknown): string {
+  if (value === undefined || value === null) return '';
+  if (Array.isArray(value)) return value.join(', ');
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+// Também usado pelos experimentos A/B com parâmetros das réguas (nome, produto, streak...)
+export function renderTemplate(
+  template: string,
+  context: Partial<LeadContextData> | Record<string, unknown>
+): string {
+  const values = context as Record<string, unknown>;
+
+  return template
+    // Seções condicionais
+    .replace(/\{\{#(\w+)\}\}([\s\S]*?)\{\{\/\1\}\}/g, (_match, field: string, inner: string) =>
+      formatValue(values[field]) ? inner : ''
+    )
+    // Variáveis com padrão opcional
+    .replace(/\{\{(\w+)(?:\|([^}]*))?\}\}/g, (_match, field: string, fallback?: string) => {
+      if (field === 'context') return JSON.stringify(context, null, 2);
+      return formatValue(values[field]) || (fallback ?? '');
+    })
+    // Seções vazias não deixam buracos no prompt
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+export function renderStagePrompt(
+  playbook: Playbook,
+  stage: string,
+  context: Partial<LeadContextData>
+): string {
+  const node = playbook.stages[stage as SpinStageId] ?? playbook.stages.ice_break;
+  return renderTemplate(node.prompt, context);
+}
+
+// ============================================================
+// SYSTEM PROMPT (persona + catálogo)
+// ============================================================
+export function buildSystemPrompt(playbook: Playbook): string {
+  const { persona, products } = playbook;
+
+  const sections = [
+    persona.intro,
+    [
+      `## SUA IDENTIDADE`,
+      `- Nome: ${persona.name}`,
+      `- Arquétipo: ${persona.archetype}`,
+      `- Tom: ${persona.tone}`,
+      ...persona.identity.map(line => `- ${line}`),
+    ].join('\n'),
+    [
+      `## PRINCÍPIOS FUNDAMENTAIS`,
+      ...persona.principles.map((line, i) => `${i + 1}. ${line}`),
+    ].join('\n'),
+    [
+      `## PRODUTOS QUE VOCÊ REPRESENTA (${products.brand})`,
+      ...products.items.map(item => `- ${item.name}: ${item.description}`),
+    ].join('\n'),
+  ];
+
+  if (persona.never.length > 0) {
+    sections.push([`## O QUE VOCÊ NUNCA FAZ`, ...persona.never.map(line => `- ${line}`)].join('\n'));
+  }
+  if (persona.language.length > 0) {
+    sections.push([`## IDIOMA`, ...persona.language.map(line => `- ${line}`)].join('\n'));
+  }
+
+  return sections.join('\n\n');
+}
+
+// Regras de avanço do playbook (undefined = usar as do grafo)
+export function getAdvanceRules(playbook: Playbook, stage: string): AdvanceRule[] | undefined {
+  return playbook.stages[stage as SpinStageId]?.advance_when;
+}
+
+// ============================================================
+// CARREGAR PLAYBOOK DO CONSULTOR (com cache)
+// ============================================================
+type PlaybookRef = { slug: string; version?: number };
+
+const CACHE_TTL_MS = 5 * 60 * 1000;
+const playbookCache = new Map<string, { playbook: Playbook; loadedAt: number }>(); // key: consultantId
+
+function readPlaybookRef(config: Record<string, unknown> | null | undefined): PlaybookRef | null {
+  const ref = config?.['playbook'];
+  if (typeof ref === 'string' && ref) return { slug: ref };
+  if (ref && typeof ref === 'object' && typeof (ref as PlaybookRef).slug === 'string') {
+    const { slug, version } = ref as PlaybookRef;
+    return { slug, version: typeof version === 'number' ? version : undefined };
+  }
+  return null;
+}
+
+async function fetchPlaybook(ref: PlaybookRef): Promise<Playbook | null> {
+  let query = db.client
+    .from('playbooks')
+    .select('document, version')
+    .eq('slug', ref.slug);
+
+  query = ref.version !== undefined
+    ? query.eq('version', ref.version)
+    : query.eq('active', true).order('version', { ascending: false });
+
+  const { data } = await query.limit(1).maybeSingle();
+  const row = data as { document: unknown; version: number } | null;
+  if (!row) return null;
+
+  return parsePlaybook(row.document);
+}
+
+export async function getPlaybook(consultantId: string): Promise<Playbook> {
+  const cached = playbookCache.get(consultantId);
+  if (cached && Date.now() - cached.loadedAt < CACHE_TTL_MS) return cached.playbook;
+
+  let playbook = DEFAULT_PLAYBOOK;
+  try {
+    const { data } = await db.client
+      .from('consultants')
+      .select('config')
+      .eq('id', consultantId)
+      .maybeSingle();
+
+    const ref = readPlaybookRef((data as { config: Record<string, unknown> } | null)?.config);
+    if (ref) {
+      const custom = await fetchPlaybook(ref);
+      if (custom) {
+        playbook = custom;
+        logger.debug(`Playbook ${custom.id} v${custom.version} carregado para consultor ${consultantId.substring(0, 8)}...`);
+      } else {
+        logger.warn(`Playbook "${ref.slug}"${ref.version ? ` v${ref.version}` : ''} não encontrado — usando padrão`);
+      }
+    }
+  } catch (error) {
+    // Documento inválido ou banco indisponível: a conversa segue com o padrão
+    logger.error(`Erro ao carregar playbook do consultor ${consultantId.substring(0, 8)}...`, error);
+  }
+
+  playbookCache.set(consultantId, { playbook, loadedAt: Date.now() });
+  return playbook;
+}
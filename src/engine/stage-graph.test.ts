@@ -0,0 +1,25 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { resolveNextStage, resolveTrackSwitch } from './stage-graph.js';
+
+describe('troca de trilha', () => {
+  it('produto → negócio quando o lead pergunta do negócio', () => {
+    assert.equal(resolveTrackSwitch('problem', ['asked_about_business']), 'biz_qualification');
+  });
+
+  it('negócio → produto quando o lead pergunta do produto', () => {
+    assert.equal(resolveTrackSwitch('biz_implication', ['asked_about_product']), 'implication');
+  });
+
+  it('perfil "both" que já fechou a trilha de produto não volta para ela', () => {
+    const context = { profile_type: 'both' as const, business_offered: true, completed_tracks: ['product' as const] };
+    assert.equal(resolveNextStage('commitment', { profile_type: 'both' }), 'biz_ice_break');
+    assert.equal(resolveTrackSwitch('biz_ice_break', ['asked_about_product'], context), null);
+    assert.equal(resolveTrackSwitch('biz_qualification', ['asked_about_product'], context), null);
+  });
+
+  it('perfil "both" ainda sem compromisso de produto pode voltar', () => {
+    const context = { profile_type: 'both' as const, business_offered: true };
+    assert.equal(resolveTrackSwitch('biz_qualification', ['asked_about_product'], context), 'situation');
+  });
+});
@@ -0,0 +1,222 @@
+/**
+ * Grafo de Etapas do SPIN
+ *
+ * Define, de forma declarativa, as duas trilhas da conversa:
+ * - Produto:  ice_break → situation → problem → implication → commitment → transition
+ * - Negócio:  biz_ice_break → biz_qualification → biz_implication → biz_commitment → transition
+ *
+ * Cada etapa lista seus critérios de avanço e a etapa equivalente
+ * na outra trilha (usada quando o lead muda de assunto no meio da conversa).
+ * Perfil "both": roda a trilha de produto e depois oferece a de negócio.
+ */
+
+import type { LeadContextData } from '../database/client.js';
+import type { ConversationSignal } from './intent-scorer.js';
+
+// ============================================================
+// TIPOS
+// ============================================================
+export type SpinStageId =
+  | 'ice_break'
+  | 'situation'
+  | 'problem'
+  | 'implication'
+  | 'commitment'
+  | 'transition'
+  | 'biz_ice_break'
+  | 'biz_qualification'
+  | 'biz_implication'
+  | 'biz_commitment';
+
+export type StageId = SpinStageId | 'closed';
+export type Track = 'product' | 'business';
+
+// Uma regra é satisfeita quando TODAS as condições presentes são verdadeiras.
+// A etapa avança quando QUALQUER regra é satisfeita.
+export type AdvanceRule = {
+  minMessageLength?: number;
+  anySignal?: ConversationSignal[];
+  contextFilled?: Array<keyof LeadContextData>;
+};
+
+export type StageNode = {
+  id: StageId;
+  track: Track | 'shared';
+  next: StageId;
+  advanceWhen: AdvanceRule[];
+  equivalent?: StageId; // etapa correspondente na outra trilha
+};
+
+const POSITIVE: ConversationSignal[] = ['responded_positively', 'expressed_interest', 'shared_pain'];
+
+// ============================================================
+// GRAFO
+// ============================================================
+export const STAGE_GRAPH: Record<StageId, StageNode> = {
+  // --- Trilha produto ---
+  ice_break: {
+    id: 'ice_break',
+    track: 'product',
+    next: 'situation',
+    advanceWhen: [{ minMessageLength: 21 }],
+    equivalent: 'biz_ice_break',
+  },
+  situation: {
+    id: 'situation',
+    track: 'product',
+    next: 'problem',
+    advanceWhen: [{ minMessageLength: 31 }, { contextFilled: ['current_situation'] }],
+    equivalent: 'biz_qualification',
+  },
+  problem: {
+    id: 'problem',
+    track: 'product',
+    next: 'implication',
+    advanceWhen: [{ anySignal: ['shared_pain'] }, { minMessageLength: 21 }],
+    equivalent: 'biz_qualification',
+  },
+  implication: {
+    id: 'implication',
+    track: 'product',
+    next: 'commitment',
+    advanceWhen: [{ anySignal: POSITIVE }, { contextFilled: ['implication'], minMessageLength: 21 }],
+    equivalent: 'biz_implication',
+  },
+  commitment: {
+    id: 'commitment',
+    track: 'product',
+    next: 'transition', // perfil "both" desvia para biz_ice_break (ver resolveNextStage)
+    advanceWhen: [{ anySignal: POSITIVE }],
+    equivalent: 'biz_commitment',
+  },
+
+  // --- Trilha negócio ---
+  biz_ice_break: {
+    id: 'biz_ice_break',
+    track: 'business',
+    next: 'biz_qualification',
+    advanceWhen: [{ minMessageLength: 21 }, { anySignal: ['asked_about_business', 'expressed_interest'] }],
+    equivalent: 'ice_break',
+  },
+  biz_qualification: {
+    id: 'biz_qualification',
+    track: 'business',
+    next: 'biz_implication',
+    advanceWhen: [{ minMessageLength: 31 }, { contextFilled: ['current_situation'] }],
+    equivalent: 'situation',
+  },
+  biz_implication: {
+    id: 'biz_implication',
+    track: 'business',
+    next: 'biz_commitment',
+    advanceWhen: [{ anySignal: POSITIVE }, { contextFilled: ['main_goal'], minMessageLength: 21 }],
+    equivalent: 'implication',
+  },
+  biz_commitment: {
+    id: 'biz_commitment',
+    track: 'business',
+    next: 'transition',
+    advanceWhen: [{ anySignal: POSITIVE }],
+    equivalent: 'commitment',
+  },
+
+  // --- Etapas comuns ---
+  transition: {
+    id: 'transition',
+    track: 'shared',
+    next: 'closed',
+    advanceWhen: [],
+  },
+  closed: {
+    id: 'closed',
+    track: 'shared',
+    next: 'closed',
+    advanceWhen: [],
+  },
+};
+
+// ============================================================
+// ETAPA INICIAL POR PERFIL
+// ============================================================
+export function initialStageFor(profileType?: LeadContextData['profile_type']): StageId {
+  return profileType === 'business' ? 'biz_ice_break' : 'ice_break';
+}
+
+export function getStageNode(stage: string): StageNode {
+  return STAGE_GRAPH[stage as StageId] ?? STAGE_GRAPH.ice_break;
+}
+
+// ============================================================
+// AVALIAR CRITÉRIOS DE AVANÇO
+// ============================================================
+function ruleMatches(
+  rule: AdvanceRule,
+  signals: ConversationSignal[],
+  message: string,
+  context: LeadContextData
+): boolean {
+  if (rule.minMessageLength !== undefined && message.length < rule.minMessageLength) return false;
+  if (rule.anySignal && !rule.anySignal.some(s => signals.includes(s))) return false;
+  if (rule.contextFilled && !rule.contextFilled.every(field => {
+    const value = context[field];
+    return Array.isArray(value) ? value.length > 0 : !!value;
+  })) return false;
+  return true;
+}
+
+// `rules` vem do playbook do consultor; sem ele valem as regras do grafo
+export function shouldAdvanceStage(
+  stage: string,
+  signals: ConversationSignal[],
+  message: string,
+  context: LeadContextData,
+  rules: AdvanceRule[] = getStageNode(stage).advanceWhen
+): boolean {
+  return rules.some(rule => ruleMatches(rule, signals, message, context));
+}
+
+// ============================================================
+// PRÓXIMA ETAPA (considera o perfil "both")
+// ============================================================
+export function resolveNextStage(stage: string, context: LeadContextData): StageId {
+  const node = getStageNode(stage);
+
+  // Perfil "both": terminada a trilha de produto, oferece a de negócio
+  if (node.id === 'commitment' && context.profile_type === 'both' && !context.business_offered) {
+    return 'biz_ice_break';
+  }
+
+  return node.next;
+}
+
+// ============================================================
+// TROCA DE TRILHA NO MEIO DA CONVERSA
+// Retorna a etapa de destino ou null se não houver troca.
+// Perfil "both" não volta para uma trilha que já passou do compromisso
+// (quem terminou a de produto e falou "shake" na de negócio segue nela)
+// ============================================================
+export function resolveTrackSwitch(
+  stage: string,
+  signals: ConversationSignal[],
+  context: LeadContextData = {}
+): StageId | null {
+  const node = getStageNode(stage);
+  if (!node.equivalent) return null;
+
+  const target = getStageNode(node.equivalent).track;
+  if (context.profile_type === 'both' && target !== 'shared' && context.completed_tracks?.includes(target)) {
+    return null;
+  }
+
+  if (node.track === 'product' && signals.includes('asked_about_business')) {
+    return node.equivalent;
+  }
+  if (node.track === 'business' && signals.includes('asked_about_product') && !signals.includes('asked_about_business')) {
+    return node.equivalent;
+  }
+  return null;
+}
+
+export function trackOf(stage: string): StageNode['track'] {
+  return getStageNode(stage).track;
+}
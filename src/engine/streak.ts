@@ -0,0 +1,309 @@
+/**
+ * Streak: janela de tolerância, proteções (freeze) e reparo
+ *
+ * - Tolerância: check-in antes de config.streak.graceHour (hora local) conta
+ *   para ONTEM quando ontem ficou sem check-in
+ * - Proteção: cada dia perdido consome uma proteção e a sequência continua.
+ *   Ganha a cada config.streak.freezeXpStep de XP ou dada pelo consultor
+ * - Reparo: se a sequência zerou por falta de proteção, o cliente pode
+ *   recuperá-la (API do cliente) em até config.streak.repairWindowDays,
+ *   pagando uma proteção por dia perdido
+ *
+ * Todo ganho/uso de proteção fica em streak_freeze_events.
+ */
+
+import { config } from '../config/index.js';
+import { createLogger } from '../lib/logger.js';
+import { db } from '../database/client.js';
+import { localDateString, localHour, addDays, daysBetween } from '../lib/timezone.js';
+
+const logger = createLogger('STREAK');
+
+export type StreakState = {
+  current_streak: number;
+  max_streak: number;
+  streak_freezes: number;
+  last_checkin_at: string | null;
+  last_checkin_date: string | null;
+  streak_before_reset: number | null;
+  streak_reset_on: string | null;
+  streak_reset_missed: number | null;
+};
+
+export type StreakUpdate = {
+  newStreak: number;
+  freezesUsed: number;
+  coveredDates: string[]; // dias perdidos cobertos por proteção
+  reset: boolean;
+};
+
+export type FreezeEventKind = 'earned' | 'granted' | 'used' | 'repair';
+
+const STREAK_COLUMNS = 'current_streak, max_streak, streak_freezes, last_checkin_at, last_checkin_date, '
+  + 'streak_before_reset, streak_reset_on, streak_reset_missed';
+
+// Escritas de saldo são condicionais ao valor lido; em disputa, relê até N vezes
+const FREEZE_WRITE_ATTEMPTS = 3;
+
+// ============================================================
+// ESTADO ATUAL
+// ============================================================
+export async function loadStreakState(projectId: string): Promise<StreakState | null> {
+  const { data } = await db.client
+    .from('client_gamification')
+    .select(STREAK_COLUMNS)
+    .eq('project_id', projectId)
+    .single();
+
+  return data as unknown as StreakState | null;
+}
+
+// Dia local do último check-in creditado (last_checkin_date; antes dela, last_checkin_at)
+function lastCheckinDate(state: StreakState, timeZone: string): string | null {
+  if (state.last_checkin_date) return state.last_checkin_date;
+  return state.last_checkin_at ? localDateString(timeZone, new Date(state.last_checkin_at)) : null;
+}
+
+async function recordFreezeEvent(params: {
+  projectId: string;
+  kind: FreezeEventKind;
+  amount: number;
+  coveredDates?: string[];
+  consultantId?: string;
+  note?: string;
+}): Promise<void> {
+  await db.client.from('streak_freeze_events').insert({
+    project_id: params.projectId,
+    kind: params.kind,
+    amount: params.amount,
+    covered_dates: params.coveredDates ?? [],
+    granted_by: params.consultantId ?? null,
+    note: params.note ?? null,
+  });
+}
+
+// ============================================================
+// DIA DO CHECK-IN (janela de tolerância)
+// ============================================================
+export function resolveCheckinDate(
+  state: StreakState | null,
+  timeZone: string,
+  now: Date = new Date()
+): { checkinDate: string; graceUsed: boolean } {
+  const today = localDateString(timeZone, now);
+  if (!state || localHour(timeZone, now) >= config.streak.graceHour) {
+    return { checkinDate: today, graceUsed: false };
+  }
+
+  // Só vale para ontem se ontem ficou sem check-in (e já houve algum antes)
+  const yesterday = addDays(today, -1);
+  const last = lastCheckinDate(state, timeZone);
+  if (last && last < yesterday) {
+    return { checkinDate: yesterday, graceUsed: true };
+  }
+  return { checkinDate: today, graceUsed: false };
+}
+
+// ============================================================
+// AVANÇAR STREAK (chamado no check-in)
+// ============================================================
+function planAdvance(state: StreakState, checkinDate: string, timeZone: string): StreakUpdate & { missed: number } {
+  const last = lastCheckinDate(state, timeZone);
+  const missed = last ? daysBetween(last, checkinDate) - 1 : 0;
+
+  if (!last) {
+    return { newStreak: 1, freezesUsed: 0, coveredDates: [], reset: false, missed };
+  } else if (missed < 0) {
+    // Mesmo dia (não deveria acontecer: processCheckin bloqueia duplicado)
+    return { newStreak: state.current_streak, freezesUsed: 0, coveredDates: [], reset: false, missed };
+  } else if (missed === 0) {
+    return { newStreak: state.current_streak + 1, freezesUsed: 0, coveredDates: [], reset: false, missed };
+  } else if (missed <= state.streak_freezes) {
+    const coveredDates = Array.from({ length: missed }, (_, i) => addDays(last, i + 1));
+    return { newStreak: state.current_streak + 1, freezesUsed: missed, coveredDates, reset: false, missed };
+  }
+  return { newStreak: 1, freezesUsed: 0, coveredDates: [], reset: true, missed };
+}
+
+export async function advanceStreak(
+  projectId: string,
+  state: StreakState | null,
+  checkinDate: string,
+  timeZone: string
+): Promise<StreakUpdate> {
+  if (!state) return { newStreak: 1, freezesUsed: 0, coveredDates: [], reset: false };
+
+  // streak_freezes só é escrito quando proteções são usadas, e condicional ao
+  // saldo lido: uma concessão no meio do caminho não é sobrescrita
+  let current = state;
+  let update: StreakUpdate | null = null;
+  for (let attempt = 0; attempt < FREEZE_WRITE_ATTEMPTS; attempt++) {
+    const { missed, ...planned } = planAdvance(current, checkinDate, timeZone);
+    const usesFreezes = planned.freezesUsed > 0;
+
+    let query = db.client
+      .from('client_gamification')
+      .update({
+        current_streak: planned.newStreak,
+        max_streak: Math.max(current.max_streak, planned.newStreak),
+        ...(usesFreezes ? { streak_freezes: current.streak_freezes - planned.freezesUsed } : {}),
+        last_checkin_date: checkinDate,
+        // Guardado para o reparo (vale até repairWindowDays depois do reset)
+        ...(planned.reset ? {
+          streak_before_reset: current.current_streak,
+          streak_reset_on: checkinDate,
+          streak_reset_missed: missed,
+        } : {}),
+      })
+      .eq('project_id', projectId);
+    if (!usesFreezes) {
+      await query;
+      update = planned;
+      break;
+    }
+
+    query = query.eq('streak_freezes', current.streak_freezes);
+    const { data: updated } = await query.select('project_id').maybeSingle();
+    if (updated) {
+      update = planned;
+      break;
+    }
+    current = (await loadStreakState(projectId)) ?? current;
+  }
+
+  // Saldo mudando sem parar: a cliente não perde o streak, mas nenhuma proteção é gasta
+  if (!update) {
+    logger.warn(`Projeto ${projectId}: saldo de proteções mudou durante o check-in — streak mantido sem usar proteções`);
+    update = { newStreak: current.current_streak + 1, freezesUsed: 0, coveredDates: [], reset: false };
+    await db.client
+      .from('client_gamification')
+      .update({
+        current_streak: update.newStreak,
+        max_streak: Math.max(current.max_streak, update.newStreak),
+        last_checkin_date: checkinDate,
+      })
+      .eq('project_id', projectId);
+  }
+
+  if (update.freezesUsed > 0) {
+    await recordFreezeEvent({
+      projectId,
+      kind: 'used',
+      amount: -update.freezesUsed,
+      coveredDates: update.coveredDates,
+    });
+    logger.info(`Projeto ${projectId}: ${update.freezesUsed} proteção(ões) usada(s) — streak ${update.newStreak}`);
+  }
+
+  return update;
+}
+
+// ============================================================
+// GANHAR / RECEBER PROTEÇÕES
+// Limitado a config.streak.maxFreezes guardadas
+// ============================================================
+export async function grantStreakFreezes(
+  projectId: string,
+  count: number,
+  source: { kind: 'earned' } | { kind: 'granted'; consultantId: string; note?: string }
+): Promise<{ granted: number; total: number }> {
+  let current = 0;
+  for (let attempt = 0; attempt < FREEZE_WRITE_ATTEMPTS; attempt++) {
+    const { data } = await db.client
+      .from('client_gamification')
+      .select('streak_freezes')
+      .eq('project_id', projectId)
+      .single();
+
+    current = (data as { streak_freezes: number } | null)?.streak_freezes ?? 0;
+    const granted = Math.max(0, Math.min(count, config.streak.maxFreezes - current));
+    if (granted === 0) return { granted: 0, total: current };
+
+    // Só grava se o saldo ainda é o que foi lido; senão lê de novo
+    const { data: updated } = await db.client
+      .from('client_gamification')
+      .update({ streak_freezes: current + granted })
+      .eq('project_id', projectId)
+      .eq('streak_freezes', current)
+      .select('streak_freezes')
+      .maybeSingle();
+    if (!updated) continue;
+
+    await recordFreezeEvent({
+      projectId,
+      kind: source.kind,
+      amount: granted,
+      consultantId: source.kind === 'granted' ? source.consultantId : undefined,
+      note: source.kind === 'granted' ? source.note : undefined,
+    });
+
+    logger.info(`Projeto ${projectId}: +${granted} proteção(ões) (${source.kind}) → ${current + granted}`);
+    return { granted, total: current + granted };
+  }
+
+  logger.warn(`Projeto ${projectId}: saldo de proteções mudou durante a concessão — nada concedido`);
+  return { granted: 0, total: current };
+}
+
+// Proteções ganhas ao passar de xpBefore para xpAfter (uma a cada freezeXpStep)
+export function freezesEarnedByXp(xpBefore: number, xpAfter: number): number {
+  const step = config.streak.freezeXpStep;
+  if (step <= 0) return 0;
+  return Math.max(0, Math.floor(xpAfter / step) - Math.floor(xpBefore / step));
+}
+
+// ============================================================
+// REPARAR STREAK (API do cliente)
+// ============================================================
+export type RepairResult =
+  | { repaired: true; newStreak: number; freezesUsed: number }
+  | { repaired: false; reason: 'nothing_to_repair' | 'window_expired' | 'not_enough_freezes' | 'conflict'; freezesNeeded?: number };
+
+export async function repairStreak(projectId: string, timeZone: string): Promise<RepairResult> {
+  for (let attempt = 0; attempt < FREEZE_WRITE_ATTEMPTS; attempt++) {
+    const state = await loadStreakState(projectId);
+    if (!state?.streak_reset_on || state.streak_before_reset === null || state.streak_reset_missed === null) {
+      return { repaired: false, reason: 'nothing_to_repair' };
+    }
+
+    if (daysBetween(state.streak_reset_on, localDateString(timeZone)) > config.streak.repairWindowDays) {
+      return { repaired: false, reason: 'window_expired' };
+    }
+
+    const needed = state.streak_reset_missed;
+    if (state.streak_freezes < needed) {
+      return { repaired: false, reason: 'not_enough_freezes', freezesNeeded: needed };
+    }
+
+    // Sequência antiga + o que foi feito desde o reset
+    const newStreak = state.streak_before_reset + state.current_streak;
+    const coveredDates = Array.from({ length: needed }, (_, i) => addDays(state.streak_reset_on!, i - needed));
+
+    // Condicional ao que foi lido: saldo e reset iguais (dois reparos simultâneos não gastam duas vezes)
+    const { data: updated } = await db.client
+      .from('client_gamification')
+      .update({
+        current_streak: newStreak,
+        max_streak: Math.max(state.max_streak, newStreak),
+        streak_freezes: state.streak_freezes - needed,
+        streak_before_reset: null,
+        streak_reset_on: null,
+        streak_reset_missed: null,
+      })
+      .eq('project_id', projectId)
+      .eq('streak_freezes', state.streak_freezes)
+      .eq('current_streak', state.current_streak)
+      .eq('streak_reset_on', state.streak_reset_on)
+      .select('current_streak')
+      .maybeSingle();
+    if (!updated) continue;
+
+    await recordFreezeEvent({ projectId, kind: 'repair', amount: -needed, coveredDates });
+
+    logger.info(`Projeto ${projectId}: streak reparado com ${needed} proteção(ões) → ${newStreak}`);
+    return { repaired: true, newStreak, freezesUsed: needed };
+  }
+
+  logger.warn(`Projeto ${projectId}: streak mudou durante o reparo — tente de novo`);
+  return { repaired: false, reason: 'conflict' };
+}
@@ -0,0 +1,36 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { computeWeightProgress } from './weight-progress.js';
+import { addDays } from '../lib/timezone.js';
+
+const TODAY = '2025-06-30';
+
+// Uma pesagem a cada 2 dias nas últimas 2 semanas, variando kgPerDay por dia
+function progressFor(kgPerDay: number) {
+  const points = Array.from({ length: 7 }, (_, i) => {
+    const daysAgo = 12 - i * 2;
+    return { date: addDays(TODAY, -daysAgo), weight: 80 - kgPerDay * daysAgo };
+  });
+  return computeWeightProgress({
+    points,
+    startWeight: 90,
+    targetWeight: 65,
+    startDate: addDays(TODAY, -60),
+    targetDate: null,
+    today: TODAY,
+  });
+}
+
+describe('platô de peso', () => {
+  it('peso parado é platô', () => {
+    assert.equal(progressFor(0).plateau, true);
+  });
+
+  it('peso caindo não é platô', () => {
+    assert.equal(progressFor(-0.1).plateau, false);
+  });
+
+  it('peso subindo não é platô', () => {
+    assert.equal(progressFor(0.1).plateau, false);
+  });
+});
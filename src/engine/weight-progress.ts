@@ -0,0 +1,332 @@
+/**
+ * Progresso de Peso por Projeto
+ *
+ * A partir de start/target_weight_kg (client_projects) e das pesagens em
+ * daily_checkins.weight_kg calcula:
+ * - Tendência suavizada (média móvel exponencial — ignora o sobe-e-desce diário)
+ * - Ritmo de perda por semana (regressão sobre a tendência dos últimos 28 dias)
+ * - Data projetada para a meta vs. target_date
+ * - Platô: peso parado por config.weightProgress.plateauDays
+ * - Perda acelerada (> config.weightProgress.alertKgPerWeek): alerta de
+ *   segurança para o consultor
+ *
+ * Alertas e mensagens de platô enviados ficam em weight_alerts.
+ */
+
+import { config } from '../config/index.js';
+import { createLogger } from '../lib/logger.js';
+import { db } from '../database/client.js';
+import { enqueueText } from '../safety/outbound-queue.js';
+import { resolveTimeZone, localDateString, addDays, daysBetween } from '../lib/timezone.js';
+
+const logger = createLogger('WEIGHT-PROGRESS');
+
+const SMOOTHING_ALPHA = 0.25; // peso de cada pesagem nova na tendência (por dia)
+const RATE_WINDOW_DAYS = 28;
+const ALERT_WINDOW_DAYS = 14;
+const MIN_RATE_SPAN_DAYS = 7;
+
+export type WeightPoint = { date: string; weight: number };
+
+export type WeightProgress = {
+  startWeight: number | null;
+  targetWeight: number | null;
+  currentTrend: number | null;        // peso "real" pela tendência
+  lostKg: number | null;              // start − tendência atual
+  weeklyRateKg: number | null;        // + = perdendo (tendência, 28 dias)
+  recentWeeklyRateKg: number | null;  // + = perdendo (pesagens, 14 dias) — base do alerta
+  goalReached: boolean;
+  projectedGoalDate: string | null;   // 'YYYY-MM-DD' no ritmo atual
+  targetDate: string | null;
+  daysAheadOfTarget: number | null;   // + = adiantada, − = atrasada
+  plateau: boolean;
+  rapidLoss: boolean;
+  trend: Array<WeightPoint & { smoothed: number }>;
+};
+
+const round1 = (n: number): number => Math.round(n * 10) / 10;
+
+// ============================================================
+// CÁLCULO (puro)
+// ============================================================
+// Inclinação (kg/dia) dos mínimos quadrados; null sem pontos ou período suficiente
+function slopePerDay(points: Array<{ date: string; value: number }>, minSpanDays: number): number | null {
+  if (points.length < 2) return null;
+  const x = points.map(p => daysBetween(points[0].date, p.date));
+  if (x[x.length - 1] < minSpanDays) return null;
+
+  const n = points.length;
+  const meanX = x.reduce((a, b) => a + b, 0) / n;
+  const meanY = points.reduce((a, p) => a + p.value, 0) / n;
+  let num = 0;
+  let den = 0;
+  for (let i = 0; i < n; i++) {
+    num += (x[i] - meanX) * (points[i].value - meanY);
+    den += (x[i] - meanX) ** 2;
+  }
+  return den > 0 ? num / den : null;
+}
+
+export function smoothWeights(points: WeightPoint[]): Array<WeightPoint & { smoothed: number }> {
+  const result: Array<WeightPoint & { smoothed: number }> = [];
+  for (const point of points) {
+    const prev = result[result.length - 1];
+    if (!prev) {
+      result.push({ ...point, smoothed: point.weight });
+      continue;
+    }
+    // Dias sem pesagem: a nova pesagem pesa mais (como se fossem vários dias iguais)
+    const gap = Math.max(1, daysBetween(prev.date, point.date));
+    const alpha = 1 - (1 - SMOOTHING_ALPHA) ** gap;
+    result.push({ ...point, smoothed: prev.smoothed + alpha * (point.weight - prev.smoothed) });
+  }
+  return result.map(p => ({ ...p, smoothed: Math.round(p.smoothed * 100) / 100 }));
+}
+
+export function computeWeightProgress(params: {
+  points: WeightPoint[];
+  startWeight: number | null;
+  targetWeight: number | null;
+  startDate: string | null;
+  targetDate: string | null;
+  today: string;
+}): WeightProgress {
+  const { startWeight, targetWeight, targetDate, today } = params;
+  const startDate = params.startDate?.slice(0, 10) ?? null;
+
+  // Uma pesagem por dia (a última), em ordem; o peso inicial abre a série
+  const byDate = new Map<string, number>();
+  for (const p of params.points) byDate.set(p.date.slice(0, 10), Number(p.weight));
+  if (startWeight && startDate && ![...byDate.keys()].some(d => d <= startDate)) {
+    byDate.set(startDate, Number(startWeight));
+  }
+  const points = [...byDate.entries()]
+    .filter(([date]) => date <= today)
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([date, weight]) => ({ date, weight }));
+
+  const trend = smoothWeights(points);
+  const last = trend[trend.length - 1];
+  const currentTrend = last ? round1(last.smoothed) : null;
+
+  const rateSlope = slopePerDay(
+    trend.filter(p => daysBetween(p.date, today) < RATE_WINDOW_DAYS).map(p => ({ date: p.date, value: p.smoothed })),
+    MIN_RATE_SPAN_DAYS
+  );
+  const recentSlope = slopePerDay(
+    points.filter(p => daysBetween(p.date, today) < ALERT_WINDOW_DAYS).map(p => ({ date: p.date, value: p.weight })),
+    MIN_RATE_SPAN_DAYS
+  );
+  const weeklyRateKg = rateSlope === null ? null : round1(-rateSlope * 7);
+  const recentWeeklyRateKg = recentSlope === null ? null : round1(-recentSlope * 7);
+
+  const goalReached = currentTrend !== null && targetWeight !== null && currentTrend <= targetWeight;
+
+  let projectedGoalDate: string | null = null;
+  if (!goalReached && currentTrend !== null && targetWeight !== null && weeklyRateKg !== null && weeklyRateKg > 0.05) {
+    projectedGoalDate = addDays(today, Math.ceil(((currentTrend - targetWeight) / weeklyRateKg) * 7));
+  }
+  const daysAheadOfTarget = projectedGoalDate && targetDate
+    ? daysBetween(projectedGoalDate, targetDate.slice(0, 10))
+    : null;
+
+  // Platô: pesagens cobrindo a janela e reta das pesagens sem cair além da tolerância
+  // (a tendência suavizada ainda "desce" uns dias depois que o peso parou)
+  const { plateauDays, plateauToleranceKg, alertKgPerWeek } = config.weightProgress;
+  const plateauWindow = points.filter(p => daysBetween(p.date, today) < plateauDays);
+  const plateauSlope = plateauWindow.length >= 4
+    ? slopePerDay(plateauWindow.map(p => ({ date: p.date, value: p.weight })), plateauDays - 4)
+    : null;
+  // Estável nos dois sentidos: ganho de peso não é platô
+  const plateau = !goalReached && plateauSlope !== null && Math.abs(plateauSlope) * plateauDays < plateauToleranceKg;
+
+  return {
+    startWeight,
+    targetWeight,
+    currentTrend,
+    lostKg: startWeight && currentTrend !== null ? round1(startWeight - currentTrend) : null,
+    weeklyRateKg,
+    recentWeeklyRateKg,
+    goalReached,
+    projectedGoalDate,
+    targetDate: targetDate?.slice(0, 10) ?? null,
+    daysAheadOfTarget,
+    plateau,
+    rapidLoss: recentWeeklyRateKg !== null && recentWeeklyRateKg > alertKgPerWeek,
+    trend,
+  };
+}
+
+// ============================================================
+// POR PROJETO
+// ============================================================
+type ProjectWeightRow = {
+  id: string;
+  consultant_id: string;
+  start_date: string | null;
+  target_date: string | null;
+  start_weight_kg: number | null;
+  target_weight_kg: number | null;
+  timezone: string | null;
+  consultants: { timezone: string | null } | null;
+};
+
+const PROJECT_WEIGHT_COLUMNS = 'id, consultant_id, start_date, target_date, start_weight_kg, target_weight_kg, timezone, consultants(timezone)';
+
+async function computeForProject(project: ProjectWeightRow): Promise<WeightProgress> {
+  const today = localDateString(resolveTimeZone(project.timezone, project.consultants?.timezone));
+
+  const { data } = await db.client
+    .from('daily_checkins')
+    .select('checkin_date, weight_kg')
+    .eq('project_id', project.id)
+    .not('weight_kg', 'is', null)
+    .order('checkin_date', { ascending: false })
+    .limit(120);
+
+  const points = ((data ?? []) as Array<{ checkin_date: string; weight_kg: number }>)
+    .map(r => ({ date: r.checkin_date, weight: Number(r.weight_kg) }));
+
+  return computeWeightProgress({
+    points,
+    startWeight: project.start_weight_kg === null ? null : Number(project.start_weight_kg),
+    targetWeight: project.target_weight_kg === null ? null : Number(project.target_weight_kg),
+    startDate: project.start_date,
+    targetDate: project.target_date,
+    today,
+  });
+}
+
+export async function getWeightProgress(projectId: string): Promise<WeightProgress | null> {
+  const { data } = await db.client
+    .from('client_projects')
+    .select(PROJECT_WEIGHT_COLUMNS)
+    .eq('id', projectId)
+    .maybeSingle();
+
+  const project = data as unknown as ProjectWeightRow | null;
+  return project ? computeForProject(project) : null;
+}
+
+// 'YYYY-MM-DD' → 'dd/mm' para as mensagens
+export function formatDateBR(dateStr: string): string {
+  return dateStr.slice(0, 10).split('-').reverse().slice(0, 2).join('/');
+}
+
+// ============================================================
+// ALERTAS (weight_alerts)
+// ============================================================
+type WeightAlertKind = 'rapid_loss' | 'plateau_nudge';
+
+async function alertSentRecently(projectId: string, kind: WeightAlertKind, days: number): Promise<boolean> {
+  const { count } = await db.client
+    .from('weight_alerts')
+    .select('id', { count: 'exact', head: true })
+    .eq('project_id', projectId)
+    .eq('kind', kind)
+    .gte('created_at', new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString());
+
+  return (count ?? 0) > 0;
+}
+
+async function recordAlert(projectId: string, kind: WeightAlertKind, progress: WeightProgress): Promise<void> {
+  await db.client.from('weight_alerts').insert({
+    project_id: projectId,
+    kind,
+    weekly_rate_kg: kind === 'rapid_loss' ? progress.recentWeeklyRateKg : progress.weeklyRateKg,
+    current_trend_kg: progress.currentTrend,
+  });
+}
+
+// Chamado após check-in com peso: perda acelerada avisa o consultor (1x por semana)
+export async function checkRapidWeightLoss(projectId: string): Promise<boolean> {
+  const progress = await getWeightProgress(projectId);
+  if (!progress?.rapidLoss) return false;
+  if (await alertSentRecently(projectId, 'rapid_loss', 7)) return false;
+
+  const { data } = await db.client
+    .from('client_projects')
+    .select('leads(phone, full_name), consultants(phone)')
+    .eq('id', projectId)
+    .maybeSingle();
+
+  const row = data as unknown as {
+    leads: { phone: string | null; full_name: string | null } | null;
+    consultants: { phone: string } | null;
+  } | null;
+  const consultantPhone = row?.consultants?.phone;
+  if (!consultantPhone) return false;
+
+  const notification = [
+    `⚠️ *ALERTA DE SEGURANÇA — perda de peso acelerada*`,
+    ``,
+    `👤 Cliente: ${row.leads?.full_name ?? 'Sem nome'}${row.leads?.phone ? ` (+${row.leads.phone})` : ''}`,
+    `📉 Ritmo: ${progress.recentWeeklyRateKg}kg/semana nos últimos ${ALERT_WINDOW_DAYS} dias`,
+    `   (limite saudável: ${config.weightProgress.alertKgPerWeek}kg/semana)`,
+    ``,
+    `Converse com a cliente sobre alimentação e hidratação e, se for o caso,`,
+    `oriente procurar um médico ou nutricionista.`,
+  ].join('\n');
+
+  await recordAlert(projectId, 'rapid_loss', progress);
+  await enqueueText(consultantPhone, notification, { kind: 'weight_alert' });
+
+  logger.warn(`Perda acelerada no projeto ${projectId}: ${progress.recentWeeklyRateKg}kg/semana — consultor avisado`);
+  return true;
+}
+
+// ============================================================
+// CRON — mensagem para quem está em platô
+// ============================================================
+// Janela do platô em texto: "umas 2 semanas", "uns 10 dias"
+function describePlateauWindow(days: number): string {
+  if (days % 7 === 0) return days === 7 ? 'uma semana' : `umas ${days / 7} semanas`;
+  return `uns ${days} dias`;
+}
+
+function buildPlateauNudge(name: string | null, progress: WeightProgress): string {
+  const firstName = name?.split(' ')[0] ?? 'Oi';
+  const window = describePlateauWindow(config.weightProgress.plateauDays);
+  const lines = [`${firstName}, reparei que seu peso está estável há ${window} ⚖️`, ``];
+  if (progress.lostKg && progress.lostKg > 0) {
+    lines.push(`Você já tirou ${progress.lostKg}kg — isso continua valendo!`);
+  }
+  lines.push(
+    `Platô é normal: o corpo está se ajustando. Algumas coisas que ajudam a destravar:`,
+    ``,
+    `💧 Capricha na água (2L+)`,
+    `🥤 Não pula o shake da noite`,
+    `🚶 Um pouco mais de movimento no dia`,
+    ``,
+    `Bora juntas nessa próxima semana? 💪`,
+  );
+  return lines.join('\n');
+}
+
+export async function processPlateauNudges(): Promise<number> {
+  const { data: projects } = await db.client
+    .from('client_projects')
+    .select(`${PROJECT_WEIGHT_COLUMNS}, leads!inner(phone, full_name)`)
+    .eq('status', 'active')
+    .not('target_weight_kg', 'is', null);
+
+  type Row = ProjectWeightRow & { leads: { phone: string | null; full_name: string | null } };
+  let nudged = 0;
+
+  for (const project of (projects ?? []) as unknown as Row[]) {
+    const phone = project.leads?.phone;
+    if (!phone) continue;
+
+    const progress = await computeForProject(project);
+    if (!progress.plateau) continue;
+    if (await alertSentRecently(project.id, 'plateau_nudge', config.weightProgress.plateauNudgeEveryDays)) continue;
+
+    await recordAlert(project.id, 'plateau_nudge', progress);
+    const text = buildPlateauNudge(project.leads.full_name, progress);
+    await enqueueText(phone, text, { kind: 'plateau_nudge' });
+    nudged++;
+  }
+
+  if (nudged > 0) logger.info(`${nudged} mensagem(ns) de platô enviada(s)`);
+  return nudged;
+}
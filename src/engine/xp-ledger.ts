@@ -0,0 +1,82 @@
+/**
+ * Livro-razão de XP (xp_events)
+ *
+ * Todo ganho de XP vira um evento imutável (projeto, ação, valor, origem,
+ * chave de idempotência). O total em client_gamification.xp_total é
+ * mantido pela função award_xp do Postgres, na mesma transação do evento —
+ * sem ler-somar-gravar no Node, então check-ins simultâneos (WhatsApp +
+ * app) não perdem nem duplicam XP.
+ *
+ * A chave de idempotência é única por projeto: repetir a mesma chave não
+ * soma de novo (ex: 'checkin:2025-03-01', 'referral:<lead_id>').
+ */
+
+import { createLogger } from '../lib/logger.js';
+import { db } from '../database/client.js';
+
+const logger = createLogger('XP-LEDGER');
+
+export type XpSource = 'whatsapp' | 'client_app' | 'system' | 'migration';
+
+export type XpEvent = {
+  id: string;
+  action: string;
+  amount: number;
+  source: XpSource;
+  idempotency_key: string | null;
+  created_at: string;
+};
+
+export type XpEventResult = {
+  applied: boolean;  // false: chave já usada, nada foi somado
+  xpBefore: number;
+  xpAfter: number;
+};
+
+// ============================================================
+// REGISTRAR EVENTO (atômico via RPC award_xp)
+// ============================================================
+export async function recordXpEvent(params: {
+  projectId: string;
+  action: string;
+  amount: number;
+  source: XpSource;
+  idempotencyKey?: string;
+}): Promise<XpEventResult> {
+  const { data, error } = await db.client.rpc('award_xp', {
+    p_project_id: params.projectId,
+    p_action: params.action,
+    p_amount: params.amount,
+    p_source: params.source,
+    p_idempotency_key: params.idempotencyKey ?? null,
+  });
+
+  if (error) throw new Error(`Erro ao registrar XP (${params.action}) para projeto ${params.projectId}: ${error.message}`);
+
+  const row = (data as Array<{ applied: boolean; xp_before: number; xp_after: number }> | null)?.[0];
+  if (!row) throw new Error(`Gamificação não encontrada para projeto ${params.projectId}`);
+
+  if (!row.applied) {
+    logger.debug(`XP ignorado (chave repetida): ${params.idempotencyKey} — projeto ${params.projectId}`);
+  }
+  return { applied: row.applied, xpBefore: row.xp_before, xpAfter: row.xp_after };
+}
+
+// ============================================================
+// HISTÓRICO (API do cliente)
+// ============================================================
+export async function getXpHistory(
+  projectId: string,
+  options: { limit?: number; before?: string } = {}
+): Promise<XpEvent[]> {
+  let query = db.client
+    .from('xp_events')
+    .select('id, action, amount, source, idempotency_key, created_at')
+    .eq('project_id', projectId)
+    .order('created_at', { ascending: false })
+    .limit(options.limit ?? 50);
+  if (options.before) query = query.lt('created_at', options.before);
+
+  const { data } = await query;
+  return (data ?? []) as XpEvent[];
+}
@@ -32,6 +32,7 @@ async function bootstrap(): Promise<void> {
   logger.info('   Memória de Contexto por Lead');
   logger.info('   Canal WhatsApp (Evolution API)');
   logger.info('   Safety: rate limiting + anti-ban');
+  logger.info('   Fila de envio persistente (retentativas + dead-letter)');
   logger.info('   Régua 7 dias (follow-up)');
   logger.info('   Régua 30 dias (pós-compra)');
   logger.info('   Scheduler de mensagens automáticas');
@@ -96,4 +96,5 @@ export async function redisDel(key: string): Promise<void> {
 export const REDIS_KEYS = {
   conversation: (id: string) => `pelicano:conv:${id}`,
   checkinSession: (phone: string) => `pelicano:checkin:${phone}`,
+  outgoing: (key: string) => `pelicano:out:${key}`,
 } as const;
@@ -0,0 +1,97 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  localDateString,
+  localHour,
+  addDays,
+  daysBetween,
+  daysSince,
+  startOfLocalDay,
+  localDateTimeToInstant,
+} from './timezone.js';
+
+const SAO_PAULO = 'America/Sao_Paulo';
+const SANTIAGO = 'America/Santiago';
+const NEW_YORK = 'America/New_York';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+describe('virada do dia', () => {
+  it('check-in às 22h em São Paulo conta para o dia local, não para o UTC', () => {
+    const at = new Date('2025-03-06T01:00:00Z'); // 05/03 22:00 em São Paulo
+    assert.equal(localDateString(SAO_PAULO, at), '2025-03-05');
+    assert.equal(localHour(SAO_PAULO, at), 22);
+    assert.equal(daysSince('2025-03-01', SAO_PAULO, at), 4);
+  });
+
+  it('23:59 e 00:00 locais caem em dias diferentes', () => {
+    assert.equal(localDateString(NEW_YORK, new Date('2025-03-10T03:59:00Z')), '2025-03-09');
+    assert.equal(localDateString(NEW_YORK, new Date('2025-03-10T04:00:00Z')), '2025-03-10');
+  });
+
+  it('início do dia em São Paulo é 03:00 UTC', () => {
+    assert.equal(startOfLocalDay(SAO_PAULO, new Date('2025-03-06T01:00:00Z')).toISOString(), '2025-03-05T03:00:00.000Z');
+  });
+});
+
+describe('horário de verão — Santiago (muda à meia-noite)', () => {
+  it('meia-noite inexistente: início do dia é o primeiro instante do próprio dia', () => {
+    const start = startOfLocalDay(SANTIAGO, new Date('2025-09-07T15:00:00Z'));
+    assert.equal(start.toISOString(), '2025-09-07T04:00:00.000Z'); // 01:00 local
+    assert.equal(localDateString(SANTIAGO, start), '2025-09-07');
+  });
+
+  it('fim do horário de verão: meia-noite repetida não volta para o dia anterior', () => {
+    const start = startOfLocalDay(SANTIAGO, new Date('2025-04-06T15:00:00Z'));
+    assert.equal(localDateString(SANTIAGO, start), '2025-04-06');
+    assert.equal(localDateString(SANTIAGO, new Date(start.getTime() - 1)), '2025-04-05');
+  });
+
+  it('dias de calendário seguem contando 1 por dia', () => {
+    assert.equal(daysSince('2025-09-06', SANTIAGO, new Date('2025-09-07T04:30:00Z')), 1);
+    assert.equal(daysSince(new Date('2025-09-06T12:00:00Z'), SANTIAGO, new Date('2025-09-08T12:00:00Z')), 2);
+  });
+});
+
+describe('horário de verão — Nova York', () => {
+  it('dia em que o relógio adianta tem 23 horas', () => {
+    const start = startOfLocalDay(NEW_YORK, new Date('2025-03-09T12:00:00Z'));
+    const next = startOfLocalDay(NEW_YORK, new Date('2025-03-10T12:00:00Z'));
+    assert.equal(start.toISOString(), '2025-03-09T05:00:00.000Z');
+    assert.equal(next.getTime() - start.getTime(), 23 * HOUR_MS);
+  });
+
+  it('dia em que o relógio atrasa tem 25 horas', () => {
+    const start = startOfLocalDay(NEW_YORK, new Date('2025-11-02T12:00:00Z'));
+    const next = startOfLocalDay(NEW_YORK, new Date('2025-11-03T12:00:00Z'));
+    assert.equal(next.getTime() - start.getTime(), 25 * HOUR_MS);
+  });
+
+  it('horário dentro do pulo avança para depois dele', () => {
+    const instant = localDateTimeToInstant('2025-03-09', 2, NEW_YORK, 30);
+    assert.equal(instant.toISOString(), '2025-03-09T07:30:00.000Z'); // 03:30 EDT
+    assert.equal(localDateString(NEW_YORK, instant), '2025-03-09');
+  });
+
+  it('horário comum nos dias de mudança usa o offset certo', () => {
+    assert.equal(localDateTimeToInstant('2025-03-09', 9, NEW_YORK).toISOString(), '2025-03-09T13:00:00.000Z');
+    assert.equal(localDateTimeToInstant('2025-11-02', 8, NEW_YORK).toISOString(), '2025-11-02T13:00:00.000Z');
+  });
+});
+
+describe('aritmética de datas locais', () => {
+  it('addDays atravessa as mudanças de horário sem pular dia', () => {
+    assert.equal(addDays('2025-03-08', 1), '2025-03-09');
+    assert.equal(addDays('2025-03-08', 2), '2025-03-10');
+    assert.equal(addDays('2025-11-01', 2), '2025-11-03');
+    assert.equal(addDays('2025-09-06', 1), '2025-09-07');
+    assert.equal(addDays('2025-03-01', -1), '2025-02-28');
+  });
+
+  it('daysBetween conta dias de calendário nas semanas de mudança', () => {
+    assert.equal(daysBetween('2025-03-08', '2025-03-10'), 2);
+    assert.equal(daysBetween('2025-11-01', '2025-11-03'), 2);
+    assert.equal(daysBetween('2025-09-06', '2025-09-08'), 2);
+    assert.equal(daysBetween('2025-03-10', '2025-03-08'), -2);
+  });
+});
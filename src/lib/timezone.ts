@@ -0,0 +1,170 @@
+/**
+ * Fuso Horário (IANA) e Datas Locais
+ *
+ * Toda conta de "dia" (check-in, streak, réguas, dia do desafio, recompra)
+ * é feita no fuso do projeto ou do consultor — nunca em UTC.
+ * Um cliente em São Paulo que faz check-in às 22h conta para o dia dele.
+ *
+ * Resolução do fuso:
+ *   client_projects.timezone → consultants.timezone → TIMEZONE (padrão America/Sao_Paulo)
+ *
+ * Datas locais circulam como texto 'YYYY-MM-DD' (mesmo formato das colunas `date`).
+ */
+
+import { config } from '../config/index.js';
+import { db } from '../database/client.js';
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// ============================================================
+// VALIDAÇÃO E RESOLUÇÃO
+// ============================================================
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Primeiro fuso válido da lista; senão o padrão da instalação
+export function resolveTimeZone(...candidates: Array<string | null | undefined>): string {
+  return candidates.find((tz): tz is string => !!tz && isValidTimeZone(tz)) ?? config.timezone;
+}
+
+// ============================================================
+// PARTES DA DATA NO FUSO
+// ============================================================
+type LocalParts = { year: number; month: number; day: number; hour: number; minute: number; weekday: number };
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function formatterFor(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      weekday: 'short',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+function localParts(timeZone: string, date: Date): LocalParts {
+  const parts = Object.fromEntries(formatterFor(timeZone).formatToParts(date).map(p => [p.type, p.value]));
+  return {
+    year: Number(parts.year),
+    month: Number(parts.month),
+    day: Number(parts.day),
+    hour: Number(parts.hour),
+    minute: Number(parts.minute),
+    weekday: WEEKDAYS.indexOf(parts.weekday),
+  };
+}
+
+const pad = (n: number): string => String(n).padStart(2, '0');
+
+// ============================================================
+// DATA / HORA LOCAL
+// ============================================================
+export function localDateString(timeZone: string, date: Date = new Date()): string {
+  const { year, month, day } = localParts(timeZone, date);
+  return `${year}-${pad(month)}-${pad(day)}`;
+}
+
+export function localHour(timeZone: string, date: Date = new Date()): number {
+  return localParts(timeZone, date).hour;
+}
+
+// 0 = domingo … 6 = sábado
+export function localWeekday(timeZone: string, date: Date = new Date()): number {
+  return localParts(timeZone, date).weekday;
+}
+
+// ============================================================
+// ARITMÉTICA DE DATAS LOCAIS ('YYYY-MM-DD')
+// Feita em UTC puro — não sofre com horário de verão
+// ============================================================
+function dateStringToUtcMs(dateStr: string): number {
+  const [year, month, day] = dateStr.slice(0, 10).split('-').map(Number);
+  return Date.UTC(year, month - 1, day);
+}
+
+export function addDays(dateStr: string, days: number): string {
+  return new Date(dateStringToUtcMs(dateStr) + days * MS_PER_DAY).toISOString().split('T')[0];
+}
+
+// Dias de calendário entre duas datas locais (to - from)
+export function daysBetween(fromDateStr: string, toDateStr: string): number {
+  return Math.round((dateStringToUtcMs(toDateStr) - dateStringToUtcMs(fromDateStr)) / MS_PER_DAY);
+}
+
+// Dias de calendário desde o início, no fuso.
+// `start` pode ser uma coluna date ('2025-03-01') ou um instante (timestamptz / Date).
+export function daysSince(start: string | Date, timeZone: string, now: Date = new Date()): number {
+  const startDate = typeof start === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(start)
+    ? start
+    : localDateString(timeZone, new Date(start));
+  return daysBetween(startDate, localDateString(timeZone, now));
+}
+
+// ============================================================
+// HORÁRIO LOCAL → INSTANTE UTC (filtros em timestamptz, agendamentos)
+// ============================================================
+function offsetMs(timeZone: string, instant: number): number {
+  const p = localParts(timeZone, new Date(instant));
+  const asUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute);
+  return asUtc - Math.floor(instant / 60000) * 60000;
+}
+
+export function startOfLocalDay(timeZone: string, date: Date = new Date()): Date {
+  return localDateTimeToInstant(localDateString(timeZone, date), 0, timeZone);
+}
+
+// 'YYYY-MM-DD' + hora local no fuso → instante UTC (ex: dia 5 às 18h em São Paulo)
+export function localDateTimeToInstant(dateStr: string, hour: number, timeZone: string, minute: number = 0): Date {
+  const asUtc = dateStringToUtcMs(dateStr) + (hour * 60 + minute) * 60 * 1000;
+  // Duas passadas: o offset pode mudar entre o palpite e o horário real (DST)
+  let instant = asUtc - offsetMs(timeZone, asUtc);
+  instant = asUtc - offsetMs(timeZone, instant);
+
+  // Horário que não existe (pulo do horário de verão — em Santiago, a
+  // meia-noite): avança para o primeiro instante depois do pulo, senão
+  // o "início do dia" cairia às 23h do dia anterior
+  const wallClock = instant + offsetMs(timeZone, instant);
+  if (wallClock < asUtc) instant += asUtc - wallClock;
+  return new Date(instant);
+}
+
+// ============================================================
+// FUSO DO PROJETO / CONSULTOR (banco)
+// ============================================================
+export async function getConsultantTimeZone(consultantId: string): Promise<string> {
+  const { data } = await db.client
+    .from('consultants')
+    .select('timezone')
+    .eq('id', consultantId)
+    .maybeSingle();
+
+  return resolveTimeZone((data as { timezone: string | null } | null)?.timezone);
+}
+
+export async function getProjectTimeZone(projectId: string): Promise<string> {
+  const { data } = await db.client
+    .from('client_projects')
+    .select('timezone, consultants(timezone)')
+    .eq('id', projectId)
+    .maybeSingle();
+
+  const row = data as unknown as { timezone: string | null; consultants: { timezone: string | null } | null } | null;
+  return resolveTimeZone(row?.timezone, row?.consultants?.timezone);
+}
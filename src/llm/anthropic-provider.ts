@@ -0,0 +1,31 @@
+/**
+ * Provedor Anthropic (Claude) — padrão em produção
+ */
+
+import Anthropic from '@anthropic-ai/sdk';
+import type { LlmProvider, LlmRequest } from './types.js';
+
+export function createAnthropicProvider(params: { apiKey: string; model: string }): LlmProvider {
+  // Retry fica na camada de cima; o SDK não repete sozinho
+  const client = new Anthropic({ apiKey: params.apiKey, maxRetries: 0 });
+
+  return {
+    name: 'anthropic',
+    model: params.model,
+
+    async complete(request: LlmRequest, signal: AbortSignal): Promise<string> {
+      const response = await client.messages.create({
+        model: params.model,
+        max_tokens: request.maxTokens,
+        ...(request.system ? { system: request.system } : {}),
+        messages: request.messages,
+      }, { signal });
+
+      const content = response.content[0];
+      if (content?.type !== 'text') {
+        throw new Error('Resposta inesperada da API');
+      }
+      return content.text;
+    },
+  };
+}
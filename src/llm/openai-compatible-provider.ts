@@ -0,0 +1,59 @@
+/**
+ * Provedor compatível com a API OpenAI (/chat/completions)
+ *
+ * Serve para modelos locais (Ollama, llama.cpp server, vLLM, LM Studio)
+ * ou qualquer gateway que fale o mesmo formato.
+ *   LLM_PROVIDER=openai  LLM_BASE_URL=http://localhost:11434/v1  LLM_MODEL=llama3.1
+ */
+
+import type { LlmProvider, LlmRequest } from './types.js';
+
+type ChatCompletionResponse = {
+  choices?: Array<{ message?: { content?: string | null } }>;
+};
+
+export function createOpenAiCompatibleProvider(params: {
+  baseUrl: string;
+  apiKey?: string;
+  model: string;
+}): LlmProvider {
+  const url = `${params.baseUrl.replace(/\/+$/, '')}/chat/completions`;
+
+  return {
+    name: 'openai',
+    model: params.model,
+
+    async complete(request: LlmRequest, signal: AbortSignal): Promise<string> {
+      const messages = [
+        ...(request.system ? [{ role: 'system', content: request.system }] : []),
+        ...request.messages,
+      ];
+
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(params.apiKey ? { Authorization: `Bearer ${params.apiKey}` } : {}),
+        },
+        body: JSON.stringify({
+          model: params.model,
+          max_tokens: request.maxTokens,
+          messages,
+        }),
+        signal,
+      });
+
+      if (!response.ok) {
+        const errText = await response.text();
+        throw new Error(`LLM local erro ${response.status}: ${errText.substring(0, 200)}`);
+      }
+
+      const data = await response.json() as ChatCompletionResponse;
+      const text = data.choices?.[0]?.message?.content;
+      if (!text) {
+        throw new Error('Resposta inesperada do LLM local');
+      }
+      return text;
+    },
+  };
+}
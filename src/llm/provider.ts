@@ -0,0 +1,72 @@
+/**
+ * Seleção do Provedor de LLM + retry/timeout
+ *
+ * Provedores (LLM_PROVIDER):
+ * - anthropic: Claude via SDK oficial (padrão com ANTHROPIC_API_KEY)
+ * - openai:    servidor compatível com OpenAI (modelos locais)
+ * - scripted:  respostas de fixtures, sem rede (padrão sem chave / NODE_ENV=test)
+ */
+
+import { config } from '../config/index.js';
+import { createLogger } from '../lib/logger.js';
+import { createAnthropicProvider } from './anthropic-provider.js';
+import { createOpenAiCompatibleProvider } from './openai-compatible-provider.js';
+import { createScriptedProvider, loadFixtures } from './scripted-provider.js';
+import type { LlmProvider, LlmRequest, LlmResponse } from './types.js';
+
+const logger = createLogger('LLM');
+
+// ============================================================
+// PROVEDOR ATIVO (singleton, trocável em testes e na CLI)
+// ============================================================
+let _provider: LlmProvider | null = null;
+
+function createConfiguredProvider(): LlmProvider {
+  switch (config.llm.provider) {
+    case 'anthropic':
+      return createAnthropicProvider({ apiKey: config.anthropic.apiKey, model: config.llm.model });
+    case 'openai':
+      return createOpenAiCompatibleProvider({
+        baseUrl: config.llm.baseUrl,
+        apiKey: config.llm.apiKey,
+        model: config.llm.model,
+      });
+    case 'scripted':
+      return createScriptedProvider(config.llm.fixturesPath ? loadFixtures(config.llm.fixturesPath) : []);
+  }
+}
+
+export function getLlmProvider(): LlmProvider {
+  if (!_provider) {
+    _provider = createConfiguredProvider();
+    logger.info(`Provedor de LLM: ${_provider.name} (${_provider.model})`);
+  }
+  return _provider;
+}
+
+export function setLlmProvider(provider: LlmProvider): void {
+  _provider = provider;
+}
+
+// ============================================================
+// COMPLETAR TEXTO (timeout por tentativa + backoff 2s, 4s...)
+// ============================================================
+export async function completeText(request: LlmRequest): Promise<LlmResponse> {
+  const provider = getLlmProvider();
+  const retries = request.retries ?? config.llm.maxRetries;
+  const timeoutMs = request.timeoutMs ?? config.llm.timeoutMs;
+
+  for (let attempt = 1; ; attempt++) {
+    const t0 = Date.now();
+    try {
+      const text = await provider.complete(request, AbortSignal.timeout(timeoutMs));
+      const latencyMs = Date.now() - t0;
+      logger.debug(`${provider.name} respondeu (${request.purpose}) em ${latencyMs}ms (tentativa ${attempt})`);
+      return { text: text.trim(), provider: provider.name, model: provider.model, latencyMs };
+    } catch (error) {
+      if (attempt >= retries) throw error;
+      logger.warn(`Tentativa ${attempt}/${retries} falhou (${provider.name}, ${request.purpose})`, error);
+      await new Promise(res => setTimeout(res, attempt * 2000));
+    }
+  }
+}
@@ -0,0 +1,82 @@
+/**
+ * Provedor Roteirizado (fake determinístico, sem rede)
+ *
+ * Reproduz respostas de um arquivo de fixtures para CI, testes e a CLI:
+ *   LLM_PROVIDER=scripted  LLM_FIXTURES=./fixtures/llm/chat-demo.json
+ *
+ * Formato:
+ *   { "responses": [
+ *       { "purpose": "extraction", "match": "energia", "text": "{\"pain_points\": [...]}" },
+ *       { "purpose": "reply", "text": "Que bom falar com você!", "repeat": false }
+ *   ] }
+ *
+ * Cada chamada usa a primeira fixture ainda não consumida cujo `purpose` e
+ * `match` (regex, sem diferenciar maiúsculas, sobre a última mensagem do
+ * usuário) batem. `repeat: true` deixa a fixture ser usada várias vezes.
+ * Sem fixture: respostas genéricas para "reply"; erro nos demais (o chamador
+ * cai no fallback por regras).
+ */
+
+import { readFileSync } from 'node:fs';
+import { z } from 'zod';
+import type { LlmProvider, LlmRequest } from './types.js';
+
+const FixtureSchema = z.object({
+  purpose: z.string().optional(),
+  match: z.string().optional(),
+  text: z.string(),
+  repeat: z.boolean().default(false),
+});
+
+const FixtureFileSchema = z.object({
+  responses: z.array(FixtureSchema),
+});
+
+export type ScriptedFixture = z.input<typeof FixtureSchema>;
+
+const DEFAULT_REPLIES = [
+  'Que bom falar com você! Me conta um pouco da sua rotina hoje?',
+  'Entendi. E o que mais te incomoda nisso tudo?',
+  'Faz sentido. Como isso tem afetado o seu dia a dia?',
+  'Se eu te mostrasse algo simples que pode ajudar, você avaliaria?',
+];
+
+export function loadFixtures(path: string): ScriptedFixture[] {
+  const raw: unknown = JSON.parse(readFileSync(path, 'utf-8'));
+  const parsed = FixtureFileSchema.safeParse(raw);
+  if (!parsed.success) {
+    throw new Error(`Fixtures inválidas em ${path}: ${parsed.error.issues.map(i => i.path.join('.')).join(', ')}`);
+  }
+  return parsed.data.responses;
+}
+
+export function createScriptedProvider(fixtures: ScriptedFixture[] = []): LlmProvider {
+  const script = fixtures.map(f => FixtureSchema.parse(f));
+  const used = new Set<number>();
+  let defaultIndex = 0;
+
+  return {
+    name: 'scripted',
+    model: 'fixtures',
+
+    async complete(request: LlmRequest, _signal: AbortSignal): Promise<string> {
+      const lastUser = [...request.messages].reverse().find(m => m.role === 'user')?.content ?? '';
+
+      const index = script.findIndex((fixture, i) =>
+        (fixture.repeat || !used.has(i)) &&
+        (!fixture.purpose || fixture.purpose === request.purpose) &&
+        (!fixture.match || new RegExp(fixture.match, 'i').test(lastUser))
+      );
+
+      if (index >= 0) {
+        used.add(index);
+        return script[index].text;
+      }
+
+      if (request.purpose === 'reply') {
+        return DEFAULT_REPLIES[defaultIndex++ % DEFAULT_REPLIES.length];
+      }
+      throw new Error(`Sem fixture para "${request.purpose}"`);
+    },
+  };
+}
@@ -0,0 +1,37 @@
+/**
+ * Tipos da Camada de LLM
+ *
+ * Todo o código que conversa com um modelo (resposta SPIN, extração de
+ * contexto, resumo) passa por um LlmProvider — nunca por um SDK direto.
+ */
+
+// Para que a chamada serve (o provedor roteirizado escolhe a fixture por aqui)
+export type LlmPurpose = 'reply' | 'extraction' | 'summary';
+
+export type LlmMessage = {
+  role: 'user' | 'assistant';
+  content: string;
+};
+
+export type LlmRequest = {
+  purpose: LlmPurpose;
+  system?: string;
+  messages: LlmMessage[];
+  maxTokens: number;
+  timeoutMs?: number;   // padrão: config.llm.timeoutMs
+  retries?: number;     // tentativas totais; padrão: config.llm.maxRetries
+};
+
+export type LlmResponse = {
+  text: string;
+  provider: string;
+  model: string;
+  latencyMs: number;
+};
+
+export type LlmProvider = {
+  readonly name: string;
+  readonly model: string;
+  // Uma tentativa só; retry e timeout ficam em completeText (provider.ts)
+  complete(request: LlmRequest, signal: AbortSignal): Promise<string>;
+};
@@ -15,8 +15,7 @@
 import { createLogger } from '../lib/logger.js';
 import { config } from '../config/index.js';
 import { generateAudio } from './elevenlabs-client.js';
-import { sendAudio } from '../channels/whatsapp-client.js';
-import { enqueueSend } from '../safety/rate-limiter.js';
+import { enqueueAudio } from '../safety/outbound-queue.js';
 import { isConfigured } from '../config/index.js';
 
 const logger = createLogger('AUDIO-MSG');
@@ -119,6 +118,10 @@ export async function sendPersonalizedAudio(params: {
   pain?: string;
   streak?: number;
   voiceId?: string;
+  consultantId?: string;
+  notBefore?: Date;        // passos de régua: sai junto com o texto agendado
+  idempotencyKey?: string;
+  meta?: Record<string, unknown>;
 }): Promise<boolean> {
   if (!isConfigured.elevenlabs) {
     logger.warn('ElevenLabs não configurado — pulando envio de áudio');
@@ -153,9 +156,12 @@ export async function sendPersonalizedAudio(params: {
     });
 
     // Enfileirar o envio
-    enqueueSend(params.phone, async () => {
-      await sendAudio(params.phone, audioBuffer);
-      logger.info(`Áudio "${params.type}" enviado para ${params.phone.substring(0, 6)}...`);
+    await enqueueAudio(params.phone, audioBuffer, {
+      kind: `audio_${params.type}`,
+      consultantId: params.consultantId,
+      notBefore: params.notBefore,
+      idempotencyKey: params.idempotencyKey,
+      meta: params.meta,
     });
 
     return true;
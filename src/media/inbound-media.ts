@@ -0,0 +1,169 @@
+/**
+ * Mídia Recebida pelo WhatsApp
+ *
+ * - Áudio: baixado e transcrito (speech-to-text); o texto segue para o motor
+ * - Imagem: guardada no Storage; com projeto ativo vira foto de progresso (+XP)
+ * - Documento: guardado no Storage para o consultor consultar
+ *
+ * Arquivos ficam no bucket `config.media.bucket` em `<lead_id>/<arquivo>`,
+ * com o registro na tabela `lead_media`.
+ */
+
+import { config } from '../config/index.js';
+import { createLogger } from '../lib/logger.js';
+import { db } from '../database/client.js';
+import { awardXP, XP_REWARDS } from '../engine/gamification.js';
+import { downloadMedia, type EvolutionMessage, type InboundMedia } from '../channels/whatsapp-client.js';
+import { transcribeAudio } from './speech-to-text.js';
+import { getProjectTimeZone, localDateString } from '../lib/timezone.js';
+
+const logger = createLogger('INBOUND-MEDIA');
+
+export type StoredMediaResult = {
+  mediaId: string | null;
+  projectId: string | null;
+  progressPhoto: boolean;
+  xpAwarded: number;
+  reply: string | null; // null → o handler decide (legenda vai para o motor)
+};
+
+// ============================================================
+// ÁUDIO → TEXTO
+// null quando a transcrição está desativada ou falhou
+// ============================================================
+export async function transcribeVoiceNote(message: EvolutionMessage): Promise<string | null> {
+  try {
+    const { buffer, mimetype } = await downloadMedia(message);
+    return await transcribeAudio(buffer, mimetype);
+  } catch (error) {
+    logger.error('Erro ao baixar áudio recebido', error);
+    return null;
+  }
+}
+
+export const VOICE_NOTE_FALLBACK_REPLY =
+  'Não consegui ouvir seu áudio agora 🙈 Consegue me escrever rapidinho?';
+
+// ============================================================
+// PROJETO ATIVO DO LEAD (fotos de progresso)
+// ============================================================
+async function findActiveProjectId(leadId: string): Promise<string | null> {
+  const { data } = await db.client
+    .from('client_projects')
+    .select('id')
+    .eq('lead_id', leadId)
+    .eq('status', 'active')
+    .order('start_date', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  return (data as { id: string } | null)?.id ?? null;
+}
+
+function fileExtension(mimetype: string, fileName?: string): string {
+  const fromName = fileName?.match(/\.([a-z0-9]{1,5})$/i)?.[1];
+  if (fromName) return fromName.toLowerCase();
+  const subtype = mimetype.split('/')[1]?.split(';')[0];
+  return subtype === 'jpeg' ? 'jpg' : subtype || 'bin';
+}
+
+// ============================================================
+// GUARDAR IMAGEM / DOCUMENTO
+// ============================================================
+export async function storeInboundFile(params: {
+  leadId: string;
+  consultantId: string;
+  message: EvolutionMessage;
+  media: InboundMedia;
+}): Promise<StoredMediaResult> {
+  const { leadId, consultantId, message, media } = params;
+  const empty: StoredMediaResult = { mediaId: null, projectId: null, progressPhoto: false, xpAwarded: 0, reply: null };
+
+  let file: { buffer: Buffer; mimetype: string };
+  try {
+    file = await downloadMedia(message);
+  } catch (error) {
+    logger.error(`Erro ao baixar ${media.kind} do lead ${leadId}`, error);
+    return empty;
+  }
+
+  if (file.buffer.length > config.media.maxBytes) {
+    logger.warn(`Arquivo de ${file.buffer.length} bytes ignorado (lead ${leadId})`);
+    return empty;
+  }
+
+  const storagePath = `${leadId}/${Date.now()}-${message.key.id}.${fileExtension(file.mimetype, media.fileName)}`;
+  const { error: uploadError } = await db.client.storage
+    .from(config.media.bucket)
+    .upload(storagePath, file.buffer, { contentType: file.mimetype, upsert: false });
+
+  if (uploadError) {
+    logger.error(`Erro ao enviar ${media.kind} para o Storage`, uploadError);
+    return empty;
+  }
+
+  const projectId = await findActiveProjectId(leadId);
+  const progressPhoto = media.kind === 'image' && projectId !== null;
+
+  // Uma foto premiada por dia (no fuso do projeto) — evita farm de XP
+  let xpAwarded = 0;
+  if (progressPhoto && projectId) {
+    try {
+      const today = localDateString(await getProjectTimeZone(projectId));
+      const { applied } = await awardXP(projectId, 'PHOTO_SHARED', 0, {
+        source: 'whatsapp',
+        idempotencyKey: `photo:${today}`,
+      });
+      if (applied) xpAwarded = XP_REWARDS.PHOTO_SHARED;
+    } catch (error) {
+      logger.error(`Erro ao dar XP pela foto (projeto ${projectId})`, error);
+    }
+  }
+
+  const { data } = await db.client
+    .from('lead_media')
+    .insert({
+      lead_id: leadId,
+      consultant_id: consultantId,
+      project_id: projectId,
+      kind: media.kind,
+      purpose: progressPhoto ? 'progress_photo' : 'attachment',
+      storage_path: storagePath,
+      mimetype: file.mimetype,
+      size_bytes: file.buffer.length,
+      file_name: media.fileName ?? null,
+      caption: media.caption ?? null,
+      whatsapp_message_id: message.key.id,
+      xp_awarded: xpAwarded,
+    })
+    .select('id')
+    .single();
+
+  logger.info(`${media.kind} do lead ${leadId} guardado em ${storagePath}${progressPhoto ? ' (foto de progresso)' : ''}`);
+
+  return {
+    mediaId: (data as { id: string } | null)?.id ?? null,
+    projectId,
+    progressPhoto,
+    xpAwarded,
+    reply: buildStoredReply(media, progressPhoto, xpAwarded),
+  };
+}
+
+// ============================================================
+// RESPOSTAS
+// ============================================================
+function buildStoredReply(media: InboundMedia, progressPhoto: boolean, xpAwarded: number): string | null {
+  if (progressPhoto) {
+    return xpAwarded > 0
+      ? `📸 Foto guardada no seu acompanhamento! *+${xpAwarded} XP* ⭐\n\nDaqui a alguns dias a gente compara com essa — a diferença motiva demais!`
+      : '📸 Foto guardada no seu acompanhamento! 💪';
+  }
+
+  // Com legenda, quem responde é o motor de conversação
+  if (media.caption?.trim()) return null;
+
+  return media.kind === 'image'
+    ? 'Recebi sua foto! 😊 Me conta o que você queria me mostrar?'
+    : '📄 Recebi seu arquivo! Vou deixar guardado para o seu consultor dar uma olhada.';
+}
@@ -0,0 +1,130 @@
+/**
+ * Transcrição de Áudio (speech-to-text)
+ *
+ * Notas de voz do lead viram texto e seguem o fluxo normal do motor.
+ *
+ * Provedores (STT_PROVIDER):
+ * - whisper-cpp: servidor local do whisper.cpp (`whisper-server --convert`), POST /inference
+ * - openai:      endpoint compatível com OpenAI, POST /audio/transcriptions
+ * - none:        sem transcrição (o bot pede para o lead escrever)
+ */
+
+import { config } from '../config/index.js';
+import { createLogger } from '../lib/logger.js';
+
+const logger = createLogger('STT');
+
+// ============================================================
+// INTERFACE DO PROVEDOR
+// ============================================================
+export type SpeechToTextProvider = {
+  name: string;
+  transcribe(audio: Buffer, mimetype: string, signal: AbortSignal): Promise<string>;
+};
+
+function audioForm(audio: Buffer, mimetype: string): FormData {
+  const extension = mimetype.includes('ogg') ? 'ogg' : mimetype.includes('mpeg') ? 'mp3' : 'audio';
+  const form = new FormData();
+  form.append('file', new Blob([new Uint8Array(audio)], { type: mimetype }), `voice.${extension}`);
+  return form;
+}
+
+async function postForm(url: string, form: FormData, signal: AbortSignal, apiKey?: string): Promise<string> {
+  const res = await fetch(url, {
+    method: 'POST',
+    headers: apiKey ? { Authorization: `Bearer ${apiKey}` } : undefined,
+    body: form,
+    signal,
+  });
+
+  if (!res.ok) {
+    throw new Error(`STT [${res.status}]: ${await res.text()}`);
+  }
+
+  const data = await res.json() as { text?: string };
+  return data.text ?? '';
+}
+
+// ============================================================
+// WHISPER.CPP (servidor local)
+// ============================================================
+export function createWhisperCppProvider(params: { baseUrl: string }): SpeechToTextProvider {
+  return {
+    name: 'whisper-cpp',
+    async transcribe(audio, mimetype, signal) {
+      const form = audioForm(audio, mimetype);
+      form.append('response_format', 'json');
+      form.append('language', 'pt');
+      return postForm(`${params.baseUrl}/inference`, form, signal);
+    },
+  };
+}
+
+// ============================================================
+// COMPATÍVEL COM OPENAI (/audio/transcriptions)
+// ============================================================
+export function createOpenAiSttProvider(params: {
+  baseUrl: string;
+  apiKey?: string;
+  model: string;
+}): SpeechToTextProvider {
+  return {
+    name: 'openai',
+    async transcribe(audio, mimetype, signal) {
+      const form = audioForm(audio, mimetype);
+      form.append('model', params.model);
+      form.append('language', 'pt');
+      return postForm(`${params.baseUrl}/audio/transcriptions`, form, signal, params.apiKey);
+    },
+  };
+}
+
+// ============================================================
+// PROVEDOR ATIVO (singleton, trocável em testes)
+// ============================================================
+let _provider: SpeechToTextProvider | null | undefined;
+
+function createConfiguredProvider(): SpeechToTextProvider | null {
+  switch (config.stt.provider) {
+    case 'whisper-cpp':
+      return createWhisperCppProvider({ baseUrl: config.stt.baseUrl });
+    case 'openai':
+      return createOpenAiSttProvider({
+        baseUrl: config.stt.baseUrl,
+        apiKey: config.stt.apiKey,
+        model: config.stt.model,
+      });
+    case 'none':
+      return null;
+  }
+}
+
+export function getSpeechToTextProvider(): SpeechToTextProvider | null {
+  if (_provider === undefined) {
+    _provider = createConfiguredProvider();
+    logger.info(`Transcrição de áudio: ${_provider?.name ?? 'desativada'}`);
+  }
+  return _provider;
+}
+
+export function setSpeechToTextProvider(provider: SpeechToTextProvider | null): void {
+  _provider = provider;
+}
+
+// ============================================================
+// TRANSCREVER (null quando desativado, falhou ou veio vazio)
+// ============================================================
+export async function transcribeAudio(audio: Buffer, mimetype: string): Promise<string | null> {
+  const provider = getSpeechToTextProvider();
+  if (!provider) return null;
+
+  const t0 = Date.now();
+  try {
+    const text = (await provider.transcribe(audio, mimetype, AbortSignal.timeout(config.stt.timeoutMs))).trim();
+    logger.debug(`${provider.name} transcreveu ${audio.length} bytes em ${Date.now() - t0}ms`);
+    return text.length > 0 ? text : null;
+  } catch (error) {
+    logger.error(`Falha ao transcrever áudio (${provider.name})`, error);
+    return null;
+  }
+}
@@ -14,6 +14,7 @@ import { createLogger } from '../lib/logger.js';
 import { analyzeText, type SocialPlatform } from './social-listener.js';
 import { enqueueProspect } from './prospect-queue.js';
 import { db } from '../database/client.js';
+import { attributeReferral, extractReferralCode } from '../pipeline/referrals.js';
 
 const logger = createLogger('IG-WEBHOOK');
 
@@ -183,6 +184,58 @@ export async function handleInstagramWebhook(
   }
 }
 
+// ============================================================
+// INDICAÇÃO VIA MANYCHAT
+// Código no texto ou no campo personalizado `referral_code`.
+// O lead é criado já aqui para a indicação ficar registrada
+// (com o telefone do campo `phone`, quando o fluxo pede)
+// ============================================================
+async function attributeManyChatReferral(
+  payload: ManyChatWebhookPayload,
+  consultantId: string,
+  name: string
+): Promise<boolean> {
+  const referralText = [payload.last_input_text, payload.custom_fields?.referral_code].filter(Boolean).join(' ');
+  if (!extractReferralCode(referralText)) return false;
+
+  const phone = String(payload.custom_fields?.phone ?? '').replace(/\D/g, '') || null;
+  const { data: existing } = await db.client
+    .from('leads')
+    .select('id')
+    .eq('consultant_id', consultantId)
+    .eq('platform', 'manychat')
+    .eq('username', payload.user_id)
+    .maybeSingle();
+
+  let leadId = (existing as { id: string } | null)?.id;
+  if (!leadId && phone) {
+    // Mesmo número em outro consultor é outro lead
+    const { data: byPhone } = await db.client
+      .from('leads')
+      .select('id')
+      .eq('consultant_id', consultantId)
+      .eq('phone', phone)
+      .limit(1)
+      .maybeSingle();
+    leadId = (byPhone as { id: string } | null)?.id;
+  }
+  if (!leadId) {
+    const lead = await db.leads.create({
+      consultant_id: consultantId,
+      platform: 'manychat',
+      username: payload.user_id,
+      full_name: name || null,
+      phone,
+      source_context: payload.last_input_text ?? null,
+      profile_url: null,
+    });
+    leadId = lead.id;
+  }
+
+  const referrerProjectId = await attributeReferral({ leadId, consultantId, text: referralText, channel: 'manychat' });
+  return referrerProjectId !== null;
+}
+
 // ============================================================
 // PROCESSADOR: MANYCHAT
 // ============================================================
@@ -219,6 +272,21 @@ export async function handleManyChatWebhook(
     };
   }
 
+  // Indicado por um cliente: entra como quente
+  if (await attributeManyChatReferral(payload, consultantId, name)) {
+    signal = {
+      platform: 'manychat' as SocialPlatform,
+      profileId: payload.user_id,
+      profileName: name || undefined,
+      messageText: text || 'Indicação de cliente via ManyChat',
+      detectedAt: new Date(),
+      ...signal,
+      priority: 'hot',
+      intentScore: signal?.intentScore ?? { productScore: 60, businessScore: 10, urgencyScore: 30, total: 70 },
+      matchedKeywords: [...(signal?.matchedKeywords ?? []), 'indicacao'],
+    };
+  }
+
   if (!signal) return;
 
   await enqueueProspect({ consultantId, signal });
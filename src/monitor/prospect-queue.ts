@@ -9,7 +9,9 @@
 import { createLogger } from '../lib/logger.js';
 import { db } from '../database/client.js';
 import { sendText } from '../channels/whatsapp-client.js';
-import { enqueueSend, isWithinAllowedHours } from '../safety/rate-limiter.js';
+import { isWithinAllowedHours } from '../safety/rate-limiter.js';
+import { enqueueText, onOutboundSent } from '../safety/outbound-queue.js';
+import { getConsultantTimeZone } from '../lib/timezone.js';
 import { type SocialSignal } from './social-listener.js';
 
 const logger = createLogger('PROSPECT-QUEUE');
@@ -290,7 +292,7 @@ export async function approachProspect(params: {
   prospectPhone: string;
   prospectName?: string;
 }): Promise<boolean> {
-  if (!isWithinAllowedHours()) {
+  if (!isWithinAllowedHours(await getConsultantTimeZone(params.consultantId))) {
     logger.warn('Abordagem bloqueada: fora do horário permitido');
     return false;
   }
@@ -318,15 +320,23 @@ export async function approachProspect(params: {
     contactedPhone: params.prospectPhone,
   });
 
-  enqueueSend(params.prospectPhone, async () => {
-    await sendText(params.prospectPhone, message);
-    await updateProspectStatus(params.consultantId, params.prospectId, 'contacted');
-    logger.info(`Abordagem enviada para ${params.prospectPhone.substring(0, 6)}... (prospect: @${entry.signal.profileId})`);
+  await enqueueText(params.prospectPhone, message, {
+    kind: 'prospect_approach',
+    consultantId: params.consultantId,
+    idempotencyKey: `prospect:${params.consultantId}:${params.prospectId}`,
+    meta: { consultantId: params.consultantId, prospectId: params.prospectId, profileId: entry.signal.profileId },
   });
 
   return true;
 }
 
+// O prospect só vira 'contacted' quando a abordagem sai de fato
+onOutboundSent('prospect_approach', async (message) => {
+  const meta = message.meta as { consultantId: string; prospectId: string; profileId: string };
+  await updateProspectStatus(meta.consultantId, meta.prospectId, 'contacted');
+  logger.info(`Abordagem enviada para ${message.phone.substring(0, 6)}... (prospect: @${meta.profileId})`);
+});
+
 // ============================================================
 // NOTIFICAR CONSULTOR SOBRE PROSPECTS NA FILA
 // (Para HOT leads que ainda não têm telefone capturado)
@@ -7,8 +7,15 @@
 
 import { createLogger } from '../lib/logger.js';
 import { db } from '../database/client.js';
-import { sendText } from '../channels/whatsapp-client.js';
-import { enqueueSend } from '../safety/rate-limiter.js';
+import {
+  getConsultantTimeZone,
+  resolveTimeZone,
+  localDateString,
+  localHour,
+  localWeekday,
+  daysSince,
+} from '../lib/timezone.js';
+import { enqueueText } from '../safety/outbound-queue.js';
 
 const logger = createLogger('GROUPS');
 
@@ -61,7 +68,7 @@ export async function createChallengeGroup(params: {
   challengeDays?: number;
   whatsappGroupLink?: string;
 }): Promise<string> {
-  const startDate = new Date().toISOString().split('T')[0];
+  const startDate = localDateString(await getConsultantTimeZone(params.consultantId));
 
   const { data, error } = await db.client
     .from('challenge_groups')
@@ -130,10 +137,7 @@ export async function broadcastToGroup(
     const lead = member.client_projects?.leads;
     if (!lead?.phone) continue;
 
-    const phone = lead.phone;
-    enqueueSend(phone, async () => {
-      await sendText(phone, message);
-    });
+    await enqueueText(lead.phone, message, { kind: 'group_broadcast' });
     sent++;
   }
 
@@ -221,24 +225,32 @@ export async function celebrateMilestone(params: {
 // ============================================================
 // SCHEDULER: PROCESSAR TODOS OS GRUPOS ATIVOS
 // ============================================================
-export async function processActiveGroups(): Promise<void> {
+export async function processActiveGroups(): Promise<number> {
   const { data: groups } = await db.client
     .from('challenge_groups')
-    .select('id, name, start_date, challenge_days')
+    .select('id, name, start_date, challenge_days, consultants(timezone)')
     .eq('status', 'active');
 
-  if (!groups?.length) return;
+  if (!groups?.length) return 0;
 
   const now = new Date();
-  const isEvening = now.getHours() >= 20;
-  const isMorning = now.getHours() === 8;
-  const isMonday = now.getDay() === 1;
 
-  type GroupRow = { id: string; name: string; start_date: string; challenge_days: number };
+  type GroupRow = {
+    id: string;
+    name: string;
+    start_date: string;
+    challenge_days: number;
+    consultants: { timezone: string | null } | null;
+  };
 
   for (const group of (groups as unknown) as GroupRow[]) {
-    const startDate = new Date(group.start_date);
-    const day = Math.floor((now.getTime() - startDate.getTime()) / (24 * 60 * 60 * 1000)) + 1;
+    // Dia do desafio, manhã/noite e segunda-feira no fuso do consultor do grupo
+    const timeZone = resolveTimeZone(group.consultants?.timezone);
+    const hour = localHour(timeZone, now);
+    const isEvening = hour >= 20;
+    const isMorning = hour === 8;
+    const isMonday = localWeekday(timeZone, now) === 1;
+    const day = daysSince(group.start_date, timeZone, now) + 1;
 
     // Encerrar grupos que passaram do prazo
     if (day > group.challenge_days) {
@@ -257,4 +269,6 @@ export async function processActiveGroups(): Promise<void> {
     if (isEvening) await sendEveningMessage(group.id, day);
     if (isMonday && isMorning) await sendWeeklyRanking(group.id);
   }
+
+  return groups.length;
 }
@@ -5,8 +5,13 @@
  * RÉGUA 2: Acompanhamento de 30 dias pós-compra (cliente ativo)
  */
 
+import { config } from '../config/index.js';
 import { createLogger } from '../lib/logger.js';
+import { daysSince } from '../lib/timezone.js';
 import { varyText, TEXT_VARIATIONS } from '../safety/rate-limiter.js';
+import { renderTemplate } from '../engine/playbook.js';
+import type { AudioType } from '../media/audio-messages.js';
+import type { SequenceCondition } from './sequences.js';
 
 const logger = createLogger('SEQUENCES');
 
@@ -15,8 +20,9 @@ const logger = createLogger('SEQUENCES');
 // ============================================================
 export type FollowupMessage = {
   dayOffset: number;          // dias após o evento inicial
-  hourOfDay: number;          // hora ideal de envio (0-23)
-  condition?: string;         // condição para enviar
+  hourOfDay: number;          // hora ideal de envio (0-23, no fuso do destinatário)
+  condition?: SequenceCondition; // só envia se verdadeira (ver sequences.ts)
+  audio?: AudioType;          // áudio personalizado logo depois do texto
   getText: (params: SequenceParams) => string;
 };
 
@@ -29,6 +35,8 @@ export type SequenceParams = {
   streak?: number;
   daysLeft?: number;
   weightLost?: number;
+  weeklyRateKg?: number;     // ritmo saudável de perda (acima do limite de segurança não vai)
+  goalDate?: string;         // 'dd/mm' — data prevista para a meta
   groupName?: string;
 };
 
@@ -163,13 +171,15 @@ export const POSTPURCHASE_SEQUENCE: FollowupMessage[] = [
   {
     dayOffset: 14,
     hourOfDay: 9,
-    getText: ({ name, weightLost }) => {
+    getText: ({ name, weightLost, weeklyRateKg, goalDate }) => {
       const firstName = name?.split(' ')[0] ?? 'você';
       const kg = weightLost ? `Você perdeu ${weightLost}kg! ` : '';
       return [
         `🏅 *${firstName}, 2 SEMANAS!* Você está arrasando!`,
         ``,
         `${kg}Sua consistência está valendo cada dia.`,
+        ...(weeklyRateKg ? [`Seu ritmo: ${weeklyRateKg}kg por semana — no caminho certo e saudável.`] : []),
+        ...(goalDate ? [`Nesse ritmo, você chega na sua meta por volta de *${goalDate}* 🎯`] : []),
         ``,
         `Chegou a hora da foto de acompanhamento — ela vai te motivar MUITO`,
         `quando olhar daqui a 2 semanas.`,
@@ -201,7 +211,7 @@ export const POSTPURCHASE_SEQUENCE: FollowupMessage[] = [
   {
     dayOffset: 25,
     hourOfDay: 11,
-    condition: 'pre_reorder',
+    condition: { field: 'reorderConfirmed', op: 'eq', value: false },
     getText: ({ name, product }) => {
       const firstName = name?.split(' ')[0] ?? 'você';
       return [
@@ -219,7 +229,7 @@ export const POSTPURCHASE_SEQUENCE: FollowupMessage[] = [
   {
     dayOffset: 28,
     hourOfDay: 10,
-    condition: 'reorder_not_confirmed',
+    condition: { field: 'reorderConfirmed', op: 'eq', value: false },
     getText: ({ name }) => {
       const firstName = name?.split(' ')[0] ?? 'você';
       return [
@@ -234,7 +244,7 @@ export const POSTPURCHASE_SEQUENCE: FollowupMessage[] = [
   {
     dayOffset: 30,
     hourOfDay: 9,
-    getText: ({ name, weightLost, streak }) => {
+    getText: ({ name, weightLost, streak, goalDate }) => {
       const firstName = name?.split(' ')[0] ?? 'você';
       const kg = weightLost ? `, perdeu ${weightLost}kg` : '';
       const days = streak ?? 30;
@@ -243,6 +253,7 @@ export const POSTPURCHASE_SEQUENCE: FollowupMessage[] = [
         ``,
         `Você fez parte do 1% que chega até aqui${kg}.`,
         `${days} dias de streak — você é INCRÍVEL!`,
+        ...(goalDate ? [`No ritmo de agora, sua meta chega por volta de *${goalDate}* 🎯`] : []),
         ``,
         `Ganhei o badge mais especial: 👑 *"Embaixadora da Saúde"*`,
         ``,
@@ -256,31 +267,35 @@ export const POSTPURCHASE_SEQUENCE: FollowupMessage[] = [
 ];
 
 // ============================================================
-// HELPER: CALCULAR MENSAGENS PENDENTES PARA HOJE
+// HELPER: TEXTO DE VARIANTE A/B (template com {{name}}, {{pain}}, {{product}}...)
 // ============================================================
-export function getMessagesForToday(
-  sequenceType: 'followup' | 'postpurchase',
-  startDate: Date,
-  sentDays: number[]
+export function renderSequenceVariant(content: string, params: SequenceParams): string {
+  return renderTemplate(content, { ...params, name: params.name?.split(' ')[0] ?? 'você' });
+}
+
+// ============================================================
+// HELPER: MENSAGENS CUJO DIA JÁ CHEGOU (e ainda não agendadas)
+// Dias de calendário no fuso do lead/cliente. A hora exata de envio
+// vem de computeSendTime (send-time.ts) e vai para a fila de envio.
+// ============================================================
+export function getDueMessages(
+  sequenceType: 'followup' | 'postpurchase' | FollowupMessage[], // ou os passos da régua do consultor
+  startDate: string | Date,
+  sentDays: number[],
+  timeZone: string = config.timezone,
+  now: Date = new Date()
 ): FollowupMessage[] {
-  const sequence = sequenceType === 'followup'
-    ? FOLLOWUP_SEQUENCE
-    : POSTPURCHASE_SEQUENCE;
+  const sequence = Array.isArray(sequenceType)
+    ? sequenceType
+    : sequenceType === 'followup' ? FOLLOWUP_SEQUENCE : POSTPURCHASE_SEQUENCE;
 
-  const now = new Date();
-  const msPerDay = 24 * 60 * 60 * 1000;
-  const daysSinceStart = Math.floor((now.getTime() - startDate.getTime()) / msPerDay);
+  const daysSinceStart = daysSince(startDate, timeZone, now);
 
   return sequence.filter(msg => {
-    // Já foi enviada?
+    // Já foi agendada/enviada?
     if (sentDays.includes(msg.dayOffset)) return false;
     // Está no dia certo (ou atrasada, mas não adiantada)?
-    if (msg.dayOffset > daysSinceStart) return false;
-    // É a hora certa?
-    const currentHour = now.getHours();
-    if (currentHour < msg.hourOfDay) return false;
-
-    return true;
+    return msg.dayOffset <= daysSinceStart;
   });
 }
 
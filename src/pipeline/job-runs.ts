@@ -0,0 +1,150 @@
+/**
+ * Histórico e Lock das Execuções do Scheduler (job_runs)
+ *
+ * Cada execução esperada de um job tem um slot (ex: '2025-03-01@08h').
+ * Antes de rodar, a instância cria a linha do slot via claim_job_run:
+ * se outra instância já criou, não roda — com 2+ instâncias no Render,
+ * relatórios, check-ins e follow-ups saem uma vez só.
+ *
+ * A linha guarda início, fim, status, itens processados e erro.
+ */
+
+import os from 'node:os';
+import { config } from '../config/index.js';
+import { createLogger } from '../lib/logger.js';
+import { db } from '../database/client.js';
+
+const logger = createLogger('JOB-RUNS');
+
+const INSTANCE = `${os.hostname()}:${process.pid}`;
+
+export type JobTrigger = 'schedule' | 'catch_up' | 'manual';
+export type JobRunStatus = 'running' | 'success' | 'failed';
+
+export type JobRun = {
+  id: string;
+  job_name: string;
+  slot: string;
+  triggered_by: JobTrigger;
+  status: JobRunStatus;
+  instance: string | null;
+  started_at: string;
+  finished_at: string | null;
+  items_processed: number | null;
+  error: string | null;
+};
+
+// Retorno do job: quantidade de itens processados (quando faz sentido)
+export type RunnableJob = { name: string; run: () => Promise<number | void> };
+
+// ============================================================
+// LOCK (claim do slot)
+// ============================================================
+async function claimJobRun(jobName: string, slot: string, trigger: JobTrigger): Promise<string | null> {
+  const { data, error } = await db.client.rpc('claim_job_run', {
+    p_job_name: jobName,
+    p_slot: slot,
+    p_triggered_by: trigger,
+    p_instance: INSTANCE,
+    p_stale_minutes: config.scheduler.staleRunMinutes,
+  });
+  if (error) throw new Error(`Erro ao reservar execução de ${jobName} (${slot}): ${error.message}`);
+  return (data as string | null) ?? null;
+}
+
+async function finishJobRun(
+  runId: string,
+  status: Exclude<JobRunStatus, 'running'>,
+  itemsProcessed: number | null,
+  errorMessage: string | null
+): Promise<void> {
+  const { error } = await db.client
+    .from('job_runs')
+    .update({
+      status,
+      finished_at: new Date().toISOString(),
+      items_processed: itemsProcessed,
+      error: errorMessage,
+    })
+    .eq('id', runId);
+  if (error) logger.error(`Erro ao registrar fim da execução ${runId}: ${error.message}`);
+}
+
+// ============================================================
+// EXECUTAR
+// ============================================================
+async function execute(runId: string, job: RunnableJob, trigger: JobTrigger): Promise<void> {
+  const startedAt = Date.now();
+  logger.info(`[JOB ${job.name}] iniciado (${trigger})`);
+
+  try {
+    const items = await job.run();
+    await finishJobRun(runId, 'success', typeof items === 'number' ? items : null, null);
+    logger.info(`[JOB ${job.name}] concluído em ${Math.round((Date.now() - startedAt) / 1000)}s${typeof items === 'number' ? ` — ${items} itens` : ''}`);
+  } catch (error) {
+    const message = (error instanceof Error ? error.message : String(error)).substring(0, 1000);
+    await finishJobRun(runId, 'failed', null, message);
+    logger.error(`[JOB ${job.name}] falhou`, error);
+  }
+}
+
+// Roda o job no slot se nenhuma outra instância já pegou. Retorna se rodou.
+export async function runJobInSlot(job: RunnableJob, slot: string, trigger: JobTrigger): Promise<boolean> {
+  const runId = await claimJobRun(job.name, slot, trigger);
+  if (!runId) {
+    logger.debug(`[JOB ${job.name}] slot ${slot} já executado ou em execução em outra instância`);
+    return false;
+  }
+
+  await execute(runId, job, trigger);
+  return true;
+}
+
+// Disparo manual (dashboard): não espera o job terminar.
+// null se já existe uma execução em andamento.
+export async function startManualRun(job: RunnableJob): Promise<string | null> {
+  const staleBefore = new Date(Date.now() - config.scheduler.staleRunMinutes * 60 * 1000).toISOString();
+  const { data: running } = await db.client
+    .from('job_runs')
+    .select('id')
+    .eq('job_name', job.name)
+    .eq('status', 'running')
+    .gt('started_at', staleBefore)
+    .limit(1);
+  if (running?.length) return null;
+
+  const runId = await claimJobRun(job.name, `manual:${new Date().toISOString()}`, 'manual');
+  if (!runId) return null;
+
+  void execute(runId, job, 'manual');
+  return runId;
+}
+
+// ============================================================
+// CONSULTAS
+// ============================================================
+export async function hasJobHistory(jobName: string): Promise<boolean> {
+  const { count } = await db.client
+    .from('job_runs')
+    .select('id', { count: 'exact', head: true })
+    .eq('job_name', jobName);
+  return (count ?? 0) > 0;
+}
+
+export async function listJobRuns(filter: {
+  jobName?: string;
+  status?: JobRunStatus;
+  limit?: number;
+}): Promise<JobRun[]> {
+  let query = db.client
+    .from('job_runs')
+    .select('id, job_name, slot, triggered_by, status, instance, started_at, finished_at, items_processed, error')
+    .order('started_at', { ascending: false })
+    .limit(filter.limit ?? 50);
+  if (filter.jobName) query = query.eq('job_name', filter.jobName);
+  if (filter.status) query = query.eq('status', filter.status);
+
+  const { data, error } = await query;
+  if (error) throw new Error(`Erro ao listar execuções: ${error.message}`);
+  return (data ?? []) as JobRun[];
+}
@@ -6,14 +6,18 @@
 
 import { createLogger } from '../lib/logger.js';
 import { db } from '../database/client.js';
-import { sendText } from '../channels/whatsapp-client.js';
-import { enqueueSend } from '../safety/rate-limiter.js';
+import { getConsultantTimeZone, localDateString, addDays } from '../lib/timezone.js';
+import { enqueueText } from '../safety/outbound-queue.js';
 import type { ClientProject } from '../database/client.js';
+import { recordExperimentOutcome } from '../engine/experiments.js';
+import { getOrCreateReferralCode, completeReferral } from './referrals.js';
+import { exitEnrollments } from './sequence-enrollments.js';
 
 const logger = createLogger('PROJECTS');
 
 // ============================================================
 // KITS DE PRODUTOS HERBALIFE (catálogo simplificado)
+// checkinTemplate: itens do check-in diário (engine/checkin-templates.ts)
 // ============================================================
 export const PRODUCT_KITS = {
   WEIGHT_LOSS_BASIC: {
@@ -22,6 +26,7 @@ export const PRODUCT_KITS = {
     description: 'Formula 1 + Herbal Tea + Aloe',
     durationDays: 30,
     goalType: 'weight_loss' as const,
+    checkinTemplate: 'weight_loss',
   },
   WEIGHT_LOSS_COMPLETE: {
     id: 'weight_loss_complete',
@@ -29,6 +34,7 @@ export const PRODUCT_KITS = {
     description: 'Formula 1 + Proteína + Herbal Tea + Aloe + Vitaminas',
     durationDays: 30,
     goalType: 'weight_loss' as const,
+    checkinTemplate: 'weight_loss',
   },
   ENERGY: {
     id: 'energy',
@@ -36,6 +42,7 @@ export const PRODUCT_KITS = {
     description: 'Herbal Tea + Formula 1 + Vitaminas',
     durationDays: 30,
     goalType: 'energy' as const,
+    checkinTemplate: 'energy',
   },
   PERFORMANCE: {
     id: 'performance',
@@ -43,6 +50,7 @@ export const PRODUCT_KITS = {
     description: 'H24 Rebuild + CR7 Drive + Formula 1 Pro',
     durationDays: 30,
     goalType: 'performance' as const,
+    checkinTemplate: 'performance',
   },
 } as const;
 
@@ -64,9 +72,9 @@ export async function createClientProject(params: {
 }): Promise<ClientProject> {
   const kit = PRODUCT_KITS[params.kitId];
 
-  // Calcular data alvo (30 dias por padrão)
-  const startDate = new Date();
-  const targetDate = new Date(startDate.getTime() + kit.durationDays * 24 * 60 * 60 * 1000);
+  // Calcular data alvo (30 dias por padrão), contando do dia local do consultor
+  const startDate = localDateString(await getConsultantTimeZone(params.consultantId));
+  const targetDate = addDays(startDate, kit.durationDays);
 
   // Criar projeto no banco
   const { data: project, error } = await db.client
@@ -77,11 +85,12 @@ export async function createClientProject(params: {
       product_kit: kit.name,
       goal_description: params.goalDescription,
       goal_type: kit.goalType,
+      checkin_template_id: kit.checkinTemplate,
       start_weight_kg: params.startWeightKg ?? null,
       current_weight_kg: params.startWeightKg ?? null,
       target_weight_kg: params.targetWeightKg ?? null,
-      start_date: startDate.toISOString().split('T')[0],
-      target_date: targetDate.toISOString().split('T')[0],
+      start_date: startDate,
+      target_date: targetDate,
       status: 'active',
       notes: JSON.stringify({ postpurchase_sent_days: [] }),
     })
@@ -104,9 +113,26 @@ export async function createClientProject(params: {
     checkin_count_total: 0,
     checkin_count_30d: 0,
     last_checkin_at: null,
-    badges: [],
   });
 
+  // Lead virou cliente: fecha a conversa como convertida
+  await db.client
+    .from('conversations')
+    .update({ status: 'converted', converted_at: new Date().toISOString() })
+    .eq('lead_id', params.leadId)
+    .is('converted_at', null);
+  await exitEnrollments(params.leadId, 'converted');
+
+  await recordExperimentOutcome(params.leadId, 'converted');
+
+  // Código de indicação do novo cliente + crédito para quem o indicou
+  try {
+    await getOrCreateReferralCode(clientProject.id);
+    await completeReferral(params.leadId, clientProject.id);
+  } catch (error) {
+    logger.error(`Erro ao processar indicação do projeto ${clientProject.id}`, error);
+  }
+
   logger.info(`Projeto criado para lead ${params.leadId}: ${kit.name}`);
 
   // Enviar mensagem de boas-vindas ao projeto
@@ -114,11 +140,13 @@ export async function createClientProject(params: {
     name: params.leadName,
     kitName: kit.name,
     goalDescription: params.goalDescription,
-    targetDate: targetDate.toLocaleDateString('pt-BR'),
+    targetDate: targetDate.split('-').reverse().join('/'),
   });
 
-  enqueueSend(params.leadPhone, async () => {
-    await sendText(params.leadPhone, welcomeMsg);
+  await enqueueText(params.leadPhone, welcomeMsg, {
+    kind: 'welcome',
+    consultantId: params.consultantId,
+    idempotencyKey: `welcome:${clientProject.id}`,
   });
 
   return clientProject;
@@ -166,6 +194,17 @@ function buildWelcomeMessage(params: {
 // ============================================================
 // BUSCAR PROJETO ATIVO DE UM LEAD
 // ============================================================
+export async function projectBelongsTo(projectId: string, consultantId: string): Promise<boolean> {
+  const { data } = await db.client
+    .from('client_projects')
+    .select('id')
+    .eq('id', projectId)
+    .eq('consultant_id', consultantId)
+    .maybeSingle();
+
+  return !!data;
+}
+
 export async function getActiveProject(leadId: string): Promise<ClientProject | null> {
   const { data } = await db.client
     .from('client_projects')
@@ -0,0 +1,265 @@
+/**
+ * Programa de Indicação
+ *
+ * - Cada cliente (client_project) tem um código pessoal (ex: ANA-7K2Q)
+ *   e um link wa.me para o WhatsApp do consultor já com o código no texto
+ * - Lead novo que chega pelo WhatsApp ou ManyChat com o código fica
+ *   atribuído ao cliente que indicou (tabela referrals, status 'pending')
+ * - Quando o indicado vira client_project: status 'converted',
+ *   +XP_REWARDS.REFERRAL para quem indicou e progresso nos badges
+ *   living_example (1 indicação) e health_ambassador (3)
+ */
+
+import { createLogger } from '../lib/logger.js';
+import { db } from '../database/client.js';
+import { enqueueText } from '../safety/outbound-queue.js';
+import { awardXP, refreshBadges, XP_REWARDS } from '../engine/gamification.js';
+
+const logger = createLogger('REFERRALS');
+
+export type ReferralChannel = 'whatsapp' | 'manychat';
+
+export type ReferralStats = {
+  total: number;
+  pending: number;
+  converted: number;
+};
+
+export type ConsultantReferralStats = ReferralStats & {
+  topReferrers: Array<{ projectId: string; leadName: string; converted: number }>;
+};
+
+// Código no texto: 2–6 letras, hífen, 4 letras/dígitos (ANA-7K2Q)
+const CODE_PATTERN = /\b([A-Z]{2,6}-[A-Z0-9]{4})\b/i;
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789'; // sem 0/O/1/I
+
+// ============================================================
+// CÓDIGO PESSOAL
+// ============================================================
+function generateCode(name?: string | null): string {
+  const prefix = (name ?? '')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-zA-Z]/g, '')
+    .slice(0, 6)
+    .toUpperCase();
+  const suffix = Array.from({ length: 4 }, () => CODE_ALPHABET[Math.floor(Math.random() * CODE_ALPHABET.length)]).join('');
+  return `${prefix.length >= 2 ? prefix : 'PEL'}-${suffix}`;
+}
+
+export function extractReferralCode(text: string | null | undefined): string | null {
+  return text?.match(CODE_PATTERN)?.[1].toUpperCase() ?? null;
+}
+
+export function buildReferralLink(consultantPhone: string, code: string): string {
+  const text = `Oi! Vim pela indicação de um amigo (código ${code}) e quero saber mais 😊`;
+  return `https://wa.me/${consultantPhone.replace(/\D/g, '')}?text=${encodeURIComponent(text)}`;
+}
+
+// Código do projeto, gerado na primeira vez (projetos antigos não têm)
+export async function getOrCreateReferralCode(projectId: string): Promise<string | null> {
+  const { data } = await db.client
+    .from('client_projects')
+    .select('referral_code, leads(full_name)')
+    .eq('id', projectId)
+    .maybeSingle();
+
+  const project = data as unknown as { referral_code: string | null; leads: { full_name: string | null } | null } | null;
+  if (!project) return null;
+  if (project.referral_code) return project.referral_code;
+
+  // Colisão é rara; tenta de novo se o unique do banco recusar
+  for (let attempt = 0; attempt < 3; attempt++) {
+    const code = generateCode(project.leads?.full_name);
+    const { data: updated, error } = await db.client
+      .from('client_projects')
+      .update({ referral_code: code })
+      .eq('id', projectId)
+      .is('referral_code', null)
+      .select('referral_code')
+      .maybeSingle();
+    if (error) continue;
+    if (updated) return (updated as { referral_code: string }).referral_code;
+
+    // Nenhuma linha atualizada: outra chamada gravou o código antes — vale o que está no banco
+    const { data: stored } = await db.client
+      .from('client_projects')
+      .select('referral_code')
+      .eq('id', projectId)
+      .maybeSingle();
+    return (stored as { referral_code: string | null } | null)?.referral_code ?? null;
+  }
+
+  logger.error(`Não foi possível gerar código de indicação para o projeto ${projectId}`);
+  return null;
+}
+
+// ============================================================
+// ATRIBUIR LEAD NOVO A QUEM INDICOU
+// ============================================================
+export async function attributeReferral(params: {
+  leadId: string;
+  consultantId: string;
+  text: string | null | undefined;
+  channel: ReferralChannel;
+}): Promise<string | null> {
+  const code = extractReferralCode(params.text);
+  if (!code) return null;
+
+  const { data } = await db.client
+    .from('client_projects')
+    .select('id, lead_id')
+    .eq('referral_code', code)
+    .eq('consultant_id', params.consultantId)
+    .maybeSingle();
+
+  const referrer = data as { id: string; lead_id: string } | null;
+  if (!referrer) {
+    logger.debug(`Código de indicação desconhecido: ${code}`);
+    return null;
+  }
+  if (referrer.lead_id === params.leadId) return null; // autoindicação
+
+  // referee_lead_id é unique: só a primeira indicação vale
+  const { error } = await db.client.from('referrals').insert({
+    consultant_id: params.consultantId,
+    referrer_project_id: referrer.id,
+    referee_lead_id: params.leadId,
+    code,
+    channel: params.channel,
+    status: 'pending',
+  });
+
+  if (error) {
+    logger.debug(`Indicação não registrada para lead ${params.leadId}: ${error.message}`);
+    return null;
+  }
+
+  logger.info(`Lead ${params.leadId} indicado pelo projeto ${referrer.id} (${code}, ${params.channel})`);
+  return referrer.id;
+}
+
+// ============================================================
+// INDICADO VIROU CLIENTE
+// Chamado por createClientProject
+// ============================================================
+export async function completeReferral(refereeLeadId: string, refereeProjectId: string): Promise<void> {
+  const { data } = await db.client
+    .from('referrals')
+    .update({
+      status: 'converted',
+      referee_project_id: refereeProjectId,
+      converted_at: new Date().toISOString(),
+      xp_awarded: XP_REWARDS.REFERRAL,
+    })
+    .eq('referee_lead_id', refereeLeadId)
+    .eq('status', 'pending')
+    .select('referrer_project_id')
+    .maybeSingle();
+
+  const referral = data as { referrer_project_id: string } | null;
+  if (!referral) return;
+
+  const referrerProjectId = referral.referrer_project_id;
+  // Uma vez por indicado, mesmo se a conversão for processada de novo
+  const { levelUp, newLevel, newLevelName } = await awardXP(referrerProjectId, 'REFERRAL', 0, {
+    idempotencyKey: `referral:${refereeLeadId}`,
+  });
+  const badges = await refreshBadges(referrerProjectId);
+  logger.info(`Indicação convertida: projeto ${referrerProjectId} +${XP_REWARDS.REFERRAL} XP`);
+
+  // Avisar quem indicou
+  const { data: project } = await db.client
+    .from('client_projects')
+    .select('leads(phone, full_name)')
+    .eq('id', referrerProjectId)
+    .maybeSingle();
+
+  const referrer = project as unknown as { leads: { phone: string | null; full_name: string | null } | null } | null;
+  const phone = referrer?.leads?.phone;
+  if (!phone) return;
+
+  const firstName = referrer.leads?.full_name?.split(' ')[0];
+  const lines = [
+    `🎉 ${firstName ? `${firstName}, sua` : 'Sua'} indicação acabou de começar o acompanhamento!`,
+    ``,
+    `Obrigada por espalhar saúde 💚 *+${XP_REWARDS.REFERRAL} XP* para você!`,
+  ];
+  if (levelUp) lines.push(``, `🆙 Você subiu para o nível ${newLevel}: ${newLevelName}!`);
+  for (const badge of badges) lines.push(``, badge.message);
+
+  await enqueueText(phone, lines.join('\n'), {
+    kind: 'referral',
+    idempotencyKey: `referral:${refereeLeadId}`,
+  });
+}
+
+// ============================================================
+// CONTAGENS (cliente e dashboard)
+// ============================================================
+function countStats(rows: Array<{ status: string }>): ReferralStats {
+  return {
+    total: rows.length,
+    pending: rows.filter(r => r.status === 'pending').length,
+    converted: rows.filter(r => r.status === 'converted').length,
+  };
+}
+
+export async function getProjectReferralStats(projectId: string): Promise<ReferralStats> {
+  const { data } = await db.client
+    .from('referrals')
+    .select('status')
+    .eq('referrer_project_id', projectId);
+
+  return countStats((data ?? []) as Array<{ status: string }>);
+}
+
+// Código, link e contagens do cliente (/api/client/me)
+export async function getProjectReferralSummary(projectId: string): Promise<ReferralStats & {
+  code: string | null;
+  link: string | null;
+}> {
+  const [code, stats, { data }] = await Promise.all([
+    getOrCreateReferralCode(projectId),
+    getProjectReferralStats(projectId),
+    db.client.from('client_projects').select('consultants(phone)').eq('id', projectId).maybeSingle(),
+  ]);
+
+  const consultantPhone = (data as unknown as { consultants: { phone: string } | null } | null)?.consultants?.phone;
+  return {
+    code,
+    link: code && consultantPhone ? buildReferralLink(consultantPhone, code) : null,
+    ...stats,
+  };
+}
+
+export async function getConsultantReferralStats(consultantId: string): Promise<ConsultantReferralStats> {
+  const { data } = await db.client
+    .from('referrals')
+    .select('status, referrer_project_id, client_projects!referrals_referrer_project_id_fkey(leads(full_name))')
+    .eq('consultant_id', consultantId);
+
+  type Row = {
+    status: string;
+    referrer_project_id: string;
+    client_projects: { leads: { full_name: string | null } | null } | null;
+  };
+  const rows = (data ?? []) as unknown as Row[];
+
+  const byReferrer = new Map<string, { projectId: string; leadName: string; converted: number }>();
+  for (const row of rows) {
+    if (row.status !== 'converted') continue;
+    const entry = byReferrer.get(row.referrer_project_id) ?? {
+      projectId: row.referrer_project_id,
+      leadName: row.client_projects?.leads?.full_name ?? 'Sem nome',
+      converted: 0,
+    };
+    entry.converted++;
+    byReferrer.set(row.referrer_project_id, entry);
+  }
+
+  return {
+    ...countStats(rows),
+    topReferrers: [...byReferrer.values()].sort((a, b) => b.converted - a.converted).slice(0, 5),
+  };
+}
@@ -7,13 +7,17 @@
 
 import { createLogger } from '../lib/logger.js';
 import { db } from '../database/client.js';
-import { sendText } from '../channels/whatsapp-client.js';
-import { enqueueSend } from '../safety/rate-limiter.js';
+import { resolveTimeZone, daysSince } from '../lib/timezone.js';
+import { enqueueText } from '../safety/outbound-queue.js';
+import { renderTemplate } from '../engine/playbook.js';
+import { resolveVariant, recordExperimentOutcome } from '../engine/experiments.js';
 
 const logger = createLogger('REORDER');
 
 // ============================================================
 // CONSTRUIR MENSAGEM DE RECOMPRA (personalizada por perfil)
+// `template` vem de uma variante A/B: {{name}}, {{product}}, {{streak}},
+// {{days_active}}, {{weight_lost}}
 // ============================================================
 function buildReorderMessage(params: {
   name?: string;
@@ -21,8 +25,19 @@ function buildReorderMessage(params: {
   streak: number;
   daysActive: number;
   weightLost?: number;
-}): string {
+}, template?: string): string {
   const firstName = params.name?.split(' ')[0] ?? 'você';
+
+  if (template) {
+    return renderTemplate(template, {
+      name: firstName,
+      product: params.product,
+      streak: params.streak,
+      days_active: params.daysActive,
+      weight_lost: params.weightLost && params.weightLost > 0 ? params.weightLost.toFixed(1) : undefined,
+    });
+  }
+
   const conquista = params.weightLost && params.weightLost > 0
     ? `Você já perdeu *${params.weightLost.toFixed(1)}kg*!`
     : `Você está com *${params.streak} dias de streak*!`;
@@ -49,16 +64,20 @@ function buildReorderMessage(params: {
 // PROCESSAR GATILHO DE RECOMPRA
 // Chamado pelo scheduler no dia 25 de cada projeto ativo
 // ============================================================
-export async function checkAndTriggerReorders(): Promise<void> {
+export async function checkAndTriggerReorders(): Promise<number> {
   logger.info('Verificando gatilhos de recompra (dia 25)...');
 
   type ProjectRow = {
     id: string;
+    lead_id: string;
+    consultant_id: string;
     start_date: string;
     product_kit: string;
     notes: string | null;
+    timezone: string | null;
     leads: { phone: string | null; full_name: string | null };
     client_gamification: Array<{ current_streak: number; xp_total: number }>;
+    consultants: { timezone: string | null } | null;
     start_weight_kg: number | null;
     current_weight_kg: number | null;
   };
@@ -67,17 +86,21 @@ export async function checkAndTriggerReorders(): Promise<void> {
     .from('client_projects')
     .select(`
       id,
+      lead_id,
+      consultant_id,
       start_date,
       product_kit,
       notes,
       start_weight_kg,
       current_weight_kg,
+      timezone,
       leads!inner(phone, full_name),
-      client_gamification(current_streak, xp_total)
+      client_gamification(current_streak, xp_total),
+      consultants(timezone)
     `)
     .eq('status', 'active');
 
-  if (!projects?.length) return;
+  if (!projects?.length) return 0;
 
   let triggered = 0;
 
@@ -85,8 +108,7 @@ export async function checkAndTriggerReorders(): Promise<void> {
     const lead = proj.leads;
     if (!lead?.phone) continue;
 
-    const startDate = new Date(proj.start_date);
-    const daysActive = Math.floor((Date.now() - startDate.getTime()) / (24 * 60 * 60 * 1000));
+    const daysActive = daysSince(proj.start_date, resolveTimeZone(proj.timezone, proj.consultants?.timezone));
 
     // Disparar apenas no dia 25 (janela de 25-26 dias)
     if (daysActive < 25 || daysActive > 26) continue;
@@ -100,19 +122,28 @@ export async function checkAndTriggerReorders(): Promise<void> {
       ? proj.start_weight_kg - proj.current_weight_kg
       : undefined;
 
+    const variant = await resolveVariant({
+      consultantId: proj.consultant_id,
+      leadId: proj.lead_id,
+      target: 'reorder',
+      targetRef: 'default',
+      projectId: proj.id,
+    });
+
     const message = buildReorderMessage({
       name: lead.full_name ?? undefined,
       product: proj.product_kit,
       streak: gam?.current_streak ?? 0,
       daysActive,
       weightLost,
-    });
+    }, variant?.content);
 
-    const phone = lead.phone;
-    enqueueSend(phone, async () => {
-      await sendText(phone, message);
-      logger.info(`Gatilho de recompra disparado para ${phone.substring(0, 6)}... (dia ${daysActive})`);
+    await enqueueText(lead.phone, message, {
+      kind: 'reorder',
+      consultantId: proj.consultant_id,
+      idempotencyKey: `reorder:${proj.id}`,
     });
+    logger.info(`Gatilho de recompra enfileirado para ${lead.phone.substring(0, 6)}... (dia ${daysActive})`);
 
     // Marcar como disparado
     await db.client
@@ -128,6 +159,7 @@ export async function checkAndTriggerReorders(): Promise<void> {
   if (triggered > 0) {
     logger.info(`${triggered} gatilhos de recompra disparados`);
   }
+  return triggered;
 }
 
 // ============================================================
@@ -141,13 +173,22 @@ export async function processReorderConfirmation(
   // Buscar o projeto ativo
   const { data: project } = await db.client
     .from('client_projects')
-    .select('id, product_kit, lead_id')
+    .select('id, product_kit, lead_id, notes')
     .eq('lead_id', leadId)
     .eq('status', 'active')
     .single();
 
   if (!project) return;
-  const proj = project as { id: string; product_kit: string; lead_id: string };
+  const proj = project as { id: string; product_kit: string; lead_id: string; notes: string | null };
+
+  // Marca no projeto: a régua pós-compra para de cobrar a recompra
+  const notesData = proj.notes ? JSON.parse(proj.notes) as Record<string, unknown> : {};
+  await db.client
+    .from('client_projects')
+    .update({
+      notes: JSON.stringify({ ...notesData, reorder_confirmed: true, reorder_confirmed_at: new Date().toISOString() }),
+    })
+    .eq('id', proj.id);
 
   // Notificar consultor para processar o pedido
   const { data: consultant } = await db.client
@@ -169,17 +210,16 @@ export async function processReorderConfirmation(
     `Entre em contato para fechar o pedido. 💰`,
   ].join('\n');
 
-  enqueueSend(cons.phone, async () => {
-    await sendText(cons.phone, notification);
-  });
+  await enqueueText(cons.phone, notification, { kind: 'reorder_confirmed', consultantId });
 
   // Confirmar para o lead
-  enqueueSend(leadPhone, async () => {
-    await sendText(
-      leadPhone,
-      `✅ *Perfeito! Já anotei o seu pedido.*\n\n${cons.name} vai entrar em contato em breve para confirmar o endereço de entrega e os detalhes.\n\nContinue firme nos próximos dias — você está fazendo histórico! 🏆`
-    );
-  });
+  await enqueueText(
+    leadPhone,
+    `✅ *Perfeito! Já anotei o seu pedido.*\n\n${cons.name} vai entrar em contato em breve para confirmar o endereço de entrega e os detalhes.\n\nContinue firme nos próximos dias — você está fazendo histórico! 🏆`,
+    { kind: 'reorder_confirmed', consultantId }
+  );
+
+  await recordExperimentOutcome(leadId, 'reorder_confirmed');
 
   logger.info(`Recompra confirmada: lead ${leadId}, produto ${proj.product_kit}`);
 }
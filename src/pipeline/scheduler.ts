@@ -1,31 +1,70 @@
 /**
  * Scheduler de Réguas de Mensagens
  * Roda a cada hora e despacha mensagens pendentes das réguas
+ *
+ * Seguro com várias instâncias: cada execução reserva seu slot em
+ * job_runs antes de rodar (ver job-runs.ts), e o histórico fica lá.
  */
 
 import cron from 'node-cron';
+import { config } from '../config/index.js';
 import { createLogger } from '../lib/logger.js';
 import { db } from '../database/client.js';
-import { sendText } from '../channels/whatsapp-client.js';
-import { enqueueSend } from '../safety/rate-limiter.js';
+import { enqueueText } from '../safety/outbound-queue.js';
 import {
-  getMessagesForToday,
+  FOLLOWUP_SEQUENCE,
+  getDueMessages,
+  renderSequenceVariant,
   type SequenceParams,
 } from './followup-sequences.js';
+import { resolveVariant } from '../engine/experiments.js';
 import { dispatchDailyCheckins } from '../engine/checkin-flow.js';
 import { checkAndTriggerReorders } from './reorder-trigger.js';
 import { processActiveGroups } from './challenge-groups.js';
 import { notifyConsultantAboutProspects } from '../monitor/prospect-queue.js';
 import { buildDailyReportMessage } from '../dashboard/metrics.js';
+import { resumeIdleTakeovers } from '../engine/human-takeover.js';
+import { resolveTimeZone, localDateString, startOfLocalDay, daysSince } from '../lib/timezone.js';
+import { refreshCheckinCounters } from '../engine/checkin-stats.js';
+import { getWeightProgress, processPlateauNudges, formatDateBR } from '../engine/weight-progress.js';
+import { runJobInSlot, startManualRun, hasJobHistory, type RunnableJob } from './job-runs.js';
+import { computeSendTime, getPreferredHours } from './send-time.js';
+import {
+  DEFAULT_SEQUENCE_RULES,
+  getStepsForConsultants,
+  getActiveSequenceIds,
+  getSequencesById,
+  getConversationStates,
+  conversationState,
+  evaluateSequenceCondition,
+  usesConversationFields,
+  type SequenceState,
+} from './sequences.js';
+import {
+  getEnrollments,
+  enrollConversation,
+  recordScheduledDays,
+  completeIfDelivered,
+  exitEnrollments,
+  closeEndedConversations,
+} from './sequence-enrollments.js';
+import { sendPersonalizedAudio } from '../media/audio-messages.js';
+import type { ConversationMessage } from '../database/client.js';
 
 const logger = createLogger('SCHEDULER');
 
 // ============================================================
-// PROCESSAR RÉGUA DE FOLLOW-UP (leads não convertidos)
+// AGENDAR RÉGUA DE FOLLOW-UP (leads não convertidos)
+// Roda de hora em hora; cada mensagem sai no horário do lead (notBefore).
+// Cada conversa segue a sua inscrição (sequence-enrollments.ts): resposta,
+// handoff, conversão e "pare" pausam, reiniciam ou encerram a cadência
 // ============================================================
-async function processFollowupSequence(): Promise<void> {
+async function processFollowupSequence(): Promise<number> {
   logger.info('Processando régua de follow-up...');
 
+  // Conversa convertida/perdida por outro caminho: encerra a inscrição
+  await closeEndedConversations();
+
   // Busca leads com conversa ativa há mais de 1 dia mas sem conversão
   const { data: activeLeads } = await db.client
     .from('conversations')
@@ -35,12 +74,16 @@ async function processFollowupSequence(): Promise<void> {
       consultant_id,
       started_at,
       context_data,
-      leads!inner(phone, full_name)
+      messages,
+      handoff_triggered,
+      leads!inner(phone, full_name, opted_out_at),
+      consultants(timezone)
     `)
     .eq('status', 'active')
+    .is('leads.opted_out_at', null)
     .lt('started_at', new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString());
 
-  if (!activeLeads?.length) return;
+  if (!activeLeads?.length) return 0;
 
   type ConvRow = {
     id: string;
@@ -48,49 +91,135 @@ async function processFollowupSequence(): Promise<void> {
     consultant_id: string;
     started_at: string;
     context_data: Record<string, unknown>;
+    messages: ConversationMessage[] | null;
+    handoff_triggered: boolean | null;
     leads: { phone: string | null; full_name: string | null };
+    consultants: { timezone: string | null } | null;
   };
 
-  for (const conv of (activeLeads as unknown) as ConvRow[]) {
+  const rows = (activeLeads as unknown) as ConvRow[];
+  const enrollments = await getEnrollments(rows.map(conv => conv.id));
+  const activeSequenceIds = await getActiveSequenceIds('followup', rows.map(conv => conv.consultant_id));
+  const sequences = await getSequencesById([
+    ...[...enrollments.values()].map(e => e.sequence_id),
+    ...activeSequenceIds.values(),
+  ].filter((id): id is string => id !== null));
+  const preferredHours = await getPreferredHours(
+    rows.map(conv => ({ leadId: conv.lead_id, timeZone: resolveTimeZone(conv.consultants?.timezone) }))
+  );
+
+  let sent = 0;
+  for (const conv of rows) {
     const lead = conv.leads;
     if (!lead?.phone) continue;
 
     const context = conv.context_data as Record<string, unknown>;
-    const sentDays: number[] = (context.followup_sent_days as number[]) ?? [];
-    const startDate = new Date(conv.started_at);
 
-    const pendingMessages = getMessagesForToday('followup', startDate, sentDays);
+    // Nova inscrição: régua ativa do consultor (ou a padrão)
+    const enrollment = enrollments.get(conv.id) ?? await enrollConversation({
+      conversationId: conv.id,
+      leadId: conv.lead_id,
+      consultantId: conv.consultant_id,
+      sequenceId: activeSequenceIds.get(conv.consultant_id) ?? null,
+      cadenceStartedAt: conv.started_at,
+      sentDays: (context.followup_sent_days as number[]) ?? [],
+    });
+    if (!enrollment || enrollment.status !== 'active') continue;
+
+    const sequence = enrollment.sequence_id ? sequences.get(enrollment.sequence_id) : undefined;
+    const steps = sequence?.steps ?? FOLLOWUP_SEQUENCE;
+    const rules = sequence?.rules ?? DEFAULT_SEQUENCE_RULES;
+    const timeZone = resolveTimeZone(conv.consultants?.timezone);
+    const state: SequenceState = {
+      daysSinceStart: daysSince(enrollment.cadence_started_at, timeZone),
+      ...conversationState(conv.messages, conv.handoff_triggered),
+    };
+
+    if (state.handoffTriggered && rules.exitOnHandoff) {
+      await exitEnrollments(conv.lead_id, 'handoff');
+      continue;
+    }
+    // Conversa viva: nada é agendado até a pausa acabar
+    if (typeof state.hoursSinceLastReply === 'number' && state.hoursSinceLastReply < rules.pauseHours) continue;
+
+    const sentDays = [...enrollment.sent_days];
+    const dueMessages = getDueMessages(steps, enrollment.cadence_started_at, sentDays, timeZone)
+      .sort((a, b) => a.dayOffset - b.dayOffset);
+    // Vários passos atrasados (pausa, onReply 'continue', scheduler parado):
+    // só o mais recente é agendado e os anteriores ficam como pulados —
+    // senão todos sairiam no mesmo minuto
+    const pendingMessages = dueMessages.slice(-1);
+    for (const skipped of dueMessages.slice(0, -1)) {
+      sentDays.push(skipped.dayOffset);
+      logger.debug(`Follow-up D+${skipped.dayOffset} pulado (atrasado) para ${lead.phone.substring(0, 6)}...`);
+    }
 
     for (const msg of pendingMessages) {
+      // Condição falsa no dia: o passo é pulado (e não volta a ser avaliado)
+      sentDays.push(msg.dayOffset);
+      const lastStep = steps.every(step => sentDays.includes(step.dayOffset));
+      if (msg.condition && !evaluateSequenceCondition(msg.condition, state)) {
+        logger.debug(`Follow-up D+${msg.dayOffset} pulado (condição) para ${lead.phone.substring(0, 6)}...`);
+        continue;
+      }
+
       const params: SequenceParams = {
         name: (lead.full_name ?? context.name) as string | undefined,
         pain: ((context.pain_points as string[]) ?? [])[0],
       };
 
-      const text = msg.getText(params);
-      const phone = lead.phone;
-
-      enqueueSend(phone, async () => {
-        await sendText(phone, text);
-        logger.info(`Follow-up D+${msg.dayOffset} enviado para ${phone.substring(0, 6)}...`);
+      const variant = await resolveVariant({
+        consultantId: conv.consultant_id,
+        leadId: conv.lead_id,
+        target: 'followup',
+        targetRef: String(msg.dayOffset),
+        conversationId: conv.id,
       });
-
-      sentDays.push(msg.dayOffset);
-    }
-
-    if (pendingMessages.length > 0) {
-      // Registrar os dias enviados no contexto
-      await db.conversations.update(conv.id, {
-        context_data: { ...context, followup_sent_days: sentDays } as import('../database/client.js').LeadContextData,
+      const text = variant ? renderSequenceVariant(variant.content, params) : msg.getText(params);
+      const sendAt = computeSendTime({
+        startDate: enrollment.cadence_started_at,
+        dayOffset: msg.dayOffset,
+        hourOfDay: msg.hourOfDay,
+        timeZone,
+        preferredHour: preferredHours.get(conv.lead_id),
       });
+      // Chave por reinício: a cadência recomeçada reaproveita os dias
+      const key = `${enrollment.id}:${enrollment.restarts}:${msg.dayOffset}`;
+      const meta = { sequence: 'followup', enrollment_id: enrollment.id, day: msg.dayOffset, last_step: lastStep };
+      await enqueueText(lead.phone, text, {
+        kind: 'followup',
+        consultantId: conv.consultant_id,
+        idempotencyKey: `followup:${key}`,
+        notBefore: sendAt,
+        meta,
+      });
+      if (msg.audio) {
+        await sendPersonalizedAudio({
+          phone: lead.phone,
+          type: msg.audio,
+          leadName: params.name,
+          pain: params.pain,
+          consultantId: conv.consultant_id,
+          notBefore: sendAt,
+          idempotencyKey: `followup_audio:${key}`,
+          meta,
+        });
+      }
+      logger.info(`Follow-up D+${msg.dayOffset} agendado para ${lead.phone.substring(0, 6)}... em ${sendAt.toISOString()}`);
+      sent++;
     }
+
+    if (dueMessages.length > 0) await recordScheduledDays(enrollment.id, sentDays);
+    // Tudo agendado: conclui quando o último envio sair (ou já, se o último passo foi pulado)
+    if (steps.every(step => sentDays.includes(step.dayOffset))) await completeIfDelivered(enrollment.id);
   }
+  return sent;
 }
 
 // ============================================================
-// PROCESSAR RÉGUA PÓS-COMPRA (clientes ativos)
+// AGENDAR RÉGUA PÓS-COMPRA (clientes ativos)
 // ============================================================
-async function processPostPurchaseSequence(): Promise<void> {
+async function processPostPurchaseSequence(): Promise<number> {
   logger.info('Processando régua pós-compra...');
 
   const { data: activeProjects } = await db.client
@@ -98,53 +227,113 @@ async function processPostPurchaseSequence(): Promise<void> {
     .select(`
       id,
       lead_id,
+      consultant_id,
       product_kit,
       start_date,
       notes,
-      leads!inner(phone, full_name),
-      client_gamification(current_streak, xp_total)
+      timezone,
+      leads!inner(phone, full_name, opted_out_at),
+      client_gamification(current_streak, xp_total, level),
+      consultants(timezone)
     `)
-    .eq('status', 'active');
+    .eq('status', 'active')
+    .is('leads.opted_out_at', null);
 
-  if (!activeProjects?.length) return;
+  if (!activeProjects?.length) return 0;
 
   type ProjectRow = {
     id: string;
     lead_id: string;
+    consultant_id: string;
     product_kit: string;
     start_date: string;
     notes: string | null;
+    timezone: string | null;
     leads: { phone: string | null; full_name: string | null };
-    client_gamification: Array<{ current_streak: number; xp_total: number }>;
+    client_gamification: Array<{ current_streak: number; xp_total: number; level: number }>;
+    consultants: { timezone: string | null } | null;
   };
 
-  for (const project of (activeProjects as unknown) as ProjectRow[]) {
+  const projects = (activeProjects as unknown) as ProjectRow[];
+  const preferredHours = await getPreferredHours(projects.map(project => ({
+    leadId: project.lead_id,
+    timeZone: resolveTimeZone(project.timezone, project.consultants?.timezone),
+  })));
+  const stepsByConsultant = await getStepsForConsultants('postpurchase', projects.map(project => project.consultant_id));
+  // Mensagens do cliente só são carregadas se alguma régua usa campos de conversa
+  const needsConversation = [...stepsByConsultant.values()].some(steps => steps.some(step => usesConversationFields(step.condition)));
+  const conversationStates = needsConversation
+    ? await getConversationStates(projects.map(project => project.lead_id))
+    : new Map<string, SequenceState>();
+
+  let sent = 0;
+  for (const project of projects) {
     const lead = project.leads;
     if (!lead?.phone) continue;
 
     const gamification = project.client_gamification?.[0];
     const notesData = project.notes ? JSON.parse(project.notes) as Record<string, unknown> : {};
     const sentDays: number[] = (notesData.postpurchase_sent_days as number[]) ?? [];
-    const startDate = new Date(project.start_date);
-
-    const pendingMessages = getMessagesForToday('postpurchase', startDate, sentDays);
+    const timeZone = resolveTimeZone(project.timezone, project.consultants?.timezone);
+    const steps = stepsByConsultant.get(project.consultant_id) ?? [];
+    const pendingMessages = getDueMessages(steps, project.start_date, sentDays, timeZone);
+    const weight = pendingMessages.length > 0 ? await getWeightProgress(project.id) : null;
+    const state: SequenceState = {
+      ...conversationStates.get(project.lead_id),
+      daysSinceStart: daysSince(project.start_date, timeZone),
+      streak: gamification?.current_streak ?? 0,
+      xpTotal: gamification?.xp_total ?? 0,
+      level: gamification?.level ?? 1,
+      weightLostKg: weight?.lostKg ?? undefined,
+      reorderTriggered: Boolean(notesData.reorder_triggered),
+      reorderConfirmed: Boolean(notesData.reorder_confirmed),
+    };
 
     for (const msg of pendingMessages) {
+      sentDays.push(msg.dayOffset);
+      if (msg.condition && !evaluateSequenceCondition(msg.condition, state)) {
+        logger.debug(`Pós-compra D+${msg.dayOffset} pulado (condição) para ${lead.phone.substring(0, 6)}...`);
+        continue;
+      }
+
       const params: SequenceParams = {
         name: lead.full_name ?? undefined,
         product: project.product_kit,
         streak: gamification?.current_streak ?? 0,
+        weightLost: weight?.lostKg && weight.lostKg > 0 ? weight.lostKg : undefined,
+        // Ritmo só é elogiado quando está dentro do limite saudável
+        weeklyRateKg: weight?.weeklyRateKg && weight.weeklyRateKg > 0 && !weight.rapidLoss ? weight.weeklyRateKg : undefined,
+        goalDate: weight?.projectedGoalDate ? formatDateBR(weight.projectedGoalDate) : undefined,
       };
 
-      const text = msg.getText(params);
-      const phone = lead.phone;
-
-      enqueueSend(phone, async () => {
-        await sendText(phone, text);
-        logger.info(`Pós-compra D+${msg.dayOffset} enviado para ${phone.substring(0, 6)}...`);
+      const sendAt = computeSendTime({
+        startDate: project.start_date,
+        dayOffset: msg.dayOffset,
+        hourOfDay: msg.hourOfDay,
+        timeZone,
+        preferredHour: preferredHours.get(project.lead_id),
       });
-
-      sentDays.push(msg.dayOffset);
+      await enqueueText(lead.phone, msg.getText(params), {
+        kind: 'postpurchase',
+        consultantId: project.consultant_id,
+        idempotencyKey: `postpurchase:${project.id}:${msg.dayOffset}`,
+        notBefore: sendAt,
+        meta: { sequence: 'postpurchase', day: msg.dayOffset },
+      });
+      if (msg.audio) {
+        await sendPersonalizedAudio({
+          phone: lead.phone,
+          type: msg.audio,
+          leadName: params.name,
+          streak: params.streak,
+          consultantId: project.consultant_id,
+          notBefore: sendAt,
+          idempotencyKey: `postpurchase_audio:${project.id}:${msg.dayOffset}`,
+          meta: { sequence: 'postpurchase', day: msg.dayOffset },
+        });
+      }
+      logger.info(`Pós-compra D+${msg.dayOffset} agendado para ${lead.phone.substring(0, 6)}... em ${sendAt.toISOString()}`);
+      sent++;
     }
 
     if (pendingMessages.length > 0) {
@@ -156,16 +345,14 @@ async function processPostPurchaseSequence(): Promise<void> {
         .eq('id', project.id);
     }
   }
+  return sent;
 }
 
-// ============================================================
-// INICIALIZAR AGENDAMENTOS
-// ============================================================
 // ============================================================
 // ENVIAR RELATÓRIO DIÁRIO PARA TODOS OS CONSULTORES
 // Mensagem matinal com métricas do dia anterior
 // ============================================================
-async function sendDailyReports(): Promise<void> {
+async function sendDailyReports(): Promise<number> {
   logger.info('Enviando relatórios diários para consultores...');
 
   const { data: consultants } = await db.client
@@ -173,26 +360,31 @@ async function sendDailyReports(): Promise<void> {
     .select('id, phone')
     .eq('active', true);
 
-  if (!consultants?.length) return;
+  if (!consultants?.length) return 0;
 
+  let sent = 0;
   for (const c of consultants as Array<{ id: string; phone: string }>) {
     if (!c.phone) continue;
     try {
       const report = await buildDailyReportMessage(c.id);
-      enqueueSend(c.phone, async () => {
-        await sendText(c.phone, report);
+      await enqueueText(c.phone, report, {
+        kind: 'daily_report',
+        consultantId: c.id,
+        idempotencyKey: `daily_report:${c.id}:${localDateString(config.timezone)}`,
       });
+      sent++;
     } catch (err) {
       logger.error(`Erro ao enviar relatório para consultor ${c.id}`, err);
     }
   }
+  return sent;
 }
 
 // ============================================================
 // NOTIFICAR CONSULTORES SOBRE PROSPECTS QUENTES
 // Busca todos consultores ativos e notifica sobre fila
 // ============================================================
-async function dispatchProspectNotifications(): Promise<void> {
+async function dispatchProspectNotifications(): Promise<number> {
   logger.info('Verificando prospects quentes para notificar consultores...');
 
   const { data: consultants } = await db.client
@@ -200,71 +392,151 @@ async function dispatchProspectNotifications(): Promise<void> {
     .select('id')
     .eq('active', true);
 
-  if (!consultants?.length) return;
+  if (!consultants?.length) return 0;
 
   for (const c of consultants as Array<{ id: string }>) {
     await notifyConsultantAboutProspects(c.id).catch(err =>
       logger.error(`Erro ao notificar consultor ${c.id}`, err)
     );
   }
+  return consultants.length;
 }
 
-export function startScheduler(): void {
-  logger.info('Iniciando scheduler completo (Fases 2 + 3 + 4 + 5)...');
+// ============================================================
+// JOBS AGENDADOS
+// hours: diário nessas horas (fuso padrão); everyMinutes: intervalo fixo.
+// catchUp: se o horário passou com o servidor fora do ar, roda no boot.
+// ============================================================
+type ScheduledJob = RunnableJob & {
+  description: string;
+  hours?: number[];
+  everyMinutes?: number;
+  catchUp: boolean;
+};
+
+// Ordem importa: jobs da mesma janela rodam em sequência, nessa ordem
+const JOBS: ScheduledJob[] = [
+  { name: 'checkin_counters', description: 'Recalcula contadores de check-in em cache', hours: [3], catchUp: true,
+    run: async () => (await refreshCheckinCounters()).checked },
+  { name: 'daily_reports', description: 'Relatório diário para consultores', hours: [7], catchUp: true, run: sendDailyReports },
+  { name: 'daily_checkins', description: 'Check-ins diários', hours: [8], catchUp: true, run: dispatchDailyCheckins },
+  // Bom dia/boa noite dependem da hora em que rodam — sem recuperação
+  { name: 'challenge_groups', description: 'Mensagens dos grupos de desafio', hours: [8, 20], catchUp: false, run: processActiveGroups },
+  { name: 'followup_sequence', description: 'Agenda a régua de follow-up (leads) no horário de cada um', everyMinutes: 60, catchUp: false,
+    run: processFollowupSequence },
+  { name: 'prospect_notifications', description: 'Prospects quentes para os consultores', hours: [8, 14], catchUp: true, run: dispatchProspectNotifications },
+  { name: 'postpurchase_sequence', description: 'Agenda a régua pós-compra no horário de cada cliente', everyMinutes: 60, catchUp: false,
+    run: processPostPurchaseSequence },
+  { name: 'reorder_triggers', description: 'Gatilho de recompra', hours: [11], catchUp: true, run: checkAndTriggerReorders },
+  { name: 'plateau_nudges', description: 'Mensagem de platô de peso', hours: [11], catchUp: true, run: processPlateauNudges },
+  { name: 'resume_idle_takeovers', description: 'Devolve ao bot conversas em modo humano sem atividade', everyMinutes: 30, catchUp: false,
+    run: resumeIdleTakeovers },
+];
+
+const HOUR_MS = 60 * 60 * 1000;
+const pad = (n: number): string => String(n).padStart(2, '0');
+
+function dailySlot(localDate: string, hour: number): string {
+  return `${localDate}@${pad(hour)}h`;
+}
 
-  // 07:00 — Relatório diário para consultores
-  cron.schedule('0 7 * * *', async () => {
-    try {
-      logger.info('[CRON 7h] Enviando relatórios diários...');
-      await sendDailyReports();
-    } catch (error) {
-      logger.error('Erro no cron 7h', error);
-    }
-  });
+function intervalSlot(minutes: number, now: Date = new Date()): string {
+  const stepMs = minutes * 60 * 1000;
+  return new Date(Math.floor(now.getTime() / stepMs) * stepMs).toISOString();
+}
 
-  // 08:00 — Check-ins diários + bom dia nos grupos + follow-up leads
-  cron.schedule('0 8 * * *', async () => {
-    try {
-      logger.info('[CRON 8h] Disparando check-ins, bom dias e prospects...');
-      await dispatchDailyCheckins();
-      await processActiveGroups();
-      await processFollowupSequence();
-      await dispatchProspectNotifications();
-    } catch (error) {
-      logger.error('Erro no cron 8h', error);
+// ============================================================
+// RECUPERAÇÃO DE EXECUÇÕES PERDIDAS (deploy, queda, hibernação)
+// ============================================================
+async function catchUpMissedRuns(now: Date = new Date()): Promise<void> {
+  const maxHours = config.scheduler.catchUpMaxHours;
+  if (maxHours <= 0) return;
+
+  const midnight = startOfLocalDay(config.timezone, now).getTime();
+
+  for (const job of JOBS) {
+    if (!job.catchUp || !job.hours) continue;
+    // Job que nunca rodou (primeiro deploy): nada a recuperar
+    if (!(await hasJobHistory(job.name))) continue;
+
+    for (const hour of job.hours) {
+      let occurrence = midnight + hour * HOUR_MS;
+      if (occurrence > now.getTime()) occurrence -= 24 * HOUR_MS;
+      if (now.getTime() - occurrence > maxHours * HOUR_MS) continue;
+
+      const slot = dailySlot(localDateString(config.timezone, new Date(occurrence)), hour);
+      if (await runJobInSlot(job, slot, 'catch_up')) {
+        logger.warn(`Execução perdida recuperada: ${job.name} (${slot})`);
+      }
     }
-  });
+  }
+}
 
-  // 11:00 — Régua pós-compra + gatilho de recompra
-  cron.schedule('0 11 * * *', async () => {
-    try {
-      logger.info('[CRON 11h] Régua pós-compra + gatilho recompra...');
-      await processPostPurchaseSequence();
-      await checkAndTriggerReorders();
-    } catch (error) {
-      logger.error('Erro no cron 11h', error);
-    }
-  });
+// ============================================================
+// ADMIN (dashboard)
+// ============================================================
+export function listScheduledJobs(): Array<{ name: string; description: string; schedule: string; catchUp: boolean }> {
+  return JOBS.map(job => ({
+    name: job.name,
+    description: job.description,
+    schedule: job.hours ? job.hours.map(h => `${pad(h)}:00`).join(', ') : `a cada ${job.everyMinutes} min`,
+    catchUp: job.catchUp,
+  }));
+}
 
-  // 14:00 — Segunda rodada de notificações de prospects
-  cron.schedule('0 14 * * *', async () => {
-    try {
-      logger.info('[CRON 14h] Notificações de prospects...');
-      await dispatchProspectNotifications();
-    } catch (error) {
-      logger.error('Erro no cron 14h', error);
-    }
-  });
+export type ManualRunResult =
+  | { started: true; runId: string }
+  | { started: false; reason: 'unknown_job' | 'already_running' };
 
-  // 20:00 — Boa noite nos grupos
-  cron.schedule('0 20 * * *', async () => {
-    try {
-      logger.info('[CRON 20h] Mensagens noturnas nos grupos...');
-      await processActiveGroups();
-    } catch (error) {
-      logger.error('Erro no cron 20h', error);
-    }
-  });
+export async function runJobNow(name: string): Promise<ManualRunResult> {
+  const job = JOBS.find(j => j.name === name);
+  if (!job) return { started: false, reason: 'unknown_job' };
+
+  const runId = await startManualRun(job);
+  if (!runId) return { started: false, reason: 'already_running' };
+  logger.info(`Job ${name} disparado manualmente`);
+  return { started: true, runId };
+}
+
+// ============================================================
+// INICIALIZAR AGENDAMENTOS
+// Toda instância agenda tudo; o claim em job_runs garante que cada
+// slot roda uma vez só
+// ============================================================
+
+// Horários fixos (7h, 8h, 11h...) no fuso padrão, não no do servidor
+const CRON_OPTIONS = { timezone: config.timezone };
+
+export function startScheduler(): void {
+  logger.info('Iniciando scheduler completo (Fases 2 + 3 + 4 + 5)...');
+
+  const hours = [...new Set(JOBS.flatMap(job => job.hours ?? []))].sort((a, b) => a - b);
+
+  for (const hour of hours) {
+    const jobs = JOBS.filter(job => job.hours?.includes(hour));
+    cron.schedule(`0 ${hour} * * *`, async () => {
+      logger.info(`[CRON ${hour}h] ${jobs.map(job => job.name).join(', ')}`);
+      const slot = dailySlot(localDateString(config.timezone), hour);
+      for (const job of jobs) {
+        await runJobInSlot(job, slot, 'schedule').catch(error =>
+          logger.error(`Erro no cron ${hour}h (${job.name})`, error)
+        );
+      }
+    }, CRON_OPTIONS);
+  }
+
+  for (const job of JOBS) {
+    const minutes = job.everyMinutes;
+    if (!minutes) continue;
+    const expression = minutes % 60 === 0 ? `0 */${minutes / 60} * * *` : `*/${minutes} * * * *`;
+    cron.schedule(expression, async () => {
+      await runJobInSlot(job, intervalSlot(minutes), 'schedule').catch(error =>
+        logger.error(`Erro no job ${job.name}`, error)
+      );
+    }, CRON_OPTIONS);
+  }
+
+  catchUpMissedRuns().catch(error => logger.error('Erro ao recuperar execuções perdidas', error));
 
-  logger.info('Scheduler iniciado: 5 janelas (7h, 8h, 11h, 14h, 20h)');
+  logger.info(`Scheduler iniciado: ${JOBS.length} jobs em ${hours.length} janelas (${hours.map(h => `${h}h`).join(', ')}) + réguas (1h) + retomada do modo humano (30 min)`);
 }
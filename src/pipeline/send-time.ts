@@ -0,0 +1,95 @@
+/**
+ * Horário de Envio por Destinatário (réguas)
+ *
+ * Cada mensagem de régua ganha um instante exato de envio, no fuso do
+ * destinatário: dia (início + dayOffset) na hora da mensagem (hourOfDay)
+ * ou, com SEND_TIME_MODE=learned, na hora em que o cliente costuma
+ * responder (conversations.messages). Sempre dentro do horário permitido
+ * (8h–21h); atrasada, sai no próximo horário permitido.
+ *
+ * O instante vira o notBefore da fila persistente de envio.
+ */
+
+import { config } from '../config/index.js';
+import { db } from '../database/client.js';
+import type { ConversationMessage } from '../database/client.js';
+import { localDateString, localHour, addDays, localDateTimeToInstant } from '../lib/timezone.js';
+import { ALLOWED_HOURS, nextAllowedTime } from '../safety/rate-limiter.js';
+
+const clampToAllowed = (hour: number): number =>
+  Math.min(Math.max(hour, ALLOWED_HOURS.first), ALLOWED_HOURS.last);
+
+// ============================================================
+// HORA HABITUAL DE RESPOSTA (puro)
+// Hora local mais frequente das mensagens do cliente; null com poucos dados
+// ============================================================
+export function learnReplyHour(
+  messages: ConversationMessage[],
+  timeZone: string,
+  now: Date = new Date()
+): number | null {
+  const since = now.getTime() - config.sendTime.lookbackDays * 24 * 60 * 60 * 1000;
+  const counts = new Array<number>(24).fill(0);
+  let total = 0;
+
+  for (const msg of messages) {
+    if (msg.role !== 'user' || !msg.timestamp) continue;
+    const at = new Date(msg.timestamp);
+    if (Number.isNaN(at.getTime()) || at.getTime() < since) continue;
+    counts[localHour(timeZone, at)]++;
+    total++;
+  }
+
+  if (total < config.sendTime.minReplies) return null;
+  // Empate: a hora mais cedo
+  return counts.indexOf(Math.max(...counts));
+}
+
+// ============================================================
+// INSTANTE DE ENVIO (puro)
+// ============================================================
+export function computeSendTime(params: {
+  startDate: string | Date;   // date do projeto ('YYYY-MM-DD') ou instante (início da conversa)
+  dayOffset: number;
+  hourOfDay: number;
+  timeZone: string;
+  preferredHour?: number | null;
+  now?: Date;
+}): Date {
+  const now = params.now ?? new Date();
+  const start = typeof params.startDate === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(params.startDate)
+    ? params.startDate
+    : localDateString(params.timeZone, new Date(params.startDate));
+
+  const hour = clampToAllowed(params.preferredHour ?? params.hourOfDay);
+  const target = localDateTimeToInstant(addDays(start, params.dayOffset), hour, params.timeZone);
+
+  // Horário já passou (atrasada): o quanto antes, respeitando o horário permitido
+  return nextAllowedTime(target.getTime() < now.getTime() ? now : target, params.timeZone);
+}
+
+// ============================================================
+// HORAS APRENDIDAS POR LEAD (só com SEND_TIME_MODE=learned)
+// ============================================================
+export async function getPreferredHours(
+  leads: Array<{ leadId: string; timeZone: string }>
+): Promise<Map<string, number>> {
+  const result = new Map<string, number>();
+  if (config.sendTime.mode !== 'learned' || leads.length === 0) return result;
+
+  const { data } = await db.client
+    .from('conversations')
+    .select('lead_id, messages')
+    .in('lead_id', [...new Set(leads.map(l => l.leadId))]);
+
+  const messagesByLead = new Map<string, ConversationMessage[]>();
+  for (const row of (data ?? []) as Array<{ lead_id: string; messages: ConversationMessage[] | null }>) {
+    messagesByLead.set(row.lead_id, [...(messagesByLead.get(row.lead_id) ?? []), ...(row.messages ?? [])]);
+  }
+
+  for (const { leadId, timeZone } of leads) {
+    const hour = learnReplyHour(messagesByLead.get(leadId) ?? [], timeZone);
+    if (hour !== null) result.set(leadId, hour);
+  }
+  return result;
+}
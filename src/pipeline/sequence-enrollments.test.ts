@@ -0,0 +1,31 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { isOptOutMessage } from './sequence-enrollments.js';
+
+describe('isOptOutMessage', () => {
+  const optOut = [
+    'pare',
+    'Pare!',
+    'parar',
+    'sair',
+    'não quero mais mensagens',
+    'pare de mandar',
+    'pare de me mandar mensagem',
+    'Pare de me mandar mensagens, por favor',
+    'para de mandar mensagem',
+    'parar de enviar mensagens',
+  ];
+  for (const text of optOut) {
+    it(`"${text}" pede para parar`, () => assert.equal(isOptOutMessage(text), true));
+  }
+
+  const notOptOut = [
+    'para com isso',
+    'pare de enrolar e me fala o preço',
+    'quero parar de sentir cansaço',
+    'tomei o shake para o café',
+  ];
+  for (const text of notOptOut) {
+    it(`"${text}" não é opt-out`, () => assert.equal(isOptOutMessage(text), false));
+  }
+});
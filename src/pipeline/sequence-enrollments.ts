@@ -0,0 +1,320 @@
+/**
+ * Inscrições na Régua de Follow-up (sequence_enrollments)
+ *
+ * Cada conversa que entra no follow-up ganha uma inscrição: em qual régua
+ * (sequence_id; null = padrão do código), desde quando a cadência conta,
+ * quais dias já foram agendados e — ao terminar — o motivo.
+ *
+ * Saídas e pausas (regras da régua, ver sequences.ts):
+ * - Lead respondeu: onReply 'restart' (cadência recomeça no dia da
+ *   resposta), 'exit' (sai com 'replied') ou 'continue' (segue de onde
+ *   estava, sem agendar nada enquanto a conversa está viva — pauseHours)
+ * - Handoff: sai com 'handoff' (salvo exitOnHandoff: false)
+ * - Virou cliente / conversa perdida: 'converted' / 'lost'
+ * - "pare": 'opted_out', e o lead não recebe mais nenhuma régua
+ * - Último passo enviado: 'completed' (até lá a inscrição segue ativa, para
+ *   uma resposta ou handoff ainda cancelar o envio que está na fila)
+ *
+ * Envios da régua ainda na fila são cancelados quando a cadência muda.
+ */
+
+import { createLogger } from '../lib/logger.js';
+import { db } from '../database/client.js';
+import { cancelPendingMessages, onOutboundSent } from '../safety/outbound-queue.js';
+import { DEFAULT_SEQUENCE_RULES, parseSequenceRules, type SequenceRules } from './sequences.js';
+
+const logger = createLogger('ENROLLMENTS');
+
+export type EnrollmentStatus = 'active' | 'completed' | 'exited';
+export type EnrollmentExitReason = 'completed' | 'replied' | 'handoff' | 'converted' | 'lost' | 'opted_out';
+export type ReplyOutcome = 'opted_out' | 'restarted' | 'exited' | 'continued';
+
+export type SequenceEnrollment = {
+  id: string;
+  conversation_id: string;
+  lead_id: string;
+  consultant_id: string;
+  sequence_id: string | null;
+  status: EnrollmentStatus;
+  cadence_started_at: string;
+  sent_days: number[];
+  restarts: number;
+  exit_reason: EnrollmentExitReason | null;
+  created_at: string;
+  ended_at: string | null;
+};
+
+const ENROLLMENT_COLUMNS = 'id, conversation_id, lead_id, consultant_id, sequence_id, status, cadence_started_at, sent_days, restarts, exit_reason, created_at, ended_at';
+
+// ============================================================
+// OPT-OUT ("pare")
+// ============================================================
+const OPT_OUT_PATTERN = /^\s*(pare|parar|para|sair|stop|cancelar|n[aã]o quero mais( mensage(m|ns))?|(pare|para|parar) de (me )?(mandar|enviar)( (mensage(m|ns)|isso))?( pra mim)?)[\s,]*(por favor)?\s*[.!]*\s*$/i;
+
+export function isOptOutMessage(text: string): boolean {
+  return OPT_OUT_PATTERN.test(text);
+}
+
+export const OPT_OUT_REPLY = 'Tudo certo, não vou mais te mandar mensagens automáticas. Se quiser conversar, é só me chamar aqui 💚';
+
+// ============================================================
+// INSCRIÇÃO (scheduler)
+// ============================================================
+
+// Inscrição de cada conversa (qualquer status: encerrada não volta)
+export async function getEnrollments(conversationIds: string[]): Promise<Map<string, SequenceEnrollment>> {
+  const result = new Map<string, SequenceEnrollment>();
+  if (conversationIds.length === 0) return result;
+
+  const { data } = await db.client
+    .from('sequence_enrollments')
+    .select(ENROLLMENT_COLUMNS)
+    .in('conversation_id', conversationIds);
+
+  for (const row of (data ?? []) as SequenceEnrollment[]) result.set(row.conversation_id, row);
+  return result;
+}
+
+export async function enrollConversation(params: {
+  conversationId: string;
+  leadId: string;
+  consultantId: string;
+  sequenceId: string | null;
+  cadenceStartedAt: string;
+  sentDays?: number[];       // dias já agendados antes das inscrições existirem
+}): Promise<SequenceEnrollment | null> {
+  const { data, error } = await db.client
+    .from('sequence_enrollments')
+    .upsert({
+      conversation_id: params.conversationId,
+      lead_id: params.leadId,
+      consultant_id: params.consultantId,
+      sequence_id: params.sequenceId,
+      cadence_started_at: params.cadenceStartedAt,
+      sent_days: params.sentDays ?? [],
+    }, { onConflict: 'conversation_id', ignoreDuplicates: true })
+    .select(ENROLLMENT_COLUMNS)
+    .maybeSingle();
+
+  if (error) throw new Error(`Erro ao inscrever conversa ${params.conversationId}: ${error.message}`);
+  return (data as SequenceEnrollment | null) ?? null;
+}
+
+export async function recordScheduledDays(enrollmentId: string, sentDays: number[]): Promise<void> {
+  const { error } = await db.client
+    .from('sequence_enrollments')
+    .update({ sent_days: sentDays, last_scheduled_at: new Date().toISOString() })
+    .eq('id', enrollmentId)
+    .eq('status', 'active');
+  if (error) throw new Error(`Erro ao registrar dias agendados (${enrollmentId}): ${error.message}`);
+}
+
+// Todos os passos já agendados: conclui quando nada da inscrição está mais na fila
+export async function completeIfDelivered(enrollmentId: string): Promise<boolean> {
+  const { count, error } = await db.client
+    .from('outbound_messages')
+    .select('id', { count: 'exact', head: true })
+    .eq('meta->>enrollment_id', enrollmentId)
+    .in('status', ['pending', 'sending']);
+  if (error) throw new Error(`Erro ao verificar envios da inscrição ${enrollmentId}: ${error.message}`);
+  if ((count ?? 0) > 0) return false;
+
+  const { data } = await db.client
+    .from('sequence_enrollments')
+    .update({ status: 'completed', exit_reason: 'completed', ended_at: new Date().toISOString() })
+    .eq('id', enrollmentId)
+    .eq('status', 'active')
+    .select('id')
+    .maybeSingle();
+  if (data) logger.info(`Inscrição ${enrollmentId} concluída`);
+  return data !== null;
+}
+
+// Último passo da régua saiu de fato (o scheduler conclui as que terminaram sem envio)
+onOutboundSent('followup', async (message) => {
+  const meta = message.meta as { enrollment_id?: string; last_step?: boolean } | null;
+  if (meta?.enrollment_id && meta.last_step) await completeIfDelivered(meta.enrollment_id);
+});
+
+async function getRules(sequenceId: string | null): Promise<SequenceRules> {
+  if (!sequenceId) return DEFAULT_SEQUENCE_RULES;
+  const { data } = await db.client.from('sequences').select('rules').eq('id', sequenceId).maybeSingle();
+  return parseSequenceRules((data as { rules: unknown } | null)?.rules);
+}
+
+// ============================================================
+// ENCERRAR
+// ============================================================
+async function endEnrollment(enrollment: SequenceEnrollment, reason: EnrollmentExitReason): Promise<void> {
+  await db.client
+    .from('sequence_enrollments')
+    .update({ status: 'exited', exit_reason: reason, ended_at: new Date().toISOString() })
+    .eq('id', enrollment.id)
+    .eq('status', 'active');
+  await cancelPendingMessages({ enrollmentId: enrollment.id }, `régua encerrada: ${reason}`);
+  logger.info(`Inscrição ${enrollment.id} encerrada (${reason})`);
+}
+
+async function getActiveEnrollments(leadId: string): Promise<SequenceEnrollment[]> {
+  const { data } = await db.client
+    .from('sequence_enrollments')
+    .select(ENROLLMENT_COLUMNS)
+    .eq('lead_id', leadId)
+    .eq('status', 'active');
+  return (data ?? []) as SequenceEnrollment[];
+}
+
+// Handoff, conversão ou conversa perdida. Retorna quantas encerrou.
+export async function exitEnrollments(
+  leadId: string,
+  reason: Exclude<EnrollmentExitReason, 'completed' | 'replied' | 'opted_out'>
+): Promise<number> {
+  let ended = 0;
+  for (const enrollment of await getActiveEnrollments(leadId)) {
+    if (reason === 'handoff' && !(await getRules(enrollment.sequence_id)).exitOnHandoff) continue;
+    await endEnrollment(enrollment, reason);
+    ended++;
+  }
+  return ended;
+}
+
+// Inscrições cuja conversa saiu de 'active' por outro caminho
+// (conversão registrada pelo motor, lead marcado como perdido)
+export async function closeEndedConversations(): Promise<number> {
+  const { data } = await db.client
+    .from('sequence_enrollments')
+    .select(`${ENROLLMENT_COLUMNS}, conversations!inner(status)`)
+    .eq('status', 'active')
+    .in('conversations.status', ['converted', 'lost']);
+
+  const rows = (data ?? []) as unknown as Array<SequenceEnrollment & { conversations: { status: string } }>;
+  for (const row of rows) {
+    await endEnrollment(row, row.conversations.status === 'converted' ? 'converted' : 'lost');
+  }
+  return rows.length;
+}
+
+export async function optOutLead(leadId: string, phone: string): Promise<void> {
+  await db.client
+    .from('leads')
+    .update({ opted_out_at: new Date().toISOString() })
+    .eq('id', leadId)
+    .is('opted_out_at', null);
+
+  for (const enrollment of await getActiveEnrollments(leadId)) {
+    await endEnrollment(enrollment, 'opted_out');
+  }
+  // Pós-compra e demais réguas do número
+  await cancelPendingMessages({ phone }, 'opt-out');
+  logger.info(`Lead ${leadId} pediu para parar — réguas encerradas`);
+}
+
+// ============================================================
+// LEAD RESPONDEU
+// Chamado pelo webhook a cada mensagem recebida do lead
+// ============================================================
+export async function handleSequenceReply(params: {
+  leadId: string;
+  phone: string;
+  text: string;
+}): Promise<ReplyOutcome | null> {
+  if (isOptOutMessage(params.text)) {
+    await optOutLead(params.leadId, params.phone);
+    return 'opted_out';
+  }
+
+  const [enrollment] = await getActiveEnrollments(params.leadId);
+  if (!enrollment) return null;
+
+  const rules = await getRules(enrollment.sequence_id);
+  if (rules.onReply === 'exit') {
+    await endEnrollment(enrollment, 'replied');
+    return 'exited';
+  }
+
+  // O que estava agendado não sai em cima da resposta
+  const cancelled = await cancelPendingMessages({ enrollmentId: enrollment.id }, 'lead respondeu');
+
+  if (rules.onReply === 'restart') {
+    await db.client
+      .from('sequence_enrollments')
+      .update({
+        cadence_started_at: new Date().toISOString(),
+        sent_days: [],
+        restarts: enrollment.restarts + 1,
+      })
+      .eq('id', enrollment.id);
+    logger.info(`Inscrição ${enrollment.id}: lead respondeu — cadência recomeça hoje`);
+    return 'restarted';
+  }
+
+  // continue: passos cancelados voltam a ser agendados depois da pausa
+  const cancelledDays = cancelled.map(c => Number(c.meta?.day)).filter(day => !Number.isNaN(day));
+  if (cancelledDays.length > 0) {
+    await db.client
+      .from('sequence_enrollments')
+      .update({ sent_days: enrollment.sent_days.filter(day => !cancelledDays.includes(day)) })
+      .eq('id', enrollment.id);
+  }
+  return 'continued';
+}
+
+// ============================================================
+// DASHBOARD — conclusão e abandono por régua
+// ============================================================
+export type EnrollmentStats = {
+  sequenceId: string | null;   // null = régua padrão
+  sequenceName: string | null;
+  total: number;
+  active: number;
+  completed: number;
+  exited: Partial<Record<EnrollmentExitReason, number>>;
+  completionRate: number;       // concluídas / encerradas (%)
+  dropOffByDay: Record<string, number>; // saídas pelo último dia agendado (0 = antes do 1º)
+  restarts: number;
+};
+
+export async function getEnrollmentStats(consultantId: string, days: number = 30): Promise<EnrollmentStats[]> {
+  const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+  const { data, error } = await db.client
+    .from('sequence_enrollments')
+    .select('sequence_id, status, exit_reason, sent_days, restarts, sequences(name)')
+    .eq('consultant_id', consultantId)
+    .gte('created_at', since);
+  if (error) throw new Error(`Erro ao buscar inscrições: ${error.message}`);
+
+  type Row = Pick<SequenceEnrollment, 'sequence_id' | 'status' | 'exit_reason' | 'sent_days' | 'restarts'> & {
+    sequences: { name: string } | null;
+  };
+
+  const bySequence = new Map<string | null, EnrollmentStats>();
+  for (const row of (data ?? []) as unknown as Row[]) {
+    const stats = bySequence.get(row.sequence_id) ?? {
+      sequenceId: row.sequence_id,
+      sequenceName: row.sequences?.name ?? null,
+      total: 0,
+      active: 0,
+      completed: 0,
+      exited: {},
+      completionRate: 0,
+      dropOffByDay: {},
+      restarts: 0,
+    };
+
+    stats.total++;
+    stats.restarts += row.restarts;
+    if (row.status === 'active') stats.active++;
+    if (row.status === 'completed') stats.completed++;
+    if (row.status === 'exited' && row.exit_reason) {
+      stats.exited[row.exit_reason] = (stats.exited[row.exit_reason] ?? 0) + 1;
+      const lastDay = String(Math.max(0, ...row.sent_days));
+      stats.dropOffByDay[lastDay] = (stats.dropOffByDay[lastDay] ?? 0) + 1;
+    }
+    bySequence.set(row.sequence_id, stats);
+  }
+
+  return [...bySequence.values()].map(stats => {
+    const ended = stats.total - stats.active;
+    return { ...stats, completionRate: ended > 0 ? Math.round((stats.completed / ended) * 100) : 0 };
+  });
+}
@@ -0,0 +1,468 @@
+/**
+ * Réguas Configuráveis (tabela sequences)
+ *
+ * O consultor monta a própria régua de follow-up ou pós-compra pela API
+ * do dashboard: passos com dia, hora, canal, texto (template com as
+ * variáveis de SequenceParams: {{name}}, {{#weightLost}}...{{/weightLost}}),
+ * áudio opcional e condição.
+ *
+ * Condições — DSL pequena sobre o estado atual do lead/projeto:
+ *   { "field": "reorderConfirmed", "op": "eq", "value": false }
+ *   { "all": [ ...condições ] }   { "any": [ ...condições ] }
+ * Campo sem valor (ex: streak numa régua de follow-up de lead) = falso.
+ *
+ * Ciclo de vida: draft → active → archived. Só uma régua ativa por tipo;
+ * sem régua ativa, valem FOLLOWUP_SEQUENCE / POSTPURCHASE_SEQUENCE.
+ *
+ * Regras de saída/pausa (rules) valem para a régua de follow-up — ver
+ * sequence-enrollments.ts.
+ */
+
+import { z } from 'zod';
+import { createLogger } from '../lib/logger.js';
+import { db } from '../database/client.js';
+import type { ConversationMessage } from '../database/client.js';
+import type { AudioType } from '../media/audio-messages.js';
+import {
+  FOLLOWUP_SEQUENCE,
+  POSTPURCHASE_SEQUENCE,
+  renderSequenceVariant,
+  type FollowupMessage,
+  type SequenceParams,
+} from './followup-sequences.js';
+
+const logger = createLogger('SEQUENCE-BUILDER');
+
+export type SequenceType = 'followup' | 'postpurchase';
+export type SequenceStatus = 'draft' | 'active' | 'archived';
+
+// ============================================================
+// CAMPOS DISPONÍVEIS PARA AS CONDIÇÕES
+// ============================================================
+export const SEQUENCE_FIELDS = [
+  'daysSinceStart',      // dias desde o início da conversa / do projeto
+  'leadMessages',        // mensagens enviadas pelo lead/cliente
+  'hoursSinceLastReply', // horas desde a última mensagem do lead/cliente
+  'handoffTriggered',    // conversa já foi passada ao consultor
+  'streak',              // só pós-compra
+  'xpTotal',
+  'level',
+  'weightLostKg',
+  'reorderTriggered',    // gatilho de recompra já saiu
+  'reorderConfirmed',    // cliente confirmou a recompra
+] as const;
+
+export type SequenceField = typeof SEQUENCE_FIELDS[number];
+export type SequenceState = Partial<Record<SequenceField, number | boolean>>;
+
+// Variáveis aceitas nos textos (SequenceParams)
+export const SEQUENCE_VARIABLES = [
+  'name', 'consultantName', 'pain', 'product', 'result', 'streak',
+  'daysLeft', 'weightLost', 'weeklyRateKg', 'goalDate', 'groupName',
+] as const satisfies ReadonlyArray<keyof SequenceParams>;
+
+export const SEQUENCE_AUDIO_TYPES = ['initial_approach', 'follow_up', 'streak_congrats', 'reorder'] as const satisfies ReadonlyArray<AudioType>;
+
+// ============================================================
+// DSL DE CONDIÇÕES
+// ============================================================
+const OPERATORS = {
+  eq: (a: number, b: number) => a === b,
+  neq: (a: number, b: number) => a !== b,
+  gt: (a: number, b: number) => a > b,
+  gte: (a: number, b: number) => a >= b,
+  lt: (a: number, b: number) => a < b,
+  lte: (a: number, b: number) => a <= b,
+} as const;
+
+export type SequenceCondition =
+  | { field: SequenceField; op?: keyof typeof OPERATORS; value: number | boolean }
+  | { all: SequenceCondition[] }
+  | { any: SequenceCondition[] };
+
+export const SequenceConditionSchema: z.ZodType<SequenceCondition> = z.lazy(() => z.union([
+  z.object({
+    field: z.enum(SEQUENCE_FIELDS),
+    op: z.enum(['eq', 'neq', 'gt', 'gte', 'lt', 'lte']).optional(),
+    value: z.union([z.number(), z.boolean()]),
+  }).strict(),
+  z.object({ all: z.array(SequenceConditionSchema).min(1) }).strict(),
+  z.object({ any: z.array(SequenceConditionSchema).min(1) }).strict(),
+]));
+
+const asNumber = (v: number | boolean): number => typeof v === 'boolean' ? Number(v) : v;
+
+export function evaluateSequenceCondition(condition: SequenceCondition, state: SequenceState): boolean {
+  if ('all' in condition) return condition.all.every(c => evaluateSequenceCondition(c, state));
+  if ('any' in condition) return condition.any.some(c => evaluateSequenceCondition(c, state));
+
+  const actual = state[condition.field];
+  if (actual === undefined) return false;
+  return OPERATORS[condition.op ?? 'eq'](asNumber(actual), asNumber(condition.value));
+}
+
+// Campos de conversa exigem carregar as mensagens do lead
+export function usesConversationFields(condition: SequenceCondition | undefined): boolean {
+  if (!condition) return false;
+  if ('all' in condition) return condition.all.some(usesConversationFields);
+  if ('any' in condition) return condition.any.some(usesConversationFields);
+  return condition.field === 'leadMessages' || condition.field === 'hoursSinceLastReply' || condition.field === 'handoffTriggered';
+}
+
+// ============================================================
+// DEFINIÇÃO DA RÉGUA
+// ============================================================
+const TEMPLATE_VARIABLE = /\{\{[#/]?(\w+)(?:\|[^}]*)?\}\}/g;
+
+export const SequenceStepSchema = z.object({
+  dayOffset: z.number().int().min(0).max(365),
+  hourOfDay: z.number().int().min(0).max(23),
+  channel: z.enum(['whatsapp']).default('whatsapp'),
+  text: z.string().min(1).max(2000),
+  audio: z.enum(SEQUENCE_AUDIO_TYPES).optional(), // áudio (ElevenLabs) logo depois do texto
+  condition: SequenceConditionSchema.optional(),
+}).superRefine((step, ctx) => {
+  for (const [, variable] of step.text.matchAll(TEMPLATE_VARIABLE)) {
+    if (!(SEQUENCE_VARIABLES as readonly string[]).includes(variable)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['text'], message: `Variável desconhecida: {{${variable}}}` });
+    }
+  }
+});
+
+export type SequenceStep = z.infer<typeof SequenceStepSchema>;
+
+// ============================================================
+// REGRAS DE SAÍDA/PAUSA (régua de follow-up)
+// Virar cliente e "pare" sempre encerram a inscrição
+// ============================================================
+export const SequenceRulesSchema = z.object({
+  // Lead respondeu: recomeça a cadência a partir da resposta, sai da régua
+  // ou segue de onde estava (pausada enquanto a conversa está viva)
+  onReply: z.enum(['restart', 'exit', 'continue']).default('restart'),
+  // Não agenda passo se o lead respondeu há menos de N horas
+  pauseHours: z.number().int().min(0).max(168).default(24),
+  exitOnHandoff: z.boolean().default(true),
+}).strict();
+
+export type SequenceRules = z.infer<typeof SequenceRulesSchema>;
+
+export const DEFAULT_SEQUENCE_RULES: SequenceRules = SequenceRulesSchema.parse({});
+
+export function parseSequenceRules(raw: unknown): SequenceRules {
+  const parsed = SequenceRulesSchema.safeParse(raw ?? {});
+  return parsed.success ? parsed.data : DEFAULT_SEQUENCE_RULES;
+}
+
+export const SequenceInputSchema = z.object({
+  type: z.enum(['followup', 'postpurchase']),
+  name: z.string().min(1).max(80),
+  rules: SequenceRulesSchema.default({}),
+  steps: z.array(SequenceStepSchema).min(1).max(60).superRefine((steps, ctx) => {
+    const days = steps.map(s => s.dayOffset);
+    if (new Set(days).size !== days.length) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Um passo por dia (dayOffset repetido)' });
+    }
+  }),
+});
+
+export type SequenceInput = z.infer<typeof SequenceInputSchema>;
+
+export type Sequence = {
+  id: string;
+  consultant_id: string;
+  type: SequenceType;
+  name: string;
+  status: SequenceStatus;
+  rules: SequenceRules;
+  steps: SequenceStep[];
+  cloned_from: string | null;
+  activated_at: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+const SEQUENCE_COLUMNS = 'id, consultant_id, type, name, status, rules, steps, cloned_from, activated_at, created_at, updated_at';
+
+// ============================================================
+// CRUD (API do dashboard)
+// ============================================================
+export async function listSequences(consultantId: string, type?: SequenceType): Promise<Sequence[]> {
+  let query = db.client
+    .from('sequences')
+    .select(SEQUENCE_COLUMNS)
+    .eq('consultant_id', consultantId)
+    .neq('status', 'archived')
+    .order('created_at', { ascending: false });
+  if (type) query = query.eq('type', type);
+
+  const { data } = await query;
+  return (data ?? []) as Sequence[];
+}
+
+export async function getSequence(id: string, consultantId: string): Promise<Sequence | null> {
+  const { data } = await db.client
+    .from('sequences')
+    .select(SEQUENCE_COLUMNS)
+    .eq('id', id)
+    .eq('consultant_id', consultantId)
+    .maybeSingle();
+  return (data as Sequence | null) ?? null;
+}
+
+export async function createSequence(
+  consultantId: string,
+  input: SequenceInput,
+  clonedFrom: string | null = null
+): Promise<Sequence> {
+  const { data, error } = await db.client
+    .from('sequences')
+    .insert({
+      consultant_id: consultantId,
+      type: input.type,
+      name: input.name,
+      rules: input.rules,
+      steps: sortSteps(input.steps),
+      cloned_from: clonedFrom,
+    })
+    .select(SEQUENCE_COLUMNS)
+    .single();
+
+  if (error) throw new Error(`Erro ao criar régua: ${error.message}`);
+  logger.info(`Régua "${input.name}" (${input.type}) criada para consultor ${consultantId}`);
+  return data as Sequence;
+}
+
+// Só rascunhos são editáveis; a régua ativa se altera clonando
+export async function updateSequence(
+  id: string,
+  consultantId: string,
+  input: SequenceInput
+): Promise<{ status: 'updated'; sequence: Sequence } | { status: 'not_found' } | { status: 'not_draft' }> {
+  const current = await getSequence(id, consultantId);
+  if (!current) return { status: 'not_found' };
+  if (current.status !== 'draft') return { status: 'not_draft' };
+
+  const { data, error } = await db.client
+    .from('sequences')
+    .update({
+      type: input.type,
+      name: input.name,
+      rules: input.rules,
+      steps: sortSteps(input.steps),
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', id)
+    .eq('status', 'draft')
+    .select(SEQUENCE_COLUMNS)
+    .single();
+
+  if (error) throw new Error(`Erro ao atualizar régua ${id}: ${error.message}`);
+  return { status: 'updated', sequence: data as Sequence };
+}
+
+export async function cloneSequence(id: string, consultantId: string, name?: string): Promise<Sequence | null> {
+  const source = await getSequence(id, consultantId);
+  if (!source) return null;
+  return createSequence(consultantId, {
+    type: source.type,
+    name: name ?? `${source.name} (cópia)`,
+    rules: parseSequenceRules(source.rules),
+    steps: source.steps,
+  }, source.id);
+}
+
+// Ativa a régua e arquiva a que estava ativa no mesmo tipo
+export async function activateSequence(id: string, consultantId: string): Promise<Sequence | null> {
+  const sequence = await getSequence(id, consultantId);
+  if (!sequence) return null;
+  if (sequence.status === 'active') return sequence;
+
+  await db.client
+    .from('sequences')
+    .update({ status: 'archived', updated_at: new Date().toISOString() })
+    .eq('consultant_id', consultantId)
+    .eq('type', sequence.type)
+    .eq('status', 'active');
+
+  const now = new Date().toISOString();
+  const { data, error } = await db.client
+    .from('sequences')
+    .update({ status: 'active', activated_at: now, updated_at: now })
+    .eq('id', id)
+    .select(SEQUENCE_COLUMNS)
+    .single();
+
+  if (error) throw new Error(`Erro ao ativar régua ${id}: ${error.message}`);
+  logger.info(`Régua "${sequence.name}" (${sequence.type}) ativada para consultor ${consultantId}`);
+  return data as Sequence;
+}
+
+// Arquiva: o consultor volta para a régua padrão daquele tipo
+export async function archiveSequence(id: string, consultantId: string): Promise<boolean> {
+  const { data } = await db.client
+    .from('sequences')
+    .update({ status: 'archived', updated_at: new Date().toISOString() })
+    .eq('id', id)
+    .eq('consultant_id', consultantId)
+    .select('id')
+    .maybeSingle();
+  return Boolean(data);
+}
+
+function sortSteps(steps: SequenceStep[]): SequenceStep[] {
+  return [...steps].sort((a, b) => a.dayOffset - b.dayOffset);
+}
+
+// ============================================================
+// PRÉ-VISUALIZAÇÃO (texto renderizado + condição com estado de exemplo)
+// ============================================================
+export const PREVIEW_PARAMS: SequenceParams = {
+  name: 'Maria Silva',
+  consultantName: 'Ana',
+  pain: 'falta de energia',
+  product: 'Kit Shake + Chá',
+  streak: 12,
+  daysLeft: 18,
+  weightLost: 2.4,
+  weeklyRateKg: 0.6,
+  goalDate: '15/04',
+};
+
+export function previewSequence(
+  steps: SequenceStep[],
+  params: SequenceParams = PREVIEW_PARAMS,
+  state?: SequenceState
+): Array<SequenceStep & { rendered: string; conditionMet: boolean | null }> {
+  return steps.map(step => ({
+    ...step,
+    rendered: renderSequenceVariant(step.text, params),
+    conditionMet: step.condition && state ? evaluateSequenceCondition(step.condition, state) : null,
+  }));
+}
+
+// ============================================================
+// PASSOS EM VIGOR (scheduler)
+// Régua ativa do consultor ou a padrão, no formato das réguas em código
+// ============================================================
+function toScheduledSteps(steps: SequenceStep[]): FollowupMessage[] {
+  return steps.map(step => ({
+    dayOffset: step.dayOffset,
+    hourOfDay: step.hourOfDay,
+    condition: step.condition,
+    audio: step.audio,
+    getText: params => renderSequenceVariant(step.text, params),
+  }));
+}
+
+export async function getStepsForConsultants(
+  type: SequenceType,
+  consultantIds: string[]
+): Promise<Map<string, FollowupMessage[]>> {
+  const fallback = type === 'followup' ? FOLLOWUP_SEQUENCE : POSTPURCHASE_SEQUENCE;
+  const result = new Map<string, FollowupMessage[]>(consultantIds.map(id => [id, fallback]));
+  if (consultantIds.length === 0) return result;
+
+  const { data } = await db.client
+    .from('sequences')
+    .select('consultant_id, steps')
+    .eq('type', type)
+    .eq('status', 'active')
+    .in('consultant_id', [...new Set(consultantIds)]);
+
+  for (const row of (data ?? []) as Array<{ consultant_id: string; steps: unknown }>) {
+    const parsed = z.array(SequenceStepSchema).safeParse(row.steps);
+    if (!parsed.success) {
+      logger.warn(`Régua ativa inválida no banco (consultor ${row.consultant_id}) — usando a padrão`);
+      continue;
+    }
+    result.set(row.consultant_id, toScheduledSteps(parsed.data));
+  }
+  return result;
+}
+
+// Régua ativa de cada consultor (ausente = padrão do código)
+export async function getActiveSequenceIds(
+  type: SequenceType,
+  consultantIds: string[]
+): Promise<Map<string, string>> {
+  const result = new Map<string, string>();
+  if (consultantIds.length === 0) return result;
+
+  const { data } = await db.client
+    .from('sequences')
+    .select('id, consultant_id')
+    .eq('type', type)
+    .eq('status', 'active')
+    .in('consultant_id', [...new Set(consultantIds)]);
+
+  for (const row of (data ?? []) as Array<{ id: string; consultant_id: string }>) {
+    result.set(row.consultant_id, row.id);
+  }
+  return result;
+}
+
+// Passos e regras de réguas específicas (inscrições seguem a régua em que
+// entraram, mesmo que ela tenha sido arquivada depois)
+export async function getSequencesById(
+  ids: string[]
+): Promise<Map<string, { steps: FollowupMessage[]; rules: SequenceRules }>> {
+  const result = new Map<string, { steps: FollowupMessage[]; rules: SequenceRules }>();
+  if (ids.length === 0) return result;
+
+  const { data } = await db.client
+    .from('sequences')
+    .select('id, steps, rules')
+    .in('id', [...new Set(ids)]);
+
+  for (const row of (data ?? []) as Array<{ id: string; steps: unknown; rules: unknown }>) {
+    const parsed = z.array(SequenceStepSchema).safeParse(row.steps);
+    if (!parsed.success) {
+      logger.warn(`Régua ${row.id} inválida no banco — inscrições dela usam a padrão`);
+      continue;
+    }
+    result.set(row.id, { steps: toScheduledSteps(parsed.data), rules: parseSequenceRules(row.rules) });
+  }
+  return result;
+}
+
+// ============================================================
+// ESTADO DA CONVERSA PARA AS CONDIÇÕES
+// ============================================================
+export function conversationState(
+  messages: ConversationMessage[] | null,
+  handoffTriggered: boolean | null,
+  now: Date = new Date()
+): SequenceState {
+  const fromLead = (messages ?? []).filter(m => m.role === 'user');
+  const last = fromLead.map(m => Date.parse(m.timestamp)).filter(t => !Number.isNaN(t)).sort((a, b) => b - a)[0];
+
+  return {
+    leadMessages: fromLead.length,
+    hoursSinceLastReply: last !== undefined ? Math.floor((now.getTime() - last) / (60 * 60 * 1000)) : undefined,
+    handoffTriggered: Boolean(handoffTriggered),
+  };
+}
+
+// Conversas dos leads (várias por lead são somadas)
+export async function getConversationStates(leadIds: string[]): Promise<Map<string, SequenceState>> {
+  const result = new Map<string, SequenceState>();
+  if (leadIds.length === 0) return result;
+
+  const { data } = await db.client
+    .from('conversations')
+    .select('lead_id, messages, handoff_triggered')
+    .in('lead_id', [...new Set(leadIds)]);
+
+  const byLead = new Map<string, { messages: ConversationMessage[]; handoff: boolean }>();
+  for (const row of (data ?? []) as Array<{ lead_id: string; messages: ConversationMessage[] | null; handoff_triggered: boolean | null }>) {
+    const entry = byLead.get(row.lead_id) ?? { messages: [], handoff: false };
+    entry.messages.push(...(row.messages ?? []));
+    entry.handoff ||= Boolean(row.handoff_triggered);
+    byLead.set(row.lead_id, entry);
+  }
+
+  for (const [leadId, entry] of byLead) {
+    result.set(leadId, conversationState(entry.messages, entry.handoff));
+  }
+  return result;
+}
@@ -0,0 +1,349 @@
+/**
+ * Fila Persistente de Envio (WhatsApp)
+ *
+ * Substitui a fila em memória: cada mensagem vira uma linha em
+ * outbound_messages e um worker no processo envia uma por vez.
+ *
+ * - Ordem por destinatário: a mensagem só sai depois das anteriores do
+ *   mesmo número (claim_outbound_message no Postgres)
+ * - Falha de envio: nova tentativa com backoff exponencial; esgotadas as
+ *   tentativas, vai para dead-letter (status 'dead') e pode ser reenviada
+ *   pelo dashboard
+ * - Rate limit atingido: a mensagem é adiada, nunca descartada
+ * - Chave de idempotência: a mesma chave não enfileira duas vezes
+ * - notBefore: agenda o envio para depois de um horário
+ * - Réguas interrompidas (lead respondeu, "pare"...): envios ainda não
+ *   enviados são cancelados (status 'cancelled')
+ */
+
+import { config } from '../config/index.js';
+import { createLogger } from '../lib/logger.js';
+import { db } from '../database/client.js';
+import { sendText, sendTyping, sendAudio } from '../channels/whatsapp-client.js';
+import { checkRateLimit, randomDelay } from './rate-limiter.js';
+
+const logger = createLogger('OUTBOUND');
+
+export type OutboundPayload =
+  | { type: 'text'; text: string; typingMs?: number; skipDelay?: boolean }
+  | { type: 'audio'; audio: string }; // URL ou data URI base64
+
+export type OutboundStatus = 'pending' | 'sending' | 'sent' | 'dead' | 'cancelled';
+export const OUTBOUND_STATUSES: OutboundStatus[] = ['pending', 'sending', 'sent', 'dead', 'cancelled'];
+
+export type OutboundMessage = {
+  id: string;
+  phone: string;
+  consultant_id: string | null;
+  kind: string;
+  payload: OutboundPayload;
+  meta: Record<string, unknown> | null;
+  status: OutboundStatus;
+  attempts: number;
+  max_attempts: number;
+  scheduled_at: string;
+  not_before: string;
+  last_error: string | null;
+  idempotency_key: string | null;
+  created_at: string;
+  sent_at: string | null;
+};
+
+export type EnqueueOptions = {
+  kind: string;
+  consultantId?: string | null;
+  idempotencyKey?: string;
+  notBefore?: Date;
+  meta?: Record<string, unknown>;
+};
+
+// ============================================================
+// ENFILEIRAR
+// Retorna o id da mensagem, ou null se a chave de idempotência já existia
+// ============================================================
+export async function enqueueMessage(
+  phone: string,
+  payload: OutboundPayload,
+  options: EnqueueOptions
+): Promise<string | null> {
+  const when = (options.notBefore ?? new Date()).toISOString();
+  const { data, error } = await db.client
+    .from('outbound_messages')
+    .insert({
+      phone,
+      consultant_id: options.consultantId ?? null,
+      kind: options.kind,
+      payload,
+      meta: options.meta ?? null,
+      max_attempts: config.outbound.maxAttempts,
+      scheduled_at: when,
+      not_before: when,
+      idempotency_key: options.idempotencyKey ?? null,
+    })
+    .select('id')
+    .single();
+
+  if (error?.code === '23505') {
+    logger.debug(`Envio ignorado (chave repetida): ${options.idempotencyKey}`);
+    return null;
+  }
+  if (error) throw new Error(`Erro ao enfileirar envio (${options.kind}): ${error.message}`);
+
+  if (!options.notBefore || options.notBefore.getTime() <= Date.now()) wakeWorker();
+  return (data as { id: string }).id;
+}
+
+export function enqueueText(
+  phone: string,
+  text: string,
+  options: EnqueueOptions & { typingMs?: number; skipDelay?: boolean }
+): Promise<string | null> {
+  const { typingMs, skipDelay, ...rest } = options;
+  return enqueueMessage(phone, { type: 'text', text, typingMs, skipDelay }, rest);
+}
+
+export function enqueueAudio(
+  phone: string,
+  audio: Buffer,
+  options: EnqueueOptions
+): Promise<string | null> {
+  return enqueueMessage(phone, { type: 'audio', audio: `data:audio/mpeg;base64,${audio.toString('base64')}` }, options);
+}
+
+// ============================================================
+// CANCELAR ENVIOS DE RÉGUA AINDA NA FILA
+// Por inscrição (meta.enrollment_id) ou todos de régua de um número
+// (meta.sequence). Mensagem já em envio ('sending') não é interrompida.
+// ============================================================
+export async function cancelPendingMessages(
+  filter: { enrollmentId: string } | { phone: string },
+  reason: string
+): Promise<Array<{ id: string; meta: Record<string, unknown> | null }>> {
+  let query = db.client
+    .from('outbound_messages')
+    .update({ status: 'cancelled', locked_until: null, last_error: reason })
+    .eq('status', 'pending');
+  query = 'enrollmentId' in filter
+    ? query.eq('meta->>enrollment_id', filter.enrollmentId)
+    : query.eq('phone', filter.phone).not('meta->>sequence', 'is', null);
+
+  const { data, error } = await query.select('id, meta');
+  if (error) throw new Error(`Erro ao cancelar envios: ${error.message}`);
+
+  const cancelled = (data ?? []) as Array<{ id: string; meta: Record<string, unknown> | null }>;
+  if (cancelled.length > 0) logger.info(`${cancelled.length} envios de régua cancelados (${reason})`);
+  return cancelled;
+}
+
+// ============================================================
+// PÓS-ENVIO POR TIPO (ex: marcar prospect como contatado)
+// ============================================================
+type SentHandler = (message: OutboundMessage) => Promise<void>;
+const sentHandlers = new Map<string, SentHandler>();
+
+export function onOutboundSent(kind: string, handler: SentHandler): void {
+  sentHandlers.set(kind, handler);
+}
+
+// ============================================================
+// WORKER
+// ============================================================
+let workerStarted = false;
+let draining = false;
+
+export function startOutboundWorker(): void {
+  if (workerStarted) return;
+  workerStarted = true;
+  setInterval(() => void drainQueue(), config.outbound.pollMs);
+  void drainQueue();
+  logger.info('Worker da fila de envio iniciado');
+}
+
+function wakeWorker(): void {
+  if (workerStarted) void drainQueue();
+}
+
+async function drainQueue(): Promise<void> {
+  if (draining) return;
+  draining = true;
+
+  try {
+    for (;;) {
+      const message = await claimNext();
+      if (!message) break;
+      const delivered = await deliver(message);
+      // Delay entre envios (só quando algo saiu de fato)
+      if (delivered) await randomDelay(1000, 3000);
+    }
+  } catch (error) {
+    logger.error('Erro no worker da fila de envio', error);
+  } finally {
+    draining = false;
+  }
+}
+
+async function claimNext(): Promise<OutboundMessage | null> {
+  const { data, error } = await db.client.rpc('claim_outbound_message', {
+    p_lock_seconds: config.outbound.lockSeconds,
+  });
+  if (error) throw new Error(`Erro ao buscar próximo envio: ${error.message}`);
+  return ((data ?? []) as OutboundMessage[])[0] ?? null;
+}
+
+// Timeout wrapper — garante que o worker NUNCA trava
+function withTimeout<T>(promise: Promise<T>, ms: number): Promise<T> {
+  return Promise.race([
+    promise,
+    new Promise<T>((_, reject) =>
+      setTimeout(() => reject(new Error(`Timeout: operação excedeu ${ms}ms`)), ms)
+    ),
+  ]);
+}
+
+async function send(message: OutboundMessage): Promise<void> {
+  const payload = message.payload;
+  if (payload.type === 'audio') {
+    await sendAudio(message.phone, payload.audio);
+    return;
+  }
+
+  // "digitando..." não bloqueia o envio se falhar
+  if (payload.typingMs) await sendTyping(message.phone, payload.typingMs).catch(() => {});
+  await sendText(message.phone, payload.text, { skipDelay: payload.skipDelay });
+}
+
+async function deliver(message: OutboundMessage): Promise<boolean> {
+  const masked = `${message.phone.substring(0, 6)}...`;
+
+  if (!checkRateLimit(message.phone)) {
+    // Não conta como tentativa
+    await updateMessage(message.id, {
+      status: 'pending',
+      attempts: message.attempts - 1,
+      not_before: new Date(Date.now() + config.outbound.rateLimitDelayMs).toISOString(),
+      locked_until: null,
+    });
+    logger.warn(`Envio adiado por rate limit: ${masked} (${message.kind})`);
+    return false;
+  }
+
+  try {
+    await withTimeout(send(message), config.outbound.sendTimeoutMs);
+  } catch (error) {
+    await recordFailure(message, error);
+    return true;
+  }
+
+  await updateMessage(message.id, {
+    status: 'sent',
+    sent_at: new Date().toISOString(),
+    locked_until: null,
+    last_error: null,
+  });
+  logger.info(`Envio ${message.kind} entregue para ${masked}`);
+
+  const handler = sentHandlers.get(message.kind);
+  if (handler) {
+    await handler(message).catch(error => logger.error(`Erro no pós-envio (${message.kind})`, error));
+  }
+  return true;
+}
+
+function retryDelayMs(attempt: number): number {
+  return Math.min(config.outbound.retryBaseMs * 2 ** (attempt - 1), config.outbound.retryMaxMs);
+}
+
+async function recordFailure(message: OutboundMessage, error: unknown): Promise<void> {
+  const lastError = (error instanceof Error ? error.message : String(error)).substring(0, 500);
+  const masked = `${message.phone.substring(0, 6)}...`;
+
+  if (message.attempts >= message.max_attempts) {
+    await updateMessage(message.id, { status: 'dead', locked_until: null, last_error: lastError });
+    logger.error(`Envio ${message.kind} para ${masked} foi para dead-letter após ${message.attempts} tentativas: ${lastError}`);
+    return;
+  }
+
+  const delayMs = retryDelayMs(message.attempts);
+  await updateMessage(message.id, {
+    status: 'pending',
+    not_before: new Date(Date.now() + delayMs).toISOString(),
+    locked_until: null,
+    last_error: lastError,
+  });
+  logger.warn(`Falha no envio ${message.kind} para ${masked} (tentativa ${message.attempts}/${message.max_attempts}) — nova tentativa em ${Math.round(delayMs / 1000)}s`);
+}
+
+async function updateMessage(id: string, fields: Record<string, unknown>): Promise<void> {
+  const { error } = await db.client.from('outbound_messages').update(fields).eq('id', id);
+  if (error) throw new Error(`Erro ao atualizar envio ${id}: ${error.message}`);
+}
+
+// ============================================================
+// DASHBOARD — inspecionar e reenviar
+// ============================================================
+export type OutboundListItem = Omit<OutboundMessage, 'payload' | 'meta'> & {
+  payload_type: string;
+  text: string | null;
+};
+
+export async function listOutboundMessages(filter: {
+  status?: OutboundStatus;
+  consultantId?: string;
+  phone?: string;
+  limit?: number;
+}): Promise<OutboundListItem[]> {
+  // Áudio fica de fora (base64 grande); só o tipo e o texto
+  let query = db.client
+    .from('outbound_messages')
+    .select('id, phone, consultant_id, kind, status, attempts, max_attempts, scheduled_at, not_before, last_error, idempotency_key, created_at, sent_at, payload_type:payload->>type, text:payload->>text')
+    .order('created_at', { ascending: false })
+    .limit(filter.limit ?? 50);
+  if (filter.status) query = query.eq('status', filter.status);
+  if (filter.consultantId) query = query.eq('consultant_id', filter.consultantId);
+  if (filter.phone) query = query.eq('phone', filter.phone);
+
+  const { data, error } = await query;
+  if (error) throw new Error(`Erro ao listar envios: ${error.message}`);
+  return (data ?? []) as unknown as OutboundListItem[];
+}
+
+export async function getOutboundCounts(): Promise<Record<OutboundStatus, number>> {
+  const counts = await Promise.all(OUTBOUND_STATUSES.map(async status => {
+    const { count } = await db.client
+      .from('outbound_messages')
+      .select('id', { count: 'exact', head: true })
+      .eq('status', status);
+    return [status, count ?? 0] as const;
+  }));
+  return Object.fromEntries(counts) as Record<OutboundStatus, number>;
+}
+
+// Volta uma mensagem em dead-letter para a fila, com tentativas zeradas
+export async function replayOutboundMessage(id: string): Promise<'replayed' | 'not_found' | 'not_dead'> {
+  const { data: updated } = await db.client
+    .from('outbound_messages')
+    .update({
+      status: 'pending',
+      attempts: 0,
+      not_before: new Date().toISOString(),
+      locked_until: null,
+      last_error: null,
+    })
+    .eq('id', id)
+    .eq('status', 'dead')
+    .select('id')
+    .maybeSingle();
+
+  if (updated) {
+    logger.info(`Envio ${id} reenfileirado pelo dashboard`);
+    wakeWorker();
+    return 'replayed';
+  }
+
+  const { data: existing } = await db.client
+    .from('outbound_messages')
+    .select('id')
+    .eq('id', id)
+    .maybeSingle();
+  return existing ? 'not_dead' : 'not_found';
+}
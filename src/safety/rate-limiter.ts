@@ -5,6 +5,7 @@
 
 import { config } from '../config/index.js';
 import { createLogger } from '../lib/logger.js';
+import { localHour, localDateString, addDays, localDateTimeToInstant } from '../lib/timezone.js';
 
 const logger = createLogger('SAFETY');
 
@@ -58,61 +59,23 @@ export function getRateLimitInfo(phone: string): { count: number; remaining: num
 }
 
 // ============================================================
-// FILA GLOBAL DE ENVIO (evita explosão de requisições paralelas)
+// DETECTOR DE HORÁRIO PERMITIDO (8h–21h no fuso do consultor)
 // ============================================================
-type QueueItem = { execute: () => Promise<void>; phone: string };
-const sendQueue: QueueItem[] = [];
-let isProcessing = false;
-
-export function enqueueSend(phone: string, fn: () => Promise<void>): void {
-  sendQueue.push({ execute: fn, phone });
-  if (!isProcessing) processQueue();
-}
+export const ALLOWED_HOURS = { first: 8, last: 21 } as const;
 
-// Timeout wrapper — garante que a fila NUNCA trava
-function withTimeout<T>(promise: Promise<T>, ms: number): Promise<T> {
-  return Promise.race([
-    promise,
-    new Promise<T>((_, reject) =>
-      setTimeout(() => reject(new Error(`Timeout: operação excedeu ${ms}ms`)), ms)
-    ),
-  ]);
+export function isWithinAllowedHours(timeZone: string = config.timezone, now: Date = new Date()): boolean {
+  const hour = localHour(timeZone, now);
+  return hour >= ALLOWED_HOURS.first && hour <= ALLOWED_HOURS.last;
 }
 
-async function processQueue(): Promise<void> {
-  if (sendQueue.length === 0) {
-    isProcessing = false;
-    return;
-  }
-
-  isProcessing = true;
-  const item = sendQueue.shift()!;
-
-  if (!checkRateLimit(item.phone)) {
-    logger.warn(`Mensagem descartada por rate limit: ${item.phone.substring(0, 6)}...`);
-    setImmediate(() => processQueue());
-    return;
-  }
-
-  try {
-    // Timeout de 60s — Claude Opus pode demorar, mas nunca travar a fila
-    await withTimeout(item.execute(), 60000);
-  } catch (error) {
-    logger.error('Erro ao processar item da fila', error);
-  }
-
-  // Delay entre itens da fila
-  await randomDelay(1000, 3000);
-  setImmediate(() => processQueue());
-}
+// Instante fora do horário permitido vai para as 8h seguintes (madrugada → mesmo dia, noite → dia seguinte)
+export function nextAllowedTime(instant: Date, timeZone: string = config.timezone): Date {
+  const hour = localHour(timeZone, instant);
+  if (hour >= ALLOWED_HOURS.first && hour <= ALLOWED_HOURS.last) return instant;
 
-// ============================================================
-// DETECTOR DE HORÁRIO PERMITIDO (8h–21h no fuso do consultor)
-// ============================================================
-export function isWithinAllowedHours(timezoneOffset: number = config.safety.timezoneOffset): boolean {
-  const utcHour = new Date().getUTCHours();
-  const localHour = (utcHour + timezoneOffset + 24) % 24;
-  return localHour >= 8 && localHour <= 21;
+  const date = localDateString(timeZone, instant);
+  const day = hour < ALLOWED_HOURS.first ? date : addDays(date, 1);
+  return localDateTimeToInstant(day, ALLOWED_HOURS.first, timeZone);
 }
 
 // ============================================================
@@ -143,6 +106,7 @@ export const TEXT_VARIATIONS = {
 
 // ============================================================
 // LIMPAR CONTADORES (GC periódico)
+// unref: não segura o processo aberto sozinho (CLI, testes)
 // ============================================================
 setInterval(() => {
   const now = Date.now();
@@ -157,4 +121,4 @@ setInterval(() => {
   }
 
   if (cleaned > 0) logger.debug(`Rate limiter: ${cleaned} contadores limpos`);
-}, 30 * 60 * 1000);
+}, 30 * 60 * 1000).unref();
@@ -0,0 +1,63 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { checkReply, resolveGuardrailRules, stripViolations } from './reply-guardrail.js';
+
+function ruleIds(text: string): string[] {
+  return checkReply(text).map(v => v.ruleId);
+}
+
+describe('regras padrão do guardrail', () => {
+  const violations: Array<[string, string]> = [
+    ['O kit sai R$ 199 no pix', 'price_currency'],
+    ['Fica 150 reais por mês', 'price_currency'],
+    ['O valor do kit é 3x de 66', 'price_amount'],
+    ['Dá uma olhada em https://loja.exemplo', 'link'],
+    ['Me chama no wa.me/5511999999999', 'link'],
+    ['Esse chá cura a ansiedade', 'medical_cure'],
+    ['O shake controla a diabetes', 'medical_treatment'],
+    ['Pode substituir o remédio pelo shake', 'medical_replace_medicine'],
+    ['Com o kit você vai perder 10kg', 'weight_promise'],
+    ['Tem gente que tira 5 quilos em 30 dias', 'weight_timeframe'],
+    ['Na verdade eu sou uma IA', 'bot_admission'],
+    ['Sou um robô, mas posso ajudar', 'bot_admission'],
+    ['Como uma inteligência artificial, não tenho opinião', 'bot_admission'],
+    ['Fui programado para ajudar', 'bot_admission'],
+  ];
+
+  for (const [text, ruleId] of violations) {
+    it(`${ruleId}: "${text}"`, () => {
+      assert.ok(ruleIds(text).includes(ruleId), `${ruleIds(text).join(', ') || 'nenhuma'}`);
+    });
+  }
+
+  const clean = [
+    'Como ia dizendo, o importante é a constância 💚',
+    'Como assim? Me conta mais da sua rotina',
+    'Sou a consultora que te falei, tudo bem?',
+    'O consultor te passa os valores certinhos',
+    'Cada pessoa tem um resultado, o corpo responde no seu tempo',
+    'Procure seu médico antes de mudar qualquer medicação',
+    'Bebeu seus 2 litros de água hoje?',
+  ];
+
+  for (const text of clean) {
+    it(`sem violação: "${text}"`, () => {
+      assert.deepEqual(ruleIds(text), []);
+    });
+  }
+});
+
+describe('config do playbook e remoção de frases', () => {
+  it('regra desligada não dispara e regra extra entra', () => {
+    const rules = resolveGuardrailRules({
+      disabled_rules: ['link'],
+      extra_rules: [{ id: 'concorrente', category: 'custom', pattern: 'marca x', instruction: 'Não cite concorrentes.' }],
+    });
+    assert.deepEqual(checkReply('Veja em www.exemplo.com, melhor que a Marca X', rules).map(v => v.ruleId), ['concorrente']);
+  });
+
+  it('stripViolations remove só a frase problemática', () => {
+    assert.equal(stripViolations('Que bom te ver! O kit custa 199. Bora começar?'), 'Que bom te ver! Bora começar?');
+    assert.equal(stripViolations('Sou uma IA.'), null);
+  });
+});
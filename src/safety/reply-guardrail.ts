@@ -0,0 +1,219 @@
+/**
+ * Guardrail de Conformidade das Respostas Geradas
+ *
+ * Toda resposta do LLM passa por aqui antes do sendText.
+ * Bloqueia o que a persona promete nunca fazer e o que não pode ser dito
+ * sobre suplementos:
+ * - preços e valores
+ * - links
+ * - alegações médicas / de cura ("cura", "trata diabetes")
+ * - promessa de quilos perdidos
+ * - admitir ser robô / IA
+ *
+ * As regras padrão podem ser desligadas ou complementadas pelo playbook
+ * do consultor (campo `guardrail`). Violações ficam em `guardrail_violations`.
+ */
+
+import { createLogger } from '../lib/logger.js';
+import { db } from '../database/client.js';
+
+const logger = createLogger('GUARDRAIL');
+
+// ============================================================
+// TIPOS
+// ============================================================
+export type GuardrailCategory = 'price' | 'link' | 'medical_claim' | 'weight_promise' | 'bot_admission' | 'custom';
+
+export type GuardrailRule = {
+  id: string;
+  category: GuardrailCategory;
+  pattern: RegExp;
+  instruction: string; // como corrigir (vai para o prompt de regeneração)
+};
+
+// Formato vindo do playbook (pattern como string)
+export type GuardrailConfig = {
+  disabled_rules: string[];
+  extra_rules: Array<{ id: string; category: GuardrailCategory; pattern: string; instruction: string }>;
+};
+
+export type GuardrailViolation = {
+  ruleId: string;
+  category: GuardrailCategory;
+  excerpt: string;
+};
+
+export type GuardrailAction = 'regenerated' | 'rewritten' | 'blocked';
+
+// ============================================================
+// REGRAS PADRÃO
+// ============================================================
+const END = '(?=[\\s.,;:!?)]|$)'; // \b não funciona depois de letra acentuada
+
+export const DEFAULT_GUARDRAIL_RULES: GuardrailRule[] = [
+  {
+    id: 'price_currency',
+    category: 'price',
+    pattern: /R\$\s?\d|\b\d+(?:[.,]\d{2})?\s?reais\b/i,
+    instruction: 'Não cite preços nem valores. Se perguntarem, diga que o consultor passa os detalhes.',
+  },
+  {
+    id: 'price_amount',
+    category: 'price',
+    pattern: /\b(?:preço|valor|custa|custo|sai por|parcela)\b[^.?!\n]{0,30}\d/i,
+    instruction: 'Não cite preços nem valores. Se perguntarem, diga que o consultor passa os detalhes.',
+  },
+  {
+    id: 'link',
+    category: 'link',
+    pattern: /https?:\/\/|\bwww\.|\bwa\.me\/|\b[\w-]+\.(?:com|com\.br|net|org|ly|me|shop|link)(?:\/|\b)/i,
+    instruction: 'Não envie links nem endereços de sites.',
+  },
+  {
+    id: 'medical_cure',
+    category: 'medical_claim',
+    pattern: new RegExp(`\\b(?:cura|curar|curou|curam)${END}`, 'i'),
+    instruction: 'Não diga que algo cura. Fale de bem-estar e hábitos, sem alegações médicas.',
+  },
+  {
+    id: 'medical_treatment',
+    category: 'medical_claim',
+    pattern: /\b(?:trata|tratar|elimina|acaba com|reverte|controla)\s+(?:a\s+|o\s+|sua\s+|seu\s+)?(?:diabetes|hipertens|pressão alta|câncer|cancer|depressão|colesterol|tireoide|doença)/i,
+    instruction: 'Não associe os produtos a tratamento de doenças. Sugira procurar um médico quando houver condição de saúde.',
+  },
+  {
+    id: 'medical_replace_medicine',
+    category: 'medical_claim',
+    pattern: /\b(?:substitui|substituir|no lugar d[oa]s?|parar de tomar)\s+(?:o\s+|a\s+|seu\s+|sua\s+)?(?:remédio|medicamento|medicação|insulina)/i,
+    instruction: 'Nunca sugira trocar ou parar medicamentos.',
+  },
+  {
+    id: 'weight_promise',
+    category: 'weight_promise',
+    pattern: /\b(?:(?:vai|vão|pode|garant\w*|promet\w*)\s+(?:conseguir\s+)?(?:perder|emagrecer|eliminar|secar)|perca|elimine)\s+(?:até\s+)?\d+(?:[.,]\d+)?\s?(?:kg|quilos?|kilos?)\b/i,
+    instruction: 'Não prometa quantidade de quilos. Resultados variam de pessoa para pessoa.',
+  },
+  {
+    id: 'weight_timeframe',
+    category: 'weight_promise',
+    pattern: /\b\d+(?:[.,]\d+)?\s?(?:kg|quilos?|kilos?)\s+em\s+\d+\s+(?:dias|semanas|meses)\b/i,
+    instruction: 'Não prometa quantidade de quilos. Resultados variam de pessoa para pessoa.',
+  },
+  {
+    id: 'bot_admission',
+    category: 'bot_admission',
+    pattern: new RegExp(
+      // "como" só com artigo: "como ia dizendo" é português normal
+      `\\b(?:sou\\s+(?:uma?\\s+)?|como\\s+uma?\\s+)(?:ia|inteligência artificial|robô|robo|bot|chatbot|assistente virtual|modelo de linguagem)${END}` +
+      `|\\blanguage model\\b|\\bfui (?:programad|treinad)`,
+      'i'
+    ),
+    instruction: 'Nunca diga que é robô, IA ou assistente virtual. Fale como o PELÍCANO.',
+  },
+];
+
+// ============================================================
+// MONTAR LISTA DE REGRAS (padrão + config do playbook)
+// ============================================================
+const compiledCache = new WeakMap<GuardrailConfig, GuardrailRule[]>();
+
+export function resolveGuardrailRules(guardrail?: GuardrailConfig): GuardrailRule[] {
+  if (!guardrail) return DEFAULT_GUARDRAIL_RULES;
+
+  const cached = compiledCache.get(guardrail);
+  if (cached) return cached;
+
+  const disabled = new Set(guardrail.disabled_rules);
+  const rules = [
+    ...DEFAULT_GUARDRAIL_RULES.filter(r => !disabled.has(r.id)),
+    ...guardrail.extra_rules.map(rule => ({ ...rule, pattern: new RegExp(rule.pattern, 'i') })),
+  ];
+
+  compiledCache.set(guardrail, rules);
+  return rules;
+}
+
+// ============================================================
+// VERIFICAR RESPOSTA
+// ============================================================
+export function checkReply(text: string, rules: GuardrailRule[] = DEFAULT_GUARDRAIL_RULES): GuardrailViolation[] {
+  const violations: GuardrailViolation[] = [];
+
+  for (const rule of rules) {
+    const match = text.match(rule.pattern);
+    if (match) {
+      violations.push({ ruleId: rule.id, category: rule.category, excerpt: match[0] });
+    }
+  }
+
+  return violations;
+}
+
+// Instrução extra para a regeneração
+export function buildCorrectionPrompt(violations: GuardrailViolation[], rules: GuardrailRule[]): string {
+  const instructions = [...new Set(
+    violations.map(v => rules.find(r => r.id === v.ruleId)?.instruction).filter((i): i is string => !!i)
+  )];
+
+  return [
+    `## CORREÇÃO OBRIGATÓRIA`,
+    `Sua resposta anterior foi bloqueada por conter: ${violations.map(v => `"${v.excerpt}"`).join(', ')}.`,
+    ...instructions.map(i => `- ${i}`),
+    `Reescreva a resposta seguindo essas regras, mantendo o mesmo objetivo.`,
+  ].join('\n');
+}
+
+// Último recurso: remove as frases que violam; null se não sobrar nada
+export function stripViolations(text: string, rules: GuardrailRule[] = DEFAULT_GUARDRAIL_RULES): string | null {
+  const sentences = text.split(/(?<=[.!?…])\s+|\n+/);
+  const kept = sentences.filter(sentence => checkReply(sentence, rules).length === 0);
+  const result = kept.join(' ').trim();
+  return result.length > 0 ? result : null;
+}
+
+// ============================================================
+// REGISTRAR VIOLAÇÕES (auditoria por consultor)
+// ============================================================
+export async function recordViolations(params: {
+  consultantId: string;
+  leadId: string;
+  conversationId: string;
+  reply: string;
+  violations: GuardrailViolation[];
+  action: GuardrailAction;
+}): Promise<void> {
+  logger.warn(
+    `Resposta bloqueada (${params.action}) para lead ${params.leadId}: ` +
+    params.violations.map(v => `${v.ruleId}="${v.excerpt}"`).join(', ')
+  );
+
+  try {
+    await db.client.from('guardrail_violations').insert(
+      params.violations.map(v => ({
+        consultant_id: params.consultantId,
+        lead_id: params.leadId,
+        conversation_id: params.conversationId,
+        rule_id: v.ruleId,
+        category: v.category,
+        excerpt: v.excerpt,
+        reply: params.reply,
+        action: params.action,
+      }))
+    );
+  } catch (error) {
+    logger.error('Erro ao registrar violações do guardrail', error);
+  }
+}
+
+export async function getViolations(consultantId: string, days: number = 30): Promise<Array<Record<string, unknown>>> {
+  const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+  const { data } = await db.client
+    .from('guardrail_violations')
+    .select('id, lead_id, conversation_id, rule_id, category, excerpt, reply, action, created_at')
+    .eq('consultant_id', consultantId)
+    .gte('created_at', since)
+    .order('created_at', { ascending: false })
+    .limit(500);
+
+  return (data ?? []) as Array<Record<string, unknown>>;
+}
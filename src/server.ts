@@ -13,6 +13,7 @@ import {
   type EvolutionWebhookPayload,
 } from './channels/whatsapp-handler.js';
 import { startScheduler } from './pipeline/scheduler.js';
+import { startOutboundWorker } from './safety/outbound-queue.js';
 import {
   handleInstagramWebhook,
   handleManyChatWebhook,
@@ -181,7 +182,8 @@ export function startServer(): void {
     logger.info(`   Health:      http://localhost:${PORT}/health`);
   });
 
-  // Iniciar scheduler de réguas
+  // Iniciar worker da fila de envio e scheduler de réguas
+  startOutboundWorker();
   startScheduler();
 }
 